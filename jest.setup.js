@@ -11,25 +11,28 @@ jest.mock('next/server', () => ({
     json: jest.fn((data, init) => ({
       json: () => Promise.resolve(data),
       status: init?.status || 200,
-      headers: new Headers(),
+      headers: new Headers(init?.headers),
+      cookies: { set: jest.fn(), delete: jest.fn() },
     })),
   },
 }));
 
-// Mock Prisma
-jest.mock('@/lib/prisma', () => ({
-  prisma: {
+// Mock Prisma (routes use the default export, tests the named one)
+jest.mock('@/lib/prisma', () => {
+  const prisma = {
     user: {
       findUnique: jest.fn().mockResolvedValue(null),
       findFirst: jest.fn().mockResolvedValue(null),
       create: jest.fn().mockResolvedValue({}),
       update: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
       delete: jest.fn().mockResolvedValue({}),
       findMany: jest.fn().mockResolvedValue([]),
       count: jest.fn().mockResolvedValue(0),
     },
     service: {
       findUnique: jest.fn().mockResolvedValue(null),
+      findFirst: jest.fn().mockResolvedValue(null),
       findMany: jest.fn().mockResolvedValue([]),
       create: jest.fn().mockResolvedValue({}),
       update: jest.fn().mockResolvedValue({}),
@@ -42,6 +45,7 @@ jest.mock('@/lib/prisma', () => ({
       findFirst: jest.fn().mockResolvedValue(null),
       create: jest.fn().mockResolvedValue({}),
       update: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
       delete: jest.fn().mockResolvedValue({}),
       count: jest.fn().mockResolvedValue(0),
     },
@@ -53,14 +57,158 @@ jest.mock('@/lib/prisma', () => ({
       delete: jest.fn().mockResolvedValue({}),
       count: jest.fn().mockResolvedValue(0),
     },
+    session: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    passwordResetToken: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    securityEvent: {
+      create: jest.fn().mockResolvedValue({}),
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    apiKey: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      count: jest.fn().mockResolvedValue(0),
+    },
+    providerApplication: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      upsert: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      count: jest.fn().mockResolvedValue(0),
+    },
+    providerDocument: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      upsert: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    availabilityException: {
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    bookingEvent: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+    },
+    bookingMessage: {
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      groupBy: jest.fn().mockResolvedValue([]),
+    },
+    bookingMessageAttachment: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    rescheduleRequest: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({}),
+    },
+    waitlistEntry: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      count: jest.fn().mockResolvedValue(0),
+    },
+    calendarImport: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      upsert: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    externalBusyBlock: {
+      findMany: jest.fn().mockResolvedValue([]),
+      createMany: jest.fn().mockResolvedValue({ count: 0 }),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    cartItem: {
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      count: jest.fn().mockResolvedValue(0),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    order: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({}),
+    },
+    jobRequest: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    jobRequestPhoto: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    quote: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    bookingSeries: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
     payment: {
       findUnique: jest.fn().mockResolvedValue(null),
       findMany: jest.fn().mockResolvedValue([]),
       create: jest.fn().mockResolvedValue({}),
       update: jest.fn().mockResolvedValue({}),
     },
-  },
-}));
+    $executeRaw: jest.fn().mockResolvedValue(1),
+    $transaction: jest.fn((operations) =>
+      typeof operations === 'function' ? operations(prisma) : Promise.all(operations)
+    ),
+  };
+  return { __esModule: true, prisma, default: prisma };
+});
+
+// Mock Redis (no key has been set and nothing expires)
+jest.mock('@/lib/redis', () => {
+  const redis = {
+    get: jest.fn().mockResolvedValue(null),
+    set: jest.fn().mockResolvedValue('OK'),
+    del: jest.fn().mockResolvedValue(0),
+    incr: jest.fn().mockResolvedValue(1),
+    expire: jest.fn().mockResolvedValue(1),
+    pttl: jest.fn().mockResolvedValue(-2),
+  };
+  return { __esModule: true, default: redis };
+});
 
 // Mock authentication functions
 jest.mock('@/lib/auth', () => ({
@@ -81,6 +229,18 @@ jest.mock('@/lib/auth', () => ({
   }),
   getTokenFromRequest: jest.fn(),
   getUserFromRequest: jest.fn(),
+  createSession: jest.fn((payload) => Promise.resolve({
+    token: `token_${payload.userId}_${payload.email}`,
+    refreshToken: `refresh_${payload.userId}`,
+  })),
+  createImpersonationSession: jest.fn((admin, target) => Promise.resolve({
+    token: `impersonation_${target.id}`,
+    expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+  })),
+  markSessionMfaVerified: jest.fn((payload) => Promise.resolve(`token_${payload.userId}_${payload.email}`)),
+  rotateRefreshToken: jest.fn().mockResolvedValue(null),
+  revokeSession: jest.fn().mockResolvedValue(undefined),
+  revokeUserSessions: jest.fn().mockResolvedValue(undefined),
 }));
 
 // Mock middleware functions
@@ -92,15 +252,48 @@ jest.mock('@/middleware/auth', () => ({
       return await handler(request, mockUser);
     };
   }),
-  withRole: jest.fn((roles) => {
+  withPermission: jest.fn((permission) => {
     return (handler) => {
       return async (request, user) => {
-        // Mock user context for testing
-        const mockUser = user || { userId: 'provider123', email: 'provider@example.com', role: 'provider' };
+        // Tests pick the caller through getUserFromRequest (null meaning
+        // signed out); when it isn't set up the caller is a provider
+        const { getUserFromRequest } = jest.requireMock('@/lib/auth');
+        const { hasPermission } = jest.requireActual('@/lib/permissions');
+        const { NextResponse } = jest.requireMock('next/server');
+        const requestUser = await getUserFromRequest(request);
+        if (requestUser === null) {
+          return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        const mockUser = user || requestUser ||
+          { userId: 'provider123', email: 'provider@example.com', role: 'provider' };
+        if (!hasPermission(mockUser.role, permission)) {
+          return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
         return await handler(request, mockUser);
       };
     };
   }),
+  withVerifiedEmail: jest.fn((handler) => handler),
+  withApprovedProvider: jest.fn((handler) => handler),
+  checkSecondFactor: jest.fn(() => null),
+  checkSecondFactorCode: jest.fn((...args) =>
+    jest.requireActual('@/middleware/auth').checkSecondFactorCode(...args)
+  ),
+  checkImpersonation: jest.fn(() => Promise.resolve(null)),
+  checkCsrf: jest.fn(() => null),
+  checkPermission: jest.fn((user, permission) => {
+    const { hasPermission } = jest.requireActual('@/lib/permissions');
+    if (hasPermission(user.role, permission)) return null;
+    const { NextResponse } = jest.requireMock('next/server');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }),
+}));
+
+// Mock outgoing mail
+jest.mock('@/lib/mail', () => ({
+  APP_URL: 'http://localhost:3000',
+  sendMail: jest.fn().mockResolvedValue(undefined),
+  setMailTransport: jest.fn(),
 }));
 
 // Mock AI recommendation
@@ -114,8 +307,14 @@ jest.mock('@/lib/stripe', () => ({
     paymentIntents: {
       create: jest.fn().mockResolvedValue({}),
       confirm: jest.fn().mockResolvedValue({}),
+      retrieve: jest.fn().mockResolvedValue({}),
+      cancel: jest.fn().mockResolvedValue({}),
+    },
+    refunds: {
+      create: jest.fn().mockResolvedValue({ id: 're_test123' }),
     },
   },
+  formatAmountForStripe: jest.fn((amount) => Math.round(amount * 100)),
 }));
 
 // Setup global test timeout
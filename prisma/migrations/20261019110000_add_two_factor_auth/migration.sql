@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "twoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "twoFactorSecret" TEXT,
+ADD COLUMN     "twoFactorRecoveryCodes" TEXT[],
+ADD COLUMN     "twoFactorLastUsedStep" INTEGER;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "mfaVerifiedAt" TIMESTAMP(3);
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "security_events" (
+    "id" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "userId" TEXT,
+    "ipAddress" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "security_events_userId_idx" ON "security_events"("userId");
+
+-- CreateIndex
+CREATE INDEX "security_events_event_createdAt_idx" ON "security_events"("event", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "security_events" ADD CONSTRAINT "security_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
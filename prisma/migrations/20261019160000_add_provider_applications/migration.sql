@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "ProviderApplicationStatus" AS ENUM ('applied', 'documents_submitted', 'under_review', 'approved', 'rejected');
+
+-- CreateEnum
+CREATE TYPE "ProviderDocumentType" AS ENUM ('identity', 'license', 'insurance');
+
+-- CreateTable
+CREATE TABLE "provider_applications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "ProviderApplicationStatus" NOT NULL DEFAULT 'applied',
+    "rejectionReason" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "provider_applications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "provider_documents" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "type" "ProviderDocumentType" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "provider_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_applications_userId_key" ON "provider_applications"("userId");
+
+-- CreateIndex
+CREATE INDEX "provider_applications_status_submittedAt_idx" ON "provider_applications"("status", "submittedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_documents_storageKey_key" ON "provider_documents"("storageKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_documents_applicationId_type_key" ON "provider_documents"("applicationId", "type");
+
+-- AddForeignKey
+ALTER TABLE "provider_applications" ADD CONSTRAINT "provider_applications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "provider_applications" ADD CONSTRAINT "provider_applications_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "provider_documents" ADD CONSTRAINT "provider_documents_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "provider_applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Providers that signed up before verification existed keep listing services
+INSERT INTO "provider_applications" ("id", "userId", "status", "reviewedAt", "updatedAt")
+SELECT md5('provider_application:' || "id"), "id", 'approved', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "users"
+WHERE "role" = 'provider';
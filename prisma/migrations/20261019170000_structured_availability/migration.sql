@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- CreateTable
+CREATE TABLE "availability_exceptions" (
+    "id" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "serviceId" TEXT,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "ranges" JSONB NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "availability_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "availability_exceptions_providerId_startDate_idx" ON "availability_exceptions"("providerId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "availability_exceptions" ADD CONSTRAINT "availability_exceptions_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "availability_exceptions" ADD CONSTRAINT "availability_exceptions_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Rewrite {days, startTime, endTime} as one range per listed weekday, e.g.
+-- {"monday": [{"start": "09:00", "end": "17:00"}]}. Services without usable
+-- hours end up with none and can't be booked until the provider sets them.
+UPDATE "services"
+SET "availability" = COALESCE(
+    (
+        SELECT jsonb_object_agg(
+            lower("day"),
+            jsonb_build_array(
+                jsonb_build_object(
+                    'start', "availability"->>'startTime',
+                    'end', "availability"->>'endTime'
+                )
+            )
+        )
+        FROM jsonb_array_elements_text("availability"->'days') AS "day"
+        WHERE lower("day") IN ('monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday')
+    ),
+    '{}'::jsonb
+)
+WHERE jsonb_typeof("availability") = 'object'
+  AND jsonb_typeof("availability"->'days') = 'array'
+  AND "availability"->>'startTime' ~ '^\d{2}:\d{2}$'
+  AND "availability"->>'endTime' ~ '^\d{2}:\d{2}$'
+  AND "availability"->>'startTime' < "availability"->>'endTime';
+
+UPDATE "services"
+SET "availability" = '{}'::jsonb
+WHERE jsonb_typeof("availability") <> 'object'
+   OR "availability" ? 'days';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN     "bufferBefore" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "bufferAfter" INTEGER NOT NULL DEFAULT 0;
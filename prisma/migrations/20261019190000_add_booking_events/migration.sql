@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "BookingEventType" AS ENUM ('created', 'status_changed', 'payment_changed', 'notes_changed', 'rescheduled');
+
+-- CreateEnum
+CREATE TYPE "BookingActor" AS ENUM ('customer', 'provider', 'staff', 'system');
+
+-- CreateTable
+CREATE TABLE "booking_events" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "type" "BookingEventType" NOT NULL,
+    "actor" "BookingActor" NOT NULL,
+    "actorId" TEXT,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_events_bookingId_createdAt_idx" ON "booking_events"("bookingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing bookings start their history with their creation; every booking
+-- is created pending
+INSERT INTO "booking_events" ("id", "bookingId", "type", "actor", "actorId", "toValue", "createdAt")
+SELECT 'evt_' || "id", "id", 'created', 'customer', "userId", 'pending', "createdAt"
+FROM "bookings";
@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "BookingEventType" ADD VALUE 'reschedule_proposed';
+ALTER TYPE "BookingEventType" ADD VALUE 'reschedule_declined';
+ALTER TYPE "BookingEventType" ADD VALUE 'reschedule_withdrawn';
+
+-- CreateEnum
+CREATE TYPE "RescheduleStatus" AS ENUM ('pending', 'accepted', 'declined', 'withdrawn');
+
+-- CreateTable
+CREATE TABLE "reschedule_requests" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "actor" "BookingActor" NOT NULL,
+    "actorId" TEXT,
+    "times" TIMESTAMP(3)[],
+    "reason" TEXT,
+    "status" "RescheduleStatus" NOT NULL DEFAULT 'pending',
+    "acceptedTime" TIMESTAMP(3),
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reschedule_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reschedule_requests_bookingId_status_idx" ON "reschedule_requests"("bookingId", "status");
+
+-- AddForeignKey
+ALTER TABLE "reschedule_requests" ADD CONSTRAINT "reschedule_requests_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reschedule_requests" ADD CONSTRAINT "reschedule_requests_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
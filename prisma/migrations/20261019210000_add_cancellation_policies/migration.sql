@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "CancellationPolicy" AS ENUM ('flexible', 'moderate', 'strict');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "cancellationPolicy" "CancellationPolicy" NOT NULL DEFAULT 'flexible';
+
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN     "cancellationPolicy" "CancellationPolicy";
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "cancellationPolicy" "CancellationPolicy" NOT NULL DEFAULT 'flexible',
+ADD COLUMN     "cancellationFee" DOUBLE PRECISION,
+ADD COLUMN     "refundedAmount" DOUBLE PRECISION;
+
+-- Refunds made before amounts were recorded were full refunds
+UPDATE "bookings" SET "refundedAmount" = "totalPrice" WHERE "paymentStatus" = 'refunded';
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('weekly', 'biweekly', 'monthly');
+
+-- CreateEnum
+CREATE TYPE "BookingSeriesStatus" AS ENUM ('active', 'cancelled');
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "booking_series" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "until" DATE,
+    "count" INTEGER,
+    "notes" TEXT,
+    "status" "BookingSeriesStatus" NOT NULL DEFAULT 'active',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bookings_seriesId_idx" ON "bookings"("seriesId");
+
+-- CreateIndex
+CREATE INDEX "booking_series_userId_idx" ON "booking_series"("userId");
+
+-- CreateIndex
+CREATE INDEX "booking_series_providerId_idx" ON "booking_series"("providerId");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "booking_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "paymentDueAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "bookings_status_paymentStatus_paymentDueAt_idx" ON "bookings"("status", "paymentStatus", "paymentDueAt");
+
+-- Unpaid pending bookings made before payments were due get a day to pay,
+-- or until they start if that is sooner
+UPDATE "bookings"
+SET "paymentDueAt" = LEAST(CURRENT_TIMESTAMP + INTERVAL '1 day', "date")
+WHERE "status" = 'pending' AND "paymentStatus" = 'pending';
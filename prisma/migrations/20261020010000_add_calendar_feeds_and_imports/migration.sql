@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "calendarFeedTokenHash" TEXT,
+ADD COLUMN "calendarFeedCreatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "calendar_imports" (
+    "id" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "external_busy_blocks" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "start" TIMESTAMP(3) NOT NULL,
+    "end" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "external_busy_blocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendarFeedTokenHash_key" ON "users"("calendarFeedTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_imports_providerId_name_key" ON "calendar_imports"("providerId", "name");
+
+-- CreateIndex
+CREATE INDEX "external_busy_blocks_providerId_start_idx" ON "external_busy_blocks"("providerId", "start");
+
+-- AddForeignKey
+ALTER TABLE "calendar_imports" ADD CONSTRAINT "calendar_imports_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "external_busy_blocks" ADD CONSTRAINT "external_busy_blocks_importId_fkey" FOREIGN KEY ("importId") REFERENCES "calendar_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
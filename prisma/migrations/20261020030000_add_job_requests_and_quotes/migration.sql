@@ -0,0 +1,98 @@
+-- CreateEnum
+CREATE TYPE "JobRequestStatus" AS ENUM ('open', 'booked', 'cancelled', 'expired');
+
+-- CreateEnum
+CREATE TYPE "QuoteStatus" AS ENUM ('pending', 'accepted', 'rejected', 'withdrawn', 'expired');
+
+-- CreateTable
+CREATE TABLE "job_requests" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "windowStart" TIMESTAMP(3) NOT NULL,
+    "windowEnd" TIMESTAMP(3) NOT NULL,
+    "status" "JobRequestStatus" NOT NULL DEFAULT 'open',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "job_request_photos" (
+    "id" TEXT NOT NULL,
+    "jobRequestId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_request_photos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quotes" (
+    "id" TEXT NOT NULL,
+    "jobRequestId" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "message" TEXT,
+    "status" "QuoteStatus" NOT NULL DEFAULT 'pending',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "bookingId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_requests_category_status_idx" ON "job_requests"("category", "status");
+
+-- CreateIndex
+CREATE INDEX "job_requests_userId_idx" ON "job_requests"("userId");
+
+-- CreateIndex
+CREATE INDEX "job_requests_status_windowEnd_idx" ON "job_requests"("status", "windowEnd");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_request_photos_storageKey_key" ON "job_request_photos"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "job_request_photos_jobRequestId_idx" ON "job_request_photos"("jobRequestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quotes_bookingId_key" ON "quotes"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "quotes_jobRequestId_status_idx" ON "quotes"("jobRequestId", "status");
+
+-- CreateIndex
+CREATE INDEX "quotes_providerId_status_idx" ON "quotes"("providerId", "status");
+
+-- CreateIndex
+CREATE INDEX "quotes_status_expiresAt_idx" ON "quotes"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "job_requests" ADD CONSTRAINT "job_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_request_photos" ADD CONSTRAINT "job_request_photos_jobRequestId_fkey" FOREIGN KEY ("jobRequestId") REFERENCES "job_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_jobRequestId_fkey" FOREIGN KEY ("jobRequestId") REFERENCES "job_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "booking_messages" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_message_attachments" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_message_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_messages_bookingId_createdAt_idx" ON "booking_messages"("bookingId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "booking_messages_senderId_idx" ON "booking_messages"("senderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_message_attachments_storageKey_key" ON "booking_message_attachments"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "booking_message_attachments_messageId_idx" ON "booking_message_attachments"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "booking_messages" ADD CONSTRAINT "booking_messages_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_messages" ADD CONSTRAINT "booking_messages_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_message_attachments" ADD CONSTRAINT "booking_message_attachments_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "booking_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
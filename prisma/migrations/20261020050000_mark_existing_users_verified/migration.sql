@@ -0,0 +1,5 @@
+-- Accounts that signed up before email verification was required keep
+-- booking and listing services. Deleted accounts stay unverified.
+UPDATE "users"
+SET "isVerified" = true
+WHERE "isVerified" = false AND "deletedAt" IS NULL;
@@ -7,52 +7,87 @@ import UserManagement from "@/components/admin/UserManagement";
 import ServiceManagement from "@/components/admin/ServiceManagement";
 import BookingManagement from "@/components/admin/BookingManagement";
 import PaymentManagement from "@/components/admin/PaymentManagement";
+import ProviderApplications from "@/components/admin/ProviderApplications";
+import WaitlistPanel from "@/components/WaitlistPanel";
+import { Permission, hasPermission } from "@/lib/permissions";
 
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState<
-    "users" | "services" | "bookings" | "payments"
+    "users" | "providers" | "services" | "bookings" | "payments"
   >("users");
   const { user } = useAuth();
 
-  const tabs = [
+  const allTabs: {
+    id: string;
+    name: string;
+    icon: string;
+    description: string;
+    permission: Permission;
+  }[] = [
     {
       id: "users",
       name: "Users",
       icon: "👥",
       description: "Manage user accounts and roles",
+      permission: "user:read",
+    },
+    {
+      id: "providers",
+      name: "Providers",
+      icon: "🪪",
+      description: "Verify provider applications",
+      permission: "provider:review",
     },
     {
       id: "services",
       name: "Services",
       icon: "🛠️",
       description: "Manage service listings",
+      permission: "service:moderate",
     },
     {
       id: "bookings",
       name: "Bookings",
       icon: "📅",
       description: "Monitor service bookings",
+      permission: "booking:read",
     },
     {
       id: "payments",
       name: "Payments",
       icon: "💳",
       description: "Track transactions and revenue",
+      permission: "payment:read",
     },
   ];
 
+  // Staff only see the sections their role grants
+  const tabs = allTabs.filter(
+    (tab) => user && hasPermission(user.role, tab.permission)
+  );
+  const currentTab = tabs.some((tab) => tab.id === activeTab)
+    ? activeTab
+    : tabs[0]?.id;
+
   const renderTabContent = () => {
-    switch (activeTab) {
+    switch (currentTab) {
       case "users":
         return <UserManagement />;
+      case "providers":
+        return <ProviderApplications />;
       case "services":
         return <ServiceManagement />;
       case "bookings":
-        return <BookingManagement />;
+        return (
+          <>
+            <BookingManagement />
+            <WaitlistPanel />
+          </>
+        );
       case "payments":
         return <PaymentManagement />;
       default:
-        return <UserManagement />;
+        return null;
     }
   };
 
@@ -76,7 +111,7 @@ export default function AdminDashboard() {
                   key={tab.id}
                   onClick={() => setActiveTab(tab.id as any)}
                   className={`group inline-flex items-center py-4 px-1 border-b-2 font-medium text-sm ${
-                    activeTab === tab.id
+                    currentTab === tab.id
                       ? "border-indigo-500 text-indigo-600"
                       : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
                   }`}
@@ -92,7 +127,7 @@ export default function AdminDashboard() {
         {/* Tab Description */}
         <div className="mt-4 bg-gray-50 rounded-lg p-4">
           <p className="text-sm text-gray-600">
-            {tabs.find((tab) => tab.id === activeTab)?.description}
+            {tabs.find((tab) => tab.id === currentTab)?.description}
           </p>
         </div>
 
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getUserFromRequest } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withPermission } from "@/middleware/auth";
+import {
+  isBookingChangeError,
+  isBookingStatus,
+  transitionBooking,
+  updateBookingNotes,
+} from "@/lib/booking-lifecycle";
+import {
+  isValidChangeReason,
+  MAX_CHANGE_REASON_LENGTH,
+} from "@/lib/booking-events";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("booking:read")(async (request: NextRequest) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== "admin") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "10");
@@ -110,16 +116,14 @@ export async function GET(request: NextRequest) {
       { status: 500 },
     );
   }
-}
+});
 
-export async function PATCH(request: NextRequest) {
+// Staff change a booking through the same lifecycle as its parties; payment
+// status is changed through /api/admin/payments
+export const PATCH = withPermission("booking:manage")(async (request: NextRequest, user: JWTPayload) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== "admin") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const { bookingId, updates } = await request.json();
+    const { bookingId, status, paymentStatus, notes, reason } =
+      await request.json();
 
     if (!bookingId) {
       return NextResponse.json(
@@ -127,38 +131,56 @@ export async function PATCH(request: NextRequest) {
         { status: 400 },
       );
     }
+    if (notes !== undefined && notes !== null && typeof notes !== "string") {
+      return NextResponse.json({ error: "Invalid notes" }, { status: 400 });
+    }
+    if (!isValidChangeReason(reason)) {
+      return NextResponse.json(
+        {
+          error: `Reason must be at most ${MAX_CHANGE_REASON_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
 
-    // Validate status transitions
-    if (updates.status) {
-      const validStatuses = [
-        "pending",
-        "confirmed",
-        "in_progress",
-        "completed",
-        "cancelled",
-      ];
-      if (!validStatuses.includes(updates.status)) {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+    });
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    if (paymentStatus !== undefined && paymentStatus !== booking.paymentStatus) {
+      return NextResponse.json(
+        { error: "Payment status is changed through the payments page" },
+        { status: 400 },
+      );
+    }
+
+    const by = { actor: "staff" as const, userId: user.userId, reason };
+    let updatedBooking = booking;
+
+    if (status !== undefined && status !== booking.status) {
+      if (!isBookingStatus(status)) {
         return NextResponse.json({ error: "Invalid status" }, { status: 400 });
       }
-    }
 
-    // Validate payment status transitions
-    if (updates.paymentStatus) {
-      const validPaymentStatuses = ["pending", "paid", "refunded"];
-      if (!validPaymentStatuses.includes(updates.paymentStatus)) {
+      const result = await transitionBooking(booking, status, by);
+      if (isBookingChangeError(result)) {
         return NextResponse.json(
-          { error: "Invalid payment status" },
-          { status: 400 },
+          { error: result.error },
+          { status: result.status },
         );
       }
+      updatedBooking = result.booking;
     }
 
-    const updatedBooking = await prisma.booking.update({
+    if (notes !== undefined) {
+      await updateBookingNotes(updatedBooking, notes, by);
+    }
+
+    const bookingWithParties = await prisma.booking.findUnique({
       where: { id: bookingId },
-      data: {
-        ...updates,
-        updatedAt: new Date(),
-      },
       include: {
         user: {
           select: {
@@ -188,7 +210,10 @@ export async function PATCH(request: NextRequest) {
       },
     });
 
-    return NextResponse.json({ booking: updatedBooking });
+    return NextResponse.json({
+      message: "Booking updated successfully",
+      booking: bookingWithParties,
+    });
   } catch (error) {
     console.error("Error updating booking:", error);
     return NextResponse.json(
@@ -196,15 +221,10 @@ export async function PATCH(request: NextRequest) {
       { status: 500 },
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withPermission("booking:delete")(async (request: NextRequest) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== "admin") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const bookingId = searchParams.get("id");
 
@@ -247,4 +267,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 },
     );
   }
-}
+});
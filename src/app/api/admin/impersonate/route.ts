@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  JWTPayload,
+  createImpersonationSession,
+  revokeSession,
+} from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { STAFF_ROLES } from '@/lib/permissions';
+import { getClientIp, logSecurityEvent } from '@/lib/security';
+import { setTokenCookies } from '@/lib/session-cookies';
+import { withAuth, withPermission } from '@/middleware/auth';
+
+export const POST = withPermission('user:impersonate')(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { userId } = await request.json();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, role: true },
+    });
+
+    if (!targetUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Staff tokens would carry back-office permissions into the session
+    if (STAFF_ROLES.includes(targetUser.role)) {
+      return NextResponse.json(
+        { error: 'Staff accounts cannot be impersonated' },
+        { status: 403 }
+      );
+    }
+
+    const { token, expiresAt } = await createImpersonationSession(
+      user,
+      targetUser,
+      request
+    );
+
+    await logSecurityEvent('Impersonation started', {
+      userId: targetUser.id,
+      ipAddress: getClientIp(request),
+      impersonatorId: user.userId,
+    });
+
+    // Only the access token cookie changes; the admin's refresh token
+    // brings their own session back once this one ends
+    const response = NextResponse.json({
+      message: 'Impersonation started',
+      token,
+      expiresAt,
+      user: targetUser,
+    });
+    setTokenCookies(response, { token });
+    return response;
+  } catch (error) {
+    console.error('Error starting impersonation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+// Called with the impersonation token to end it before it expires
+export const DELETE = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    if (!user.impersonator || !user.sid) {
+      return NextResponse.json({ error: 'Not impersonating' }, { status: 400 });
+    }
+
+    await revokeSession(user.sid);
+    await logSecurityEvent('Impersonation ended', {
+      userId: user.userId,
+      ipAddress: getClientIp(request),
+      impersonatorId: user.impersonator.userId,
+    });
+
+    return NextResponse.json({ message: 'Impersonation ended' });
+  } catch (error) {
+    console.error('Error ending impersonation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}, { allowImpersonation: true });
@@ -1,15 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromRequest } from '@/lib/auth';
+import { JWTPayload } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { stripe } from '@/lib/stripe';
+import { SENSITIVE_ACTION_MFA_MAX_AGE } from '@/lib/mfa';
+import {
+  isBookingChangeError,
+  markBookingPaid,
+  refundBooking,
+} from '@/lib/booking-lifecycle';
+import { isValidChangeReason, MAX_CHANGE_REASON_LENGTH } from '@/lib/booking-events';
+import {
+  checkPermission,
+  checkSecondFactor,
+  withPermission,
+} from '@/middleware/auth';
 
-export async function GET(request: NextRequest) {
-  try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+function findBookingWithParties(id: string) {
+  return prisma.booking.findUnique({
+    where: { id },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true,
+        },
+      },
+      provider: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true,
+        },
+      },
+      service: {
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          category: true,
+          price: true,
+        },
+      },
+    },
+  });
+}
 
+export const GET = withPermission('payment:read')(async (request: NextRequest) => {
+  try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
@@ -148,20 +187,21 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('payment:manage')(async (request: NextRequest, user: JWTPayload) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { action, bookingId, amount } = await request.json();
+    const { action, bookingId, amount, reason } = await request.json();
 
     if (!action || !bookingId) {
       return NextResponse.json({ error: 'Action and booking ID are required' }, { status: 400 });
     }
+    if (!isValidChangeReason(reason)) {
+      return NextResponse.json(
+        { error: `Reason must be at most ${MAX_CHANGE_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
 
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
@@ -176,115 +216,53 @@ export async function POST(request: NextRequest) {
     }
 
     switch (action) {
-      case 'refund':
-        if (booking.paymentStatus !== 'paid') {
-          return NextResponse.json({ error: 'Cannot refund unpaid booking' }, { status: 400 });
+      case 'refund': {
+        const permissionError = checkPermission(user, 'booking:refund');
+        if (permissionError) {
+          return permissionError;
         }
 
-        // Process refund through Stripe (if stripePaymentId exists)
-        let refundResult = null;
-        const anyBooking = booking as any;
-        if (anyBooking.stripePaymentId && stripe) {
-          try {
-            refundResult = await stripe.refunds.create({
-              payment_intent: anyBooking.stripePaymentId,
-              amount: amount ? Math.round(amount * 100) : undefined, // Convert to cents
-            });
-          } catch (stripeError: any) {
-            console.error('Stripe refund error:', stripeError);
-            return NextResponse.json(
-              { error: 'Refund processing failed: ' + stripeError.message },
-              { status: 400 }
-            );
-          }
+        // Refunds move money, so the second factor must be recent
+        const stepUpError = checkSecondFactor(user, SENSITIVE_ACTION_MFA_MAX_AGE);
+        if (stepUpError) {
+          return stepUpError;
         }
 
-        // Update booking status
-        const updatedBooking = await prisma.booking.update({
-          where: { id: bookingId },
-          data: {
-            paymentStatus: 'refunded',
-            updatedAt: new Date(),
-          },
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                phone: true,
-              },
-            },
-            provider: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                phone: true,
-              },
-            },
-            service: {
-              select: {
-                id: true,
-                name: true,
-                description: true,
-                category: true,
-                price: true,
-              },
-            },
-          },
-        });
+        const refunded = await refundBooking(
+          booking,
+          { actor: 'staff', userId: user.userId, reason },
+          amount
+        );
+        if (isBookingChangeError(refunded)) {
+          return NextResponse.json({ error: refunded.error }, { status: refunded.status });
+        }
+
+        const updatedBooking = await findBookingWithParties(bookingId);
 
         return NextResponse.json({
           booking: updatedBooking,
-          refund: refundResult,
+          refund: refunded.refund,
           message: 'Refund processed successfully',
         });
+      }
 
-      case 'mark_paid':
-        if (booking.paymentStatus === 'paid') {
-          return NextResponse.json({ error: 'Booking already paid' }, { status: 400 });
+      case 'mark_paid': {
+        const paid = await markBookingPaid(booking, {
+          actor: 'staff',
+          userId: user.userId,
+          reason,
+        });
+        if (isBookingChangeError(paid)) {
+          return NextResponse.json({ error: paid.error }, { status: paid.status });
         }
 
-        const paidBooking = await prisma.booking.update({
-          where: { id: bookingId },
-          data: {
-            paymentStatus: 'paid',
-            updatedAt: new Date(),
-          },
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                phone: true,
-              },
-            },
-            provider: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                phone: true,
-              },
-            },
-            service: {
-              select: {
-                id: true,
-                name: true,
-                description: true,
-                category: true,
-                price: true,
-              },
-            },
-          },
-        });
+        const paidBooking = await findBookingWithParties(bookingId);
 
         return NextResponse.json({
           booking: paidBooking,
           message: 'Payment marked as paid',
         });
+      }
 
       default:
         return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
@@ -296,4 +274,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { readProviderDocument } from '@/lib/provider-onboarding';
+import { withPermission } from '@/middleware/auth';
+
+export const GET = withPermission('provider:review')(async (request: NextRequest) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split('/').pop() as string;
+
+    const document = await prisma.providerDocument.findUnique({
+      where: { id },
+    });
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const file = await readProviderDocument(document.storageKey);
+    if (!file) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        'Content-Type': document.contentType,
+        'Content-Disposition': `inline; filename="${encodeURIComponent(document.fileName)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching provider document:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ProviderApplicationStatus } from '@prisma/client';
+import { JWTPayload } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  providerDocumentSelect,
+  sendApplicationDecisionEmail,
+  transitionApplication,
+} from '@/lib/provider-onboarding';
+import { logSecurityEvent } from '@/lib/security';
+import { withPermission } from '@/middleware/auth';
+
+// Applications waiting on staff, oldest submission first
+const QUEUE_STATUSES: ProviderApplicationStatus[] = ['documents_submitted', 'under_review'];
+
+const ACTIONS = {
+  start_review: { from: 'documents_submitted', to: 'under_review' },
+  approve: { from: 'under_review', to: 'approved' },
+  reject: { from: 'under_review', to: 'rejected' },
+} as const;
+
+export const GET = withPermission('provider:review')(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '10');
+    const status = searchParams.get('status') as ProviderApplicationStatus | null;
+
+    const skip = (page - 1) * limit;
+    const where = status ? { status } : { status: { in: QUEUE_STATUSES } };
+
+    const [applications, total] = await Promise.all([
+      prisma.providerApplication.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { submittedAt: 'asc' },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              phone: true,
+              address: true,
+            },
+          },
+          reviewedBy: { select: { id: true, name: true } },
+          documents: { select: providerDocumentSelect },
+        },
+      }),
+      prisma.providerApplication.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      applications,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching provider applications:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PATCH = withPermission('provider:review')(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { applicationId, action, reason } = await request.json();
+
+    if (!applicationId) {
+      return NextResponse.json({ error: 'Application ID is required' }, { status: 400 });
+    }
+
+    if (!(action in ACTIONS)) {
+      return NextResponse.json(
+        { error: 'Action must be start_review, approve or reject' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'reject' && !reason) {
+      return NextResponse.json(
+        { error: 'A reason is required to reject an application' },
+        { status: 400 }
+      );
+    }
+
+    const application = await prisma.providerApplication.findUnique({
+      where: { id: applicationId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+    });
+
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const { from, to } = ACTIONS[action as keyof typeof ACTIONS];
+    const moved =
+      application.status === from &&
+      (await transitionApplication(application.id, from, to, {
+        reviewedById: user.userId,
+        ...(to !== 'under_review' && { reviewedAt: new Date() }),
+        ...(to === 'rejected' && { rejectionReason: reason }),
+      }));
+
+    if (!moved) {
+      return NextResponse.json(
+        { error: `Cannot ${action.replace('_', ' ')} an application that is ${application.status.replace('_', ' ')}` },
+        { status: 409 }
+      );
+    }
+
+    if (to !== 'under_review') {
+      await logSecurityEvent(`Provider application ${to}`, {
+        userId: application.userId,
+        reviewerId: user.userId,
+      });
+
+      // The decision stands even if the email doesn't go out
+      try {
+        await sendApplicationDecisionEmail(application.user, to, reason);
+      } catch (mailError) {
+        console.error('Application decision email error:', mailError);
+      }
+    }
+
+    return NextResponse.json({ message: `Application ${to.replace('_', ' ')}`, status: to });
+  } catch (error) {
+    console.error('Error updating provider application:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
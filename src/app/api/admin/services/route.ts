@@ -1,14 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromRequest } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { withPermission } from '@/middleware/auth';
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission('service:moderate')(async (request: NextRequest) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
@@ -80,15 +75,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PATCH(request: NextRequest) {
+export const PATCH = withPermission('service:moderate')(async (request: NextRequest) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { serviceId, updates } = await request.json();
 
     if (!serviceId) {
@@ -117,15 +107,10 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withPermission('service:delete')(async (request: NextRequest) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const serviceId = searchParams.get('id');
 
@@ -175,4 +160,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromRequest } from '@/lib/auth';
+import { JWTPayload, revokeUserSessions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-
-export async function GET(request: NextRequest) {
+import { SENSITIVE_ACTION_MFA_MAX_AGE } from '@/lib/mfa';
+import { getAccountLocks, unlockAccount } from '@/lib/login-throttle';
+import {
+  DELETION_BLOCKED_MESSAGE,
+  anonymizeUser,
+  getDeletionBlockers,
+  hasDeletionBlockers,
+} from '@/lib/privacy';
+import { logSecurityEvent } from '@/lib/security';
+import { adminUpdateUserSchema } from '@/lib/validation';
+import { checkSecondFactor, withPermission } from '@/middleware/auth';
+
+export const GET = withPermission('user:read')(async (request: NextRequest) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
@@ -56,8 +62,11 @@ export async function GET(request: NextRequest) {
       prisma.user.count({ where }),
     ]);
 
+    // Seconds until each locked-out account can log in again
+    const locks = await getAccountLocks(users.map((u) => u.email));
+
     return NextResponse.json({
-      users,
+      users: users.map((u) => ({ ...u, lockedFor: locks[u.email] ?? null })),
       pagination: {
         page,
         limit,
@@ -72,24 +81,74 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PATCH(request: NextRequest) {
+export const POST = withPermission('user:unlock')(async (request: NextRequest, user: JWTPayload) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const { action, userId } = await request.json();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+
+    if (!targetUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    switch (action) {
+      case 'unlock':
+        await unlockAccount(targetUser.email, targetUser.id);
+        await logSecurityEvent('Account unlocked by staff', {
+          userId: targetUser.id,
+          unlockedBy: user.userId,
+        });
+        return NextResponse.json({ message: 'Account unlocked successfully' });
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error processing user action:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PATCH = withPermission('user:update')(async (request: NextRequest, user: JWTPayload) => {
+  try {
     const { userId, updates } = await request.json();
 
     if (!userId) {
       return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
     }
 
+    const parsed = adminUpdateUserSchema.safeParse(updates ?? {});
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Role changes hand out or take away permissions, so like deletions they
+    // need a fresh second factor
+    if (parsed.data.role !== undefined) {
+      const stepUpError = checkSecondFactor(user, SENSITIVE_ACTION_MFA_MAX_AGE);
+      if (stepUpError) {
+        return stepUpError;
+      }
+    }
+
     const updatedUser = await prisma.user.update({
       where: { id: userId },
-      data: updates,
+      data: parsed.data,
       select: {
         id: true,
         name: true,
@@ -102,6 +161,11 @@ export async function PATCH(request: NextRequest) {
       },
     });
 
+    // Outstanding tokens still carry the old role claim
+    if (parsed.data.role !== undefined) {
+      await revokeUserSessions(userId);
+    }
+
     return NextResponse.json({ user: updatedUser });
   } catch (error) {
     console.error('Error updating user:', error);
@@ -110,15 +174,13 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+// Deleting accounts needs a fresh second factor, not just the login one
+export const DELETE = withPermission('user:delete', {
+  recentSecondFactor: SENSITIVE_ACTION_MFA_MAX_AGE,
+})(async (request: NextRequest, user: JWTPayload) => {
   try {
-    const user = getUserFromRequest(request);
-    if (!user || user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('id');
 
@@ -126,39 +188,25 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
     }
 
-    // Check if user has active bookings or services
-    const userData = await prisma.user.findUnique({
-      where: { id: userId },
-      include: {
-        bookingsAsUser: { where: { status: { in: ['pending', 'confirmed', 'in_progress'] } } },
-        bookingsAsProvider: { where: { status: { in: ['pending', 'confirmed', 'in_progress'] } } },
-        providedServices: { where: { isActive: true } },
-      },
-    });
+    const blockers = await getDeletionBlockers(userId);
 
-    if (!userData) {
+    if (!blockers) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    const hasActiveBookings = userData.bookingsAsUser.length > 0 || userData.bookingsAsProvider.length > 0;
-    const hasActiveServices = userData.providedServices.length > 0;
-
-    if (hasActiveBookings || hasActiveServices) {
+    if (hasDeletionBlockers(blockers)) {
       return NextResponse.json(
-        { 
-          error: 'Cannot delete user with active bookings or services. Please resolve all active items first.',
-          details: {
-            activeUserBookings: userData.bookingsAsUser.length,
-            activeProviderBookings: userData.bookingsAsProvider.length,
-            activeServices: userData.providedServices.length,
-          }
-        },
+        { error: DELETION_BLOCKED_MESSAGE, details: blockers },
         { status: 400 }
       );
     }
 
-    await prisma.user.delete({
-      where: { id: userId },
+    // Past bookings, payments and reviews still reference the account, so
+    // it is anonymized rather than removed
+    await anonymizeUser(userId);
+    await logSecurityEvent('Account deleted', {
+      userId,
+      deletedBy: user.userId,
     });
 
     return NextResponse.json({ message: 'User deleted successfully' });
@@ -169,4 +217,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { rotateApiKey } from "@/lib/api-keys";
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").slice(-2)[0];
+
+    const rotated = await rotateApiKey(user.userId, id);
+    if (!rotated) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: "API key rotated. The previous key stops working within 24 hours",
+      apiKey: rotated.apiKey,
+      key: rotated.key,
+    });
+  } catch (error) {
+    console.error("API key rotation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
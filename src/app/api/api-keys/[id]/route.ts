@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { revokeApiKey } from "@/lib/api-keys";
+
+export const DELETE = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop() as string;
+
+    const revoked = await revokeApiKey(user.userId, id);
+    if (!revoked) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "API key revoked" });
+  } catch (error) {
+    console.error("API key revoke error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
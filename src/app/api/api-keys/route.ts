@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import {
+  MAX_ACTIVE_KEYS_PER_USER,
+  countActiveApiKeys,
+  createApiKey,
+  isApiKeyScope,
+  listApiKeys,
+} from "@/lib/api-keys";
+
+const MAX_EXPIRY_DAYS = 365;
+
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const apiKeys = await listApiKeys(user.userId);
+
+    return NextResponse.json({ apiKeys });
+  } catch (error) {
+    console.error("API keys list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { name, scopes, expiresInDays } = await request.json();
+
+    // Validation
+    if (typeof name !== "string" || !name.trim() || name.length > 100) {
+      return NextResponse.json(
+        { error: "A name of up to 100 characters is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every(isApiKeyScope)
+    ) {
+      return NextResponse.json(
+        { error: "At least one valid scope is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      expiresInDays !== undefined &&
+      expiresInDays !== null &&
+      (!Number.isInteger(expiresInDays) ||
+        expiresInDays < 1 ||
+        expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    if ((await countActiveApiKeys(user.userId)) >= MAX_ACTIVE_KEYS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_ACTIVE_KEYS_PER_USER} active API keys` },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, key } = await createApiKey(user.userId, {
+      name: name.trim(),
+      scopes: Array.from(new Set(scopes)),
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+    });
+
+    return NextResponse.json(
+      {
+        message: "API key created. Store it now, it will not be shown again",
+        apiKey,
+        key,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API key creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { checkSecondFactorCode, withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { TWO_FACTOR_REQUIRED_ROLES } from "@/lib/mfa";
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { code, recoveryCode } = await request.json();
+
+    if (TWO_FACTOR_REQUIRED_ROLES.includes(user.role)) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is mandatory for this account" },
+        { status: 403 }
+      );
+    }
+
+    // Validation
+    if (!code && !recoveryCode) {
+      return NextResponse.json(
+        { error: "Authentication code is required" },
+        { status: 400 }
+      );
+    }
+
+    const userDoc = await prisma.user.findUnique({
+      where: { id: user.userId },
+    });
+    if (!userDoc || !userDoc.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const codeError = await checkSecondFactorCode(request, userDoc, {
+      code,
+      recoveryCode,
+    });
+    if (codeError) {
+      return codeError;
+    }
+
+    await prisma.user.update({
+      where: { id: userDoc.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    return NextResponse.json({
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    console.error("2FA disable error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { checkSecondFactorCode, withAuth } from "@/middleware/auth";
+import { JWTPayload, markSessionMfaVerified } from "@/lib/auth";
+import { setTokenCookies } from "@/lib/session-cookies";
+import { generateRecoveryCodes } from "@/lib/mfa";
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { code } = await request.json();
+
+    // Validation
+    if (!code) {
+      return NextResponse.json(
+        { error: "Authentication code is required" },
+        { status: 400 }
+      );
+    }
+
+    const userDoc = await prisma.user.findUnique({
+      where: { id: user.userId },
+    });
+    if (!userDoc) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (userDoc.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      );
+    }
+
+    if (!userDoc.twoFactorSecret) {
+      return NextResponse.json(
+        { error: "Start two-factor setup first" },
+        { status: 400 }
+      );
+    }
+
+    const codeError = await checkSecondFactorCode(request, userDoc, { code });
+    if (codeError) {
+      return codeError;
+    }
+
+    await prisma.user.update({
+      where: { id: userDoc.id },
+      data: { twoFactorEnabled: true },
+    });
+    const recoveryCodes = await generateRecoveryCodes(userDoc.id);
+
+    // Confirming the code counts as completing the second factor
+    const token = await markSessionMfaVerified(user);
+
+    const response = NextResponse.json({
+      message: "Two-factor authentication enabled",
+      recoveryCodes,
+      token,
+    });
+    setTokenCookies(response, { token });
+    return response;
+  } catch (error) {
+    console.error("2FA enable error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
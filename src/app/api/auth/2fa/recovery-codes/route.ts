@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { checkSecondFactorCode, withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { generateRecoveryCodes } from "@/lib/mfa";
+
+// Replaces every recovery code; the old ones stop working immediately
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { code } = await request.json();
+
+    // Validation
+    if (!code) {
+      return NextResponse.json(
+        { error: "Authentication code is required" },
+        { status: 400 }
+      );
+    }
+
+    const userDoc = await prisma.user.findUnique({
+      where: { id: user.userId },
+    });
+    if (!userDoc || !userDoc.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const codeError = await checkSecondFactorCode(request, userDoc, { code });
+    if (codeError) {
+      return codeError;
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(userDoc.id);
+
+    return NextResponse.json({
+      message: "Recovery codes regenerated",
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error("2FA recovery codes error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { startTwoFactorEnrollment } from "@/lib/mfa";
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const userDoc = await prisma.user.findUnique({
+      where: { id: user.userId },
+    });
+    if (!userDoc) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (userDoc.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      );
+    }
+
+    const { secret, otpauthUrl } = await startTwoFactorEnrollment(userDoc);
+
+    return NextResponse.json({
+      message: "Scan the code with your authenticator app, then confirm it",
+      secret,
+      otpauthUrl,
+    });
+  } catch (error) {
+    console.error("2FA setup error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
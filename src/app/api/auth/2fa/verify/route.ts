@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { checkSecondFactorCode, withAuth } from "@/middleware/auth";
+import { JWTPayload, markSessionMfaVerified } from "@/lib/auth";
+import { setTokenCookies } from "@/lib/session-cookies";
+
+// Step-up verification for an existing session, needed before sensitive
+// admin actions once the login-time verification is too old
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { code, recoveryCode } = await request.json();
+
+    // Validation
+    if (!code && !recoveryCode) {
+      return NextResponse.json(
+        { error: "Authentication code is required" },
+        { status: 400 }
+      );
+    }
+
+    const userDoc = await prisma.user.findUnique({
+      where: { id: user.userId },
+    });
+    if (!userDoc || !userDoc.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const codeError = await checkSecondFactorCode(request, userDoc, {
+      code,
+      recoveryCode,
+    });
+    if (codeError) {
+      return codeError;
+    }
+
+    const token = await markSessionMfaVerified(user);
+
+    const response = NextResponse.json({
+      message: "Two-factor verification successful",
+      token,
+    });
+    setTokenCookies(response, { token });
+    return response;
+  } catch (error) {
+    console.error("2FA verify error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
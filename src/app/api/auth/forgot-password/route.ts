@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { sendPasswordResetEmail } from "@/lib/password";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    // Validation
+    if (!email) {
+      return NextResponse.json(
+        { error: "Email is required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+    if (user) {
+      await sendPasswordResetEmail(user);
+    }
+
+    // Same answer either way so the endpoint can't be used to probe accounts
+    return NextResponse.json({
+      message:
+        "If an account exists for that email, a password reset link has been sent",
+    });
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,53 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { comparePassword, generateToken } from "@/lib/auth";
+import { comparePassword, createSession } from "@/lib/auth";
+import { setSessionCookies } from "@/lib/session-cookies";
+import {
+  TWO_FACTOR_REQUIRED_ROLES,
+  createTwoFactorChallenge,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from "@/lib/mfa";
+import {
+  LoginThrottleResult,
+  checkLoginAllowed,
+  clearFailedLogins,
+  recordFailedLogin,
+} from "@/lib/login-throttle";
+import { getClientIp } from "@/lib/security";
+
+const THROTTLE_MESSAGES = {
+  account_locked:
+    "This account is temporarily locked after too many failed login attempts",
+  too_many_attempts: "Too many failed login attempts, please wait and try again",
+  ip_blocked: "Too many failed login attempts from your network",
+};
+
+function throttledResponse(throttle: LoginThrottleResult) {
+  return NextResponse.json(
+    {
+      error: THROTTLE_MESSAGES[throttle.reason ?? "too_many_attempts"],
+      retryAfter: throttle.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(throttle.retryAfterSeconds ?? 1) },
+    }
+  );
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json();
+    const { email, password, challengeToken, code, recoveryCode } =
+      await request.json();
+
+    // Second step: the password was already checked, now the one-time code
+    if (challengeToken) {
+      return completeTwoFactorLogin(request, challengeToken, {
+        code,
+        recoveryCode,
+      });
+    }
 
     // Validation
     if (!email || !password) {
@@ -14,34 +57,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const ip = getClientIp(request);
+    const throttle = await checkLoginAllowed(email, ip);
+    if (!throttle.allowed) {
+      return throttledResponse(throttle);
+    }
+
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
     });
-    if (!user) {
-      return NextResponse.json(
-        { error: "Invalid credentials" },
-        { status: 401 }
-      );
-    }
 
     // Check password
-    const isValidPassword = comparePassword(password, user.password);
-    if (!isValidPassword) {
+    if (!user || !comparePassword(password, user.password)) {
+      await recordFailedLogin(email, ip, user?.id);
       return NextResponse.json(
         { error: "Invalid credentials" },
         { status: 401 }
       );
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // Failures are only cleared once the whole login succeeds, so guessing
+    // at the second step still locks the account
+    if (user.twoFactorEnabled) {
+      return NextResponse.json({
+        message: "Two-factor authentication required",
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user.id),
+      });
+    }
+
+    // Start a session
+    const { token, refreshToken } = await createSession(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+      },
+      request
+    );
+    await clearFailedLogins(email);
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       message: "Login successful",
       user: {
         id: user.id,
@@ -50,7 +107,14 @@ export async function POST(request: NextRequest) {
         role: user.role,
       },
       token,
+      refreshToken,
+      // The session works for enrollment only until a second factor is set up
+      ...(TWO_FACTOR_REQUIRED_ROLES.includes(user.role) && {
+        twoFactorSetupRequired: true,
+      }),
     });
+    setSessionCookies(response, { token, refreshToken });
+    return response;
   } catch (error) {
     console.error("Login error:", error);
     return NextResponse.json(
@@ -59,3 +123,76 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+async function completeTwoFactorLogin(
+  request: NextRequest,
+  challengeToken: string,
+  input: { code?: string; recoveryCode?: string }
+) {
+  if (!input.code && !input.recoveryCode) {
+    return NextResponse.json(
+      { error: "Authentication code is required" },
+      { status: 400 }
+    );
+  }
+
+  const userId = verifyTwoFactorChallenge(challengeToken);
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Login challenge expired, please sign in again" },
+      { status: 401 }
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+  if (!user || !user.twoFactorEnabled) {
+    return NextResponse.json(
+      { error: "Invalid credentials" },
+      { status: 401 }
+    );
+  }
+
+  // Codes are only six digits, so guesses count against the account too
+  const ip = getClientIp(request);
+  const throttle = await checkLoginAllowed(user.email, ip);
+  if (!throttle.allowed) {
+    return throttledResponse(throttle);
+  }
+
+  const isValidCode = await verifySecondFactor(user, input);
+  if (!isValidCode) {
+    await recordFailedLogin(user.email, ip, user.id);
+    return NextResponse.json(
+      { error: "Invalid authentication code" },
+      { status: 401 }
+    );
+  }
+
+  await clearFailedLogins(user.email);
+
+  const { token, refreshToken } = await createSession(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+    },
+    request,
+    { mfaVerifiedAt: new Date() }
+  );
+
+  const response = NextResponse.json({
+    message: "Login successful",
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+    },
+    token,
+    refreshToken,
+  });
+  setSessionCookies(response, { token, refreshToken });
+  return response;
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload, revokeSession, revokeUserSessions } from "@/lib/auth";
+import { clearSessionCookies } from "@/lib/session-cookies";
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    // An empty body logs out the current session only
+    const { all } = await request.json().catch(() => ({}));
+
+    if (all) {
+      await revokeUserSessions(user.userId);
+    } else if (user.sid) {
+      await revokeSession(user.sid);
+    }
+
+    const response = NextResponse.json({
+      message: all
+        ? "Logged out of all sessions successfully"
+        : "Logged out successfully",
+    });
+    clearSessionCookies(response);
+    return response;
+  } catch (error) {
+    console.error("Logout error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload, comparePassword, createSession } from "@/lib/auth";
+import { setSessionCookies } from "@/lib/session-cookies";
+import { isStrongPassword } from "@/lib/security";
+import { WEAK_PASSWORD_MESSAGE, updatePassword } from "@/lib/password";
+
+export const PUT = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { currentPassword, newPassword } = await request.json();
+
+    // Validation
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: "Current and new password are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isStrongPassword(newPassword)) {
+      return NextResponse.json(
+        { error: WEAK_PASSWORD_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    const userDoc = await prisma.user.findUnique({
+      where: { id: user.userId },
+    });
+    if (!userDoc) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!comparePassword(currentPassword, userDoc.password)) {
+      return NextResponse.json(
+        { error: "Current password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    await updatePassword(userDoc.id, newPassword);
+
+    // Every session was revoked, including this one; hand back a new pair
+    const { token, refreshToken } = await createSession(
+      {
+        userId: userDoc.id,
+        email: userDoc.email,
+        role: userDoc.role,
+      },
+      request
+    );
+
+    const response = NextResponse.json({
+      message: "Password changed successfully",
+      token,
+      refreshToken,
+    });
+    setSessionCookies(response, { token, refreshToken });
+    return response;
+  } catch (error) {
+    console.error("Change password error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
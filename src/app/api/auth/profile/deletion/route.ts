@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { checkSecondFactorCode, withAuth } from "@/middleware/auth";
+import { JWTPayload, comparePassword } from "@/lib/auth";
+import { STAFF_ROLES } from "@/lib/permissions";
+import {
+  DELETION_BLOCKED_MESSAGE,
+  anonymizeUser,
+  getDeletionBlockers,
+  hasDeletionBlockers,
+} from "@/lib/privacy";
+import { logSecurityEvent } from "@/lib/security";
+import { clearSessionCookies } from "@/lib/session-cookies";
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { password, code, recoveryCode } = await request.json();
+
+    // Validation
+    if (!password) {
+      return NextResponse.json(
+        { error: "Password is required" },
+        { status: 400 }
+      );
+    }
+
+    const userDoc = await prisma.user.findUnique({
+      where: { id: user.userId },
+    });
+    if (!userDoc) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (STAFF_ROLES.includes(userDoc.role)) {
+      return NextResponse.json(
+        { error: "Staff accounts are removed by an administrator" },
+        { status: 403 }
+      );
+    }
+
+    // A stolen access token alone must not be enough to erase the account
+    if (!comparePassword(password, userDoc.password)) {
+      return NextResponse.json(
+        { error: "Password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    if (userDoc.twoFactorEnabled) {
+      const codeError = await checkSecondFactorCode(request, userDoc, {
+        code,
+        recoveryCode,
+      });
+      if (codeError) {
+        return codeError;
+      }
+    }
+
+    const blockers = await getDeletionBlockers(userDoc.id);
+    if (blockers && hasDeletionBlockers(blockers)) {
+      return NextResponse.json(
+        { error: DELETION_BLOCKED_MESSAGE, details: blockers },
+        { status: 400 }
+      );
+    }
+
+    await anonymizeUser(userDoc.id);
+    await logSecurityEvent("Account deleted", {
+      userId: userDoc.id,
+      deletedBy: userDoc.id,
+    });
+
+    const response = NextResponse.json({
+      message: "Your account has been deleted",
+    });
+    clearSessionCookies(response);
+    return response;
+  } catch (error) {
+    console.error("Account deletion error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
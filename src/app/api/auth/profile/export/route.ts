@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { exportUserData } from "@/lib/privacy";
+import { getClientIp, logSecurityEvent } from "@/lib/security";
+
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    // The export is for the account holder, not for staff viewing as them
+    if (user.impersonator) {
+      return NextResponse.json(
+        { error: "This action is not allowed while impersonating a user" },
+        { status: 403 }
+      );
+    }
+
+    const data = await exportUserData(user.userId);
+    if (!data) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    await logSecurityEvent("Data export downloaded", {
+      userId: user.userId,
+      ipAddress: getClientIp(request),
+    });
+
+    const date = data.exportedAt.slice(0, 10);
+    return NextResponse.json(data, {
+      headers: {
+        "Content-Disposition": `attachment; filename="justservicehub-data-${date}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Data export error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { withAuth } from "@/middleware/auth";
+import { isValidTimeZone } from "@/lib/availability";
+import { cancellationPolicySchema } from "@/lib/cancellation-policies";
 
 export const GET = withAuth(async (request: NextRequest, user: any) => {
   try {
@@ -14,6 +16,9 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
         address: true,
         role: true,
         isVerified: true,
+        twoFactorEnabled: true,
+        timeZone: true,
+        cancellationPolicy: true,
         createdAt: true,
       },
     });
@@ -23,6 +28,7 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
 
     return NextResponse.json({
       user: userDoc,
+      impersonator: user.impersonator ?? null,
     });
   } catch (error) {
     console.error("Profile error:", error);
@@ -35,11 +41,26 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
 
 export const PUT = withAuth(async (request: NextRequest, user: any) => {
   try {
-    const { name, phone, address } = await request.json();
+    const { name, phone, address, timeZone, cancellationPolicy } =
+      await request.json();
+
+    // Validation
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return NextResponse.json({ error: "Invalid time zone" }, { status: 400 });
+    }
+    if (cancellationPolicy !== undefined) {
+      const parsedPolicy = cancellationPolicySchema.safeParse(cancellationPolicy);
+      if (!parsedPolicy.success) {
+        return NextResponse.json(
+          { error: parsedPolicy.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+    }
 
     const updatedUser = await prisma.user.update({
       where: { id: user.userId },
-      data: { name, phone, address },
+      data: { name, phone, address, timeZone, cancellationPolicy },
       select: {
         id: true,
         name: true,
@@ -48,6 +69,8 @@ export const PUT = withAuth(async (request: NextRequest, user: any) => {
         address: true,
         role: true,
         isVerified: true,
+        timeZone: true,
+        cancellationPolicy: true,
       },
     });
 
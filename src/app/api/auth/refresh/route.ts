@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rotateRefreshToken } from "@/lib/auth";
+import { checkCsrf } from "@/middleware/auth";
+import {
+  REFRESH_TOKEN_COOKIE,
+  getCookie,
+  setTokenCookies,
+} from "@/lib/session-cookies";
+
+export async function POST(request: NextRequest) {
+  try {
+    const csrfError = checkCsrf(request);
+    if (csrfError) {
+      return csrfError;
+    }
+
+    // API clients post the refresh token; the browser app sends its cookie
+    const body = await request.json().catch(() => ({}));
+    const fromCookie = !body.refreshToken;
+    const refreshToken = fromCookie
+      ? getCookie(request, REFRESH_TOKEN_COOKIE)
+      : body.refreshToken;
+
+    // Validation
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: "Refresh token is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Invalid or expired refresh token" },
+        { status: 401 }
+      );
+    }
+
+    // Cookie sessions never see their tokens, so a script on the page
+    // can't take them elsewhere
+    if (fromCookie) {
+      const response = NextResponse.json({
+        message: "Token refreshed successfully",
+      });
+      setTokenCookies(response, result);
+      return response;
+    }
+
+    return NextResponse.json({
+      message: "Token refreshed successfully",
+      token: result.token,
+      refreshToken: result.refreshToken,
+    });
+  } catch (error) {
+    console.error("Token refresh error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
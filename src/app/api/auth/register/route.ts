@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { hashPassword, generateToken } from "@/lib/auth";
+import { hashPassword, createSession } from "@/lib/auth";
+import { setSessionCookies } from "@/lib/session-cookies";
+import { sendVerificationEmail } from "@/lib/verification";
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,6 +17,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Staff roles are granted by an admin, never chosen at sign-up
+    if (role && !["user", "provider", "admin"].includes(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
     // Admin registration security
     if (role === "admin") {
       // Check if admin already exists
@@ -61,17 +68,32 @@ export async function POST(request: NextRequest) {
         address,
         role: role || "user",
         // Location will be set via separate API call from client
+        // Providers can't list services until their application is approved
+        ...(role === "provider"
+          ? { providerApplication: { create: {} } }
+          : {}),
       },
     });
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // A failed delivery should not block sign-up; the user can request
+    // another email from /api/auth/verify-email/resend
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error("Verification email error:", mailError);
+    }
 
-    return NextResponse.json(
+    // Start a session
+    const { token, refreshToken } = await createSession(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+      },
+      request
+    );
+
+    const response = NextResponse.json(
       {
         message: "User created successfully",
         user: {
@@ -81,9 +103,12 @@ export async function POST(request: NextRequest) {
           role: user.role,
         },
         token,
+        refreshToken,
       },
       { status: 201 }
     );
+    setSessionCookies(response, { token, refreshToken });
+    return response;
   } catch (error) {
     console.error("Registration error:", error);
     return NextResponse.json(
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isStrongPassword } from "@/lib/security";
+import {
+  WEAK_PASSWORD_MESSAGE,
+  consumePasswordResetToken,
+  updatePassword,
+} from "@/lib/password";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    // Validation
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: "Token and password are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isStrongPassword(password)) {
+      return NextResponse.json(
+        { error: WEAK_PASSWORD_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    const userId = await consumePasswordResetToken(token);
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Invalid or expired reset token" },
+        { status: 400 }
+      );
+    }
+
+    await updatePassword(userId, password);
+
+    return NextResponse.json({
+      message: "Password reset successfully. Please sign in again.",
+    });
+  } catch (error) {
+    console.error("Reset password error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
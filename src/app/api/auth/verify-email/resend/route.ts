@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import redis from "@/lib/redis";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { sendVerificationEmail } from "@/lib/verification";
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export const POST = withAuth(
+  async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const userDoc = await prisma.user.findUnique({
+        where: { id: user.userId },
+      });
+      if (!userDoc) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
+
+      if (userDoc.isVerified) {
+        return NextResponse.json(
+          { error: "Email is already verified" },
+          { status: 400 }
+        );
+      }
+
+      // Shared across replicas so the cooldown can't be dodged by hitting
+      // another instance
+      const acquired = await redis.set(
+        `verify-email:resend:${userDoc.id}`,
+        "1",
+        "EX",
+        RESEND_COOLDOWN_SECONDS,
+        "NX"
+      );
+      if (!acquired) {
+        return NextResponse.json(
+          { error: "Please wait before requesting another email" },
+          { status: 429 }
+        );
+      }
+
+      await sendVerificationEmail(userDoc);
+
+      return NextResponse.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Verification resend error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
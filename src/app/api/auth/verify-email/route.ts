@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { verifyEmailVerificationToken } from "@/lib/verification";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    // Validation
+    if (!token) {
+      return NextResponse.json(
+        { error: "Verification token is required" },
+        { status: 400 }
+      );
+    }
+
+    const payload = verifyEmailVerificationToken(token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: "Invalid or expired verification token" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+    });
+    if (!user || user.email !== payload.email) {
+      return NextResponse.json(
+        { error: "Invalid or expired verification token" },
+        { status: 400 }
+      );
+    }
+
+    if (!user.isVerified) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { isVerified: true },
+      });
+    }
+
+    return NextResponse.json({ message: "Email verified successfully" });
+  } catch (error) {
+    console.error("Email verification error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withPermission } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+
+// Removes the import along with its busy times
+export const DELETE = withPermission("service:publish")(
+  async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const { pathname } = new URL(request.url);
+      const id = pathname.split("/").pop() as string;
+
+      const { count } = await prisma.calendarImport.deleteMany({
+        where: { id, providerId: user.userId },
+      });
+      if (count === 0) {
+        return NextResponse.json(
+          { error: "Calendar import not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Calendar import deleted successfully",
+      });
+    } catch (error) {
+      console.error("Calendar import deletion error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import {
+  MAX_CALENDAR_FILE_SIZE,
+  importCalendar,
+  listCalendarImports,
+} from "@/lib/calendar-sync";
+
+export const GET = withPermission("service:publish")(
+  async (request: NextRequest, user: JWTPayload) => {
+    try {
+      return NextResponse.json({
+        calendars: await listCalendarImports(user.userId),
+      });
+    } catch (error) {
+      console.error("Calendar imports error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// Multipart form with an .ics `file` and an optional `name`. Uploading a
+// calendar with the name of an earlier import replaces its busy times.
+export const POST = withPermission("service:publish")(
+  async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      const name = formData.get("name");
+
+      // Validation
+      if (!file || typeof file === "string") {
+        return NextResponse.json({ error: "File is required" }, { status: 400 });
+      }
+
+      if (file.size === 0 || file.size > MAX_CALENDAR_FILE_SIZE) {
+        return NextResponse.json(
+          { error: "Calendar files must be smaller than 1 MB" },
+          { status: 400 }
+        );
+      }
+
+      const result = await importCalendar(user.userId, await file.text(), {
+        name: typeof name === "string" ? name : null,
+        fileName: file.name,
+      });
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json(
+        { message: "Calendar imported", ...result },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Calendar import error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
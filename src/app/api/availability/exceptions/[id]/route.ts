@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withPermission } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+
+export const DELETE = withPermission("service:publish")(
+  async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const { pathname } = new URL(request.url);
+      const id = pathname.split("/").pop() as string;
+
+      const { count } = await prisma.availabilityException.deleteMany({
+        where: { id, providerId: user.userId },
+      });
+      if (count === 0) {
+        return NextResponse.json(
+          { error: "Availability exception not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Availability exception deleted successfully",
+      });
+    } catch (error) {
+      console.error("Availability exception deletion error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
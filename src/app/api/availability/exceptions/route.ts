@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withPermission } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import {
+  availabilityExceptionSchema,
+  fromCalendarDate,
+  toCalendarDate,
+} from "@/lib/availability";
+
+// Past exceptions no longer affect bookings and are left out
+export const GET = withPermission("service:publish")(
+  async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const exceptions = await prisma.availabilityException.findMany({
+        where: {
+          providerId: user.userId,
+          endDate: { gte: fromCalendarDate(toCalendarDate(new Date())) },
+        },
+        include: { service: { select: { id: true, name: true } } },
+        orderBy: { startDate: "asc" },
+      });
+
+      return NextResponse.json({
+        exceptions: exceptions.map((exception) => ({
+          ...exception,
+          startDate: toCalendarDate(exception.startDate),
+          endDate: toCalendarDate(exception.endDate),
+        })),
+      });
+    } catch (error) {
+      console.error("Availability exceptions error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withPermission("service:publish")(
+  async (request: NextRequest, user: JWTPayload) => {
+    try {
+      // Validation
+      const parsed = availabilityExceptionSchema.safeParse(
+        await request.json()
+      );
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const { startDate, endDate, serviceId, ranges, reason } = parsed.data;
+
+      if (serviceId) {
+        const service = await prisma.service.findFirst({
+          where: { id: serviceId, providerId: user.userId },
+          select: { id: true },
+        });
+        if (!service) {
+          return NextResponse.json(
+            { error: "Service not found" },
+            { status: 404 }
+          );
+        }
+      }
+
+      const exception = await prisma.availabilityException.create({
+        data: {
+          providerId: user.userId,
+          serviceId: serviceId ?? null,
+          startDate: fromCalendarDate(startDate),
+          endDate: fromCalendarDate(endDate ?? startDate),
+          ranges,
+          reason: reason ?? null,
+        },
+      });
+
+      return NextResponse.json(
+        {
+          message: "Availability exception created successfully",
+          exception: {
+            ...exception,
+            startDate: toCalendarDate(exception.startDate),
+            endDate: toCalendarDate(exception.endDate),
+          },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Availability exception creation error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
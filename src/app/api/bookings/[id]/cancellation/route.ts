@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth } from "@/middleware/auth";
+import {
+  checkBookingTransition,
+  getBookingActor,
+  quoteCancellation,
+} from "@/lib/booking-lifecycle";
+import { describeCancellationPolicy } from "@/lib/cancellation-policies";
+
+// What cancelling the booking now would refund, shown before the caller
+// confirms the cancellation
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").slice(-2)[0];
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+    });
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const actor = getBookingActor(booking, user);
+    if (!actor) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const transitionError = checkBookingTransition(booking, "cancelled", actor);
+    if (transitionError) {
+      return NextResponse.json(
+        { error: transitionError.error },
+        { status: transitionError.status }
+      );
+    }
+
+    const quote = quoteCancellation(booking, actor);
+
+    return NextResponse.json({
+      quote: {
+        ...quote,
+        paid: booking.paymentStatus === "paid",
+        totalPrice: booking.totalPrice,
+        terms: describeCancellationPolicy(booking.cancellationPolicy),
+      },
+    });
+  } catch (error) {
+    console.error("Cancellation quote error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
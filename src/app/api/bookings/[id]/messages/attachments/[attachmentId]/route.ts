@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import { readBookingMessageAttachment } from "@/lib/booking-messages";
+
+// Attachments are only shown to those who can read the thread
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const [id, , , attachmentId] = pathname.split("/").slice(-4);
+
+    const attachment = await prisma.bookingMessageAttachment.findFirst({
+      where: { id: attachmentId, message: { bookingId: id } },
+      include: {
+        message: {
+          select: { booking: { select: { userId: true, providerId: true } } },
+        },
+      },
+    });
+    const booking = attachment?.message.booking;
+    if (
+      !attachment ||
+      !booking ||
+      (booking.userId !== user.userId &&
+        booking.providerId !== user.userId &&
+        !hasPermission(user.role, "message:read"))
+    ) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      );
+    }
+
+    const file = await readBookingMessageAttachment(attachment.storageKey);
+    if (!file) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": attachment.contentType,
+        "Content-Disposition": `inline; filename="${encodeURIComponent(attachment.fileName)}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Booking message attachment error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import {
+  ALLOWED_ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  bookingMessageSchema,
+  getMessagingClosesAt,
+  listBookingMessages,
+  markBookingMessagesRead,
+  sendBookingMessage,
+} from "@/lib/booking-messages";
+
+// The thread, oldest first. Opening it marks the other party's messages as
+// read. Staff who settle disputes can read any thread but not write in it.
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").slice(-2)[0];
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        userId: true,
+        providerId: true,
+        status: true,
+        updatedAt: true,
+      },
+    });
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const isParty =
+      booking.userId === user.userId || booking.providerId === user.userId;
+    if (!isParty && !hasPermission(user.role, "message:read")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    // An admin impersonating a party only looks, so the receipts stay unset
+    if (isParty && !user.impersonator) {
+      await markBookingMessagesRead(booking.id, user.userId);
+    }
+    const messages = await listBookingMessages(booking.id);
+    const closesAt = await getMessagingClosesAt(booking);
+
+    return NextResponse.json({
+      messages,
+      closesAt,
+      canSend: isParty && (!closesAt || closesAt > new Date()),
+    });
+  } catch (error) {
+    console.error("Booking messages error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
+
+// Multipart form with `body` and up to three `attachments`
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").slice(-2)[0];
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true, email: true } },
+        provider: { select: { name: true, email: true } },
+        service: { select: { name: true } },
+      },
+    });
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    // Only the parties write in the thread
+    if (booking.userId !== user.userId && booking.providerId !== user.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+
+    // Validation
+    const parsed = bookingMessageSchema.safeParse({
+      body: formData.get("body") ?? "",
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const files = formData
+      .getAll("attachments")
+      .filter((file): file is File => typeof file !== "string");
+    if (
+      files.some(
+        (file) => !ALLOWED_ATTACHMENT_CONTENT_TYPES.includes(file.type)
+      )
+    ) {
+      return NextResponse.json(
+        { error: "Attachments must be PDF, JPEG or PNG files" },
+        { status: 400 }
+      );
+    }
+    if (
+      files.some((file) => file.size === 0 || file.size > MAX_ATTACHMENT_SIZE)
+    ) {
+      return NextResponse.json(
+        { error: "Attachments must be smaller than 10 MB" },
+        { status: 400 }
+      );
+    }
+
+    const result = await sendBookingMessage(
+      booking,
+      user.userId,
+      parsed.data.body,
+      await Promise.all(
+        files.map(async (file) => ({
+          fileName: file.name,
+          contentType: file.type,
+          data: Buffer.from(await file.arrayBuffer()),
+        }))
+      )
+    );
+    if (isBookingChangeError(result)) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Message sent", bookingMessage: result.message },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Booking message send error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:manage" });
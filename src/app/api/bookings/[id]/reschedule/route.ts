@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import {
+  getBookingActor,
+  isBookingChangeError,
+} from "@/lib/booking-lifecycle";
+import {
+  RESCHEDULABLE_STATUSES,
+  getPendingReschedule,
+  proposeReschedule,
+  proposeRescheduleSchema,
+  respondToReschedule,
+  respondToRescheduleSchema,
+} from "@/lib/booking-reschedule";
+
+function findBookingWithService(request: NextRequest) {
+  const { pathname } = new URL(request.url);
+  const id = pathname.split("/").slice(-2)[0];
+
+  return prisma.booking.findUnique({
+    where: { id },
+    include: {
+      service: {
+        select: {
+          id: true,
+          name: true,
+          providerId: true,
+          duration: true,
+          bufferBefore: true,
+          bufferAfter: true,
+          availability: true,
+        },
+      },
+    },
+  });
+}
+
+// The pending request, if the booking can still be moved
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const booking = await findBookingWithService(request);
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const isParty =
+      booking.userId === user.userId || booking.providerId === user.userId;
+    if (!isParty && !hasPermission(user.role, "booking:read")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const pending = RESCHEDULABLE_STATUSES.includes(booking.status)
+      ? await getPendingReschedule(booking.id)
+      : null;
+
+    return NextResponse.json({ request: pending });
+  } catch (error) {
+    console.error("Reschedule request error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const booking = await findBookingWithService(request);
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const actor = getBookingActor(booking, user);
+    if (!actor) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    // Validation
+    const parsed = proposeRescheduleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await proposeReschedule(
+      booking,
+      { actor, userId: user.userId, reason: parsed.data.reason },
+      parsed.data.times.map((time) => new Date(time))
+    );
+    if (isBookingChangeError(result)) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "New times proposed", request: result.request },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Reschedule proposal error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:manage" });
+
+export const PATCH = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const booking = await findBookingWithService(request);
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const actor = getBookingActor(booking, user);
+    if (!actor) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    // Validation
+    const parsed = respondToRescheduleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const response = parsed.data;
+    const result = await respondToReschedule(
+      booking,
+      {
+        actor,
+        userId: user.userId,
+        reason: response.action === "decline" ? response.reason : null,
+      },
+      response
+    );
+    if (isBookingChangeError(result)) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      message:
+        response.action === "accept"
+          ? "Booking rescheduled"
+          : `Reschedule request ${result.request.status}`,
+      booking: {
+        id: result.booking.id,
+        date: result.booking.date,
+        status: result.booking.status,
+        paymentStatus: result.booking.paymentStatus,
+      },
+      request: result.request,
+    });
+  } catch (error) {
+    console.error("Reschedule response error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:manage" });
@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { hasPermission } from "@/lib/permissions";
 import { withAuth } from "@/middleware/auth";
+import {
+  getBookingActor,
+  isBookingChangeError,
+  isBookingStatus,
+  transitionBooking,
+  updateBookingNotes,
+} from "@/lib/booking-lifecycle";
+import {
+  isValidChangeReason,
+  MAX_CHANGE_REASON_LENGTH,
+} from "@/lib/booking-events";
 
 export const GET = withAuth(async (request: NextRequest, user: any) => {
   try {
@@ -45,12 +57,12 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
     }
 
     // Check if user has permission to view this booking
-    // Allow access if user is the customer, provider, or admin
+    // Allow access if user is the customer, provider, or staff
     const isCustomer = booking.userId === user.userId;
     const isProvider = booking.providerId === user.userId;
-    const isAdmin = user.role === "admin";
+    const canReadAny = hasPermission(user.role, "booking:read");
 
-    if (!isCustomer && !isProvider && !isAdmin) {
+    if (!isCustomer && !isProvider && !canReadAny) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -67,6 +79,11 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
         notes: booking.notes,
         totalPrice: booking.totalPrice,
         paymentStatus: booking.paymentStatus,
+        paymentDueAt: booking.paymentDueAt,
+        cancellationPolicy: booking.cancellationPolicy,
+        cancellationFee: booking.cancellationFee,
+        refundedAmount: booking.refundedAmount,
+        seriesId: booking.seriesId,
         service: {
           id: booking.service.id,
           name: booking.service.name,
@@ -100,7 +117,7 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
       { status: 500 },
     );
   }
-});
+}, { apiKeyScope: "bookings:read" });
 
 export const PUT = withAuth(async (request: NextRequest, user: any) => {
   try {
@@ -114,39 +131,49 @@ export const PUT = withAuth(async (request: NextRequest, user: any) => {
       return NextResponse.json({ error: "Booking not found" }, { status: 404 });
     }
 
-    const { status, notes } = await request.json();
+    const { status, notes, reason } = await request.json();
 
     // Authorization checks
-    if (user.role === "user" && booking.userId !== user.userId) {
+    const actor = getBookingActor(booking, user);
+    if (!actor) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    if (user.role === "provider" && booking.providerId !== user.userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    // Validation
+    if (notes !== undefined && notes !== null && typeof notes !== "string") {
+      return NextResponse.json({ error: "Invalid notes" }, { status: 400 });
     }
-
-    // Status transition validation
-    const allowedStatuses: { [key: string]: string[] } = {
-      user: ["cancelled"],
-      provider: ["confirmed", "in_progress", "completed", "cancelled"],
-      admin: ["pending", "confirmed", "in_progress", "completed", "cancelled"],
-    };
-
-    if (status && !allowedStatuses[user.role]?.includes(status)) {
+    if (!isValidChangeReason(reason)) {
       return NextResponse.json(
-        { error: "Invalid status transition" },
+        {
+          error: `Reason must be at most ${MAX_CHANGE_REASON_LENGTH} characters`,
+        },
         { status: 400 },
       );
     }
 
-    const updateData: any = {};
-    if (status) updateData.status = status;
-    if (notes !== undefined) updateData.notes = notes;
+    const by = { actor, userId: user.userId, reason };
+    let updatedBooking = booking;
+
+    // Status changes go through the booking lifecycle
+    if (status) {
+      if (!isBookingStatus(status)) {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+      }
+
+      const result = await transitionBooking(booking, status, by);
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status },
+        );
+      }
+      updatedBooking = result.booking;
+    }
 
-    const updatedBooking = await prisma.booking.update({
-      where: { id },
-      data: updateData,
-    });
+    if (notes !== undefined) {
+      updatedBooking = await updateBookingNotes(updatedBooking, notes, by);
+    }
 
     return NextResponse.json({
       message: "Booking updated successfully",
@@ -163,7 +190,7 @@ export const PUT = withAuth(async (request: NextRequest, user: any) => {
       { status: 500 },
     );
   }
-});
+}, { apiKeyScope: "bookings:manage" });
 
 export const DELETE = withAuth(async (request: NextRequest, user: any) => {
   try {
@@ -177,29 +204,34 @@ export const DELETE = withAuth(async (request: NextRequest, user: any) => {
       return NextResponse.json({ error: "Booking not found" }, { status: 404 });
     }
 
-    // Only allow cancellation, not deletion
-    if (booking.status === "completed" || booking.status === "cancelled") {
-      return NextResponse.json(
-        { error: "Cannot cancel completed or already cancelled booking" },
-        { status: 400 },
-      );
-    }
-
     // Check permissions
-    if (
-      booking.userId !== user.userId &&
-      booking.providerId !== user.userId &&
-      user.role !== "admin"
-    ) {
+    const actor = getBookingActor(booking, user);
+    if (!actor) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    await prisma.booking.update({
-      where: { id },
-      data: { status: "cancelled" },
+    // Only allow cancellation, not deletion
+    const result = await transitionBooking(booking, "cancelled", {
+      actor,
+      userId: user.userId,
     });
+    if (isBookingChangeError(result)) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status },
+      );
+    }
 
-    return NextResponse.json({ message: "Booking cancelled successfully" });
+    return NextResponse.json({
+      message: "Booking cancelled successfully",
+      booking: {
+        id: result.booking.id,
+        status: result.booking.status,
+        paymentStatus: result.booking.paymentStatus,
+        cancellationFee: result.booking.cancellationFee,
+        refundedAmount: result.booking.refundedAmount,
+      },
+    });
   } catch (error) {
     console.error("Booking cancellation error:", error);
     return NextResponse.json(
@@ -207,4 +239,4 @@ export const DELETE = withAuth(async (request: NextRequest, user: any) => {
       { status: 500 },
     );
   }
-});
+}, { apiKeyScope: "bookings:manage" });
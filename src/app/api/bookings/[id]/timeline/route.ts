@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import { getBookingTimeline } from "@/lib/booking-events";
+
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").slice(-2)[0];
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: { id: true, userId: true, providerId: true },
+    });
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    // The parties and staff who can read any booking
+    const isParty =
+      booking.userId === user.userId || booking.providerId === user.userId;
+    if (!isParty && !hasPermission(user.role, "booking:read")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const events = await getBookingTimeline(booking.id);
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Booking timeline error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth } from "@/middleware/auth";
+import { getUnreadMessageCounts } from "@/lib/booking-messages";
+
+// Unread messages on the caller's bookings, by booking
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const unread = await getUnreadMessageCounts(user.userId);
+    const total = Object.values(unread).reduce((sum, count) => sum + count, 0);
+
+    return NextResponse.json({ unread, total });
+  } catch (error) {
+    console.error("Unread booking messages error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { withAuth } from "@/middleware/auth";
+import { withAuth, withVerifiedEmail } from "@/middleware/auth";
+import { withProviderCalendarLock } from "@/lib/booking-conflicts";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import { createBooking } from "@/lib/booking-creation";
 
 export const GET = withAuth(async (request: NextRequest, user: any) => {
   try {
@@ -67,6 +70,8 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
         notes: booking.notes,
         totalPrice: booking.totalPrice,
         paymentStatus: booking.paymentStatus,
+        paymentDueAt: booking.paymentDueAt,
+        seriesId: booking.seriesId,
         service: {
           id: booking.service.id,
           name: booking.service.name,
@@ -108,91 +113,98 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
       { status: 500 },
     );
   }
-});
-
-export const POST = withAuth(async (request: NextRequest, user: any) => {
-  try {
-    const { serviceId, date, notes } = await request.json();
-
-    // Validation
-    if (!serviceId || !date) {
-      return NextResponse.json(
-        { error: "Service ID and date are required" },
-        { status: 400 },
+}, { apiKeyScope: "bookings:read" });
+
+export const POST = withAuth(
+  withVerifiedEmail(async (request: NextRequest, user: any) => {
+    try {
+      const { serviceId, date, notes } = await request.json();
+
+      // Validation
+      if (!serviceId || !date) {
+        return NextResponse.json(
+          { error: "Service ID and date are required" },
+          { status: 400 },
+        );
+      }
+
+      if (isNaN(Date.parse(date))) {
+        return NextResponse.json(
+          { error: "Invalid date format" },
+          { status: 400 },
+        );
+      }
+
+      // Check if service exists and is active
+      const service = await prisma.service.findUnique({
+        where: { id: serviceId },
+      });
+      if (!service || !service.isActive) {
+        return NextResponse.json(
+          { error: "Service not found or unavailable" },
+          { status: 404 },
+        );
+      }
+
+      // Check if user is not booking their own service
+      if (service.providerId === user.userId) {
+        return NextResponse.json(
+          { error: "Cannot book your own service" },
+          { status: 400 },
+        );
+      }
+
+      // Check the provider's hours and overlapping bookings, and create
+      // under the provider's calendar lock
+      const booking = await withProviderCalendarLock(
+        service.providerId,
+        (tx) =>
+          createBooking(tx, {
+            service,
+            userId: user.userId,
+            date: new Date(date),
+            notes,
+          }),
       );
-    }
 
-    // Check if service exists and is active
-    const service = await prisma.service.findUnique({
-      where: { id: serviceId },
-    });
-    if (!service || !service.isActive) {
-      return NextResponse.json(
-        { error: "Service not found or unavailable" },
-        { status: 404 },
-      );
-    }
+      if (isBookingChangeError(booking)) {
+        // The customer can wait for a taken time to free up
+        if (booking.status === 409) {
+          return NextResponse.json(
+            { error: "Service is not available at this time", waitlist: true },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(
+          { error: booking.error },
+          { status: booking.status },
+        );
+      }
 
-    // Check if user is not booking their own service
-    if (service.providerId === user.userId) {
       return NextResponse.json(
-        { error: "Cannot book your own service" },
-        { status: 400 },
-      );
-    }
-
-    // Check for conflicting bookings
-    const conflictingBooking = await prisma.booking.findFirst({
-      where: {
-        serviceId: serviceId,
-        date: new Date(date),
-        status: {
-          in: ["pending", "confirmed", "in_progress"],
+        {
+          message: "Booking created successfully",
+          booking: {
+            id: booking.id,
+            date: booking.date,
+            status: booking.status,
+            totalPrice: booking.totalPrice,
+            service: {
+              id: service.id,
+              name: service.name,
+              description: service.description,
+            },
+          },
         },
-      },
-    });
-
-    if (conflictingBooking) {
+        { status: 201 },
+      );
+    } catch (error) {
+      console.error("Booking creation error:", error);
       return NextResponse.json(
-        { error: "Service is not available at this time" },
-        { status: 400 },
+        { error: "Internal server error" },
+        { status: 500 },
       );
     }
-
-    // Create booking
-    const booking = await prisma.booking.create({
-      data: {
-        userId: user.userId,
-        serviceId: serviceId,
-        providerId: service.providerId,
-        date: new Date(date),
-        notes,
-        totalPrice: service.price,
-      },
-    });
-
-    return NextResponse.json(
-      {
-        message: "Booking created successfully",
-        booking: {
-          id: booking.id,
-          date: booking.date,
-          status: booking.status,
-          totalPrice: booking.totalPrice,
-          service: {
-            id: service.id,
-            name: service.name,
-            description: service.description,
-          },
-        },
-      },
-      { status: 201 },
-    );
-  } catch (error) {
-    console.error("Booking creation error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 },
-    );
-  }
-});
+  }),
+  { apiKeyScope: "bookings:create" },
+);
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import {
+  getBookingActor,
+  isBookingChangeError,
+} from "@/lib/booking-lifecycle";
+import {
+  cancelBookingSeries,
+  seriesActionSchema,
+  skipOccurrence,
+} from "@/lib/booking-series";
+
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop();
+
+    const series = await prisma.bookingSeries.findUnique({
+      where: { id },
+      include: {
+        service: { select: { id: true, name: true, duration: true } },
+        user: { select: { id: true, name: true } },
+        provider: { select: { id: true, name: true } },
+        bookings: {
+          select: {
+            id: true,
+            date: true,
+            status: true,
+            paymentStatus: true,
+            totalPrice: true,
+          },
+          orderBy: { date: "asc" },
+        },
+      },
+    });
+    if (!series) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    const isParty =
+      series.userId === user.userId || series.providerId === user.userId;
+    if (!isParty && !hasPermission(user.role, "booking:read")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error("Booking series details error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
+
+// Skips one occurrence or cancels the rest of the series
+export const PATCH = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop();
+
+    const series = await prisma.bookingSeries.findUnique({
+      where: { id },
+    });
+    if (!series) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    const actor = getBookingActor(series, user);
+    if (!actor) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    // Validation
+    const parsed = seriesActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const action = parsed.data;
+    const by = { actor, userId: user.userId, reason: action.reason };
+
+    if (action.action === "skip") {
+      const result = await skipOccurrence(series, action.bookingId, by);
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        message: "Occurrence skipped",
+        booking: {
+          id: result.booking.id,
+          status: result.booking.status,
+          paymentStatus: result.booking.paymentStatus,
+          cancellationFee: result.booking.cancellationFee,
+          refundedAmount: result.booking.refundedAmount,
+        },
+      });
+    }
+
+    const result = await cancelBookingSeries(series, by);
+    if (isBookingChangeError(result)) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Booking series cancelled",
+      series: result.series,
+      cancelled: result.cancelled.map((booking) => ({
+        id: booking.id,
+        date: booking.date,
+        paymentStatus: booking.paymentStatus,
+        cancellationFee: booking.cancellationFee,
+        refundedAmount: booking.refundedAmount,
+      })),
+      failed: result.failed,
+    });
+  } catch (error) {
+    console.error("Booking series update error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:manage" });
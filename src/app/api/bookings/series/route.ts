@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth, withVerifiedEmail } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import {
+  createBookingSeries,
+  createSeriesSchema,
+} from "@/lib/booking-series";
+
+// The caller's series with their occurrences, for grouping them on the
+// dashboards. Staff see every series.
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const where: Prisma.BookingSeriesWhereInput = {};
+    if (user.role === "user") {
+      where.userId = user.userId;
+    } else if (user.role === "provider") {
+      where.providerId = user.userId;
+    }
+
+    const series = await prisma.bookingSeries.findMany({
+      where,
+      include: {
+        service: { select: { id: true, name: true } },
+        user: { select: { id: true, name: true } },
+        provider: { select: { id: true, name: true } },
+        bookings: {
+          select: { id: true, date: true, status: true, paymentStatus: true },
+          orderBy: { date: "asc" },
+        },
+      },
+      orderBy: { startsAt: "desc" },
+    });
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error("Booking series list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
+
+export const POST = withAuth(
+  withVerifiedEmail(async (request: NextRequest, user: JWTPayload) => {
+    try {
+      // Validation
+      const parsed = createSeriesSchema.safeParse(await request.json());
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const service = await prisma.service.findUnique({
+        where: { id: parsed.data.serviceId },
+      });
+      if (!service || !service.isActive) {
+        return NextResponse.json(
+          { error: "Service not found or unavailable" },
+          { status: 404 }
+        );
+      }
+      if (service.providerId === user.userId) {
+        return NextResponse.json(
+          { error: "Cannot book your own service" },
+          { status: 400 }
+        );
+      }
+
+      const result = await createBookingSeries(
+        service,
+        user.userId,
+        parsed.data
+      );
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          message: "Booking series created successfully",
+          series: result.series,
+          bookings: result.bookings.map((booking) => ({
+            id: booking.id,
+            date: booking.date,
+            status: booking.status,
+            totalPrice: booking.totalPrice,
+          })),
+          skipped: result.skipped,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Booking series creation error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }),
+  { apiKeyScope: "bookings:create" }
+);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth, withVerifiedEmail } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import { claimWaitlistOffer } from "@/lib/waitlist";
+
+// Books the time offered to the entry. Only the customer the time is held
+// for can claim it, and only while the offer is open.
+export const POST = withAuth(
+  withVerifiedEmail(async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const { pathname } = new URL(request.url);
+      const id = pathname.split("/").slice(-2)[0];
+
+      const entry = await prisma.waitlistEntry.findUnique({
+        where: { id },
+        include: { service: true },
+      });
+      if (!entry) {
+        return NextResponse.json(
+          { error: "Waitlist entry not found" },
+          { status: 404 }
+        );
+      }
+      if (entry.userId !== user.userId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      }
+
+      const result = await claimWaitlistOffer(entry);
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const { booking } = result;
+      return NextResponse.json(
+        {
+          message: "Booking created successfully",
+          booking: {
+            id: booking.id,
+            date: booking.date,
+            status: booking.status,
+            totalPrice: booking.totalPrice,
+            service: {
+              id: entry.service.id,
+              name: entry.service.name,
+              description: entry.service.description,
+            },
+          },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Waitlist claim error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }),
+  { apiKeyScope: "bookings:create" }
+);
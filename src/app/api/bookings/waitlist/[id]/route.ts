@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import { leaveWaitlist } from "@/lib/waitlist";
+
+// Takes the entry off the waitlist, passing an open offer on to the next
+// customer in line
+export const DELETE = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop();
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id },
+    });
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Waitlist entry not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      entry.userId !== user.userId &&
+      !hasPermission(user.role, "booking:manage")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const result = await leaveWaitlist(entry);
+    if (isBookingChangeError(result)) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Left the waitlist",
+      entry: result.entry,
+    });
+  } catch (error) {
+    console.error("Waitlist leave error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:manage" });
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth, withVerifiedEmail } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import {
+  ACTIVE_WAITLIST_STATUSES,
+  getWaitlistPosition,
+  isWaitlistStatus,
+  joinWaitlist,
+  joinWaitlistSchema,
+} from "@/lib/waitlist";
+
+// The caller's waitlist entries, or the entries for a provider's services, in
+// the order they are offered times. Staff see every entry.
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const serviceId = searchParams.get("serviceId");
+    const status = searchParams.get("status");
+
+    if (status && !isWaitlistStatus(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    // Entries still in line unless a status is asked for
+    const where: Prisma.WaitlistEntryWhereInput = {
+      status: isWaitlistStatus(status)
+        ? status
+        : { in: ACTIVE_WAITLIST_STATUSES },
+    };
+    if (user.role === "user") {
+      where.userId = user.userId;
+    } else if (user.role === "provider") {
+      where.providerId = user.userId;
+    }
+    if (serviceId) where.serviceId = serviceId;
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where,
+      include: {
+        service: { select: { id: true, name: true, duration: true } },
+        user: { select: { id: true, name: true } },
+        provider: { select: { id: true, name: true } },
+      },
+      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+    });
+
+    return NextResponse.json({
+      entries: await Promise.all(
+        entries.map(async (entry) => ({
+          ...entry,
+          position: ACTIVE_WAITLIST_STATUSES.includes(entry.status)
+            ? await getWaitlistPosition(entry)
+            : null,
+        }))
+      ),
+    });
+  } catch (error) {
+    console.error("Waitlist list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
+
+export const POST = withAuth(
+  withVerifiedEmail(async (request: NextRequest, user: JWTPayload) => {
+    try {
+      // Validation
+      const parsed = joinWaitlistSchema.safeParse(await request.json());
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const service = await prisma.service.findUnique({
+        where: { id: parsed.data.serviceId },
+      });
+      if (!service || !service.isActive) {
+        return NextResponse.json(
+          { error: "Service not found or unavailable" },
+          { status: 404 }
+        );
+      }
+      if (service.providerId === user.userId) {
+        return NextResponse.json(
+          { error: "Cannot book your own service" },
+          { status: 400 }
+        );
+      }
+
+      const result = await joinWaitlist(service, user.userId, parsed.data);
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          message: "Joined the waitlist",
+          entry: { ...result.entry, position: result.position },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Waitlist join error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }),
+  { apiKeyScope: "bookings:create" }
+);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCalendarFeed } from "@/lib/calendar-sync";
+
+// The feed calendar apps subscribe to. Apps can't sign in, so the secret
+// token in the URL is what lets them read it.
+export async function GET(request: NextRequest) {
+  try {
+    const { pathname } = new URL(request.url);
+    const token = (pathname.split("/").pop() as string).replace(/\.ics$/, "");
+
+    const calendar = await getCalendarFeed(token);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: "Calendar feed not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="bookings.ics"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed download error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
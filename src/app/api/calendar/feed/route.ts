@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth } from "@/middleware/auth";
+import {
+  createCalendarFeed,
+  getCalendarFeedStatus,
+  revokeCalendarFeed,
+} from "@/lib/calendar-sync";
+
+// Whether the user has a calendar feed; its URL is only shown when created
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    return NextResponse.json({ feed: await getCalendarFeedStatus(user.userId) });
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
+
+// Creates the feed URL, replacing the old one if there is one
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const url = await createCalendarFeed(user.userId);
+
+    return NextResponse.json(
+      { message: "Calendar feed created", url },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Calendar feed creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    await revokeCalendarFeed(user.userId);
+
+    return NextResponse.json({ message: "Calendar feed turned off" });
+  } catch (error) {
+    console.error("Calendar feed revocation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth } from "@/middleware/auth";
+
+export const DELETE = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop() as string;
+
+    const { count } = await prisma.cartItem.deleteMany({
+      where: { id, userId: user.userId },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Cart item not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Removed from cart" });
+  } catch (error) {
+    console.error("Remove from cart error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:create" });
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth, withVerifiedEmail } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import { checkoutCart } from "@/lib/orders";
+
+// Books everything in the cart as one order, or nothing. When an item can't
+// be booked, `items` says which and why, and the cart is left as it was.
+export const POST = withAuth(
+  withVerifiedEmail(async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const result = await checkoutCart(user.userId);
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error, items: result.items },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          message: "Order created successfully",
+          order: { ...result.order, bookings: result.bookings },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Checkout error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }),
+  { apiKeyScope: "bookings:create" }
+);
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import { addToCart, addToCartSchema } from "@/lib/orders";
+
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const items = await prisma.cartItem.findMany({
+      where: { userId: user.userId },
+      include: {
+        service: {
+          select: {
+            id: true,
+            name: true,
+            price: true,
+            duration: true,
+            provider: { select: { id: true, name: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({
+      items,
+      totalPrice: items.reduce((sum, item) => sum + item.service.price, 0),
+    });
+  } catch (error) {
+    console.error("Cart error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
+
+// Adds a time to the cart. Nothing is held for it until checkout.
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    // Validation
+    const parsed = addToCartSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const service = await prisma.service.findUnique({
+      where: { id: parsed.data.serviceId },
+    });
+    if (!service) {
+      return NextResponse.json(
+        { error: "Service not found or unavailable" },
+        { status: 404 }
+      );
+    }
+
+    const result = await addToCart(service, user.userId, parsed.data);
+    if (isBookingChangeError(result)) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Added to cart", item: result.item },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Add to cart error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:create" });
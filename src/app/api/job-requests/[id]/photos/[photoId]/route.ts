@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import { canViewJobRequest, readJobRequestPhoto } from "@/lib/job-requests";
+
+// Photos are only shown to those who can see the request
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const [id, , photoId] = pathname.split("/").slice(-3);
+
+    const photo = await prisma.jobRequestPhoto.findFirst({
+      where: { id: photoId, jobRequestId: id },
+      include: { jobRequest: true },
+    });
+    if (
+      !photo ||
+      !(await canViewJobRequest(
+        photo.jobRequest,
+        user.userId,
+        hasPermission(user.role, "booking:read")
+      ))
+    ) {
+      return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+    }
+
+    const file = await readJobRequestPhoto(photo.storageKey);
+    if (!file) {
+      return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": photo.contentType,
+        "Content-Disposition": `inline; filename="${encodeURIComponent(photo.fileName)}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Job request photo error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
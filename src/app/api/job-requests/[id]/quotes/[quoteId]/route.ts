@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth, withVerifiedEmail } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import { acceptQuote, rejectQuote, withdrawQuote } from "@/lib/job-requests";
+
+// `{ "action": "accept" }` books the quote and `reject` turns it down, both
+// for the customer; `withdraw` takes it back, for the provider who sent it
+export const PATCH = withAuth(
+  withVerifiedEmail(async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const { pathname } = new URL(request.url);
+      const [id, , quoteId] = pathname.split("/").slice(-3);
+      const { action } = await request.json();
+
+      const quote = await prisma.quote.findFirst({
+        where: { id: quoteId, jobRequestId: id },
+        include: {
+          jobRequest: true,
+          service: true,
+          provider: { select: { name: true, email: true } },
+        },
+      });
+      if (!quote) {
+        return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+      }
+
+      const isCustomer = quote.jobRequest.userId === user.userId;
+      const isProvider = quote.providerId === user.userId;
+
+      let result;
+      if (action === "accept" || action === "reject") {
+        if (!isCustomer) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+        result =
+          action === "accept"
+            ? await acceptQuote(quote, user.userId)
+            : await rejectQuote(quote);
+      } else if (action === "withdraw") {
+        if (!isProvider) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+        result = await withdrawQuote(quote);
+      } else {
+        return NextResponse.json(
+          { error: "Action must be accept, reject or withdraw" },
+          { status: 400 }
+        );
+      }
+
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json(
+        action === "accept"
+          ? { message: "Quote accepted and booked", ...result }
+          : { message: `Quote ${result.quote.status}`, quote: result.quote },
+        { status: action === "accept" ? 201 : 200 }
+      );
+    } catch (error) {
+      console.error("Quote update error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }),
+  { apiKeyScope: "bookings:manage" }
+);
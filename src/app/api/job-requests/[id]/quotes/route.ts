@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import {
+  withApprovedProvider,
+  withPermission,
+  withVerifiedEmail,
+} from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import { quoteSchema, submitQuote } from "@/lib/job-requests";
+
+// A provider quotes for the job with one of their matching services
+export const POST = withPermission("service:publish")(
+  withVerifiedEmail(
+    withApprovedProvider(async (request: NextRequest, user: JWTPayload) => {
+      try {
+        const { pathname } = new URL(request.url);
+        const id = pathname.split("/").slice(-2)[0];
+
+        // Validation
+        const parsed = quoteSchema.safeParse(await request.json());
+        if (!parsed.success) {
+          return NextResponse.json(
+            { error: parsed.error.issues[0].message },
+            { status: 400 }
+          );
+        }
+
+        const jobRequest = await prisma.jobRequest.findUnique({
+          where: { id },
+          include: { user: { select: { name: true, email: true } } },
+        });
+        if (!jobRequest) {
+          return NextResponse.json(
+            { error: "Job request not found" },
+            { status: 404 }
+          );
+        }
+
+        const result = await submitQuote(jobRequest, user.userId, parsed.data);
+        if (isBookingChangeError(result)) {
+          return NextResponse.json(
+            { error: result.error },
+            { status: result.status }
+          );
+        }
+
+        return NextResponse.json(
+          { message: "Quote sent", quote: result.quote },
+          { status: 201 }
+        );
+      } catch (error) {
+        console.error("Quote submit error:", error);
+        return NextResponse.json(
+          { error: "Internal server error" },
+          { status: 500 }
+        );
+      }
+    })
+  )
+);
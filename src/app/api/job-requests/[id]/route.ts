@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import {
+  canViewJobRequest,
+  cancelJobRequest,
+  findMatchingServices,
+  jobRequestPhotoSelect,
+} from "@/lib/job-requests";
+
+// The request with its quotes. The customer and staff see every quote; a
+// provider sees their own, and the services they could quote with.
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop();
+
+    const jobRequest = await prisma.jobRequest.findUnique({
+      where: { id },
+      include: {
+        photos: { select: jobRequestPhotoSelect },
+        user: { select: { id: true, name: true } },
+      },
+    });
+    if (!jobRequest) {
+      return NextResponse.json(
+        { error: "Job request not found" },
+        { status: 404 }
+      );
+    }
+
+    const isStaff = hasPermission(user.role, "booking:read");
+    if (!(await canViewJobRequest(jobRequest, user.userId, isStaff))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const isCustomer = jobRequest.userId === user.userId;
+    const quotes = await prisma.quote.findMany({
+      where: {
+        jobRequestId: jobRequest.id,
+        ...(!isCustomer && !isStaff && { providerId: user.userId }),
+      },
+      include: {
+        service: { select: { id: true, name: true, duration: true } },
+        provider: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    const services = isCustomer
+      ? []
+      : (await findMatchingServices(jobRequest, user.userId)).map(
+          (service) => ({
+            id: service.id,
+            name: service.name,
+            price: service.price,
+            duration: service.duration,
+          })
+        );
+
+    return NextResponse.json({ jobRequest: { ...jobRequest, quotes }, services });
+  } catch (error) {
+    console.error("Job request fetch error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
+
+// Takes an open request down, turning down its pending quotes
+export const DELETE = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop();
+
+    const jobRequest = await prisma.jobRequest.findUnique({ where: { id } });
+    if (!jobRequest) {
+      return NextResponse.json(
+        { error: "Job request not found" },
+        { status: 404 }
+      );
+    }
+    if (
+      jobRequest.userId !== user.userId &&
+      !hasPermission(user.role, "booking:manage")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const result = await cancelJobRequest(jobRequest);
+    if (isBookingChangeError(result)) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Job request cancelled",
+      jobRequest: result.jobRequest,
+    });
+  } catch (error) {
+    console.error("Job request cancel error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:manage" });
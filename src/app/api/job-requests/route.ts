@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth, withVerifiedEmail } from "@/middleware/auth";
+import { isBookingChangeError } from "@/lib/booking-lifecycle";
+import {
+  ALLOWED_PHOTO_CONTENT_TYPES,
+  MAX_PHOTO_SIZE,
+  createJobRequest,
+  jobRequestPhotoSelect,
+  jobRequestSchema,
+  listMatchingJobRequests,
+} from "@/lib/job-requests";
+
+// The caller's own job requests, newest first. Providers pass
+// `?matching=true` for the open requests their services could do; staff see
+// every request.
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get("matching") === "true") {
+      if (!hasPermission(user.role, "service:publish")) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      }
+      return NextResponse.json({
+        jobRequests: await listMatchingJobRequests(user.userId),
+      });
+    }
+
+    const jobRequests = await prisma.jobRequest.findMany({
+      where: hasPermission(user.role, "booking:read")
+        ? {}
+        : { userId: user.userId },
+      include: {
+        photos: { select: jobRequestPhotoSelect },
+        _count: { select: { quotes: { where: { status: "pending" } } } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ jobRequests });
+  } catch (error) {
+    console.error("Job request list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
+
+// Multipart form with `category`, `description`, `location`, `windowStart`,
+// `windowEnd` and up to five `photos`
+export const POST = withAuth(
+  withVerifiedEmail(async (request: NextRequest, user: JWTPayload) => {
+    try {
+      const formData = await request.formData();
+
+      // Validation
+      const parsed = jobRequestSchema.safeParse({
+        category: formData.get("category") ?? "",
+        description: formData.get("description") ?? "",
+        location: formData.get("location") ?? "",
+        windowStart: formData.get("windowStart") ?? "",
+        windowEnd: formData.get("windowEnd") ?? "",
+      });
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const files = formData
+        .getAll("photos")
+        .filter((file): file is File => typeof file !== "string");
+      if (
+        files.some((file) => !ALLOWED_PHOTO_CONTENT_TYPES.includes(file.type))
+      ) {
+        return NextResponse.json(
+          { error: "Photos must be JPEG or PNG files" },
+          { status: 400 }
+        );
+      }
+      if (files.some((file) => file.size === 0 || file.size > MAX_PHOTO_SIZE)) {
+        return NextResponse.json(
+          { error: "Photos must be smaller than 5 MB" },
+          { status: 400 }
+        );
+      }
+
+      const result = await createJobRequest(
+        user.userId,
+        parsed.data,
+        await Promise.all(
+          files.map(async (file) => ({
+            fileName: file.name,
+            contentType: file.type,
+            data: Buffer.from(await file.arrayBuffer()),
+          }))
+        )
+      );
+      if (isBookingChangeError(result)) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json(
+        { message: "Job request posted", jobRequest: result.jobRequest },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Job request create error:", error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }),
+  { apiKeyScope: "bookings:create" }
+);
@@ -2,15 +2,26 @@ import { NextResponse } from "next/server";
 import { NextRequest } from "next/server";
 import { getUserFromRequest } from "@/lib/auth";
 import redis from "@/lib/redis";
+import { checkCsrf, checkImpersonation } from "@/middleware/auth";
 
 export async function PUT(request: NextRequest) {
   try {
+    const csrfError = checkCsrf(request);
+    if (csrfError) {
+      return csrfError;
+    }
+
     // Authenticate user
-    const user = getUserFromRequest(request);
+    const user = await getUserFromRequest(request);
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const impersonationError = await checkImpersonation(request, user);
+    if (impersonationError) {
+      return impersonationError;
+    }
+
     // Parse request body
     const { latitude, longitude } = await request.json();
 
@@ -46,11 +57,16 @@ export async function PUT(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const user = getUserFromRequest(request);
+    const user = await getUserFromRequest(request);
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const impersonationError = await checkImpersonation(request, user);
+    if (impersonationError) {
+      return impersonationError;
+    }
+
     const targetId = request.nextUrl.searchParams.get("targetId"); // get from query
     if (!targetId) {
       return NextResponse.json({ error: "targetId required" }, { status: 400 });
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { withAuth } from "@/middleware/auth";
+import { getOrderAmountDue, orderInclude } from "@/lib/orders";
+
+// The order with its bookings and what is left to pay. Only the customer and
+// staff see orders; providers see their bookings on their own.
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop();
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      include: orderInclude,
+    });
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+    if (
+      order.userId !== user.userId &&
+      !hasPermission(user.role, "booking:manage")
+    ) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      order: { ...order, amountDue: getOrderAmountDue(order).amount },
+    });
+  } catch (error) {
+    console.error("Order details error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { withAuth } from "@/middleware/auth";
+import { orderInclude } from "@/lib/orders";
+
+// The caller's orders, newest first
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const orders = await prisma.order.findMany({
+      where: { userId: user.userId },
+      include: orderInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ orders });
+  } catch (error) {
+    console.error("Order list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}, { apiKeyScope: "bookings:read" });
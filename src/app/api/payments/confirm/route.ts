@@ -1,24 +1,80 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe } from '@/lib/stripe';
+import { stripe, formatAmountForStripe } from '@/lib/stripe';
 import { getUserFromRequest } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { checkCsrf, checkImpersonation } from '@/middleware/auth';
+import {
+  checkBookingPayable,
+  isBookingChangeError,
+  markBookingPaid,
+} from '@/lib/booking-lifecycle';
+import { confirmOrderPayment, orderInclude } from '@/lib/orders';
 
 export async function POST(request: NextRequest) {
   try {
-    const user = getUserFromRequest(request);
+    const csrfError = checkCsrf(request);
+    if (csrfError) {
+      return csrfError;
+    }
+
+    const user = await getUserFromRequest(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { bookingId, paymentIntentId } = await request.json();
+    const impersonationError = await checkImpersonation(request, user);
+    if (impersonationError) {
+      return impersonationError;
+    }
 
-    if (!bookingId || !paymentIntentId) {
+    const { bookingId, orderId, paymentIntentId } = await request.json();
+
+    if ((!bookingId && !orderId) || !paymentIntentId) {
       return NextResponse.json(
-        { error: 'Booking ID and Payment Intent ID are required' },
+        { error: 'Booking ID or order ID, and Payment Intent ID are required' },
         { status: 400 }
       );
     }
 
+    // Check if Stripe is properly initialized
+    if (!stripe) {
+      return NextResponse.json(
+        { error: 'Payment system not configured. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    if (orderId) {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: orderInclude,
+      });
+
+      if (!order) {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+      }
+
+      if (order.userId !== user.userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+
+      const result = await confirmOrderPayment(
+        order,
+        paymentIntentId,
+        { actor: 'customer', userId: user.userId }
+      );
+      if (isBookingChangeError(result)) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Payment confirmed successfully',
+        paid: result.paid.map((booking) => booking.id),
+        refunded: result.refunded.map((booking) => booking.id),
+      });
+    }
+
     // Get the booking details
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
@@ -37,34 +93,53 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
-    // Check if payment already exists and is paid
-    if (booking.paymentStatus === 'paid') {
+    if (booking.orderId) {
       return NextResponse.json(
-        { error: 'Payment already completed' },
+        { error: 'This booking is paid for with its order', orderId: booking.orderId },
         { status: 400 }
       );
     }
 
-    // Check if Stripe is properly initialized
-    if (!stripe) {
-      return NextResponse.json(
-        { error: 'Payment system not configured. Please contact support.' },
-        { status: 500 }
-      );
+    const payableError = checkBookingPayable(booking);
+    if (payableError) {
+      return NextResponse.json({ error: payableError.error }, { status: payableError.status });
     }
 
     // Retrieve the payment intent from Stripe to verify payment status
     const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
 
+    // Any succeeded intent would otherwise do, and the booking's refunds
+    // would come out of someone else's charge
+    if (
+      paymentIntent.id !== booking.stripePaymentId &&
+      paymentIntent.metadata?.bookingId !== booking.id
+    ) {
+      return NextResponse.json(
+        { error: 'The payment is not for this booking' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      paymentIntent.status === 'succeeded' &&
+      paymentIntent.amount_received < formatAmountForStripe(booking.totalPrice, 'usd')
+    ) {
+      return NextResponse.json(
+        { error: 'The payment does not cover the booking' },
+        { status: 400 }
+      );
+    }
+
     if (paymentIntent.status === 'succeeded') {
-      // Update booking payment status
-      await prisma.booking.update({
-        where: { id: bookingId },
-        data: { 
-          paymentStatus: 'paid',
-          updatedAt: new Date(),
-        },
-      });
+      // Record the payment intent so the booking can be refunded later
+      const paid = await markBookingPaid(
+        booking,
+        { actor: 'customer', userId: user.userId },
+        paymentIntent.id
+      );
+      if (isBookingChangeError(paid)) {
+        return NextResponse.json({ error: paid.error }, { status: paid.status });
+      }
 
       return NextResponse.json({ 
         success: true, 
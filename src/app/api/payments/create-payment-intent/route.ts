@@ -2,23 +2,68 @@ import { NextRequest, NextResponse } from 'next/server';
 import { stripe, formatAmountForStripe } from '@/lib/stripe';
 import { getUserFromRequest } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { checkCsrf, checkImpersonation } from '@/middleware/auth';
+import { checkBookingPayable, isBookingChangeError } from '@/lib/booking-lifecycle';
+import { createOrderPaymentIntent, orderInclude } from '@/lib/orders';
+import { cancelPaymentIntent } from '@/lib/payments';
 
 export async function POST(request: NextRequest) {
   try {
-    const user = getUserFromRequest(request);
+    const csrfError = checkCsrf(request);
+    if (csrfError) {
+      return csrfError;
+    }
+
+    const user = await getUserFromRequest(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { bookingId } = await request.json();
+    const impersonationError = await checkImpersonation(request, user);
+    if (impersonationError) {
+      return impersonationError;
+    }
+
+    const { bookingId, orderId } = await request.json();
 
-    if (!bookingId) {
+    if (!bookingId && !orderId) {
       return NextResponse.json(
-        { error: 'Booking ID is required' },
+        { error: 'Booking ID or order ID is required' },
         { status: 400 }
       );
     }
 
+    // Check if Stripe is properly initialized
+    if (!stripe) {
+      return NextResponse.json(
+        { error: 'Payment system not configured. Please contact support.' },
+        { status: 500 }
+      );
+    }
+
+    // The bookings in an order are paid together
+    if (orderId) {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: orderInclude,
+      });
+
+      if (!order) {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+      }
+
+      if (order.userId !== user.userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+
+      const result = await createOrderPaymentIntent(order, user.userId);
+      if (isBookingChangeError(result)) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+
+      return NextResponse.json(result);
+    }
+
     // Get the booking details
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
@@ -37,24 +82,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
-    // Check if payment already exists
-    const existingPayment = await prisma.booking.findUnique({
-      where: { id: bookingId },
-      select: { paymentStatus: true },
-    });
-
-    if (existingPayment?.paymentStatus === 'paid') {
+    if (booking.orderId) {
       return NextResponse.json(
-        { error: 'Payment already completed' },
+        { error: 'This booking is paid for with its order', orderId: booking.orderId },
         { status: 400 }
       );
     }
 
-    // Check if Stripe is properly initialized
-    if (!stripe) {
+    const payableError = checkBookingPayable(booking);
+    if (payableError) {
+      return NextResponse.json({ error: payableError.error }, { status: payableError.status });
+    }
+
+    // Only the latest intent is kept on the booking, so an earlier one that
+    // is still open could be paid after the booking is cancelled
+    if (!(await cancelPaymentIntent(booking.stripePaymentId))) {
       return NextResponse.json(
-        { error: 'Payment system not configured. Please contact support.' },
-        { status: 500 }
+        { error: 'A payment for this booking is being processed. Try again once it completes' },
+        { status: 409 }
       );
     }
 
@@ -72,6 +117,12 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Kept so the payment can be stopped if the booking is cancelled first
+    await prisma.booking.update({
+      where: { id: bookingId },
+      data: { stripePaymentId: paymentIntent.id },
+    });
+
     return NextResponse.json({
       clientSecret: paymentIntent.client_secret,
       paymentIntentId: paymentIntent.id,
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import { readProviderDocument } from "@/lib/provider-onboarding";
+
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    const { pathname } = new URL(request.url);
+    const id = pathname.split("/").pop() as string;
+
+    const document = await prisma.providerDocument.findFirst({
+      where: { id, application: { userId: user.userId } },
+    });
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const file = await readProviderDocument(document.storageKey);
+    if (!file) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": document.contentType,
+        "Content-Disposition": `inline; filename="${encodeURIComponent(document.fileName)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Provider document download error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
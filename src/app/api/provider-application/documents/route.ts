@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import {
+  ALLOWED_DOCUMENT_CONTENT_TYPES,
+  MAX_DOCUMENT_SIZE,
+  canEditDocuments,
+  getOrCreateApplication,
+  isDocumentType,
+  saveProviderDocument,
+} from "@/lib/provider-onboarding";
+
+// Multipart form with a `type` (identity, license or insurance) and a `file`
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    if (user.role !== "provider") {
+      return NextResponse.json(
+        { error: "Only provider accounts have an application" },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const type = formData.get("type");
+    const file = formData.get("file");
+
+    // Validation
+    if (!isDocumentType(type)) {
+      return NextResponse.json(
+        { error: "Document type must be identity, license or insurance" },
+        { status: 400 }
+      );
+    }
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "File is required" }, { status: 400 });
+    }
+
+    if (!ALLOWED_DOCUMENT_CONTENT_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { error: "Documents must be PDF, JPEG or PNG files" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size === 0 || file.size > MAX_DOCUMENT_SIZE) {
+      return NextResponse.json(
+        { error: "Documents must be smaller than 10 MB" },
+        { status: 400 }
+      );
+    }
+
+    const application = await getOrCreateApplication(user.userId);
+    if (!canEditDocuments(application.status)) {
+      return NextResponse.json(
+        { error: "Documents can't be changed while the application is being reviewed or after approval" },
+        { status: 409 }
+      );
+    }
+
+    const document = await saveProviderDocument(application.id, type, {
+      fileName: file.name,
+      contentType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json(
+      { message: "Document uploaded", document },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Provider document upload error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import {
+  getOrCreateApplication,
+  missingDocumentTypes,
+} from "@/lib/provider-onboarding";
+
+export const GET = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    if (user.role !== "provider") {
+      return NextResponse.json(
+        { error: "Only provider accounts have an application" },
+        { status: 403 }
+      );
+    }
+
+    const application = await getOrCreateApplication(user.userId);
+
+    return NextResponse.json({
+      application,
+      missingDocuments: missingDocumentTypes(application.documents),
+    });
+  } catch (error) {
+    console.error("Provider application error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { JWTPayload } from "@/lib/auth";
+import {
+  canTransition,
+  getOrCreateApplication,
+  missingDocumentTypes,
+  transitionApplication,
+} from "@/lib/provider-onboarding";
+
+export const POST = withAuth(async (request: NextRequest, user: JWTPayload) => {
+  try {
+    if (user.role !== "provider") {
+      return NextResponse.json(
+        { error: "Only provider accounts have an application" },
+        { status: 403 }
+      );
+    }
+
+    const application = await getOrCreateApplication(user.userId);
+
+    if (!canTransition(application.status, "documents_submitted")) {
+      return NextResponse.json(
+        { error: `Application is already ${application.status.replace("_", " ")}` },
+        { status: 409 }
+      );
+    }
+
+    const missingDocuments = missingDocumentTypes(application.documents);
+    if (missingDocuments.length > 0) {
+      return NextResponse.json(
+        { error: "All documents must be uploaded first", missingDocuments },
+        { status: 400 }
+      );
+    }
+
+    const submitted = await transitionApplication(
+      application.id,
+      application.status,
+      "documents_submitted",
+      { submittedAt: new Date(), rejectionReason: null }
+    );
+    if (!submitted) {
+      return NextResponse.json(
+        { error: "Application was changed, please reload it" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Application submitted for review",
+    });
+  } catch (error) {
+    console.error("Provider application submit error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
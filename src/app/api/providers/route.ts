@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { withAuth, withRole } from "@/middleware/auth";
+import { withAuth, withPermission } from "@/middleware/auth";
 import { hashPassword } from "@/lib/auth";
 
 export const GET = withAuth(async (request: NextRequest, user: any) => {
@@ -90,9 +90,9 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
       { status: 500 }
     );
   }
-});
+}, { apiKeyScope: "services:read" });
 
-export const POST = withRole(["admin"])(
+export const POST = withPermission("provider:create")(
   async (request: NextRequest, user: any) => {
     try {
       const { name, email, password, phone, address } = await request.json();
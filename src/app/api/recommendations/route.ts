@@ -81,4 +81,4 @@ export const GET = withAuth(async (request: NextRequest, user: any) => {
       { status: 500 }
     );
   }
-});
+}, { apiKeyScope: "services:read" });
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { withAuth, withRole } from "@/middleware/auth";
+import {
+  bufferMinutesSchema,
+  weeklyAvailabilitySchema,
+} from "@/lib/availability";
+import { cancellationPolicySchema } from "@/lib/cancellation-policies";
+import { withAuth, withPermission } from "@/middleware/auth";
 
 export const GET = async (request: NextRequest): Promise<NextResponse> => {
   try {
@@ -17,6 +22,8 @@ export const GET = async (request: NextRequest): Promise<NextResponse> => {
             email: true,
             phone: true,
             address: true,
+            timeZone: true,
+            cancellationPolicy: true,
           },
         },
       },
@@ -50,9 +57,16 @@ export const GET = async (request: NextRequest): Promise<NextResponse> => {
         category: service.category,
         price: service.price,
         duration: service.duration,
+        bufferBefore: service.bufferBefore,
+        bufferAfter: service.bufferAfter,
         location: service.location,
         availability: service.availability,
         tags: service.tags,
+        // The provider's default applies unless the service overrides it
+        cancellationPolicy:
+          service.cancellationPolicy ??
+          service.provider?.cancellationPolicy ??
+          "flexible",
         rating: service.rating,
         reviewCount: service.reviewCount,
         provider: service.provider
@@ -62,6 +76,7 @@ export const GET = async (request: NextRequest): Promise<NextResponse> => {
               email: service.provider.email,
               phone: service.provider.phone,
               address: service.provider.address,
+              timeZone: service.provider.timeZone,
             }
           : null,
       },
@@ -84,7 +99,7 @@ export const GET = async (request: NextRequest): Promise<NextResponse> => {
   }
 };
 
-export const PUT = withRole(["provider"])(
+export const PUT = withPermission("service:publish")(
   async (request: NextRequest, user: any) => {
     try {
       const { pathname } = new URL(request.url);
@@ -106,12 +121,50 @@ export const PUT = withRole(["provider"])(
         category,
         price,
         duration,
+        bufferBefore,
+        bufferAfter,
         location,
         availability,
         tags,
         isActive,
+        cancellationPolicy,
       } = await request.json();
 
+      // Validation
+      for (const buffer of [bufferBefore, bufferAfter]) {
+        if (buffer === undefined) continue;
+        const parsedBuffer = bufferMinutesSchema.safeParse(buffer);
+        if (!parsedBuffer.success) {
+          return NextResponse.json(
+            { error: parsedBuffer.error.issues[0].message },
+            { status: 400 }
+          );
+        }
+      }
+
+      // null goes back to the provider's default policy
+      const parsedPolicy =
+        cancellationPolicy === undefined
+          ? undefined
+          : cancellationPolicySchema.nullable().safeParse(cancellationPolicy);
+      if (parsedPolicy && !parsedPolicy.success) {
+        return NextResponse.json(
+          { error: parsedPolicy.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const parsedAvailability =
+        availability === undefined
+          ? undefined
+          : weeklyAvailabilitySchema.safeParse(availability);
+      if (parsedAvailability && !parsedAvailability.success) {
+        return NextResponse.json(
+          { error: parsedAvailability.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
       const updatedService = await prisma.service.update({
         where: { id },
         data: {
@@ -120,10 +173,13 @@ export const PUT = withRole(["provider"])(
           category,
           price,
           duration,
+          bufferBefore,
+          bufferAfter,
           location,
-          availability,
+          availability: parsedAvailability?.data,
           tags,
           isActive,
+          cancellationPolicy: parsedPolicy?.data,
         },
       });
 
@@ -136,9 +192,12 @@ export const PUT = withRole(["provider"])(
           category: updatedService.category,
           price: updatedService.price,
           duration: updatedService.duration,
+          bufferBefore: updatedService.bufferBefore,
+          bufferAfter: updatedService.bufferAfter,
           location: updatedService.location,
           availability: updatedService.availability,
           tags: updatedService.tags,
+          cancellationPolicy: updatedService.cancellationPolicy,
           isActive: updatedService.isActive,
         },
       });
@@ -152,7 +211,7 @@ export const PUT = withRole(["provider"])(
   }
 );
 
-export const DELETE = withRole(["provider"])(
+export const DELETE = withPermission("service:publish")(
   async (request: NextRequest, user: any) => {
     try {
       const { pathname } = new URL(request.url);
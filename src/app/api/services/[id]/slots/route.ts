@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  addDays,
+  calendarDateSchema,
+  toZonedTime,
+} from "@/lib/availability";
+import { getServiceSlots } from "@/lib/service-availability";
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 31;
+
+export const GET = async (request: NextRequest): Promise<NextResponse> => {
+  try {
+    const { pathname, searchParams } = new URL(request.url);
+    const id = pathname.split("/").slice(-2)[0];
+
+    const service = await prisma.service.findUnique({
+      where: { id },
+      include: { provider: { select: { timeZone: true } } },
+    });
+    if (!service || !service.isActive) {
+      return NextResponse.json({ error: "Service not found" }, { status: 404 });
+    }
+
+    // Dates are calendar dates in the provider's time zone
+    const timeZone = service.provider?.timeZone ?? "UTC";
+    const from =
+      searchParams.get("from") ?? toZonedTime(new Date(), timeZone).date;
+    const toParam = searchParams.get("to");
+
+    // Validation
+    if (
+      !calendarDateSchema.safeParse(from).success ||
+      (toParam !== null && !calendarDateSchema.safeParse(toParam).success)
+    ) {
+      return NextResponse.json(
+        { error: "from and to must be dates in YYYY-MM-DD format" },
+        { status: 400 }
+      );
+    }
+    const to = toParam ?? addDays(from, DEFAULT_DAYS - 1);
+    if (to < from || to > addDays(from, MAX_DAYS - 1)) {
+      return NextResponse.json(
+        { error: `The range must cover 1 to ${MAX_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const { free, taken } = await getServiceSlots(
+      service,
+      timeZone,
+      from,
+      to
+    );
+
+    return NextResponse.json({
+      serviceId: service.id,
+      duration: service.duration,
+      timeZone,
+      from,
+      to,
+      slots: free.map((slot) => slot.toISOString()),
+      // Taken times customers can join the waitlist for
+      taken: taken.map((slot) => slot.toISOString()),
+    });
+  } catch (error) {
+    console.error("Service slots error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
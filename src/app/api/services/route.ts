@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { withRole } from "@/middleware/auth";
+import {
+  bufferMinutesSchema,
+  weeklyAvailabilitySchema,
+} from "@/lib/availability";
+import {
+  withApprovedProvider,
+  withPermission,
+  withVerifiedEmail,
+} from "@/middleware/auth";
 import { recommendServices } from "@/lib/ai";
+import { cancellationPolicySchema } from "@/lib/cancellation-policies";
 
 export const GET = async (request: NextRequest) => {
   try {
@@ -89,9 +98,12 @@ export const GET = async (request: NextRequest) => {
         category: service.category,
         price: service.price,
         duration: service.duration,
+        bufferBefore: service.bufferBefore,
+        bufferAfter: service.bufferAfter,
         location: service.location,
         availability: service.availability,
         tags: service.tags,
+        cancellationPolicy: service.cancellationPolicy,
         rating: service.rating,
         reviewCount: service.reviewCount,
         isActive: service.isActive,
@@ -120,8 +132,8 @@ export const GET = async (request: NextRequest) => {
   }
 };
 
-export const POST = withRole(["provider"])(
-  async (request: NextRequest, user: any) => {
+export const POST = withPermission("service:publish")(
+  withVerifiedEmail(withApprovedProvider(async (request: NextRequest, user: any) => {
     try {
       const {
         name,
@@ -129,9 +141,12 @@ export const POST = withRole(["provider"])(
         category,
         price,
         duration,
+        bufferBefore,
+        bufferAfter,
         location,
         availability,
         tags,
+        cancellationPolicy,
       } = await request.json();
 
       // Validation
@@ -149,6 +164,37 @@ export const POST = withRole(["provider"])(
         );
       }
 
+      for (const buffer of [bufferBefore, bufferAfter]) {
+        const parsedBuffer = bufferMinutesSchema.safeParse(buffer ?? 0);
+        if (!parsedBuffer.success) {
+          return NextResponse.json(
+            { error: parsedBuffer.error.issues[0].message },
+            { status: 400 }
+          );
+        }
+      }
+
+      // null leaves the provider's default policy in place
+      const parsedPolicy = cancellationPolicySchema
+        .nullable()
+        .safeParse(cancellationPolicy ?? null);
+      if (!parsedPolicy.success) {
+        return NextResponse.json(
+          { error: parsedPolicy.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      const parsedAvailability = weeklyAvailabilitySchema.safeParse(
+        availability ?? {}
+      );
+      if (!parsedAvailability.success) {
+        return NextResponse.json(
+          { error: parsedAvailability.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
       const service = await prisma.service.create({
         data: {
           name,
@@ -156,9 +202,12 @@ export const POST = withRole(["provider"])(
           category,
           price,
           duration,
+          bufferBefore: bufferBefore ?? 0,
+          bufferAfter: bufferAfter ?? 0,
           location,
-          availability,
+          availability: parsedAvailability.data,
           tags: tags || [],
+          cancellationPolicy: parsedPolicy.data,
           providerId: user.userId,
         },
       });
@@ -173,9 +222,12 @@ export const POST = withRole(["provider"])(
             category: service.category,
             price: service.price,
             duration: service.duration,
+            bufferBefore: service.bufferBefore,
+            bufferAfter: service.bufferAfter,
             location: service.location,
             availability: service.availability,
             tags: service.tags,
+            cancellationPolicy: service.cancellationPolicy,
           },
         },
         { status: 201 }
@@ -187,5 +239,5 @@ export const POST = withRole(["provider"])(
         { status: 500 }
       );
     }
-  }
+  }))
 );
@@ -8,21 +8,92 @@ export default function LoginPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
-  const { login, loading, redirectAfterLogin } = useAuth();
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, completeTwoFactorLogin, loading, redirectAfterLogin } =
+    useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     try {
-      await login(email, password);
-      // Get user role and redirect accordingly
-      const userData = JSON.parse(localStorage.getItem("user") || "{}");
-      redirectAfterLogin(userData.role || "user");
+      const result = await login(email, password);
+      if (result.twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
+      if (result.twoFactorSetupRequired) {
+        window.location.href = "/profile/security";
+        return;
+      }
+      redirectAfterLogin(result.user?.role || "user");
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    try {
+      const user = await completeTwoFactorLogin(code, useRecoveryCode);
+      redirectAfterLogin(user.role);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+    }
+  };
+
+  if (twoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Two-factor authentication
+          </h2>
+          <form className="mt-8 space-y-6" onSubmit={handleTwoFactorSubmit}>
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+            <input
+              type="text"
+              inputMode={useRecoveryCode ? "text" : "numeric"}
+              autoComplete="one-time-code"
+              required
+              className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              placeholder={
+                useRecoveryCode ? "Recovery code" : "6-digit code from your app"
+              }
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {loading ? "Verifying..." : "Verify"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode("");
+              }}
+              className="w-full text-sm text-indigo-600 hover:text-indigo-500"
+            >
+              {useRecoveryCode
+                ? "Use your authenticator app instead"
+                : "Use a recovery code instead"}
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -87,6 +158,12 @@ export default function LoginPage() {
             >
               Don't have an account? Sign up
             </Link>
+            <Link
+              href="/auth/forgot-password"
+              className="block text-sm text-gray-600 hover:text-gray-500"
+            >
+              Forgot your password?
+            </Link>
           </div>
         </form>
       </div>
@@ -0,0 +1,100 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const { user } = useAuth();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+    "verifying"
+  );
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    const verify = async () => {
+      if (!token) {
+        setStatus("failed");
+        setMessage("Verification link is missing its token.");
+        return;
+      }
+
+      try {
+        const response = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+
+        setStatus("verified");
+        setMessage(data.message);
+      } catch (err) {
+        setStatus("failed");
+        setMessage(err instanceof Error ? err.message : "Verification failed");
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const handleResend = async () => {
+    try {
+      const response = await fetch("/api/auth/verify-email/resend", {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setMessage(data.message);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Could not send email");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <h2 className="text-3xl font-extrabold text-gray-900">
+          Email verification
+        </h2>
+        {status === "verifying" && (
+          <p className="text-gray-600">Verifying your email address...</p>
+        )}
+        {status === "verified" && (
+          <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
+            {message}
+          </div>
+        )}
+        {status === "failed" && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {message}
+          </div>
+        )}
+        {status === "failed" && user && (
+          <button
+            onClick={handleResend}
+            className="w-full py-2 px-4 rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            Send a new verification email
+          </button>
+        )}
+        <Link href="/" className="block text-indigo-600 hover:text-indigo-500">
+          Back to home
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
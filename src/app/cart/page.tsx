@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+
+interface CartItem {
+  id: string;
+  date: string;
+  notes: string | null;
+  service: {
+    id: string;
+    name: string;
+    price: number;
+    duration: number;
+    provider: { id: string; name: string };
+  };
+}
+
+// Times collected with one or more services, booked together at checkout
+export default function CartPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [totalPrice, setTotalPrice] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  const [updating, setUpdating] = useState(false);
+
+  const fetchCart = async () => {
+    try {
+      const response = await fetch("/api/cart");
+      const data = await response.json();
+
+      if (response.ok) {
+        setItems(data.items);
+        setTotalPrice(data.totalPrice);
+      } else {
+        setError(data.error || "Failed to fetch the cart");
+      }
+    } catch {
+      setError("Network error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchCart();
+    }
+  }, [user]);
+
+  const removeItem = async (itemId: string) => {
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/cart/${itemId}`, { method: "DELETE" });
+      if (response.ok) {
+        await fetchCart();
+      } else {
+        const data = await response.json();
+        alert(data.error);
+      }
+    } catch {
+      alert("Network error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const checkout = async () => {
+    setUpdating(true);
+    setError("");
+    setItemErrors({});
+    try {
+      const response = await fetch("/api/cart/checkout", { method: "POST" });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.push(`/dashboard/orders/${data.order.id}`);
+        return;
+      }
+      setError(data.error);
+      if (data.items) {
+        setItemErrors(
+          Object.fromEntries(
+            data.items.map((item: { id: string; error: string }) => [
+              item.id,
+              item.error,
+            ])
+          )
+        );
+      }
+    } catch {
+      setError("Network error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto py-12 px-4 space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">Cart</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm font-medium text-red-800">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Your cart is empty.{" "}
+          <Link href="/" className="text-indigo-600 hover:text-indigo-500">
+            Find a service
+          </Link>
+        </p>
+      ) : (
+        <>
+          <div className="bg-white shadow sm:rounded-lg">
+            <ul className="divide-y divide-gray-200">
+              {items.map((item) => (
+                <li
+                  key={item.id}
+                  className="px-6 py-4 flex items-center justify-between text-sm"
+                >
+                  <div>
+                    <Link
+                      href={`/services/${item.service.id}`}
+                      className="font-medium text-gray-900 hover:text-indigo-600"
+                    >
+                      {item.service.name}
+                    </Link>
+                    <p className="text-gray-500">
+                      {new Date(item.date).toLocaleString()} ·{" "}
+                      {item.service.provider.name} · ${item.service.price}
+                    </p>
+                    {itemErrors[item.id] && (
+                      <p className="text-red-600">{itemErrors[item.id]}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => removeItem(item.id)}
+                    disabled={updating}
+                    className="text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-lg font-semibold text-gray-900">
+              Total: ${totalPrice.toFixed(2)}
+            </p>
+            <button
+              onClick={checkout}
+              disabled={updating}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Check out
+            </button>
+          </div>
+          <p className="text-sm text-gray-500">
+            Times aren&apos;t held until you check out. Checking out books all
+            of them or, if any is no longer available, none.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import BookingMessages from "@/components/BookingMessages";
+import BookingTimeline from "@/components/BookingTimeline";
+import ReschedulePanel from "@/components/ReschedulePanel";
+import { hasPermission } from "@/lib/permissions";
+import {
+  CancellationPolicy,
+  describeCancellationPolicy,
+} from "@/lib/cancellation-policies";
+
+interface Party {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+}
+
+interface Booking {
+  id: string;
+  date: string;
+  status: string;
+  notes: string | null;
+  totalPrice: number;
+  paymentStatus: string;
+  paymentDueAt: string | null;
+  cancellationPolicy: CancellationPolicy;
+  cancellationFee: number | null;
+  refundedAmount: number | null;
+  seriesId: string | null;
+  service: {
+    id: string;
+    name: string;
+    duration: number;
+  };
+  user: Party;
+  provider: Party;
+  createdAt: string;
+}
+
+export default function BookingDetailsPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const bookingId = params.id as string;
+
+  useEffect(() => {
+    const fetchBooking = async () => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setBooking(data.booking);
+        } else {
+          setError(data.error || "Failed to fetch booking");
+        }
+      } catch {
+        setError("Network error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (user && bookingId) {
+      fetchBooking();
+    }
+  }, [user, bookingId, reloadCount]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !booking) {
+    return (
+      <div className="max-w-3xl mx-auto py-12 px-4">
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm font-medium text-red-800">
+          {error || "Booking not found"}
+        </div>
+      </div>
+    );
+  }
+
+  const actor =
+    booking.user.id === user?.id
+      ? "customer"
+      : booking.provider.id === user?.id
+        ? "provider"
+        : null;
+  const canReschedule =
+    actor !== null &&
+    (booking.status === "pending" || booking.status === "confirmed");
+  const canReadMessages =
+    actor !== null || (!!user && hasPermission(user.role, "message:read"));
+  const canPay =
+    actor === "customer" &&
+    booking.paymentStatus === "pending" &&
+    booking.status !== "cancelled";
+
+  return (
+    <div className="max-w-3xl mx-auto py-12 px-4 space-y-6">
+      <div>
+        <Link
+          href="/dashboard/bookings"
+          className="text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          ← All bookings
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-gray-900">
+          {booking.service.name}
+        </h1>
+        {booking.seriesId && (
+          <Link
+            href={`/dashboard/bookings/series/${booking.seriesId}`}
+            className="text-sm text-indigo-600 hover:text-indigo-500"
+          >
+            Part of a repeating booking
+          </Link>
+        )}
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg p-6">
+        <dl className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Date & Time</dt>
+            <dd className="mt-1 text-sm text-gray-900">
+              {new Date(booking.date).toLocaleString()} (
+              {booking.service.duration} min)
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Status</dt>
+            <dd className="mt-1 text-sm text-gray-900 capitalize">
+              {booking.status.replace("_", " ")}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Customer</dt>
+            <dd className="mt-1 text-sm text-gray-900">
+              {booking.user.name} ({booking.user.email})
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Provider</dt>
+            <dd className="mt-1 text-sm text-gray-900">
+              {booking.provider.name} ({booking.provider.email})
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Price</dt>
+            <dd className="mt-1 text-sm text-gray-900">
+              ${booking.totalPrice}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Payment</dt>
+            <dd className="mt-1 text-sm text-gray-900 capitalize">
+              {booking.paymentStatus}
+              {canPay && (
+                <Link
+                  href={`/dashboard/bookings/${booking.id}/pay`}
+                  className="ml-2 normal-case text-indigo-600 hover:text-indigo-500"
+                >
+                  Pay now
+                </Link>
+              )}
+              {canPay && booking.status === "pending" && booking.paymentDueAt && (
+                <p className="mt-1 normal-case text-xs text-gray-500">
+                  Unpaid bookings are cancelled at{" "}
+                  {new Date(booking.paymentDueAt).toLocaleString()}
+                </p>
+              )}
+            </dd>
+          </div>
+          <div className="sm:col-span-2">
+            <dt className="text-sm font-medium text-gray-500">
+              Cancellation policy
+            </dt>
+            <dd className="mt-1 text-sm text-gray-900">
+              <span className="capitalize">{booking.cancellationPolicy}</span>
+              : {describeCancellationPolicy(booking.cancellationPolicy).join(", ")}
+              . Cancellations by the provider are always refunded in full.
+            </dd>
+          </div>
+          {booking.status === "cancelled" && (
+            <div>
+              <dt className="text-sm font-medium text-gray-500">
+                Cancellation fee
+              </dt>
+              <dd className="mt-1 text-sm text-gray-900">
+                ${(booking.cancellationFee ?? 0).toFixed(2)}
+              </dd>
+            </div>
+          )}
+          {booking.refundedAmount !== null && (
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Refunded</dt>
+              <dd className="mt-1 text-sm text-gray-900">
+                ${booking.refundedAmount.toFixed(2)}
+              </dd>
+            </div>
+          )}
+          {booking.notes && (
+            <div className="sm:col-span-2">
+              <dt className="text-sm font-medium text-gray-500">Notes</dt>
+              <dd className="mt-1 text-sm text-gray-900">{booking.notes}</dd>
+            </div>
+          )}
+        </dl>
+      </div>
+
+      {canReschedule && (
+        <ReschedulePanel
+          bookingId={booking.id}
+          serviceId={booking.service.id}
+          actor={actor}
+          onChange={() => setReloadCount((count) => count + 1)}
+        />
+      )}
+
+      {canReadMessages && user && (
+        <BookingMessages bookingId={booking.id} userId={user.id} />
+      )}
+
+      <BookingTimeline bookingId={booking.id} reloadCount={reloadCount} />
+    </div>
+  );
+}
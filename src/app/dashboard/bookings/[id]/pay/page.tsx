@@ -34,11 +34,7 @@ export default function PayBookingPage() {
   useEffect(() => {
     const fetchBooking = async () => {
       try {
-        const response = await fetch(`/api/bookings/${bookingId}`, {
-          headers: {
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
-          },
-        });
+        const response = await fetch(`/api/bookings/${bookingId}`);
 
         const data = await response.json();
 
@@ -5,6 +5,10 @@ import Link from "next/link";
 import { useAuth } from "@/context/AuthContext";
 import PaymentForm from "@/components/PaymentForm";
 import LocationMap from "@/components/LocationMap";
+import BookingSeriesList from "@/components/BookingSeriesList";
+import WaitlistPanel from "@/components/WaitlistPanel";
+import CalendarFeedSettings from "@/components/CalendarFeedSettings";
+import { describeCancellationQuote } from "@/lib/cancellation-policies";
 
 interface Booking {
   id: string;
@@ -13,6 +17,9 @@ interface Booking {
   notes?: string;
   totalPrice: number;
   paymentStatus: string;
+  paymentDueAt: string | null;
+  seriesId: string | null;
+  orderId: string | null;
   service: {
     id: string;
     name: string;
@@ -47,6 +54,9 @@ export default function BookingsDashboard() {
   const [showLocationMap, setShowLocationMap] = useState(false);
   const [selectedBookingForMap, setSelectedBookingForMap] =
     useState<Booking | null>(null);
+  const [unreadMessages, setUnreadMessages] = useState<Record<string, number>>(
+    {}
+  );
 
   const { user } = useAuth();
 
@@ -59,13 +69,14 @@ export default function BookingsDashboard() {
       const params = new URLSearchParams();
       if (statusFilter) params.append("status", statusFilter);
 
-      const response = await fetch(`/api/bookings?${params}`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
+      const response = await fetch(`/api/bookings?${params}`);
       const data = await response.json();
       setBookings(data.bookings || []);
+
+      const unreadResponse = await fetch("/api/bookings/messages/unread");
+      if (unreadResponse.ok) {
+        setUnreadMessages((await unreadResponse.json()).unread);
+      }
     } catch (error) {
       console.error("Error fetching bookings:", error);
     } finally {
@@ -80,7 +91,6 @@ export default function BookingsDashboard() {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
         body: JSON.stringify({ status: newStatus }),
       });
@@ -105,15 +115,27 @@ export default function BookingsDashboard() {
   };
 
   const cancelBooking = async (bookingId: string) => {
-    if (!confirm("Are you sure you want to cancel this booking?")) return;
-
     setUpdatingStatus(bookingId);
     try {
+      // Show what the cancellation policy refunds before confirming
+      const quoteResponse = await fetch(
+        `/api/bookings/${bookingId}/cancellation`
+      );
+      const quoteData = await quoteResponse.json();
+      if (!quoteResponse.ok) {
+        alert(quoteData.error);
+        return;
+      }
+      if (
+        !confirm(
+          `${describeCancellationQuote(quoteData.quote)}\n\nAre you sure you want to cancel this booking?`
+        )
+      ) {
+        return;
+      }
+
       const response = await fetch(`/api/bookings/${bookingId}`, {
         method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
       });
       if (response.ok) {
         setBookings(bookings.filter((booking) => booking.id !== bookingId));
@@ -205,6 +227,10 @@ export default function BookingsDashboard() {
         </div>
       </div>
 
+      <BookingSeriesList />
+      <WaitlistPanel />
+      <CalendarFeedSettings />
+
       {/* Filter */}
       <div className="mt-4">
         <select
@@ -277,6 +303,38 @@ export default function BookingsDashboard() {
                         >
                           Payment: {booking.paymentStatus}
                         </span>
+                        {booking.seriesId && (
+                          <Link
+                            href={`/dashboard/bookings/series/${booking.seriesId}`}
+                            className="text-indigo-600 hover:text-indigo-500"
+                          >
+                            🔁 Repeating
+                          </Link>
+                        )}
+                        {booking.orderId && (
+                          <Link
+                            href={`/dashboard/orders/${booking.orderId}`}
+                            className="text-indigo-600 hover:text-indigo-500"
+                          >
+                            🛒 Order
+                          </Link>
+                        )}
+                        {unreadMessages[booking.id] > 0 && (
+                          <Link
+                            href={`/dashboard/bookings/${booking.id}`}
+                            className="text-indigo-600 hover:text-indigo-500"
+                          >
+                            💬 {unreadMessages[booking.id]} new
+                          </Link>
+                        )}
+                        {booking.status === "pending" &&
+                          booking.paymentStatus === "pending" &&
+                          booking.paymentDueAt && (
+                            <span>
+                              ⏳ Pay by{" "}
+                              {new Date(booking.paymentDueAt).toLocaleString()}
+                            </span>
+                          )}
                       </div>
 
                       {user?.role === "provider" && booking.user && (
@@ -303,6 +361,13 @@ export default function BookingsDashboard() {
 
                   {/* Action Buttons */}
                   <div className="mt-4 flex space-x-2">
+                    <Link
+                      href={`/dashboard/bookings/${booking.id}`}
+                      className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Details
+                    </Link>
+
                     {user?.role === "provider" &&
                       booking.status === "pending" && (
                         <button
@@ -370,15 +435,16 @@ export default function BookingsDashboard() {
                           >
                             Leave Review
                           </Link>
-                          {booking.paymentStatus !== "paid" && (
-                            <button
-                              onClick={() => handlePayment(booking)}
-                              disabled={paymentLoading}
-                              className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
-                            >
-                              {paymentLoading ? "Processing..." : "Pay Now"}
-                            </button>
-                          )}
+                          {booking.paymentStatus !== "paid" &&
+                            !booking.orderId && (
+                              <button
+                                onClick={() => handlePayment(booking)}
+                                disabled={paymentLoading}
+                                className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                              >
+                                {paymentLoading ? "Processing..." : "Pay Now"}
+                              </button>
+                            )}
                           {booking.provider && (
                             <button
                               onClick={() =>
@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+
+interface Occurrence {
+  id: string;
+  date: string;
+  status: string;
+  paymentStatus: string;
+  totalPrice: number;
+}
+
+interface BookingSeries {
+  id: string;
+  frequency: "weekly" | "biweekly" | "monthly";
+  startsAt: string;
+  until: string | null;
+  count: number | null;
+  notes: string | null;
+  status: "active" | "cancelled";
+  service: { id: string; name: string; duration: number };
+  user: { id: string; name: string };
+  provider: { id: string; name: string };
+  bookings: Occurrence[];
+}
+
+const FREQUENCY_LABELS = {
+  weekly: "Every week",
+  biweekly: "Every 2 weeks",
+  monthly: "Every month",
+};
+
+// A repeating booking and its occurrences, each of which can be skipped, or
+// the whole series cancelled
+export default function BookingSeriesPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [series, setSeries] = useState<BookingSeries | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [reloadCount, setReloadCount] = useState(0);
+  const [updating, setUpdating] = useState(false);
+
+  const seriesId = params.id as string;
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      try {
+        const response = await fetch(`/api/bookings/series/${seriesId}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setSeries(data.series);
+        } else {
+          setError(data.error || "Failed to fetch the series");
+        }
+      } catch {
+        setError("Network error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (user && seriesId) {
+      fetchSeries();
+    }
+  }, [user, seriesId, reloadCount]);
+
+  const send = async (body: object) => {
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/bookings/series/${seriesId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error);
+      } else if (data.failed?.length) {
+        alert(
+          data.failed
+            .map(
+              (failure: { bookingId: string; error: string }) =>
+                `${failure.bookingId}: ${failure.error}`
+            )
+            .join("\n")
+        );
+      }
+      setReloadCount((count) => count + 1);
+    } catch {
+      alert("Network error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const skipOccurrence = (bookingId: string) => {
+    if (!confirm("Skip this occurrence? It is cancelled like a single booking.")) {
+      return;
+    }
+    send({ action: "skip", bookingId });
+  };
+
+  const cancelSeries = () => {
+    if (
+      !confirm(
+        "Cancel all upcoming occurrences? Each one is cancelled under the booking's cancellation policy."
+      )
+    ) {
+      return;
+    }
+    send({ action: "cancel" });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !series) {
+    return (
+      <div className="max-w-3xl mx-auto py-12 px-4">
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm font-medium text-red-800">
+          {error || "Series not found"}
+        </div>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const isUpcoming = (occurrence: Occurrence) =>
+    new Date(occurrence.date) > now &&
+    (occurrence.status === "pending" || occurrence.status === "confirmed");
+
+  return (
+    <div className="max-w-3xl mx-auto py-12 px-4 space-y-6">
+      <div>
+        <Link
+          href="/dashboard/bookings"
+          className="text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          ← All bookings
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-gray-900">
+          {series.service.name}
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          {FREQUENCY_LABELS[series.frequency]} from{" "}
+          {new Date(series.startsAt).toLocaleString()}
+          {series.count && `, ${series.count} times`}
+          {series.until &&
+            ` until ${new Date(series.until).toLocaleDateString()}`}
+          {" · "}
+          {series.user.name} with {series.provider.name}
+          {series.status === "cancelled" && " · Cancelled"}
+        </p>
+        {series.notes && (
+          <p className="mt-1 text-sm text-gray-600">{series.notes}</p>
+        )}
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <ul className="divide-y divide-gray-200">
+          {series.bookings.map((occurrence) => (
+            <li
+              key={occurrence.id}
+              className="px-6 py-4 flex items-center justify-between text-sm"
+            >
+              <div>
+                <Link
+                  href={`/dashboard/bookings/${occurrence.id}`}
+                  className="font-medium text-gray-900 hover:text-indigo-600"
+                >
+                  {new Date(occurrence.date).toLocaleString()}
+                </Link>
+                <p className="text-gray-500 capitalize">
+                  {occurrence.status.replace("_", " ")} · Payment:{" "}
+                  {occurrence.paymentStatus} · ${occurrence.totalPrice}
+                </p>
+              </div>
+              {isUpcoming(occurrence) && (
+                <button
+                  onClick={() => skipOccurrence(occurrence.id)}
+                  disabled={updating}
+                  className="text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+                >
+                  Skip
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {series.status === "active" && (
+        <button
+          onClick={cancelSeries}
+          disabled={updating}
+          className="inline-flex items-center px-4 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+        >
+          Cancel series
+        </button>
+      )}
+    </div>
+  );
+}
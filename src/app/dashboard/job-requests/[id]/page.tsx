@@ -0,0 +1,382 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+
+interface Quote {
+  id: string;
+  price: number;
+  date: string;
+  message: string | null;
+  status: string;
+  expiresAt: string;
+  bookingId: string | null;
+  providerId: string;
+  service: { id: string; name: string; duration: number };
+  provider: { id: string; name: string };
+}
+
+interface JobRequest {
+  id: string;
+  userId: string;
+  category: string;
+  description: string;
+  location: string;
+  windowStart: string;
+  windowEnd: string;
+  status: string;
+  createdAt: string;
+  user: { id: string; name: string };
+  photos: { id: string; fileName: string }[];
+  quotes: Quote[];
+}
+
+interface QuoteService {
+  id: string;
+  name: string;
+  price: number;
+  duration: number;
+}
+
+const quoteStatusColors: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  withdrawn: "bg-gray-100 text-gray-800",
+  expired: "bg-gray-100 text-gray-800",
+};
+
+// A job request with its quotes: the customer accepts or turns them down,
+// and matching providers send and withdraw their own
+export default function JobRequestPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [jobRequest, setJobRequest] = useState<JobRequest | null>(null);
+  const [services, setServices] = useState<QuoteService[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [reloadCount, setReloadCount] = useState(0);
+  const [updating, setUpdating] = useState(false);
+  const [quoteForm, setQuoteForm] = useState({
+    serviceId: "",
+    price: "",
+    date: "",
+    message: "",
+  });
+
+  const jobRequestId = params.id as string;
+
+  useEffect(() => {
+    const fetchJobRequest = async () => {
+      try {
+        const response = await fetch(`/api/job-requests/${jobRequestId}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setJobRequest(data.jobRequest);
+          setServices(data.services);
+        } else {
+          setError(data.error || "Failed to fetch the job request");
+        }
+      } catch {
+        setError("Network error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (user && jobRequestId) {
+      fetchJobRequest();
+    }
+  }, [user, jobRequestId, reloadCount]);
+
+  const updateQuote = async (quoteId: string, action: string) => {
+    setUpdating(true);
+    try {
+      const response = await fetch(
+        `/api/job-requests/${jobRequestId}/quotes/${quoteId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action }),
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error);
+      }
+      setReloadCount((count) => count + 1);
+    } catch {
+      alert("Network error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const cancelRequest = async () => {
+    if (!confirm("Cancel this request? Open quotes are turned down.")) return;
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/job-requests/${jobRequestId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error);
+      }
+      setReloadCount((count) => count + 1);
+    } catch {
+      alert("Network error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const sendQuote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/job-requests/${jobRequestId}/quotes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          serviceId: quoteForm.serviceId,
+          price: parseFloat(quoteForm.price),
+          date: new Date(quoteForm.date).toISOString(),
+          message: quoteForm.message || null,
+        }),
+      });
+      if (response.ok) {
+        setQuoteForm({ serviceId: "", price: "", date: "", message: "" });
+      } else {
+        const data = await response.json();
+        alert(data.error);
+      }
+      setReloadCount((count) => count + 1);
+    } catch {
+      alert("Network error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !jobRequest) {
+    return (
+      <div className="max-w-3xl mx-auto py-12 px-4">
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm font-medium text-red-800">
+          {error || "Job request not found"}
+        </div>
+      </div>
+    );
+  }
+
+  const isCustomer = jobRequest.userId === user?.id;
+  const isOpen = jobRequest.status === "open";
+  const hasPendingQuote = jobRequest.quotes.some(
+    (quote) => quote.providerId === user?.id && quote.status === "pending"
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto py-12 px-4 space-y-6">
+      <div>
+        <Link
+          href="/dashboard/job-requests"
+          className="text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          ← All job requests
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-gray-900 capitalize">
+          {jobRequest.category} in {jobRequest.location}
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          {jobRequest.user.name} · Between{" "}
+          {new Date(jobRequest.windowStart).toLocaleString()} and{" "}
+          {new Date(jobRequest.windowEnd).toLocaleString()} ·{" "}
+          <span className="capitalize">{jobRequest.status}</span>
+        </p>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 space-y-4">
+        <p className="text-sm text-gray-700 whitespace-pre-line">
+          {jobRequest.description}
+        </p>
+        {jobRequest.photos.length > 0 && (
+          <div className="flex flex-wrap gap-3">
+            {jobRequest.photos.map((photo) => (
+              <a
+                key={photo.id}
+                href={`/api/job-requests/${jobRequest.id}/photos/${photo.id}`}
+                target="_blank"
+                rel="noreferrer"
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={`/api/job-requests/${jobRequest.id}/photos/${photo.id}`}
+                  alt={photo.fileName}
+                  className="h-32 w-32 object-cover rounded-md"
+                />
+              </a>
+            ))}
+          </div>
+        )}
+        {isCustomer && isOpen && (
+          <button
+            onClick={cancelRequest}
+            disabled={updating}
+            className="text-sm text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+          >
+            Cancel request
+          </button>
+        )}
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium text-gray-900">Quotes</h2>
+        {jobRequest.quotes.length === 0 ? (
+          <p className="text-sm text-gray-600">No quotes yet.</p>
+        ) : (
+          <div className="bg-white shadow sm:rounded-lg">
+            <ul className="divide-y divide-gray-200">
+              {jobRequest.quotes.map((quote) => (
+                <li key={quote.id} className="px-6 py-4 text-sm">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium text-gray-900">
+                      ${quote.price} · {quote.provider.name} ·{" "}
+                      {quote.service.name}
+                    </p>
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${quoteStatusColors[quote.status]}`}
+                    >
+                      {quote.status}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-gray-500">
+                    {new Date(quote.date).toLocaleString()} ·{" "}
+                    {quote.service.duration} minutes
+                    {quote.status === "pending" &&
+                      ` · Open until ${new Date(quote.expiresAt).toLocaleString()}`}
+                  </p>
+                  {quote.message && (
+                    <p className="mt-1 text-gray-700">{quote.message}</p>
+                  )}
+                  <div className="mt-2 flex gap-4">
+                    {quote.bookingId && (
+                      <Link
+                        href={`/dashboard/bookings/${quote.bookingId}`}
+                        className="text-indigo-600 hover:text-indigo-500 font-medium"
+                      >
+                        View booking
+                      </Link>
+                    )}
+                    {quote.status === "pending" && isCustomer && isOpen && (
+                      <>
+                        <button
+                          onClick={() => updateQuote(quote.id, "accept")}
+                          disabled={updating}
+                          className="text-green-600 hover:text-green-900 font-medium disabled:opacity-50"
+                        >
+                          Accept and book
+                        </button>
+                        <button
+                          onClick={() => updateQuote(quote.id, "reject")}
+                          disabled={updating}
+                          className="text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+                        >
+                          Turn down
+                        </button>
+                      </>
+                    )}
+                    {quote.status === "pending" &&
+                      quote.providerId === user?.id && (
+                        <button
+                          onClick={() => updateQuote(quote.id, "withdraw")}
+                          disabled={updating}
+                          className="text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+                        >
+                          Withdraw
+                        </button>
+                      )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      {!isCustomer && isOpen && services.length > 0 && !hasPendingQuote && (
+        <form
+          onSubmit={sendQuote}
+          className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 space-y-4"
+        >
+          <h2 className="text-lg font-medium text-gray-900">Send a quote</h2>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <select
+              required
+              className="block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={quoteForm.serviceId}
+              onChange={(e) =>
+                setQuoteForm({ ...quoteForm, serviceId: e.target.value })
+              }
+            >
+              <option value="">Service</option>
+              {services.map((service) => (
+                <option key={service.id} value={service.id}>
+                  {service.name} ({service.duration} min)
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              required
+              min="0.01"
+              step="0.01"
+              placeholder="Price ($)"
+              className="block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={quoteForm.price}
+              onChange={(e) =>
+                setQuoteForm({ ...quoteForm, price: e.target.value })
+              }
+            />
+            <input
+              type="datetime-local"
+              required
+              className="block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+              value={quoteForm.date}
+              onChange={(e) =>
+                setQuoteForm({ ...quoteForm, date: e.target.value })
+              }
+            />
+          </div>
+          <textarea
+            rows={3}
+            placeholder="Message to the customer (optional)"
+            className="block w-full border-gray-300 rounded-md shadow-sm sm:text-sm"
+            value={quoteForm.message}
+            onChange={(e) =>
+              setQuoteForm({ ...quoteForm, message: e.target.value })
+            }
+          />
+          <button
+            type="submit"
+            disabled={updating}
+            className="px-4 py-2 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Send quote
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/context/AuthContext";
+import { hasPermission } from "@/lib/permissions";
+
+interface JobRequest {
+  id: string;
+  category: string;
+  description: string;
+  location: string;
+  windowStart: string;
+  windowEnd: string;
+  status: string;
+  createdAt: string;
+  _count?: { quotes: number };
+}
+
+const categories = [
+  "Cleaning",
+  "Plumbing",
+  "Electrical",
+  "Gardening",
+  "Tutoring",
+  "Fitness",
+  "Beauty",
+  "Automotive",
+  "Other",
+];
+
+const statusColors: Record<string, string> = {
+  open: "bg-green-100 text-green-800",
+  booked: "bg-blue-100 text-blue-800",
+  cancelled: "bg-red-100 text-red-800",
+  expired: "bg-gray-100 text-gray-800",
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Jobs posted for quotes, and for providers the open ones they could quote for
+export default function JobRequestsPage() {
+  const { user } = useAuth();
+  const [jobRequests, setJobRequests] = useState<JobRequest[]>([]);
+  const [matching, setMatching] = useState<JobRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [reloadCount, setReloadCount] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [formData, setFormData] = useState({
+    category: "",
+    description: "",
+    location: "",
+    from: "",
+    to: "",
+  });
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  const isProvider = !!user && hasPermission(user.role, "service:publish");
+
+  useEffect(() => {
+    const fetchJobRequests = async () => {
+      try {
+        const response = await fetch("/api/job-requests");
+        const data = await response.json();
+        if (response.ok) {
+          setJobRequests(data.jobRequests);
+        } else {
+          setError(data.error || "Failed to fetch job requests");
+        }
+
+        if (isProvider) {
+          const matchingResponse = await fetch(
+            "/api/job-requests?matching=true"
+          );
+          if (matchingResponse.ok) {
+            const matchingData = await matchingResponse.json();
+            setMatching(matchingData.jobRequests);
+          }
+        }
+      } catch {
+        setError("Network error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (user) {
+      fetchJobRequests();
+    }
+  }, [user, isProvider, reloadCount]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setPosting(true);
+    try {
+      // The window runs from the start of the first day to the end of the
+      // last, in the customer's time zone
+      const body = new FormData();
+      body.append("category", formData.category);
+      body.append("description", formData.description);
+      body.append("location", formData.location);
+      body.append(
+        "windowStart",
+        new Date(`${formData.from}T00:00`).toISOString()
+      );
+      body.append(
+        "windowEnd",
+        new Date(new Date(`${formData.to}T00:00`).getTime() + DAY).toISOString()
+      );
+      photos.forEach((photo) => body.append("photos", photo));
+
+      const response = await fetch("/api/job-requests", {
+        method: "POST",
+        body,
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setShowForm(false);
+        setFormData({
+          category: "",
+          description: "",
+          location: "",
+          from: "",
+          to: "",
+        });
+        setPhotos([]);
+        setReloadCount((count) => count + 1);
+      } else {
+        setError(data.error);
+      }
+    } catch {
+      setError("Network error occurred");
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const renderList = (items: JobRequest[], empty: string) =>
+    items.length === 0 ? (
+      <p className="text-sm text-gray-600">{empty}</p>
+    ) : (
+      <div className="bg-white shadow sm:rounded-lg">
+        <ul className="divide-y divide-gray-200">
+          {items.map((jobRequest) => (
+            <li key={jobRequest.id} className="px-6 py-4 text-sm">
+              <div className="flex items-center justify-between">
+                <Link
+                  href={`/dashboard/job-requests/${jobRequest.id}`}
+                  className="font-medium text-gray-900 hover:text-indigo-600 capitalize"
+                >
+                  {jobRequest.category} · {jobRequest.location}
+                </Link>
+                <span
+                  className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${statusColors[jobRequest.status]}`}
+                >
+                  {jobRequest.status}
+                </span>
+              </div>
+              <p className="mt-1 text-gray-600 line-clamp-2">
+                {jobRequest.description}
+              </p>
+              <p className="mt-1 text-gray-500">
+                {new Date(jobRequest.windowStart).toLocaleDateString()} –{" "}
+                {new Date(jobRequest.windowEnd).toLocaleDateString()}
+                {jobRequest._count &&
+                  ` · ${jobRequest._count.quotes} open quotes`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <div className="max-w-3xl mx-auto py-12 px-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Job Requests</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Describe a job that can&apos;t be priced up front and providers
+            nearby will send you quotes.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+        >
+          {showForm ? "Close" : "Request quotes"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm font-medium text-red-800">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6 space-y-4"
+        >
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label
+                htmlFor="category"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Category
+              </label>
+              <select
+                id="category"
+                required
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={formData.category}
+                onChange={(e) =>
+                  setFormData({ ...formData, category: e.target.value })
+                }
+              >
+                <option value="">Select Category</option>
+                {categories.map((cat) => (
+                  <option key={cat} value={cat.toLowerCase()}>
+                    {cat}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="location"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Location
+              </label>
+              <input
+                id="location"
+                type="text"
+                required
+                placeholder="Town or area"
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={formData.location}
+                onChange={(e) =>
+                  setFormData({ ...formData, location: e.target.value })
+                }
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="from"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Earliest day
+              </label>
+              <input
+                id="from"
+                type="date"
+                required
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={formData.from}
+                onChange={(e) =>
+                  setFormData({ ...formData, from: e.target.value })
+                }
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="to"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Latest day
+              </label>
+              <input
+                id="to"
+                type="date"
+                required
+                min={formData.from}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={formData.to}
+                onChange={(e) =>
+                  setFormData({ ...formData, to: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="description"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Description
+            </label>
+            <textarea
+              id="description"
+              required
+              rows={4}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              value={formData.description}
+              onChange={(e) =>
+                setFormData({ ...formData, description: e.target.value })
+              }
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="photos"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Photos (up to 5, JPEG or PNG)
+            </label>
+            <input
+              id="photos"
+              type="file"
+              multiple
+              accept="image/jpeg,image/png"
+              className="mt-1 text-sm"
+              onChange={(e) => setPhotos(Array.from(e.target.files ?? []))}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={posting}
+            className="px-4 py-2 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Post request
+          </button>
+        </form>
+      )}
+
+      {isProvider && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-medium text-gray-900">
+            Open requests you can quote for
+          </h2>
+          {renderList(
+            matching,
+            "No open requests match your services' categories and locations."
+          )}
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium text-gray-900">Your requests</h2>
+        {renderList(jobRequests, "You haven't posted any job requests.")}
+      </section>
+    </div>
+  );
+}
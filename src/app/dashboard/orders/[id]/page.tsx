@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import PaymentForm from "@/components/PaymentForm";
+import { useAuth } from "@/context/AuthContext";
+
+interface OrderBooking {
+  id: string;
+  date: string;
+  status: string;
+  paymentStatus: string;
+  totalPrice: number;
+  refundedAmount: number | null;
+  service: { id: string; name: string };
+  provider: { id: string; name: string };
+}
+
+interface Order {
+  id: string;
+  totalPrice: number;
+  amountDue: number;
+  paidAt: string | null;
+  createdAt: string;
+  bookings: OrderBooking[];
+}
+
+// Bookings checked out together: paid for at once, and cancelled one by one
+export default function OrderPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [reloadCount, setReloadCount] = useState(0);
+  const [updating, setUpdating] = useState(false);
+
+  const orderId = params.id as string;
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      try {
+        const response = await fetch(`/api/orders/${orderId}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setOrder(data.order);
+        } else {
+          setError(data.error || "Failed to fetch the order");
+        }
+      } catch {
+        setError("Network error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (user && orderId) {
+      fetchOrder();
+    }
+  }, [user, orderId, reloadCount]);
+
+  const cancelBooking = async (bookingId: string) => {
+    if (
+      !confirm(
+        "Cancel this booking? Its share of the payment is refunded under its cancellation policy."
+      )
+    ) {
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error);
+      }
+      setReloadCount((count) => count + 1);
+    } catch {
+      alert("Network error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="max-w-3xl mx-auto py-12 px-4">
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm font-medium text-red-800">
+          {error || "Order not found"}
+        </div>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const isUpcoming = (booking: OrderBooking) =>
+    new Date(booking.date) > now &&
+    (booking.status === "pending" || booking.status === "confirmed");
+
+  return (
+    <div className="max-w-3xl mx-auto py-12 px-4 space-y-6">
+      <div>
+        <Link
+          href="/dashboard/bookings"
+          className="text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          ← All bookings
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-gray-900">Order</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Placed {new Date(order.createdAt).toLocaleString()} · $
+          {order.totalPrice.toFixed(2)}
+          {order.paidAt &&
+            ` · Paid ${new Date(order.paidAt).toLocaleString()}`}
+        </p>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <ul className="divide-y divide-gray-200">
+          {order.bookings.map((booking) => (
+            <li
+              key={booking.id}
+              className="px-6 py-4 flex items-center justify-between text-sm"
+            >
+              <div>
+                <Link
+                  href={`/dashboard/bookings/${booking.id}`}
+                  className="font-medium text-gray-900 hover:text-indigo-600"
+                >
+                  {booking.service.name} ·{" "}
+                  {new Date(booking.date).toLocaleString()}
+                </Link>
+                <p className="text-gray-500 capitalize">
+                  {booking.provider.name} ·{" "}
+                  {booking.status.replace("_", " ")} · Payment:{" "}
+                  {booking.paymentStatus} · ${booking.totalPrice}
+                  {booking.refundedAmount !== null &&
+                    ` · Refunded $${booking.refundedAmount}`}
+                </p>
+              </div>
+              {isUpcoming(booking) && (
+                <button
+                  onClick={() => cancelBooking(booking.id)}
+                  disabled={updating}
+                  className="text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {order.amountDue > 0 && (
+        <PaymentForm
+          key={reloadCount}
+          orderId={order.id}
+          amount={order.amountDue}
+          onSuccess={() => setReloadCount((count) => count + 1)}
+          onError={(message) => alert(`Payment failed: ${message}`)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,21 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useAuth } from "@/context/AuthContext";
+import ProviderVerification from "@/components/ProviderVerification";
+import AvailabilitySettings from "@/components/AvailabilitySettings";
+import CancellationPolicySettings from "@/components/CancellationPolicySettings";
+import CalendarImports from "@/components/CalendarImports";
+import WeeklyAvailabilityEditor from "@/components/WeeklyAvailabilityEditor";
+import {
+  WeeklyAvailability,
+  describeWeeklyAvailability,
+  parseWeeklyAvailability,
+} from "@/lib/availability";
+import {
+  CANCELLATION_POLICIES,
+  CancellationPolicy,
+} from "@/lib/cancellation-policies";
 
 interface Service {
   id: string;
@@ -9,13 +24,12 @@ interface Service {
   category: string;
   price: number;
   duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
   location: string;
-  availability: {
-    days: string[];
-    startTime: string;
-    endTime: string;
-  };
+  availability: WeeklyAvailability;
   tags: string[];
+  cancellationPolicy: CancellationPolicy | null;
   rating: number;
   reviewCount: number;
   isActive: boolean;
@@ -33,36 +47,21 @@ export default function ProviderDashboard() {
     category: "",
     price: "",
     duration: "",
+    bufferBefore: "0",
+    bufferAfter: "0",
     location: "",
-    availability: {
-      days: [] as string[],
-      startTime: "",
-      endTime: "",
-    },
+    availability: {} as WeeklyAvailability,
     tags: "",
+    cancellationPolicy: "",
     isActive: true,
   });
   const [submitting, setSubmitting] = useState(false);
-  const [user, setUser] = useState<any>(null);
-
-  // Initialize user from localStorage on client side
-  useEffect(() => {
-    const storedUser = localStorage.getItem("user");
-    if (storedUser) {
-      setUser(JSON.parse(storedUser));
-    }
-  }, []);
+  const { user } = useAuth();
 
   const fetchServices = async () => {
     if (!user) return;
     try {
-      const token = localStorage.getItem("token");
-      if (!token) return;
-      const response = await fetch("/api/services", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await fetch("/api/services");
       const data = await response.json();
       // Filter services for this provider
       setServices(
@@ -86,10 +85,14 @@ export default function ProviderDashboard() {
         ...formData,
         price: parseFloat(formData.price),
         duration: parseInt(formData.duration),
+        bufferBefore: parseInt(formData.bufferBefore) || 0,
+        bufferAfter: parseInt(formData.bufferAfter) || 0,
         tags: formData.tags
           .split(",")
           .map((tag) => tag.trim())
           .filter((tag) => tag),
+        // An empty choice uses the provider's default policy
+        cancellationPolicy: formData.cancellationPolicy || null,
       };
 
       const url = editingService
@@ -101,7 +104,6 @@ export default function ProviderDashboard() {
         method,
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
         body: JSON.stringify(serviceData),
       });
@@ -131,9 +133,12 @@ export default function ProviderDashboard() {
       category: service.category,
       price: service.price.toString(),
       duration: service.duration.toString(),
+      bufferBefore: service.bufferBefore.toString(),
+      bufferAfter: service.bufferAfter.toString(),
       location: service.location,
-      availability: service.availability,
+      availability: parseWeeklyAvailability(service.availability),
       tags: service.tags.join(", "),
+      cancellationPolicy: service.cancellationPolicy ?? "",
       isActive: service.isActive,
     });
     setShowCreateForm(true);
@@ -145,9 +150,6 @@ export default function ProviderDashboard() {
     try {
       const response = await fetch(`/api/services/${serviceId}`, {
         method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
       });
 
       if (response.ok) {
@@ -169,29 +171,16 @@ export default function ProviderDashboard() {
       category: "",
       price: "",
       duration: "",
+      bufferBefore: "0",
+      bufferAfter: "0",
       location: "",
-      availability: {
-        days: [],
-        startTime: "",
-        endTime: "",
-      },
+      availability: {},
       tags: "",
+      cancellationPolicy: "",
       isActive: true,
     });
   };
 
-  const handleDayToggle = (day: string) => {
-    setFormData((prev) => ({
-      ...prev,
-      availability: {
-        ...prev.availability,
-        days: prev.availability.days.includes(day)
-          ? prev.availability.days.filter((d) => d !== day)
-          : [...prev.availability.days, day],
-      },
-    }));
-  };
-
   const categories = [
     "Cleaning",
     "Plumbing",
@@ -204,16 +193,6 @@ export default function ProviderDashboard() {
     "Other",
   ];
 
-  const daysOfWeek = [
-    "monday",
-    "tuesday",
-    "wednesday",
-    "thursday",
-    "friday",
-    "saturday",
-    "sunday",
-  ];
-
   // Fetch services only after user is loaded
   useEffect(() => {
     if (user) {
@@ -254,6 +233,14 @@ export default function ProviderDashboard() {
         </div>
       </div>
 
+      {user.role === "provider" && <ProviderVerification />}
+
+      <AvailabilitySettings services={services} />
+
+      <CalendarImports />
+
+      <CancellationPolicySettings />
+
       {/* Create/Edit Form */}
       {showCreateForm && (
         <div className="mt-8 bg-white shadow sm:rounded-lg">
@@ -344,6 +331,44 @@ export default function ProviderDashboard() {
                     }
                   />
                 </div>
+                <div>
+                  <label
+                    htmlFor="bufferBefore"
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Buffer Before (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    id="bufferBefore"
+                    min="0"
+                    max="240"
+                    className="pl-2 mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    value={formData.bufferBefore}
+                    onChange={(e) =>
+                      setFormData({ ...formData, bufferBefore: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="bufferAfter"
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Buffer After (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    id="bufferAfter"
+                    min="0"
+                    max="240"
+                    className="pl-2 mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    value={formData.bufferAfter}
+                    onChange={(e) =>
+                      setFormData({ ...formData, bufferAfter: e.target.value })
+                    }
+                  />
+                </div>
               </div>
 
               <div>
@@ -387,74 +412,14 @@ export default function ProviderDashboard() {
               {/* Availability */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Available Days
+                  Weekly Hours
                 </label>
-                <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
-                  {daysOfWeek.map((day) => (
-                    <label key={day} className="flex items-center">
-                      <input
-                        type="checkbox"
-                        checked={formData.availability.days.includes(day)}
-                        onChange={() => handleDayToggle(day)}
-                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
-                      />
-                      <span className="ml-2 text-sm text-gray-700 capitalize">
-                        {day}
-                      </span>
-                    </label>
-                  ))}
-                </div>
-              </div>
-
-              <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-                <div>
-                  <label
-                    htmlFor="startTime"
-                    className="block text-sm font-medium text-gray-700"
-                  >
-                    Start Time
-                  </label>
-                  <input
-                    type="time"
-                    id="startTime"
-                    required
-                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                    value={formData.availability.startTime}
-                    onChange={(e) =>
-                      setFormData({
-                        ...formData,
-                        availability: {
-                          ...formData.availability,
-                          startTime: e.target.value,
-                        },
-                      })
-                    }
-                  />
-                </div>
-                <div>
-                  <label
-                    htmlFor="endTime"
-                    className="block text-sm font-medium text-gray-700"
-                  >
-                    End Time
-                  </label>
-                  <input
-                    type="time"
-                    id="endTime"
-                    required
-                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                    value={formData.availability.endTime}
-                    onChange={(e) =>
-                      setFormData({
-                        ...formData,
-                        availability: {
-                          ...formData.availability,
-                          endTime: e.target.value,
-                        },
-                      })
-                    }
-                  />
-                </div>
+                <WeeklyAvailabilityEditor
+                  value={formData.availability}
+                  onChange={(availability) =>
+                    setFormData({ ...formData, availability })
+                  }
+                />
               </div>
 
               <div>
@@ -476,6 +441,33 @@ export default function ProviderDashboard() {
                 />
               </div>
 
+              <div>
+                <label
+                  htmlFor="serviceCancellationPolicy"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Cancellation Policy
+                </label>
+                <select
+                  id="serviceCancellationPolicy"
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  value={formData.cancellationPolicy}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      cancellationPolicy: e.target.value,
+                    })
+                  }
+                >
+                  <option value="">Use my default</option>
+                  {CANCELLATION_POLICIES.map((policy) => (
+                    <option key={policy} value={policy}>
+                      {policy.charAt(0).toUpperCase() + policy.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="flex items-center">
                 <input
                   id="isActive"
@@ -570,9 +562,10 @@ export default function ProviderDashboard() {
                       </div>
 
                       <div className="mt-2 text-sm text-gray-600">
-                        🕒 {service.availability.days.join(", ")}:{" "}
-                        {service.availability.startTime} -{" "}
-                        {service.availability.endTime}
+                        🕒{" "}
+                        {describeWeeklyAvailability(
+                          parseWeeklyAvailability(service.availability)
+                        ).join(" · ") || "No weekly hours"}
                       </div>
 
                       {service.tags.length > 0 && (
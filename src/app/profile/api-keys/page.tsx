@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { API_KEY_SCOPES, ApiKeyScope } from "@/lib/permissions";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const SCOPES = Object.entries(API_KEY_SCOPES) as [ApiKeyScope, string][];
+
+export default function ApiKeysPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("");
+  const [newKey, setNewKey] = useState("");
+  const [error, setError] = useState("");
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/auth/login");
+    }
+  }, [loading, user, router]);
+
+  const request = async (url: string, method: string, body?: object) => {
+    setError("");
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      ...(body && { body: JSON.stringify(body) }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error);
+    return data;
+  };
+
+  useEffect(() => {
+    const fetchKeys = async () => {
+      const response = await fetch("/api/api-keys");
+      if (response.ok) {
+        const data = await response.json();
+        setApiKeys(data.apiKeys);
+      }
+    };
+
+    if (user) fetchKeys();
+  }, [user, reloadCount]);
+
+  const reload = () => setReloadCount((count) => count + 1);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const data = await request("/api/api-keys", "POST", {
+        name,
+        scopes,
+        ...(expiresInDays && { expiresInDays: parseInt(expiresInDays) }),
+      });
+      setNewKey(data.key);
+      setName("");
+      setScopes([]);
+      setExpiresInDays("");
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create key");
+    }
+  };
+
+  const handleRotate = async (id: string) => {
+    try {
+      const data = await request(`/api/api-keys/${id}/rotate`, "POST");
+      setNewKey(data.key);
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not rotate key");
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm("Revoke this key? Integrations using it will stop working.")) {
+      return;
+    }
+    try {
+      await request(`/api/api-keys/${id}`, "DELETE");
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not revoke key");
+    }
+  };
+
+  const isActive = (key: ApiKey) =>
+    !key.revokedAt && (!key.expiresAt || new Date(key.expiresAt) > new Date());
+
+  if (loading || !user) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto py-12 px-4 sm:px-6 lg:px-8 space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">API keys</h1>
+      <p className="text-sm text-gray-600">
+        Keys let your own systems call the API as you, limited to the scopes
+        you choose. Send them as <code>Authorization: Bearer &lt;key&gt;</code>.
+      </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+      {newKey && (
+        <div className="bg-green-100 border border-green-400 text-green-800 px-4 py-3 rounded space-y-2">
+          <p className="text-sm">
+            Copy this key now, it will not be shown again:
+          </p>
+          <code className="block break-all font-mono text-sm">{newKey}</code>
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="bg-white shadow rounded-lg p-6 space-y-4"
+      >
+        <h2 className="text-lg font-medium text-gray-900">New key</h2>
+        <input
+          type="text"
+          required
+          maxLength={100}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. Property management sync"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <fieldset className="space-y-2">
+          {SCOPES.map(([scope, description]) => (
+            <label key={scope} className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              <span className="font-mono">{scope}</span>
+              <span className="text-gray-500">{description}</span>
+            </label>
+          ))}
+        </fieldset>
+        <input
+          type="number"
+          min={1}
+          max={365}
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+          placeholder="Expires after (days, optional)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <button
+          type="submit"
+          disabled={scopes.length === 0}
+          className="py-2 px-4 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Create key
+        </button>
+      </form>
+
+      <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+        {apiKeys.length === 0 && (
+          <p className="p-6 text-sm text-gray-500">No API keys yet</p>
+        )}
+        {apiKeys.map((key) => (
+          <div key={key.id} className="p-6 space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{key.name}</p>
+                <p className="font-mono text-sm text-gray-500">
+                  {key.prefix}…
+                </p>
+              </div>
+              {isActive(key) ? (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleRotate(key.id)}
+                    className="px-3 py-1 text-sm rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+                  >
+                    Rotate
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(key.id)}
+                    className="px-3 py-1 text-sm rounded-md text-red-700 bg-red-100 hover:bg-red-200"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ) : (
+                <span className="text-sm text-gray-500">
+                  {key.revokedAt ? "Revoked" : "Expired"}
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-gray-600">{key.scopes.join(", ")}</p>
+            <p className="text-xs text-gray-500">
+              Created {new Date(key.createdAt).toLocaleDateString()}
+              {key.expiresAt &&
+                ` · expires ${new Date(key.expiresAt).toLocaleString()}`}
+              {` · last used ${
+                key.lastUsedAt
+                  ? new Date(key.lastUsedAt).toLocaleString()
+                  : "never"
+              }`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
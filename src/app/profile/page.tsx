@@ -4,6 +4,7 @@ import React from "react";
 import { useAuth } from "@/context/AuthContext";
 import ProfileComponent from "@/components/ProfileComponent";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 
 const ProfilePage = () => {
   const { user, loading } = useAuth();
@@ -19,7 +20,31 @@ const ProfilePage = () => {
   }
 
   // Render the unified profile component
-  return <ProfileComponent user={user} />;
+  return (
+    <>
+      <ProfileComponent user={user} />
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
+        <Link
+          href="/profile/security"
+          className="font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          Account security and two-factor authentication
+        </Link>
+        <Link
+          href="/profile/api-keys"
+          className="block mt-2 font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          API keys for integrations
+        </Link>
+        <Link
+          href="/profile/privacy"
+          className="block mt-2 font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          Download your data or delete your account
+        </Link>
+      </div>
+    </>
+  );
 };
 
 export default ProfilePage;
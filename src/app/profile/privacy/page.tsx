@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+
+export default function PrivacyPage() {
+  const { user, loading, logout } = useAuth();
+  const router = useRouter();
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/auth/login");
+    }
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      const response = await fetch("/api/auth/profile");
+      if (response.ok) {
+        const data = await response.json();
+        setTwoFactorEnabled(data.user.twoFactorEnabled);
+      }
+    };
+
+    if (user) fetchProfile();
+  }, [user]);
+
+  const handleExport = async () => {
+    setError("");
+    const response = await fetch("/api/auth/profile/export");
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error || "Export failed");
+      return;
+    }
+
+    const blob = await response.blob();
+    const disposition = response.headers.get("Content-Disposition") || "";
+    const filename =
+      disposition.match(/filename="([^"]+)"/)?.[1] || "justservicehub-data.json";
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (
+      !window.confirm(
+        "This permanently removes your personal details and signs you out everywhere. Continue?"
+      )
+    ) {
+      return;
+    }
+
+    const response = await fetch("/api/auth/profile/deletion", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ password, code: code || undefined }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Deletion failed");
+      return;
+    }
+
+    await logout();
+    router.push("/");
+  };
+
+  if (loading || !user) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto py-12 px-4 sm:px-6 lg:px-8 space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">Your data</h1>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">Download</h2>
+        <p className="text-sm text-gray-600">
+          A JSON file with your profile, bookings, payments, reviews and
+          account activity.
+        </p>
+        <button
+          onClick={handleExport}
+          className="py-2 px-4 rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+        >
+          Download my data
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">Delete account</h2>
+        <p className="text-sm text-gray-600">
+          Your name, contact details and booking notes are erased and you are
+          signed out everywhere. Completed bookings, payments and reviews are
+          kept without your details for the provider&apos;s records. Open
+          bookings and active services have to be finished or cancelled first.
+        </p>
+        <form onSubmit={handleDelete} className="space-y-4">
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md sm:text-sm"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {twoFactorEnabled && (
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md sm:text-sm"
+              placeholder="6-digit code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          )}
+          <button
+            type="submit"
+            className="py-2 px-4 rounded-md text-white bg-red-600 hover:bg-red-700"
+          >
+            Delete my account
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
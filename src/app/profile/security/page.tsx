@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { STAFF_ROLES } from "@/lib/permissions";
+
+export default function SecurityPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [enrollment, setEnrollment] = useState<{
+    secret: string;
+    otpauthUrl: string;
+  } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/auth/login");
+    }
+  }, [loading, user, router]);
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      const response = await fetch("/api/auth/profile");
+      if (response.ok) {
+        const data = await response.json();
+        setTwoFactorEnabled(data.user.twoFactorEnabled);
+      }
+    };
+
+    if (user) fetchProfile();
+  }, [user]);
+
+  const postJson = async (url: string, body: object = {}) => {
+    setError("");
+    setMessage("");
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error);
+    return data;
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      const data = await postJson("/api/auth/2fa/setup");
+      setEnrollment({ secret: data.secret, otpauthUrl: data.otpauthUrl });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Setup failed");
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const data = await postJson("/api/auth/2fa/enable", { code });
+      setRecoveryCodes(data.recoveryCodes);
+      setTwoFactorEnabled(true);
+      setEnrollment(null);
+      setCode("");
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const data = await postJson("/api/auth/2fa/recovery-codes", { code });
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+  };
+
+  const handleDisable = async () => {
+    try {
+      const data = await postJson("/api/auth/2fa/disable", { code });
+      setTwoFactorEnabled(false);
+      setRecoveryCodes([]);
+      setCode("");
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+  };
+
+  if (loading || !user) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto py-12 px-4 sm:px-6 lg:px-8 space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">Account security</h1>
+
+      {STAFF_ROLES.includes(user.role) && !twoFactorEnabled && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded">
+          Staff accounts must enable two-factor authentication before using
+          the admin dashboard.
+        </div>
+      )}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">
+          Two-factor authentication
+        </h2>
+        <p className="text-sm text-gray-600">
+          Status:{" "}
+          <span className="font-semibold">
+            {twoFactorEnabled ? "Enabled" : "Disabled"}
+          </span>
+        </p>
+
+        {!twoFactorEnabled && !enrollment && (
+          <button
+            onClick={handleStartSetup}
+            className="py-2 px-4 rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            Set up authenticator app
+          </button>
+        )}
+
+        {enrollment && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Open this link on the device with your authenticator app, or
+              enter the key manually:
+            </p>
+            <a
+              href={enrollment.otpauthUrl}
+              className="block break-all text-sm text-indigo-600"
+            >
+              {enrollment.otpauthUrl}
+            </a>
+            <p className="font-mono text-sm bg-gray-100 p-2 rounded break-all">
+              {enrollment.secret}
+            </p>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md sm:text-sm"
+              placeholder="6-digit code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <button
+              type="submit"
+              className="py-2 px-4 rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Confirm and enable
+            </button>
+          </form>
+        )}
+
+        {twoFactorEnabled && (
+          <form onSubmit={handleRegenerate} className="space-y-4">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md sm:text-sm"
+              placeholder="6-digit code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                className="py-2 px-4 rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                New recovery codes
+              </button>
+              {!STAFF_ROLES.includes(user.role) && (
+                <button
+                  type="button"
+                  onClick={handleDisable}
+                  className="py-2 px-4 rounded-md text-white bg-red-600 hover:bg-red-700"
+                >
+                  Disable
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+
+        {recoveryCodes.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Store these recovery codes somewhere safe. Each one works once
+              and they will not be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-100 p-3 rounded">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
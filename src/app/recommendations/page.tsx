@@ -39,12 +39,7 @@ export default function RecommendationsPage() {
     setLoading(true);
     try {
       const response = await fetch(
-        `/api/recommendations?q=${encodeURIComponent(query)}`,
-        {
-          headers: {
-            Authorization: `Bearer ${localStorage.getItem("token")}`,
-          },
-        }
+        `/api/recommendations?q=${encodeURIComponent(query)}`
       );
       const data = await response.json();
       setRecommendations(data.recommendations || []);
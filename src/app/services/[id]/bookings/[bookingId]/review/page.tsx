@@ -38,11 +38,7 @@ export default function ReviewPage() {
 
   const fetchBookingDetails = async () => {
     try {
-      const response = await fetch(`/api/bookings/${bookingId}`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
+      const response = await fetch(`/api/bookings/${bookingId}`);
       const data = await response.json();
       if (response.ok) {
         setBooking(data.booking);
@@ -63,17 +59,10 @@ export default function ReviewPage() {
     setError("");
 
     try {
-      const token = localStorage.getItem("token");
-      if (!token) {
-        setError("Authentication required");
-        return;
-      }
-
       const response = await fetch("/api/reviews", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
           bookingId: bookingId,
@@ -4,6 +4,16 @@ import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/context/AuthContext";
+import SlotPicker from "@/components/SlotPicker";
+import {
+  WeeklyAvailability,
+  describeWeeklyAvailability,
+  parseWeeklyAvailability,
+} from "@/lib/availability";
+import {
+  CancellationPolicy,
+  describeCancellationPolicy,
+} from "@/lib/cancellation-policies";
 
 interface Service {
   id: string;
@@ -13,12 +23,9 @@ interface Service {
   price: number;
   duration: number;
   location: string;
-  availability: {
-    days: string[];
-    startTime: string;
-    endTime: string;
-  };
+  availability: WeeklyAvailability;
   tags: string[];
+  cancellationPolicy: CancellationPolicy;
   rating: number;
   reviewCount: number;
   provider: {
@@ -27,6 +34,7 @@ interface Service {
     email: string;
     phone: string;
     address: string;
+    timeZone: string;
   };
 }
 
@@ -45,7 +53,10 @@ export default function ServiceDetailPage() {
   const [reviews, setReviews] = useState<Review[]>([]);
   const [loading, setLoading] = useState(true);
   const [bookingDate, setBookingDate] = useState("");
+  const [bookingTaken, setBookingTaken] = useState(false);
   const [bookingNotes, setBookingNotes] = useState("");
+  const [repeat, setRepeat] = useState("");
+  const [repeatCount, setRepeatCount] = useState("4");
   const [bookingLoading, setBookingLoading] = useState(false);
   const [error, setError] = useState("");
   const { id } = useParams();
@@ -85,11 +96,80 @@ export default function ServiceDetailPage() {
 
     setBookingLoading(true);
     try {
-      const response = await fetch("/api/bookings", {
+      if (bookingTaken && !repeat) {
+        await joinWaitlist();
+        return;
+      }
+
+      // A repeating booking creates a series with one booking per occurrence
+      const response = await fetch(
+        repeat ? "/api/bookings/series" : "/api/bookings",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(
+            repeat
+              ? {
+                  serviceId: id,
+                  start: bookingDate,
+                  frequency: repeat,
+                  count: parseInt(repeatCount),
+                  notes: bookingNotes,
+                }
+              : {
+                  serviceId: id,
+                  date: bookingDate,
+                  notes: bookingNotes,
+                }
+          ),
+        }
+      );
+      const data = await response.json();
+      if (response.ok) {
+        alert(
+          repeat
+            ? [
+                `Booked ${data.bookings.length} occurrences.`,
+                ...data.skipped.map(
+                  (skipped: { date: string; reason: string }) =>
+                    `Skipped ${skipped.date}: ${skipped.reason}`
+                ),
+              ].join("\n")
+            : "Booking created successfully!"
+        );
+        router.push("/dashboard/bookings");
+      } else if (
+        data.waitlist &&
+        confirm(`${data.error}. Join the waitlist for this time?`)
+      ) {
+        // The time was taken after the slots were loaded
+        await joinWaitlist();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error("Error creating booking:", error);
+      setError("Failed to create booking");
+    } finally {
+      setBookingLoading(false);
+    }
+  };
+
+  // Keeps the time for checking out together with other services
+  const addToCart = async () => {
+    if (!user) {
+      router.push("/auth/login");
+      return;
+    }
+
+    setBookingLoading(true);
+    try {
+      const response = await fetch("/api/cart", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
         body: JSON.stringify({
           serviceId: id,
@@ -99,19 +179,41 @@ export default function ServiceDetailPage() {
       });
       const data = await response.json();
       if (response.ok) {
-        alert("Booking created successfully!");
-        router.push("/dashboard/bookings");
+        router.push("/cart");
       } else {
         setError(data.error);
       }
     } catch (error) {
-      console.error("Error creating booking:", error);
-      setError("Failed to create booking");
+      console.error("Error adding to cart:", error);
+      setError("Failed to add to cart");
     } finally {
       setBookingLoading(false);
     }
   };
 
+  const joinWaitlist = async () => {
+    const response = await fetch("/api/bookings/waitlist", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        serviceId: id,
+        date: bookingDate,
+        notes: bookingNotes,
+      }),
+    });
+    const data = await response.json();
+    if (response.ok) {
+      alert(
+        `You're number ${data.entry.position} on the waitlist. We'll email you if the time frees up.`
+      );
+      router.push("/dashboard/bookings");
+    } else {
+      setError(data.error);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-64">
@@ -195,12 +297,13 @@ export default function ServiceDetailPage() {
               Availability
             </h2>
             <div className="space-y-2">
+              {describeWeeklyAvailability(
+                parseWeeklyAvailability(service.availability)
+              ).map((line) => (
+                <p key={line}>{line}</p>
+              ))}
               <p>
-                <strong>Days:</strong> {service.availability.days.join(", ")}
-              </p>
-              <p>
-                <strong>Hours:</strong> {service.availability.startTime} -{" "}
-                {service.availability.endTime}
+                <strong>Time zone:</strong> {service.provider.timeZone}
               </p>
               <p>
                 <strong>Location:</strong> {service.location}
@@ -208,6 +311,28 @@ export default function ServiceDetailPage() {
             </div>
           </div>
 
+          {/* Cancellation policy */}
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Cancellation Policy
+            </h2>
+            <div className="space-y-2">
+              <p className="capitalize">
+                <strong>{service.cancellationPolicy}</strong>
+              </p>
+              {describeCancellationPolicy(service.cancellationPolicy).map(
+                (line) => (
+                  <p key={line}>{line}</p>
+                )
+              )}
+              <p className="text-sm text-gray-500">
+                Applies once the provider confirms your booking. Cancelling
+                before then, or a cancellation by the provider, is refunded in
+                full.
+              </p>
+            </div>
+          </div>
+
           {/* Tags */}
           {service.tags.length > 0 && (
             <div className="bg-white rounded-lg shadow-sm p-6">
@@ -277,22 +402,59 @@ export default function ServiceDetailPage() {
                   </div>
                 )}
                 <div>
-                  <label
-                    htmlFor="date"
-                    className="block text-sm font-medium text-gray-700"
-                  >
+                  <span className="block text-sm font-medium text-gray-700 mb-2">
                     Select Date & Time
-                  </label>
-                  <input
-                    type="datetime-local"
-                    id="date"
-                    required
-                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  </span>
+                  <SlotPicker
+                    serviceId={service.id}
                     value={bookingDate}
-                    onChange={(e) => setBookingDate(e.target.value)}
-                    min={new Date().toISOString().slice(0, 16)}
+                    onChange={(slot, taken) => {
+                      setBookingDate(slot);
+                      setBookingTaken(taken);
+                    }}
+                    showTaken
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label
+                      htmlFor="repeat"
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Repeat
+                    </label>
+                    <select
+                      id="repeat"
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      value={repeat}
+                      onChange={(e) => setRepeat(e.target.value)}
+                    >
+                      <option value="">Does not repeat</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="biweekly">Every 2 weeks</option>
+                      <option value="monthly">Monthly</option>
+                    </select>
+                  </div>
+                  {repeat && (
+                    <div>
+                      <label
+                        htmlFor="repeatCount"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Occurrences
+                      </label>
+                      <input
+                        type="number"
+                        id="repeatCount"
+                        min="2"
+                        max="52"
+                        className="pl-2 mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        value={repeatCount}
+                        onChange={(e) => setRepeatCount(e.target.value)}
+                      />
+                    </div>
+                  )}
+                </div>
                 <div>
                   <label
                     htmlFor="notes"
@@ -311,11 +473,25 @@ export default function ServiceDetailPage() {
                 </div>
                 <button
                   type="submit"
-                  disabled={bookingLoading}
+                  disabled={bookingLoading || !bookingDate}
                   className="w-full inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
                 >
-                  {bookingLoading ? "Booking..." : "Book Now"}
+                  {bookingLoading
+                    ? "Booking..."
+                    : bookingTaken && !repeat
+                      ? "Join Waitlist"
+                      : "Book Now"}
                 </button>
+                {!repeat && !bookingTaken && (
+                  <button
+                    type="button"
+                    onClick={addToCart}
+                    disabled={bookingLoading || !bookingDate}
+                    className="w-full inline-flex justify-center items-center px-4 py-2 border border-indigo-600 text-sm font-medium rounded-md text-indigo-600 bg-white hover:bg-indigo-50 disabled:opacity-50"
+                  >
+                    Add to Cart
+                  </button>
+                )}
               </form>
             ) : (
               <div className="text-center">
@@ -3,6 +3,7 @@
 import { useAuth } from "@/context/AuthContext";
 import { useRouter } from "next/navigation";
 import { useEffect } from "react";
+import { STAFF_ROLES } from "@/lib/permissions";
 
 interface AdminRouteProps {
   children: React.ReactNode;
@@ -19,8 +20,8 @@ export default function AdminRoute({ children }: AdminRouteProps) {
         return;
       }
 
-      if (user.role !== "admin") {
-        // Redirect non-admin users to their appropriate dashboard
+      if (!STAFF_ROLES.includes(user.role)) {
+        // Redirect non-staff users to their appropriate dashboard
         if (user.role === "provider") {
           router.push("/dashboard/provider");
         } else {
@@ -39,7 +40,7 @@ export default function AdminRoute({ children }: AdminRouteProps) {
     );
   }
 
-  if (!user || user.role !== "admin") {
+  if (!user || !STAFF_ROLES.includes(user.role)) {
     return null;
   }
 
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface AvailabilityException {
+  id: string;
+  startDate: string;
+  endDate: string;
+  ranges: { start: string; end: string }[];
+  reason: string | null;
+  service: { id: string; name: string } | null;
+}
+
+const inputClassName =
+  "mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+// The provider's time zone, and the dates on which the weekly hours of their
+// services don't apply
+export default function AvailabilitySettings({
+  services,
+}: {
+  services: { id: string; name: string }[];
+}) {
+  const [timeZone, setTimeZone] = useState("");
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [form, setForm] = useState({
+    startDate: "",
+    endDate: "",
+    serviceId: "",
+    start: "",
+    end: "",
+    reason: "",
+  });
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const [profileResponse, exceptionsResponse] = await Promise.all([
+        fetch("/api/auth/profile"),
+        fetch("/api/availability/exceptions"),
+      ]);
+      if (profileResponse.ok) {
+        const data = await profileResponse.json();
+        setTimeZone(data.user.timeZone);
+      }
+      if (exceptionsResponse.ok) {
+        const data = await exceptionsResponse.json();
+        setExceptions(data.exceptions);
+      }
+    };
+
+    fetchSettings();
+  }, [reloadCount]);
+
+  const reload = () => setReloadCount((count) => count + 1);
+
+  const timeZones =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+
+  const handleTimeZoneSave = async () => {
+    setError("");
+    setMessage("");
+    const response = await fetch("/api/auth/profile", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ timeZone }),
+    });
+    const data = await response.json();
+    if (response.ok) {
+      setMessage("Time zone saved");
+    } else {
+      setError(data.error);
+    }
+  };
+
+  const handleAddException = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setMessage("");
+
+    const response = await fetch("/api/availability/exceptions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        startDate: form.startDate,
+        endDate: form.endDate || undefined,
+        serviceId: form.serviceId || null,
+        ranges:
+          form.start && form.end ? [{ start: form.start, end: form.end }] : [],
+        reason: form.reason || null,
+      }),
+    });
+    const data = await response.json();
+    if (response.ok) {
+      setForm({
+        startDate: "",
+        endDate: "",
+        serviceId: "",
+        start: "",
+        end: "",
+        reason: "",
+      });
+      reload();
+    } else {
+      setError(data.error);
+    }
+  };
+
+  const handleDeleteException = async (id: string) => {
+    setError("");
+    const response = await fetch(`/api/availability/exceptions/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error);
+    }
+    reload();
+  };
+
+  return (
+    <div className="mt-8 bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Schedule settings
+        </h3>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
+            {message}
+          </div>
+        )}
+
+        <div>
+          <label
+            htmlFor="timeZone"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Time zone
+          </label>
+          <p className="text-sm text-gray-500">
+            Your weekly hours and exceptions are in this time zone.
+          </p>
+          <div className="flex items-end space-x-2">
+            <select
+              id="timeZone"
+              className={inputClassName}
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+            >
+              {!timeZones.includes(timeZone) && (
+                <option value={timeZone}>{timeZone}</option>
+              )}
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleTimeZoneSave}
+              className="px-4 py-2 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">
+            Holidays and special hours
+          </h4>
+          <ul className="mt-2 divide-y divide-gray-200">
+            {exceptions.map((exception) => (
+              <li
+                key={exception.id}
+                className="py-2 flex items-center justify-between text-sm"
+              >
+                <span>
+                  {exception.startDate}
+                  {exception.endDate !== exception.startDate &&
+                    ` to ${exception.endDate}`}
+                  {": "}
+                  {exception.ranges.length > 0
+                    ? exception.ranges
+                        .map((range) => `${range.start}-${range.end}`)
+                        .join(", ")
+                    : "Closed"}
+                  {" · "}
+                  {exception.service?.name ?? "All services"}
+                  {exception.reason && ` · ${exception.reason}`}
+                </span>
+                <button
+                  onClick={() => handleDeleteException(exception.id)}
+                  className="text-red-600 hover:text-red-500"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+            {exceptions.length === 0 && (
+              <li className="py-2 text-sm text-gray-500">
+                No upcoming exceptions
+              </li>
+            )}
+          </ul>
+
+          <form
+            onSubmit={handleAddException}
+            className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-3"
+          >
+            <div>
+              <label className="block text-sm text-gray-700">From</label>
+              <input
+                type="date"
+                required
+                className={inputClassName}
+                value={form.startDate}
+                onChange={(e) =>
+                  setForm({ ...form, startDate: e.target.value })
+                }
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700">
+                To (optional)
+              </label>
+              <input
+                type="date"
+                className={inputClassName}
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700">Service</label>
+              <select
+                className={inputClassName}
+                value={form.serviceId}
+                onChange={(e) =>
+                  setForm({ ...form, serviceId: e.target.value })
+                }
+              >
+                <option value="">All services</option>
+                {services.map((service) => (
+                  <option key={service.id} value={service.id}>
+                    {service.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700">
+                Open from (leave empty to close)
+              </label>
+              <input
+                type="time"
+                className={inputClassName}
+                value={form.start}
+                onChange={(e) => setForm({ ...form, start: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700">Open until</label>
+              <input
+                type="time"
+                className={inputClassName}
+                value={form.end}
+                onChange={(e) => setForm({ ...form, end: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700">Reason</label>
+              <input
+                type="text"
+                className={inputClassName}
+                placeholder="e.g., Public holiday"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              />
+            </div>
+            <div className="sm:col-span-3">
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                Add exception
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+interface BookingMessage {
+  id: string;
+  body: string;
+  readAt: string | null;
+  createdAt: string;
+  sender: { id: string; name: string };
+  attachments: { id: string; fileName: string; size: number }[];
+}
+
+// The thread between the customer and the provider. Staff reading it for a
+// dispute get it without the form.
+export default function BookingMessages({
+  bookingId,
+  userId,
+}: {
+  bookingId: string;
+  userId: string;
+}) {
+  const [messages, setMessages] = useState<BookingMessage[]>([]);
+  const [closesAt, setClosesAt] = useState<string | null>(null);
+  const [canSend, setCanSend] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [body, setBody] = useState("");
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/messages`);
+        const data = await response.json();
+        if (response.ok) {
+          setMessages(data.messages);
+          setClosesAt(data.closesAt);
+          setCanSend(data.canSend);
+        } else {
+          setError(data.error || "Failed to load the messages");
+        }
+      } catch {
+        setError("Network error occurred");
+      }
+    };
+
+    fetchMessages();
+  }, [bookingId, reloadCount]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSending(true);
+    try {
+      const formData = new FormData();
+      formData.append("body", body);
+      attachments.forEach((file) => formData.append("attachments", file));
+
+      const response = await fetch(`/api/bookings/${bookingId}/messages`, {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setBody("");
+        setAttachments([]);
+        setReloadCount((count) => count + 1);
+      } else {
+        setError(data.error);
+      }
+    } catch {
+      setError("Network error occurred");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-6 space-y-4">
+      <h2 className="text-lg font-medium text-gray-900">Messages</h2>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <ul className="space-y-3">
+        {messages.map((message) => {
+          const own = message.sender.id === userId;
+          return (
+            <li
+              key={message.id}
+              className={`rounded-md p-3 text-sm ${
+                own ? "bg-indigo-50 ml-8" : "bg-gray-50 mr-8"
+              }`}
+            >
+              <p className="text-xs text-gray-500">
+                {message.sender.name} ·{" "}
+                {new Date(message.createdAt).toLocaleString()}
+              </p>
+              <p className="mt-1 text-gray-900 whitespace-pre-wrap">
+                {message.body}
+              </p>
+              {message.attachments.map((attachment) => (
+                <a
+                  key={attachment.id}
+                  href={`/api/bookings/${bookingId}/messages/attachments/${attachment.id}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="mt-1 block text-indigo-600 hover:text-indigo-500"
+                >
+                  📎 {attachment.fileName}
+                </a>
+              ))}
+              {own && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {message.readAt
+                    ? `Read ${new Date(message.readAt).toLocaleString()}`
+                    : "Sent"}
+                </p>
+              )}
+            </li>
+          );
+        })}
+        {messages.length === 0 && !error && (
+          <li className="text-sm text-gray-500">No messages yet</li>
+        )}
+      </ul>
+
+      {canSend ? (
+        <form onSubmit={handleSend} className="space-y-2">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={MAX_MESSAGE_LENGTH}
+            rows={3}
+            required
+            placeholder="Write a message"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <input
+            key={reloadCount}
+            type="file"
+            multiple
+            accept="application/pdf,image/jpeg,image/png"
+            className="text-sm"
+            onChange={(e) => setAttachments(Array.from(e.target.files ?? []))}
+          />
+          <div className="flex items-center justify-between">
+            {closesAt && (
+              <p className="text-xs text-gray-500">
+                Messaging closes {new Date(closesAt).toLocaleString()}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={sending || !body.trim()}
+              className="ml-auto py-2 px-4 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Send
+            </button>
+          </div>
+        </form>
+      ) : (
+        closesAt && (
+          <p className="text-xs text-gray-500">
+            Messaging closed {new Date(closesAt).toLocaleString()}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
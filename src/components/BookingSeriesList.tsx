@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+interface BookingSeries {
+  id: string;
+  frequency: "weekly" | "biweekly" | "monthly";
+  status: "active" | "cancelled";
+  service: { id: string; name: string };
+  user: { id: string; name: string };
+  provider: { id: string; name: string };
+  bookings: { id: string; date: string; status: string }[];
+}
+
+const FREQUENCY_LABELS = {
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+};
+
+// The caller's active repeating bookings, with their next occurrence
+export default function BookingSeriesList() {
+  const [series, setSeries] = useState<BookingSeries[]>([]);
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      try {
+        const response = await fetch("/api/bookings/series");
+        if (response.ok) {
+          const data = await response.json();
+          setSeries(
+            data.series.filter(
+              (item: BookingSeries) => item.status === "active"
+            )
+          );
+        }
+      } catch (error) {
+        console.error("Error fetching booking series:", error);
+      }
+    };
+
+    fetchSeries();
+  }, []);
+
+  if (series.length === 0) return null;
+
+  const now = new Date();
+
+  return (
+    <div className="mt-8 bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Repeating bookings
+        </h3>
+        <ul className="mt-4 divide-y divide-gray-200">
+          {series.map((item) => {
+            const next = item.bookings.find(
+              (booking) =>
+                new Date(booking.date) > now &&
+                (booking.status === "pending" ||
+                  booking.status === "confirmed")
+            );
+            return (
+              <li
+                key={item.id}
+                className="py-3 flex items-center justify-between text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {item.service.name} · {FREQUENCY_LABELS[item.frequency]}
+                  </p>
+                  <p className="text-gray-500">
+                    {item.user.name} with {item.provider.name} ·{" "}
+                    {next
+                      ? `Next: ${new Date(next.date).toLocaleString()}`
+                      : "No upcoming occurrences"}
+                  </p>
+                </div>
+                <Link
+                  href={`/dashboard/bookings/series/${item.id}`}
+                  className="text-indigo-600 hover:text-indigo-500"
+                >
+                  Manage
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
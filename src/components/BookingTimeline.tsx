@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface BookingEvent {
+  id: string;
+  type:
+    | "created"
+    | "status_changed"
+    | "payment_changed"
+    | "notes_changed"
+    | "reschedule_proposed"
+    | "reschedule_declined"
+    | "reschedule_withdrawn"
+    | "rescheduled";
+  actor: "customer" | "provider" | "staff" | "system";
+  fromValue: string | null;
+  toValue: string | null;
+  reason: string | null;
+  createdAt: string;
+  actorUser: { id: string; name: string } | null;
+}
+
+const formatValue = (value: string | null) =>
+  value ? value.replace("_", " ") : "none";
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "none";
+
+function describeEvent(event: BookingEvent): string {
+  switch (event.type) {
+    case "created":
+      return "Booking requested";
+    case "status_changed":
+      return `Status changed from ${formatValue(event.fromValue)} to ${formatValue(event.toValue)}`;
+    case "payment_changed":
+      return `Payment changed from ${formatValue(event.fromValue)} to ${formatValue(event.toValue)}`;
+    case "notes_changed":
+      return "Notes updated";
+    case "reschedule_proposed":
+      return `New times proposed: ${(event.toValue ?? "")
+        .split(",")
+        .map(formatDate)
+        .join(", ")}`;
+    case "reschedule_declined":
+      return "Proposed times declined";
+    case "reschedule_withdrawn":
+      return "Proposed times withdrawn";
+    case "rescheduled":
+      return `Moved from ${formatDate(event.fromValue)} to ${formatDate(event.toValue)}`;
+  }
+}
+
+function describeActor(event: BookingEvent): string {
+  if (event.actor === "system") return "System";
+  return `${event.actorUser?.name ?? "Deleted user"} (${event.actor})`;
+}
+
+// Everything that happened to a booking, oldest first
+export default function BookingTimeline({
+  bookingId,
+  reloadCount = 0,
+}: {
+  bookingId: string;
+  reloadCount?: number;
+}) {
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/timeline`);
+        const data = await response.json();
+        if (response.ok) {
+          setEvents(data.events);
+        } else {
+          setError(data.error || "Failed to load the booking history");
+        }
+      } catch {
+        setError("Network error occurred");
+      }
+    };
+
+    fetchTimeline();
+  }, [bookingId, reloadCount]);
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900">History</h2>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <ol className="mt-4 border-l border-gray-200 space-y-4">
+        {events.map((event) => (
+          <li key={event.id} className="ml-4">
+            <p className="text-sm font-medium text-gray-900">
+              {describeEvent(event)}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(event.createdAt).toLocaleString()} ·{" "}
+              {describeActor(event)}
+            </p>
+            {event.type === "notes_changed" && event.toValue && (
+              <p className="mt-1 text-sm text-gray-600">{event.toValue}</p>
+            )}
+            {event.reason && (
+              <p className="mt-1 text-sm text-gray-600">
+                Reason: {event.reason}
+              </p>
+            )}
+          </li>
+        ))}
+        {events.length === 0 && !error && (
+          <li className="ml-4 text-sm text-gray-500">No history yet</li>
+        )}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// The subscription URL calendar apps read the user's bookings from. The URL
+// is only shown once, when it is created.
+export default function CalendarFeedSettings() {
+  const [enabled, setEnabled] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    const fetchFeed = async () => {
+      try {
+        const response = await fetch("/api/calendar/feed");
+        if (response.ok) {
+          const data = await response.json();
+          setEnabled(data.feed.enabled);
+        }
+      } catch (error) {
+        console.error("Error fetching calendar feed:", error);
+      }
+    };
+
+    fetchFeed();
+  }, []);
+
+  const createFeed = async () => {
+    if (
+      enabled &&
+      !confirm(
+        "Calendars subscribed to the current URL will stop updating. Create a new one?"
+      )
+    ) {
+      return;
+    }
+
+    setError("");
+    setWorking(true);
+    try {
+      const response = await fetch("/api/calendar/feed", { method: "POST" });
+      const data = await response.json();
+      if (response.ok) {
+        setEnabled(true);
+        setUrl(data.url);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      setError("Failed to create the calendar feed");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const turnOff = async () => {
+    if (!confirm("Turn off the calendar feed?")) return;
+
+    setError("");
+    setWorking(true);
+    try {
+      const response = await fetch("/api/calendar/feed", { method: "DELETE" });
+      const data = await response.json();
+      if (response.ok) {
+        setEnabled(false);
+        setUrl(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error("Error turning off calendar feed:", error);
+      setError("Failed to turn off the calendar feed");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Calendar feed
+        </h3>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        <p className="text-sm text-gray-500">
+          Subscribe to your bookings from Google Calendar, Apple Calendar or
+          Outlook. Anyone with the URL can see your bookings, so keep it
+          private.
+        </p>
+        {url && (
+          <div className="space-y-1">
+            <p className="text-sm text-gray-700">
+              Copy this URL now; it won&apos;t be shown again.
+            </p>
+            <input
+              readOnly
+              value={url}
+              onFocus={(e) => e.target.select()}
+              className="block w-full border-gray-300 rounded-md shadow-sm sm:text-sm font-mono"
+            />
+          </div>
+        )}
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={createFeed}
+            disabled={working}
+            className="px-4 py-2 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {enabled ? "Create a new URL" : "Turn on"}
+          </button>
+          {enabled && (
+            <button
+              type="button"
+              onClick={turnOff}
+              disabled={working}
+              className="px-4 py-2 rounded-md text-sm text-red-600 hover:text-red-500 disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface CalendarImport {
+  id: string;
+  name: string;
+  updatedAt: string;
+  upcomingBlocks: number;
+}
+
+// Calendars the provider exported from elsewhere, whose busy times are kept
+// free of bookings
+export default function CalendarImports() {
+  const [calendars, setCalendars] = useState<CalendarImport[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState("");
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const fetchCalendars = async () => {
+    try {
+      const response = await fetch("/api/availability/calendars");
+      if (response.ok) {
+        const data = await response.json();
+        setCalendars(data.calendars);
+      }
+    } catch (error) {
+      console.error("Error fetching calendar imports:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchCalendars();
+  }, []);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setError("");
+    setMessage("");
+    setWorking(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (name.trim()) formData.append("name", name.trim());
+
+      const response = await fetch("/api/availability/calendars", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage(
+          `Imported ${data.blocks} busy times into ${data.calendarImport.name}` +
+            (data.skipped
+              ? `. ${data.skipped} events couldn't be read and were left out`
+              : "")
+        );
+        setFile(null);
+        setName("");
+        fetchCalendars();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error("Error importing calendar:", error);
+      setError("Failed to import the calendar");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDelete = async (calendar: CalendarImport) => {
+    if (!confirm(`Remove ${calendar.name} and its busy times?`)) return;
+
+    const response = await fetch(`/api/availability/calendars/${calendar.id}`, {
+      method: "DELETE",
+    });
+    if (response.ok) {
+      setCalendars(calendars.filter((item) => item.id !== calendar.id));
+    } else {
+      const data = await response.json();
+      setError(data.error);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Other calendars
+        </h3>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
+            {message}
+          </div>
+        )}
+        <p className="text-sm text-gray-500">
+          Upload an .ics export of another calendar and customers can&apos;t
+          book you while it has you busy over the coming year. Upload it
+          again under the same name to refresh it.
+        </p>
+        {calendars.length > 0 && (
+          <ul className="divide-y divide-gray-200">
+            {calendars.map((calendar) => (
+              <li
+                key={calendar.id}
+                className="py-3 flex items-center justify-between text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{calendar.name}</p>
+                  <p className="text-gray-500">
+                    {calendar.upcomingBlocks} upcoming busy times · Updated{" "}
+                    {new Date(calendar.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDelete(calendar)}
+                  className="text-red-600 hover:text-red-500"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleImport} className="flex flex-wrap items-end gap-2">
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="border-gray-300 rounded-md shadow-sm sm:text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!file || working}
+            className="px-4 py-2 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Import
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
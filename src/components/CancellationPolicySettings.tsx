@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  CANCELLATION_POLICIES,
+  CancellationPolicy,
+  describeCancellationPolicy,
+} from "@/lib/cancellation-policies";
+
+// The cancellation policy of the provider's services that don't set their own
+export default function CancellationPolicySettings() {
+  const [policy, setPolicy] = useState<CancellationPolicy>("flexible");
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      const response = await fetch("/api/auth/profile");
+      if (response.ok) {
+        const data = await response.json();
+        setPolicy(data.user.cancellationPolicy);
+      }
+    };
+
+    fetchPolicy();
+  }, []);
+
+  const handleSave = async () => {
+    setError("");
+    setMessage("");
+    const response = await fetch("/api/auth/profile", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cancellationPolicy: policy }),
+    });
+    const data = await response.json();
+    if (response.ok) {
+      setMessage("Cancellation policy saved");
+    } else {
+      setError(data.error);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Cancellation policy
+        </h3>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
+            {message}
+          </div>
+        )}
+        <p className="text-sm text-gray-500">
+          Applies when a customer cancels a confirmed booking of a service
+          without its own policy. Bookings keep the policy they were made
+          under.
+        </p>
+        <div className="flex items-end space-x-2">
+          <select
+            id="cancellationPolicy"
+            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            value={policy}
+            onChange={(e) => setPolicy(e.target.value as CancellationPolicy)}
+          >
+            {CANCELLATION_POLICIES.map((option) => (
+              <option key={option} value={option}>
+                {option.charAt(0).toUpperCase() + option.slice(1)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="px-4 py-2 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            Save
+          </button>
+        </div>
+        <ul className="text-sm text-gray-600 list-disc list-inside">
+          {describeCancellationPolicy(policy).map((line) => (
+            <li key={line}>{line}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useAuth } from "@/context/AuthContext";
+
+export default function ImpersonationBanner() {
+  const { user, impersonator, stopImpersonation } = useAuth();
+
+  if (!user || !impersonator) return null;
+
+  return (
+    <div className="bg-amber-500 text-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between">
+        <p className="text-sm font-medium">
+          Viewing as {user.name} ({user.email}) on behalf of{" "}
+          {impersonator.email}. Changes are disabled.
+        </p>
+        <button
+          onClick={stopImpersonation}
+          className="bg-white text-amber-700 hover:bg-amber-50 px-3 py-1 rounded-md text-sm font-medium"
+        >
+          Exit
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,13 @@ import { useAuth } from "@/context/AuthContext";
 import Link from "next/link";
 import "leaflet/dist/leaflet.css";
 import { useRouter } from "next/navigation";
+import { STAFF_ROLES } from "@/lib/permissions";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const { user, logout } = useAuth();
   const router = useRouter();
+  const isStaff = !!user && STAFF_ROLES.includes(user.role);
 
   const handleLogout = () => {
     logout();
@@ -16,11 +19,12 @@ export default function Layout({ children }: { children: React.ReactNode }) {
 
   return (
     <div className="min-h-screen bg-gray-50">
+      <ImpersonationBanner />
       <nav className="bg-white shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-16">
             <div className="flex">
-              {user?.role !== "admin" ? (
+              {!isStaff ? (
                 <div className="flex-shrink-0 flex items-center">
                   <Link href="/" className="text-xl font-bold text-gray-900">
                     JustServiceHub
@@ -38,7 +42,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
               )}
 
               <div className="hidden sm:ml-6 sm:flex sm:space-x-8">
-                {user?.role !== "admin" && (
+                {!isStaff && (
                   <>
                     <Link
                       href="/"
@@ -62,7 +66,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                     My Services
                   </Link>
                 )}
-                {user?.role !== "admin" && (
+                {!isStaff && (
                   <Link
                     href="/dashboard/bookings"
                     className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
@@ -70,6 +74,22 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                     My Bookings
                   </Link>
                 )}
+                {user && !isStaff && (
+                  <Link
+                    href="/dashboard/job-requests"
+                    className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                  >
+                    Job Requests
+                  </Link>
+                )}
+                {user?.role === "user" && (
+                  <Link
+                    href="/cart"
+                    className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                  >
+                    Cart
+                  </Link>
+                )}
                 {user && (
                   <Link
                     href="/profile"
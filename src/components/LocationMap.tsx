@@ -44,7 +44,7 @@ export default function LocationMap({
   onClose,
   selectedBookingForMap,
 }: LocationMapProps) {
-  const { user, token } = useAuth();
+  const { user } = useAuth();
 
   const [userLocation, setUserLocation] = useState<{
     lat: number;
@@ -82,17 +82,12 @@ export default function LocationMap({
   };
 
   // Update current user's location in Redis
-  const updateUserLocation = async (
-    token: string,
-    latitude: number,
-    longitude: number,
-  ) => {
+  const updateUserLocation = async (latitude: number, longitude: number) => {
     try {
       await fetch("/api/location", {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({ latitude, longitude }),
       });
@@ -107,9 +102,6 @@ export default function LocationMap({
     try {
       const res = await fetch(`/api/location?targetId=${targetId}`, {
         method: "GET",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
       });
 
       if (!res.ok) throw new Error("Failed to fetch target location");
@@ -126,11 +118,7 @@ export default function LocationMap({
     const init = async () => {
       const location = await getCurrentLocation();
       if (location) {
-        await updateUserLocation(
-          token as string,
-          location.latitude,
-          location.longitude,
-        );
+        await updateUserLocation(location.latitude, location.longitude);
       }
 
       if (targetId) {
@@ -12,14 +12,16 @@ import { STRIPE_PUBLISHABLE_KEY } from '@/lib/stripe';
 
 const stripePromise = loadStripe(STRIPE_PUBLISHABLE_KEY);
 
+// Pays for one booking, or for the bookings in an order together
 interface PaymentFormProps {
-  bookingId: string;
+  bookingId?: string;
+  orderId?: string;
   amount: number;
   onSuccess: () => void;
   onError: (error: string) => void;
 }
 
-function CheckoutForm({ bookingId, amount, onSuccess, onError }: PaymentFormProps) {
+function CheckoutForm({ bookingId, orderId, amount, onSuccess, onError }: PaymentFormProps) {
   const stripe = useStripe();
   const elements = useElements();
   const [loading, setLoading] = useState(false);
@@ -33,9 +35,8 @@ function CheckoutForm({ bookingId, amount, onSuccess, onError }: PaymentFormProp
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
           },
-          body: JSON.stringify({ bookingId }),
+          body: JSON.stringify(orderId ? { orderId } : { bookingId }),
         });
 
         const data = await response.json();
@@ -51,7 +52,7 @@ function CheckoutForm({ bookingId, amount, onSuccess, onError }: PaymentFormProp
     };
 
     createPaymentIntent();
-  }, [bookingId, onError]);
+  }, [bookingId, orderId, onError]);
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
@@ -85,10 +86,9 @@ function CheckoutForm({ bookingId, amount, onSuccess, onError }: PaymentFormProp
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
           },
           body: JSON.stringify({ 
-            bookingId, 
+            ...(orderId ? { orderId } : { bookingId }),
             paymentIntentId: paymentIntent.id 
           }),
         });
@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type DocumentType = "identity" | "license" | "insurance";
+
+interface ProviderDocument {
+  id: string;
+  type: DocumentType;
+  fileName: string;
+  size: number;
+  createdAt: string;
+}
+
+interface ProviderApplication {
+  status:
+    | "applied"
+    | "documents_submitted"
+    | "under_review"
+    | "approved"
+    | "rejected";
+  rejectionReason: string | null;
+  documents: ProviderDocument[];
+}
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  identity: "Government-issued ID",
+  license: "Trade or business license",
+  insurance: "Liability insurance certificate",
+};
+
+const STATUS_MESSAGES: Record<ProviderApplication["status"], string> = {
+  applied:
+    "Upload your documents and submit them for review before listing services.",
+  documents_submitted:
+    "Your documents were submitted and are waiting for review.",
+  under_review: "Our team is reviewing your documents.",
+  approved: "Your provider account is verified.",
+  rejected: "Your application was not approved. Upload corrected documents and submit again.",
+};
+
+// Shown on the provider dashboard until the account is approved
+export default function ProviderVerification() {
+  const [application, setApplication] = useState<ProviderApplication | null>(
+    null
+  );
+  const [reloadCount, setReloadCount] = useState(0);
+  const [uploading, setUploading] = useState<DocumentType | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchApplication = async () => {
+      const response = await fetch("/api/provider-application");
+      if (response.ok) {
+        const data = await response.json();
+        setApplication(data.application);
+      }
+    };
+
+    fetchApplication();
+  }, [reloadCount]);
+
+  const reload = () => setReloadCount((count) => count + 1);
+
+  const handleUpload = async (type: DocumentType, file: File | undefined) => {
+    if (!file) return;
+    setError("");
+    setUploading(type);
+
+    const formData = new FormData();
+    formData.append("type", type);
+    formData.append("file", file);
+
+    try {
+      const response = await fetch("/api/provider-application/documents", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error);
+      }
+      reload();
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setError("");
+    const response = await fetch("/api/provider-application/submit", {
+      method: "POST",
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error);
+    }
+    reload();
+  };
+
+  if (!application || application.status === "approved") {
+    return null;
+  }
+
+  const canEdit =
+    application.status === "applied" || application.status === "rejected";
+  const uploadedTypes = application.documents.map((document) => document.type);
+  const isComplete = (Object.keys(DOCUMENT_LABELS) as DocumentType[]).every(
+    (type) => uploadedTypes.includes(type)
+  );
+
+  return (
+    <div className="mt-6 bg-white shadow rounded-lg p-6 space-y-4">
+      <h2 className="text-lg font-medium text-gray-900">
+        Provider verification
+      </h2>
+      <p className="text-sm text-gray-600">
+        {STATUS_MESSAGES[application.status]}
+      </p>
+      {application.status === "rejected" && application.rejectionReason && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {application.rejectionReason}
+        </div>
+      )}
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {(Object.keys(DOCUMENT_LABELS) as DocumentType[]).map((type) => {
+          const document = application.documents.find(
+            (doc) => doc.type === type
+          );
+          return (
+            <li
+              key={type}
+              className="py-3 flex items-center justify-between"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {DOCUMENT_LABELS[type]}
+                </p>
+                {document ? (
+                  <a
+                    href={`/api/provider-application/documents/${document.id}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-sm text-indigo-600 hover:text-indigo-500"
+                  >
+                    {document.fileName}
+                  </a>
+                ) : (
+                  <p className="text-sm text-gray-500">Not uploaded</p>
+                )}
+              </div>
+              {canEdit && (
+                <label className="cursor-pointer text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                  {uploading === type
+                    ? "Uploading..."
+                    : document
+                    ? "Replace"
+                    : "Upload"}
+                  <input
+                    type="file"
+                    accept="application/pdf,image/jpeg,image/png"
+                    className="hidden"
+                    disabled={uploading !== null}
+                    onChange={(e) => handleUpload(type, e.target.files?.[0])}
+                  />
+                </label>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {canEdit && (
+        <button
+          onClick={handleSubmit}
+          disabled={!isComplete}
+          className="py-2 px-4 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Submit for review
+        </button>
+      )}
+    </div>
+  );
+}
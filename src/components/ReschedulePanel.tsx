@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import SlotPicker from "@/components/SlotPicker";
+
+const MAX_PROPOSED_TIMES = 5;
+
+interface RescheduleRequest {
+  id: string;
+  actor: "customer" | "provider";
+  times: string[];
+  reason: string | null;
+  createdAt: string;
+}
+
+// Lets either party of a booking that hasn't started propose new times and
+// the other party accept one of them or decline
+export default function ReschedulePanel({
+  bookingId,
+  serviceId,
+  actor,
+  onChange,
+}: {
+  bookingId: string;
+  serviceId: string;
+  actor: "customer" | "provider";
+  onChange: () => void;
+}) {
+  const [request, setRequest] = useState<RescheduleRequest | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [proposing, setProposing] = useState(false);
+  const [slot, setSlot] = useState("");
+  const [times, setTimes] = useState<string[]>([]);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchRequest = async () => {
+      try {
+        const response = await fetch(`/api/bookings/${bookingId}/reschedule`);
+        const data = await response.json();
+        if (response.ok) {
+          setRequest(data.request);
+        }
+      } catch {
+        setError("Network error occurred");
+      }
+    };
+
+    fetchRequest();
+  }, [bookingId, reloadCount]);
+
+  const send = async (method: "POST" | "PATCH", body: object) => {
+    setError("");
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/reschedule`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to update the booking");
+        return false;
+      }
+      setReloadCount((count) => count + 1);
+      onChange();
+      return true;
+    } catch {
+      setError("Network error occurred");
+      return false;
+    }
+  };
+
+  const handlePropose = async () => {
+    if (await send("POST", { times, reason: reason || null })) {
+      setProposing(false);
+      setTimes([]);
+      setReason("");
+    }
+  };
+
+  const handleDecline = async () => {
+    const declineReason = prompt("Why are you declining these times? (optional)");
+    if (declineReason === null) return;
+    await send("PATCH", { action: "decline", reason: declineReason || null });
+  };
+
+  const addTime = () => {
+    if (slot && !times.includes(slot)) {
+      setTimes([...times, slot].sort());
+    }
+    setSlot("");
+  };
+
+  const ownRequest = request?.actor === actor;
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-6 space-y-4">
+      <h2 className="text-lg font-medium text-gray-900">Reschedule</h2>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {request && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700">
+            {ownRequest
+              ? "You proposed these times. Waiting for an answer."
+              : `The ${request.actor} proposed these times:`}
+          </p>
+          {request.reason && (
+            <p className="text-sm text-gray-600">Reason: {request.reason}</p>
+          )}
+          <ul className="space-y-1">
+            {request.times.map((time) => (
+              <li key={time} className="flex items-center space-x-3 text-sm">
+                <span className="text-gray-900">
+                  {new Date(time).toLocaleString()}
+                </span>
+                {!ownRequest && (
+                  <button
+                    onClick={() => send("PATCH", { action: "accept", time })}
+                    className="text-green-600 hover:text-green-900 font-medium"
+                  >
+                    Accept
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() =>
+              ownRequest
+                ? send("PATCH", { action: "withdraw" })
+                : handleDecline()
+            }
+            className="text-sm font-medium text-red-600 hover:text-red-900"
+          >
+            {ownRequest ? "Withdraw" : "Decline"}
+          </button>
+        </div>
+      )}
+
+      {!proposing ? (
+        <button
+          onClick={() => setProposing(true)}
+          className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          {request && !ownRequest ? "Propose other times" : "Propose new times"}
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <SlotPicker serviceId={serviceId} value={slot} onChange={setSlot} />
+          <button
+            type="button"
+            onClick={addTime}
+            disabled={!slot || times.length >= MAX_PROPOSED_TIMES}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+          >
+            Add time ({times.length}/{MAX_PROPOSED_TIMES})
+          </button>
+          <ul className="space-y-1">
+            {times.map((time) => (
+              <li key={time} className="flex items-center space-x-3 text-sm">
+                <span className="text-gray-900">
+                  {new Date(time).toLocaleString()}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setTimes(times.filter((t) => t !== time))}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            placeholder="Reason (optional)"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={handlePropose}
+              disabled={times.length === 0}
+              className="py-2 px-4 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Send proposal
+            </button>
+            <button
+              onClick={() => setProposing(false)}
+              className="py-2 px-4 rounded-md text-sm border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
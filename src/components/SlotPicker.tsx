@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { addDays } from "@/lib/availability";
+
+interface SlotsResponse {
+  timeZone: string;
+  from: string;
+  to: string;
+  slots: string[];
+  taken: string[];
+}
+
+// Free start times of a service a week at a time, shown in the viewer's
+// local time. The selected slot is passed up as an ISO timestamp, with
+// whether it is taken when taken times are shown for joining the waitlist.
+export default function SlotPicker({
+  serviceId,
+  value,
+  onChange,
+  showTaken = false,
+}: {
+  serviceId: string;
+  value: string;
+  onChange: (slot: string, taken: boolean) => void;
+  showTaken?: boolean;
+}) {
+  // null asks the server for the week starting today in the provider's zone
+  const [from, setFrom] = useState<string | null>(null);
+  const [data, setData] = useState<SlotsResponse | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchSlots = async () => {
+      try {
+        const query = from ? `?from=${from}&to=${addDays(from, 6)}` : "";
+        const response = await fetch(`/api/services/${serviceId}/slots${query}`);
+        const body = await response.json();
+        if (response.ok) {
+          setData(body);
+          setError("");
+        } else {
+          setError(body.error);
+        }
+      } catch {
+        setError("Failed to load available times");
+      }
+    };
+
+    fetchSlots();
+  }, [serviceId, from]);
+
+  if (error) {
+    return <p className="text-sm text-red-700">{error}</p>;
+  }
+  if (!data) {
+    return <p className="text-sm text-gray-500">Loading available times...</p>;
+  }
+
+  const slots = [
+    ...data.slots.map((slot) => ({ slot, taken: false })),
+    ...(showTaken ? data.taken.map((slot) => ({ slot, taken: true })) : []),
+  ].sort((a, b) => a.slot.localeCompare(b.slot));
+
+  const days = new Map<string, typeof slots>();
+  for (const item of slots) {
+    const day = new Date(item.slot).toLocaleDateString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+    days.set(day, [...(days.get(day) ?? []), item]);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => setFrom(addDays(data.from, -7))}
+          disabled={from === null}
+          className="text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+        >
+          Previous week
+        </button>
+        <span className="text-gray-700">
+          {data.from} to {data.to}
+        </span>
+        <button
+          type="button"
+          onClick={() => setFrom(addDays(data.to, 1))}
+          className="text-indigo-600 hover:text-indigo-500"
+        >
+          Next week
+        </button>
+      </div>
+
+      {days.size === 0 && (
+        <p className="text-sm text-gray-500">No free times this week.</p>
+      )}
+      {[...days].map(([day, slots]) => (
+        <div key={day}>
+          <p className="text-sm font-medium text-gray-700">{day}</p>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {slots.map(({ slot, taken }) => (
+              <button
+                key={slot}
+                type="button"
+                onClick={() => onChange(slot, taken)}
+                title={taken ? "Taken. Join the waitlist for it" : undefined}
+                className={`px-2 py-1 rounded-md border text-sm ${
+                  slot === value
+                    ? "bg-indigo-600 border-indigo-600 text-white"
+                    : taken
+                      ? "border-dashed border-gray-300 text-gray-400 hover:bg-gray-50"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {new Date(slot).toLocaleTimeString(undefined, {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-gray-500">
+        Times are shown in your time zone. The provider works in{" "}
+        {data.timeZone}.
+        {showTaken &&
+          " Dashed times are taken; pick one to join its waitlist."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+
+interface WaitlistEntry {
+  id: string;
+  userId: string;
+  date: string;
+  status: "waiting" | "offered";
+  offerExpiresAt: string | null;
+  position: number;
+  service: { id: string; name: string };
+  user: { id: string; name: string };
+  provider: { id: string; name: string };
+}
+
+// Waitlist entries still in line: the customer's own, with offers to claim,
+// or the queue for a provider's services. Staff see every entry.
+export default function WaitlistPanel() {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [working, setWorking] = useState<string | null>(null);
+  const { user } = useAuth();
+  const router = useRouter();
+
+  const fetchEntries = async () => {
+    try {
+      const response = await fetch("/api/bookings/waitlist");
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.entries);
+      }
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, []);
+
+  const claim = async (entry: WaitlistEntry) => {
+    setWorking(entry.id);
+    try {
+      const response = await fetch(`/api/bookings/waitlist/${entry.id}/claim`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (response.ok) {
+        router.push(`/dashboard/bookings/${data.booking.id}`);
+      } else {
+        alert(data.error);
+        fetchEntries();
+      }
+    } catch (error) {
+      console.error("Error claiming waitlist offer:", error);
+      alert("Failed to claim the time");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const leave = async (entry: WaitlistEntry) => {
+    if (!confirm("Leave the waitlist for this time?")) return;
+
+    setWorking(entry.id);
+    try {
+      const response = await fetch(`/api/bookings/waitlist/${entry.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setEntries(entries.filter((item) => item.id !== entry.id));
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      alert("Failed to leave the waitlist");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mt-8 bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Waitlist
+        </h3>
+        <ul className="mt-4 divide-y divide-gray-200">
+          {entries.map((entry) => {
+            const isOwn = entry.userId === user?.id;
+            return (
+              <li
+                key={entry.id}
+                className="py-3 flex items-center justify-between text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {entry.service.name} ·{" "}
+                    {new Date(entry.date).toLocaleString()}
+                  </p>
+                  <p className="text-gray-500">
+                    {isOwn
+                      ? `With ${entry.provider.name}`
+                      : `${entry.user.name} with ${entry.provider.name}`}{" "}
+                    ·{" "}
+                    {entry.status === "offered" && entry.offerExpiresAt
+                      ? `Offered until ${new Date(entry.offerExpiresAt).toLocaleString()}`
+                      : `Number ${entry.position} in line`}
+                  </p>
+                </div>
+                {isOwn && (
+                  <div className="flex gap-3">
+                    {entry.status === "offered" && (
+                      <button
+                        onClick={() => claim(entry)}
+                        disabled={working === entry.id}
+                        className="text-green-600 hover:text-green-500 disabled:opacity-50"
+                      >
+                        Book it
+                      </button>
+                    )}
+                    <button
+                      onClick={() => leave(entry)}
+                      disabled={working === entry.id}
+                      className="text-red-600 hover:text-red-500 disabled:opacity-50"
+                    >
+                      Leave
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
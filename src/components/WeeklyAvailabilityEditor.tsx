@@ -0,0 +1,108 @@
+"use client";
+
+import {
+  TimeRange,
+  WEEKDAYS,
+  Weekday,
+  WeeklyAvailability,
+} from "@/lib/availability";
+
+// Monday first, like the rest of the dashboard
+const DAYS: Weekday[] = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+const inputClassName =
+  "border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+export default function WeeklyAvailabilityEditor({
+  value,
+  onChange,
+}: {
+  value: WeeklyAvailability;
+  onChange: (value: WeeklyAvailability) => void;
+}) {
+  const setRanges = (day: Weekday, ranges: TimeRange[]) => {
+    const next = { ...value };
+    if (ranges.length > 0) {
+      next[day] = ranges;
+    } else {
+      delete next[day];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {DAYS.map((day) => {
+        const ranges = value[day] ?? [];
+        return (
+          <div key={day} className="flex flex-col sm:flex-row sm:items-start">
+            <span className="w-28 pt-1 text-sm text-gray-700 capitalize">
+              {day}
+            </span>
+            <div className="flex-1 space-y-2">
+              {ranges.length === 0 && (
+                <p className="pt-1 text-sm text-gray-500">Closed</p>
+              )}
+              {ranges.map((range, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="time"
+                    required
+                    aria-label={`${day} start time`}
+                    className={inputClassName}
+                    value={range.start}
+                    onChange={(e) =>
+                      setRanges(
+                        day,
+                        ranges.map((r, i) =>
+                          i === index ? { ...r, start: e.target.value } : r
+                        )
+                      )
+                    }
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <input
+                    type="time"
+                    required
+                    aria-label={`${day} end time`}
+                    className={inputClassName}
+                    value={range.end}
+                    onChange={(e) =>
+                      setRanges(
+                        day,
+                        ranges.map((r, i) =>
+                          i === index ? { ...r, end: e.target.value } : r
+                        )
+                      )
+                    }
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setRanges(
+                        day,
+                        ranges.filter((_, i) => i !== index)
+                      )
+                    }
+                    className="text-sm text-red-600 hover:text-red-500"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                setRanges(day, [...ranges, { start: "09:00", end: "17:00" }])
+              }
+              className="pt-1 text-sm font-medium text-indigo-600 hover:text-indigo-500"
+            >
+              Add hours
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
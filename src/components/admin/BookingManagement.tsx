@@ -64,11 +64,7 @@ export default function BookingManagement({ onDataChange }: BookingManagementPro
         ...(paymentStatusFilter && { paymentStatus: paymentStatusFilter }),
       });
 
-      const response = await fetch(`/api/admin/bookings?${params}`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
+      const response = await fetch(`/api/admin/bookings?${params}`);
 
       const data = await response.json();
 
@@ -96,9 +92,8 @@ export default function BookingManagement({ onDataChange }: BookingManagementPro
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
         },
-        body: JSON.stringify({ bookingId, updates }),
+        body: JSON.stringify({ bookingId, ...updates }),
       });
 
       if (response.ok) {
@@ -122,9 +117,6 @@ export default function BookingManagement({ onDataChange }: BookingManagementPro
     try {
       const response = await fetch(`/api/admin/bookings?id=${bookingId}`, {
         method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
       });
 
       const data = await response.json();
@@ -349,9 +341,9 @@ export default function BookingManagement({ onDataChange }: BookingManagementPro
               onSubmit={(e) => {
                 e.preventDefault();
                 const formData = new FormData(e.target as HTMLFormElement);
+                const status = formData.get('status');
                 const updates = {
-                  status: formData.get('status'),
-                  paymentStatus: formData.get('paymentStatus'),
+                  ...(status !== editingBooking.status && { status }),
                   notes: formData.get('notes'),
                 };
                 handleUpdateBooking(editingBooking.id, updates);
@@ -373,16 +365,11 @@ export default function BookingManagement({ onDataChange }: BookingManagementPro
                 </select>
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700">Payment Status</label>
-                <select
-                  name="paymentStatus"
-                  defaultValue={editingBooking.paymentStatus}
-                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
-                >
-                  <option value="pending">Pending</option>
-                  <option value="paid">Paid</option>
-                  <option value="refunded">Refunded</option>
-                </select>
+                <span className="block text-sm font-medium text-gray-700">Payment Status</span>
+                <p className="mt-1 text-sm text-gray-900 capitalize">
+                  {editingBooking.paymentStatus}
+                  <span className="text-gray-500 normal-case"> · changed from the payments page</span>
+                </p>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700">Notes</label>
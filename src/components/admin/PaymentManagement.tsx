@@ -80,11 +80,7 @@ export default function PaymentManagement({
         ...(statusFilter && { status: statusFilter }),
       });
 
-      const response = await fetch(`/api/admin/payments?${params}`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
+      const response = await fetch(`/api/admin/payments?${params}`);
 
       const data = await response.json();
 
@@ -118,7 +114,6 @@ export default function PaymentManagement({
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
         body: JSON.stringify({ action, bookingId, amount }),
       });
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type ApplicationStatus =
+  | 'applied'
+  | 'documents_submitted'
+  | 'under_review'
+  | 'approved'
+  | 'rejected';
+
+interface ProviderApplication {
+  id: string;
+  status: ApplicationStatus;
+  rejectionReason: string | null;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    phone: string | null;
+    address: string | null;
+  };
+  reviewedBy: { id: string; name: string } | null;
+  documents: {
+    id: string;
+    type: 'identity' | 'license' | 'insurance';
+    fileName: string;
+    size: number;
+  }[];
+}
+
+const STATUS_STYLES: Record<ApplicationStatus, string> = {
+  applied: 'bg-gray-100 text-gray-800',
+  documents_submitted: 'bg-blue-100 text-blue-800',
+  under_review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export default function ProviderApplications() {
+  const [applications, setApplications] = useState<ProviderApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pagination, setPagination] = useState({ page: 1, limit: 10, total: 0, pages: 0 });
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const fetchApplications = async () => {
+      try {
+        const params = new URLSearchParams({
+          page: currentPage.toString(),
+          limit: '10',
+          ...(statusFilter && { status: statusFilter }),
+        });
+
+        const response = await fetch(`/api/admin/provider-applications?${params}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setApplications(data.applications);
+          setPagination(data.pagination);
+        } else {
+          setError(data.error || 'Failed to fetch applications');
+        }
+      } catch {
+        setError('Network error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchApplications();
+  }, [currentPage, statusFilter, reloadCount]);
+
+  const handleAction = async (
+    applicationId: string,
+    action: 'start_review' | 'approve' | 'reject'
+  ) => {
+    let reason: string | null = null;
+    if (action === 'reject') {
+      reason = prompt('Why is this application being rejected? The provider will see this.');
+      if (!reason) return;
+    }
+
+    try {
+      setError('');
+      const response = await fetch('/api/admin/provider-applications', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ applicationId, action, reason }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to update application');
+      }
+      setReloadCount((count) => count + 1);
+    } catch {
+      setError('Network error occurred');
+    }
+  };
+
+  if (loading && applications.length === 0) {
+    return (
+      <div className="flex justify-center items-center min-h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Provider Applications</h3>
+          <p className="mt-1 text-sm text-gray-600">
+            Check verification documents and approve providers before they can list services
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setCurrentPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">Review queue</option>
+            <option value="applied">Applied</option>
+            <option value="documents_submitted">Submitted</option>
+            <option value="under_review">Under review</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800 text-sm">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {applications.map((application) => (
+            <li key={application.id} className="px-6 py-4">
+              <div className="flex items-start justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <h3 className="text-lg font-medium text-gray-900">{application.user.name}</h3>
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[application.status]}`}>
+                      {application.status.replace('_', ' ')}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {application.user.email}
+                    {application.user.phone && ` · ${application.user.phone}`}
+                  </p>
+                  {application.submittedAt && (
+                    <p className="text-xs text-gray-500">
+                      Submitted {new Date(application.submittedAt).toLocaleString()}
+                      {application.reviewedBy && ` · Reviewer: ${application.reviewedBy.name}`}
+                    </p>
+                  )}
+                  {application.rejectionReason && (
+                    <p className="text-sm text-red-700">{application.rejectionReason}</p>
+                  )}
+                  <ul className="mt-2 space-y-1">
+                    {application.documents.map((document) => (
+                      <li key={document.id} className="text-sm">
+                        <span className="text-gray-500 capitalize">{document.type}: </span>
+                        <a
+                          href={`/api/admin/provider-applications/documents/${document.id}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-indigo-600 hover:text-indigo-500"
+                        >
+                          {document.fileName}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="flex space-x-2">
+                  {application.status === 'documents_submitted' && (
+                    <button
+                      onClick={() => handleAction(application.id, 'start_review')}
+                      className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
+                    >
+                      Start review
+                    </button>
+                  )}
+                  {application.status === 'under_review' && (
+                    <>
+                      <button
+                        onClick={() => handleAction(application.id, 'approve')}
+                        className="text-green-600 hover:text-green-900 text-sm font-medium"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleAction(application.id, 'reject')}
+                        className="text-red-600 hover:text-red-900 text-sm font-medium"
+                      >
+                        Reject
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+          {applications.length === 0 && (
+            <li className="px-6 py-4 text-sm text-gray-500">No applications</li>
+          )}
+        </ul>
+      </div>
+
+      {pagination.pages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-700">
+            Page {pagination.page} of {pagination.pages} ({pagination.total} applications)
+          </p>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setCurrentPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setCurrentPage(currentPage + 1)}
+              disabled={currentPage === pagination.pages}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -52,11 +52,7 @@ export default function ServiceManagement({ onDataChange }: ServiceManagementPro
         ...(statusFilter !== '' && { isActive: statusFilter }),
       });
 
-      const response = await fetch(`/api/admin/services?${params}`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
+      const response = await fetch(`/api/admin/services?${params}`);
 
       const data = await response.json();
 
@@ -84,7 +80,6 @@ export default function ServiceManagement({ onDataChange }: ServiceManagementPro
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
         },
         body: JSON.stringify({ serviceId, updates }),
       });
@@ -110,9 +105,6 @@ export default function ServiceManagement({ onDataChange }: ServiceManagementPro
     try {
       const response = await fetch(`/api/admin/services?id=${serviceId}`, {
         method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
       });
 
       const data = await response.json();
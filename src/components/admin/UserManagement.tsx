@@ -1,19 +1,23 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import LocationMap from "@/components/LocationMap";
+import { useAuth } from "@/context/AuthContext";
+import { STAFF_ROLES, hasPermission } from "@/lib/permissions";
 
 interface User {
   id: string;
   name: string;
   email: string;
-  role: "user" | "provider" | "admin";
+  role: "user" | "provider" | "support" | "finance" | "admin";
   isVerified: boolean;
   phone?: string;
   address?: string;
   latitude?: number;
   longitude?: number;
   createdAt: string;
+  lockedFor: number | null;
   _count: {
     bookingsAsUser: number;
     bookingsAsProvider: number;
@@ -26,6 +30,10 @@ interface UserManagementProps {
 }
 
 export default function UserManagement({ onDataChange }: UserManagementProps) {
+  const { user: currentUser, startImpersonation } = useAuth();
+  const router = useRouter();
+  const canImpersonate =
+    !!currentUser && hasPermission(currentUser.role, "user:impersonate");
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
@@ -58,11 +66,7 @@ export default function UserManagement({ onDataChange }: UserManagementProps) {
         ...(roleFilter && { role: roleFilter }),
       });
 
-      const response = await fetch(`/api/admin/users?${params}`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
+      const response = await fetch(`/api/admin/users?${params}`);
 
       const data = await response.json();
 
@@ -89,7 +93,6 @@ export default function UserManagement({ onDataChange }: UserManagementProps) {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
         body: JSON.stringify({ userId, updates }),
       });
@@ -107,6 +110,40 @@ export default function UserManagement({ onDataChange }: UserManagementProps) {
     }
   };
 
+  const handleUnlockUser = async (userId: string) => {
+    try {
+      const response = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action: "unlock", userId }),
+      });
+
+      if (response.ok) {
+        fetchUsers();
+      } else {
+        const data = await response.json();
+        setError(data.error || "Failed to unlock user");
+      }
+    } catch (error) {
+      setError("Network error occurred");
+    }
+  };
+
+  const handleImpersonate = async (userId: string) => {
+    try {
+      const target = await startImpersonation(userId);
+      router.push(
+        target.role === "provider" ? "/dashboard/provider" : "/dashboard/bookings",
+      );
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to impersonate user",
+      );
+    }
+  };
+
   const handleDeleteUser = async (userId: string) => {
     if (
       !confirm(
@@ -119,9 +156,6 @@ export default function UserManagement({ onDataChange }: UserManagementProps) {
     try {
       const response = await fetch(`/api/admin/users?id=${userId}`, {
         method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
       });
 
       const data = await response.json();
@@ -189,6 +223,8 @@ export default function UserManagement({ onDataChange }: UserManagementProps) {
             <option value="">All Roles</option>
             <option value="user">Users</option>
             <option value="provider">Providers</option>
+            <option value="support">Support</option>
+            <option value="finance">Finance</option>
             <option value="admin">Admins</option>
           </select>
         </div>
@@ -246,6 +282,11 @@ export default function UserManagement({ onDataChange }: UserManagementProps) {
                     >
                       {user.isVerified ? "Verified" : "Unverified"}
                     </span>
+                    {user.lockedFor && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                        Locked for {Math.ceil(user.lockedFor / 60)} min
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -263,6 +304,22 @@ export default function UserManagement({ onDataChange }: UserManagementProps) {
                 >
                   Delete
                 </button>
+                {user.lockedFor && (
+                  <button
+                    onClick={() => handleUnlockUser(user.id)}
+                    className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200"
+                  >
+                    Unlock
+                  </button>
+                )}
+                {canImpersonate && !STAFF_ROLES.includes(user.role) && (
+                  <button
+                    onClick={() => handleImpersonate(user.id)}
+                    className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-amber-700 bg-amber-100 hover:bg-amber-200"
+                  >
+                    View as
+                  </button>
+                )}
 
                 <button
                   onClick={() => handleViewLocation(user)}
@@ -376,6 +433,8 @@ export default function UserManagement({ onDataChange }: UserManagementProps) {
                 >
                   <option value="user">User</option>
                   <option value="provider">Provider</option>
+                  <option value="support">Support</option>
+                  <option value="finance">Finance</option>
                   <option value="admin">Admin</option>
                 </select>
               </div>
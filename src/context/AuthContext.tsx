@@ -8,17 +8,76 @@ import React, {
   ReactNode,
 } from "react";
 
+// Tokens live in HttpOnly cookies the page can't read. The CSRF cookie set
+// next to them (see src/lib/session-cookies.ts) is echoed in a header on
+// every state-changing API call.
+const CSRF_COOKIE = "csrfToken";
+const CSRF_HEADER = "X-CSRF-Token";
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// A 401 from these means bad credentials, not an expired access token
+const NO_REFRESH_PATHS = ["/api/auth/login", "/api/auth/refresh"];
+
+function getCsrfToken(): string | null {
+  const match = document.cookie.match(
+    new RegExp(`(?:^|; )${CSRF_COOKIE}=([^;]*)`)
+  );
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// Shared across callers so concurrent 401s trigger a single refresh
+let refreshPromise: Promise<boolean> | null = null;
+
+// Impersonation tokens can't be refreshed; when one expires the refresh
+// cookie, which still belongs to the admin, restores their own session
+let impersonating = false;
+
+async function refreshSession(fetchImpl: typeof fetch): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      try {
+        const response = await fetchImpl("/api/auth/refresh", {
+          method: "POST",
+          headers: { [CSRF_HEADER]: getCsrfToken() ?? "" },
+        });
+        return response.ok;
+      } catch {
+        return false;
+      } finally {
+        refreshPromise = null;
+      }
+    })();
+  }
+
+  return refreshPromise;
+}
+
 interface User {
   id: string;
   name: string;
   email: string;
-  role: "user" | "provider" | "admin";
+  role: "user" | "provider" | "support" | "finance" | "admin";
+}
+
+// The admin behind an impersonated session
+interface Impersonator {
+  userId: string;
+  email: string;
+}
+
+interface LoginResult {
+  user?: User;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
-  token: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (
+    code: string,
+    isRecoveryCode?: boolean
+  ) => Promise<User>;
   register: (
     name: string,
     email: string,
@@ -28,6 +87,9 @@ interface AuthContextType {
     role?: string
   ) => Promise<void>;
   logout: () => void;
+  impersonator: Impersonator | null;
+  startImpersonation: (userId: string) => Promise<User>;
+  stopImpersonation: () => Promise<void>;
   loading: boolean;
   redirectAfterLogin: (userRole: string) => void;
 }
@@ -48,17 +110,72 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
-  const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [impersonator, setImpersonator] = useState<Impersonator | null>(null);
 
+  // Adds the CSRF header to API calls and retries those that fail with an
+  // expired access token once, after refreshing the session cookies
   useEffect(() => {
-    const storedToken = localStorage.getItem("token");
-    const storedUser = localStorage.getItem("user");
-    if (storedToken && storedUser) {
-      setToken(storedToken);
-      setUser(JSON.parse(storedUser));
-    }
-    setLoading(false);
+    const originalFetch = window.fetch.bind(window);
+
+    window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : input.toString();
+      if (!url.startsWith("/api/")) {
+        return originalFetch(input, init);
+      }
+
+      const headers = new Headers(init?.headers);
+      const method = (init?.method ?? "GET").toUpperCase();
+      const csrfToken = getCsrfToken();
+      if (!SAFE_METHODS.includes(method) && csrfToken) {
+        headers.set(CSRF_HEADER, csrfToken);
+      }
+
+      const response = await originalFetch(input, { ...init, headers });
+      if (
+        response.status !== 401 ||
+        NO_REFRESH_PATHS.some((path) => url.startsWith(path)) ||
+        headers.has("Authorization")
+      ) {
+        return response;
+      }
+
+      if (impersonating) {
+        await refreshSession(originalFetch);
+        window.location.href = "/admin";
+        return response;
+      }
+
+      if (!(await refreshSession(originalFetch))) {
+        setUser(null);
+        return response;
+      }
+
+      return originalFetch(input, { ...init, headers });
+    };
+
+    return () => {
+      window.fetch = originalFetch;
+    };
+  }, []);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await fetch("/api/auth/profile");
+        if (response.ok) {
+          const data = await response.json();
+          setUser(data.user);
+          setImpersonator(data.impersonator);
+          impersonating = !!data.impersonator;
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSession();
   }, []);
 
   const login = async (email: string, password: string) => {
@@ -72,10 +189,44 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const data = await response.json();
       if (!response.ok) throw new Error(data.error);
 
+      // Password accepted; the session starts once the code is confirmed
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        return { twoFactorRequired: true };
+      }
+
+      setUser(data.user);
+      return {
+        user: data.user,
+        twoFactorSetupRequired: !!data.twoFactorSetupRequired,
+      };
+    } catch (error) {
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const completeTwoFactorLogin = async (
+    code: string,
+    isRecoveryCode = false
+  ) => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          challengeToken,
+          ...(isRecoveryCode ? { recoveryCode: code } : { code }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setChallengeToken(null);
       setUser(data.user);
-      setToken(data.token);
-      localStorage.setItem("token", data.token);
-      localStorage.setItem("user", JSON.stringify(data.user));
+      return data.user as User;
     } catch (error) {
       throw error;
     } finally {
@@ -102,9 +253,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (!response.ok) throw new Error(data.error);
 
       setUser(data.user);
-      setToken(data.token);
-      localStorage.setItem("token", data.token);
-      localStorage.setItem("user", JSON.stringify(data.user));
     } catch (error) {
       throw error;
     } finally {
@@ -112,11 +260,48 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const startImpersonation = async (userId: string) => {
+    const response = await fetch("/api/admin/impersonate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ userId }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error);
+
+    setImpersonator({ userId: user!.id, email: user!.email });
+    impersonating = true;
+    setUser(data.user);
+    return data.user as User;
+  };
+
+  // Ends the impersonation server-side and refreshes the admin's own
+  // access token back into the cookie
+  const endImpersonation = async () => {
+    await fetch("/api/admin/impersonate", { method: "DELETE" }).catch(
+      () => undefined
+    );
+    impersonating = false;
+    await refreshSession(fetch);
+  };
+
+  const stopImpersonation = async () => {
+    await endImpersonation();
+    // Reloads so the admin's profile is fetched again
+    window.location.href = "/admin";
+  };
+
   const logout = async () => {
+    if (impersonating) {
+      await endImpersonation();
+    }
     setUser(null);
-    setToken(null);
-    localStorage.removeItem("token");
-    localStorage.removeItem("user");
+    setImpersonator(null);
+
+    // Revokes the session and clears the cookies
+    await fetch("/api/auth/logout", { method: "POST" }).catch(
+      () => undefined
+    );
   };
 
   const redirectAfterLogin = (userRole: string) => {
@@ -134,10 +319,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     <AuthContext.Provider
       value={{
         user,
-        token,
         login,
+        completeTwoFactorLogin,
         register,
         logout,
+        impersonator,
+        startImpersonation,
+        stopImpersonation,
         loading,
         redirectAfterLogin,
       }}
@@ -0,0 +1,10 @@
+// Called once when a server instance starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Set JOBS_ENABLED=false on instances that shouldn't run background jobs
+  if (process.env.JOBS_ENABLED !== "false") {
+    const { startJobRunner } = await import("@/lib/jobs");
+    startJobRunner();
+  }
+}
@@ -0,0 +1,167 @@
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { API_KEY_SCOPES, ApiKeyScope } from "@/lib/permissions";
+import { generateSecureToken, hashToken } from "@/lib/security";
+
+// Partner keys are sent as bearer tokens like access tokens; the prefix is
+// how the two are told apart
+export const API_KEY_PREFIX = "jsh_";
+const API_KEY_DISPLAY_LENGTH = 12;
+export const MAX_ACTIVE_KEYS_PER_USER = 10;
+
+// The replaced key keeps working this long so partners can deploy the new one
+const ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// lastUsedAt is only written when it is older than this, not on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Never includes the hash; the secret itself is only returned at creation
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+export function isApiKeyScope(scope: unknown): scope is ApiKeyScope {
+  return typeof scope === "string" && scope in API_KEY_SCOPES;
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${generateSecureToken(32)}`;
+  return {
+    key,
+    prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+    keyHash: hashToken(key),
+  };
+}
+
+export async function listApiKeys(userId: string) {
+  return prisma.apiKey.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    select: apiKeySelect,
+  });
+}
+
+export async function countActiveApiKeys(userId: string): Promise<number> {
+  return prisma.apiKey.count({
+    where: {
+      userId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+  });
+}
+
+export async function createApiKey(
+  userId: string,
+  input: { name: string; scopes: ApiKeyScope[]; expiresAt?: Date | null }
+) {
+  const { key, prefix, keyHash } = generateApiKey();
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId,
+      name: input.name,
+      prefix,
+      keyHash,
+      scopes: input.scopes,
+      expiresAt: input.expiresAt ?? null,
+    },
+    select: apiKeySelect,
+  });
+
+  return { apiKey, key };
+}
+
+export async function revokeApiKey(userId: string, id: string): Promise<boolean> {
+  const revoked = await prisma.apiKey.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return revoked.count === 1;
+}
+
+// Issues a replacement with the same name, scopes and expiry. The old key
+// stops working after a grace period rather than immediately.
+export async function rotateApiKey(userId: string, id: string) {
+  const current = await prisma.apiKey.findFirst({
+    where: { id, userId, revokedAt: null },
+  });
+  if (!current || (current.expiresAt && current.expiresAt <= new Date())) {
+    return null;
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const graceEnd = new Date(Date.now() + ROTATION_GRACE_MS);
+
+  const [apiKey] = await prisma.$transaction([
+    prisma.apiKey.create({
+      data: {
+        userId,
+        name: current.name,
+        prefix,
+        keyHash,
+        scopes: current.scopes,
+        expiresAt: current.expiresAt,
+      },
+      select: apiKeySelect,
+    }),
+    prisma.apiKey.update({
+      where: { id: current.id },
+      data: {
+        expiresAt:
+          current.expiresAt && current.expiresAt < graceEnd
+            ? current.expiresAt
+            : graceEnd,
+      },
+    }),
+  ]);
+
+  return { apiKey, key };
+}
+
+// Resolves a key to its owner. The payload carries the key's scopes so
+// withAuth can keep it to the routes it was issued for.
+export async function verifyApiKey(key: string): Promise<JWTPayload | null> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(key) },
+    include: { user: { select: { id: true, email: true, role: true } } },
+  });
+
+  const now = new Date();
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return null;
+  }
+
+  if (
+    !apiKey.lastUsedAt ||
+    now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    userId: apiKey.user.id,
+    email: apiKey.user.email,
+    role: apiKey.user.role,
+    apiKey: { id: apiKey.id, scopes: apiKey.scopes },
+  };
+}
+
+export function hasApiKeyScope(user: JWTPayload, scope?: ApiKeyScope): boolean {
+  if (!user.apiKey) return true;
+  return !!scope && user.apiKey.scopes.includes(scope);
+}
@@ -1,13 +1,42 @@
 import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+import { ACCESS_TOKEN_COOKIE, getCookie } from "@/lib/session-cookies";
+import {
+  generateSecureToken,
+  getClientIp,
+  hashToken,
+  logSecurityEvent,
+} from "@/lib/security";
 
 const JWT_SECRET = process.env.JWT_SECRET!;
 
+// Access tokens are short-lived; the refresh token kept in the session row
+// is what keeps a user signed in.
+const ACCESS_TOKEN_TTL = "15m";
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Impersonation sessions get no refresh token and end with their one access
+// token
+const IMPERSONATION_TTL_MS = 15 * 60 * 1000;
+
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sid?: string;
+  // Epoch seconds at which this session last completed a second factor
+  mfa?: number;
+  // Set when the caller authenticated with a partner API key, not a login
+  apiKey?: { id: string; scopes: string[] };
+  // Set when an admin is acting as this user; identifies the admin
+  impersonator?: { userId: string; email: string };
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
 }
 
 export function hashPassword(password: string): string {
@@ -22,27 +51,208 @@ export function comparePassword(
 }
 
 export function generateToken(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: "7d" });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
 }
 
-export function verifyToken(token: string): JWTPayload | null {
+export async function verifyToken(token: string): Promise<JWTPayload | null> {
+  let payload: JWTPayload;
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    payload = jwt.verify(token, JWT_SECRET) as JWTPayload;
   } catch (error) {
     return null;
   }
+
+  // Tokens issued before sessions existed carry no session id and cannot be
+  // revoked, so they are no longer accepted.
+  if (!payload.sid) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    select: { revokedAt: true, expiresAt: true },
+  });
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  return payload;
 }
 
+// An explicit Bearer header wins over the browser's session cookie
 export function getTokenFromRequest(request: NextRequest): string | null {
   const authHeader = request.headers.get("authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return null;
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.substring(7);
   }
-  return authHeader.substring(7);
+  return getCookie(request, ACCESS_TOKEN_COOKIE);
 }
 
-export function getUserFromRequest(request: NextRequest): JWTPayload | null {
+export async function getUserFromRequest(
+  request: NextRequest
+): Promise<JWTPayload | null> {
   const token = getTokenFromRequest(request);
   if (!token) return null;
   return verifyToken(token);
 }
+
+// Opens a server-side session and issues the first access/refresh token pair
+export async function createSession(
+  payload: JWTPayload,
+  request?: NextRequest,
+  options: { mfaVerifiedAt?: Date } = {}
+): Promise<SessionTokens> {
+  const refreshToken = generateSecureToken(48);
+
+  const session = await prisma.session.create({
+    data: {
+      userId: payload.userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: request?.headers.get("user-agent") ?? null,
+      ipAddress: getClientIp(request),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      mfaVerifiedAt: options.mfaVerifiedAt ?? null,
+    },
+  });
+
+  const token = generateToken({
+    userId: payload.userId,
+    email: payload.email,
+    role: payload.role,
+    sid: session.id,
+    ...toMfaClaim(session.mfaVerifiedAt),
+  });
+
+  return { token, refreshToken };
+}
+
+// Starts a session in which the admin acts as the target user. The session
+// row belongs to the admin, so revoking the admin's sessions ends it too.
+export async function createImpersonationSession(
+  admin: JWTPayload,
+  target: { id: string; email: string; role: string },
+  request?: NextRequest
+): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_MS);
+
+  const session = await prisma.session.create({
+    data: {
+      userId: admin.userId,
+      // Never handed out, so the session can't be refreshed
+      refreshTokenHash: hashToken(generateSecureToken(48)),
+      userAgent: request?.headers.get("user-agent") ?? null,
+      ipAddress: getClientIp(request),
+      expiresAt,
+    },
+  });
+
+  const token = generateToken({
+    userId: target.id,
+    email: target.email,
+    role: target.role,
+    sid: session.id,
+    impersonator: { userId: admin.userId, email: admin.email },
+  });
+
+  return { token, expiresAt };
+}
+
+function toMfaClaim(mfaVerifiedAt: Date | null): { mfa?: number } {
+  return mfaVerifiedAt
+    ? { mfa: Math.floor(mfaVerifiedAt.getTime() / 1000) }
+    : {};
+}
+
+// Records a completed second factor on the caller's session and returns an
+// access token that carries it
+export async function markSessionMfaVerified(
+  user: JWTPayload
+): Promise<string> {
+  const mfaVerifiedAt = new Date();
+
+  await prisma.session.update({
+    where: { id: user.sid },
+    data: { mfaVerifiedAt },
+  });
+
+  return generateToken({
+    userId: user.userId,
+    email: user.email,
+    role: user.role,
+    sid: user.sid,
+    ...toMfaClaim(mfaVerifiedAt),
+  });
+}
+
+// Exchanges a refresh token for a new token pair. Each refresh token is
+// single-use: presenting one that was already rotated means it leaked, so
+// the whole session is revoked.
+export async function rotateRefreshToken(
+  refreshToken: string
+): Promise<(SessionTokens & { user: JWTPayload }) | null> {
+  const tokenHash = hashToken(refreshToken);
+
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: tokenHash },
+    include: { user: { select: { id: true, email: true, role: true } } },
+  });
+
+  if (!session) {
+    const reused = await prisma.session.findUnique({
+      where: { previousTokenHash: tokenHash },
+    });
+    if (reused && !reused.revokedAt) {
+      await revokeSession(reused.id);
+      await logSecurityEvent("Refresh token reuse detected", {
+        userId: reused.userId,
+        sessionId: reused.id,
+      });
+    }
+    return null;
+  }
+
+  if (session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  const nextRefreshToken = generateSecureToken(48);
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      previousTokenHash: tokenHash,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  // Another request rotated this token first
+  if (rotated.count === 0) return null;
+
+  const user: JWTPayload = {
+    userId: session.user.id,
+    email: session.user.email,
+    role: session.user.role,
+  };
+
+  return {
+    token: generateToken({
+      ...user,
+      sid: session.id,
+      ...toMfaClaim(session.mfaVerifiedAt),
+    }),
+    refreshToken: nextRefreshToken,
+    user,
+  };
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
@@ -0,0 +1,299 @@
+import { z } from "zod";
+
+// Weekly hours, exceptions and time zone math. This module has no server
+// dependencies and is shared with the client to edit and show schedules.
+
+// Indexed like Date#getDay()
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// "HH:MM" wall-clock time; "24:00" lets a range run to the end of the day
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export const timeRangeSchema = z
+  .object({
+    start: z.string().regex(TIME_PATTERN, "Times must be HH:MM"),
+    end: z.string().regex(TIME_PATTERN, "Times must be HH:MM"),
+  })
+  .refine((range) => toMinutes(range.start) < toMinutes(range.end), {
+    message: "A time range must end after it starts",
+  });
+
+export type TimeRange = z.infer<typeof timeRangeSchema>;
+
+export const timeRangesSchema = z
+  .array(timeRangeSchema)
+  .refine(
+    (ranges) => {
+      const sorted = [...ranges].sort(
+        (a, b) => toMinutes(a.start) - toMinutes(b.start)
+      );
+      return sorted.every(
+        (range, i) =>
+          i === 0 || toMinutes(sorted[i - 1].end) <= toMinutes(range.start)
+      );
+    },
+    { message: "Time ranges on the same day must not overlap" }
+  );
+
+// Opening hours per weekday; a missing or empty day is closed
+export const weeklyAvailabilitySchema = z
+  .object(
+    Object.fromEntries(
+      WEEKDAYS.map((day) => [day, timeRangesSchema.optional()])
+    ) as Record<Weekday, z.ZodOptional<typeof timeRangesSchema>>
+  )
+  .strict();
+
+export type WeeklyAvailability = z.infer<typeof weeklyAvailabilitySchema>;
+
+export const MAX_BUFFER_MINUTES = 240;
+
+// Minutes a provider keeps free around each booking of a service
+export const bufferMinutesSchema = z
+  .number()
+  .int("Buffers must be whole minutes")
+  .min(0, "Buffers cannot be negative")
+  .max(MAX_BUFFER_MINUTES, "Buffers cannot be longer than 4 hours");
+
+export const calendarDateSchema = z
+  .string()
+  .regex(DATE_PATTERN, "Dates must be YYYY-MM-DD")
+  .refine((date) => !isNaN(Date.parse(`${date}T00:00:00Z`)), "Invalid date");
+
+// A date or date range with its own hours; no ranges blocks the whole day,
+// e.g. for holidays
+export const availabilityExceptionSchema = z
+  .object({
+    startDate: calendarDateSchema,
+    endDate: calendarDateSchema.optional(),
+    serviceId: z.string().min(1).nullable().optional(),
+    ranges: timeRangesSchema.default([]),
+    reason: z.string().max(200).nullable().optional(),
+  })
+  .refine((exception) => !exception.endDate || exception.endDate >= exception.startDate, {
+    message: "The end date must not be before the start date",
+  });
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The calendar date, weekday and minutes since midnight that a clock in
+// timeZone shows at the given instant
+export function toZonedTime(
+  instant: Date,
+  timeZone: string
+): { date: string; weekday: Weekday; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    weekday: WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// Prisma returns @db.Date columns as midnight UTC
+export function toCalendarDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function fromCalendarDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+export function addDays(date: string, days: number): string {
+  const result = fromCalendarDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toCalendarDate(result);
+}
+
+// The instant at which a clock in timeZone shows the given date and time, or
+// null if that time is skipped by a daylight saving change
+export function fromZonedTime(
+  date: string,
+  minutes: number,
+  timeZone: string
+): Date | null {
+  const wallClock = fromCalendarDate(date).getTime() + minutes * 60 * 1000;
+  const offsetAt = (instant: number) => {
+    const zoned = toZonedTime(new Date(instant), timeZone);
+    return (
+      fromCalendarDate(zoned.date).getTime() +
+      zoned.minutes * 60 * 1000 -
+      instant
+    );
+  };
+
+  // The offset at the wall-clock time read as UTC is only a first guess;
+  // near a change the second one is right
+  let instant = wallClock - offsetAt(wallClock);
+  instant = wallClock - offsetAt(instant);
+
+  const zoned = toZonedTime(new Date(instant), timeZone);
+  return zoned.date === date && zoned.minutes === minutes
+    ? new Date(instant)
+    : null;
+}
+
+export interface ScheduleException {
+  serviceId: string | null;
+  startDate: Date;
+  endDate: Date;
+  ranges: TimeRange[];
+}
+
+// An exception for the service wins over one for all of the provider's
+// services, and either replaces the weekly hours for that date
+export function rangesForDate(
+  date: string,
+  weekday: Weekday,
+  weekly: WeeklyAvailability,
+  exceptions: ScheduleException[]
+): TimeRange[] {
+  const matching = exceptions.filter(
+    (exception) =>
+      toCalendarDate(exception.startDate) <= date &&
+      toCalendarDate(exception.endDate) >= date
+  );
+  const exception =
+    matching.find((candidate) => candidate.serviceId !== null) ?? matching[0];
+
+  return exception ? exception.ranges : weekly[weekday] ?? [];
+}
+
+// A booking has to fit entirely inside one of the ranges of the day it
+// starts on, in the provider's time zone
+export function isWithinAvailability(
+  start: Date,
+  durationMinutes: number,
+  weekly: WeeklyAvailability,
+  timeZone: string,
+  exceptions: ScheduleException[]
+): boolean {
+  const { date, weekday, minutes } = toZonedTime(start, timeZone);
+  const end = minutes + durationMinutes;
+
+  return rangesForDate(date, weekday, weekly, exceptions).some(
+    (range) => toMinutes(range.start) <= minutes && end <= toMinutes(range.end)
+  );
+}
+
+export const SLOT_INTERVAL_MINUTES = 15;
+
+// Time already taken on the provider's calendar, buffers included
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+// Start times from the first to the last calendar date (in the provider's
+// time zone) at which a booking fits the schedule and, with the buffers of
+// both, clears every busy interval. Slots step through each range from its
+// start.
+export function computeSlots({
+  from,
+  to,
+  weekly,
+  timeZone,
+  exceptions,
+  duration,
+  bufferBefore,
+  bufferAfter,
+  busy,
+  notBefore,
+}: {
+  from: string;
+  to: string;
+  weekly: WeeklyAvailability;
+  timeZone: string;
+  exceptions: ScheduleException[];
+  duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
+  busy: BusyInterval[];
+  notBefore: Date;
+}): Date[] {
+  const slots: Date[] = [];
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const weekday = WEEKDAYS[fromCalendarDate(date).getUTCDay()];
+
+    for (const range of rangesForDate(date, weekday, weekly, exceptions)) {
+      for (
+        let minutes = toMinutes(range.start);
+        minutes + duration <= toMinutes(range.end);
+        minutes += SLOT_INTERVAL_MINUTES
+      ) {
+        const start = fromZonedTime(date, minutes, timeZone);
+        if (!start || start < notBefore) continue;
+
+        const blockedFrom = start.getTime() - bufferBefore * 60 * 1000;
+        const blockedUntil =
+          start.getTime() + (duration + bufferAfter) * 60 * 1000;
+        const isFree = busy.every(
+          (interval) =>
+            interval.end.getTime() <= blockedFrom ||
+            interval.start.getTime() >= blockedUntil
+        );
+        if (isFree) slots.push(start);
+      }
+    }
+  }
+
+  return slots;
+}
+
+// Values stored before the schema existed, or edited by hand, count as no
+// availability rather than failing the request
+export function parseWeeklyAvailability(value: unknown): WeeklyAvailability {
+  const result = weeklyAvailabilitySchema.safeParse(value);
+  return result.success ? result.data : {};
+}
+
+// "Mon 09:00-12:00, 13:00-17:00" lines for the days that have hours
+export function describeWeeklyAvailability(weekly: WeeklyAvailability): string[] {
+  return [...WEEKDAYS.slice(1), WEEKDAYS[0]]
+    .filter((day) => weekly[day]?.length)
+    .map((day) => {
+      const ranges = (weekly[day] ?? [])
+        .map((range) => `${range.start}-${range.end}`)
+        .join(", ");
+      return `${day.charAt(0).toUpperCase()}${day.slice(1, 3)} ${ranges}`;
+    });
+}
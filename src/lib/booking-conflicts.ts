@@ -0,0 +1,61 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { getProviderBusyIntervals } from "@/lib/service-availability";
+
+const MINUTE = 60 * 1000;
+
+// Runs fn in a transaction that holds a Postgres advisory lock on the
+// provider's calendar. Concurrent bookings for the same provider wait for
+// each other, so each one sees the bookings committed before it and two
+// requests can't both claim the same time. The lock is released when the
+// transaction ends.
+export async function withProviderCalendarLock<T>(
+  providerId: string,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    await lockProviderCalendars(tx, [providerId]);
+    return fn(tx);
+  });
+}
+
+// Takes the calendar locks of several providers inside the caller's
+// transaction. They are taken in a fixed order so two transactions locking
+// overlapping sets of providers can't deadlock.
+export async function lockProviderCalendars(
+  tx: Prisma.TransactionClient,
+  providerIds: string[]
+): Promise<void> {
+  for (const providerId of [...new Set(providerIds)].sort()) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('provider_calendar'), hashtext(${providerId}))`;
+  }
+}
+
+// Whether a booking of the service at start, with its buffers, would overlap
+// a booking the provider already has on any of their services or a time held
+// for a waitlist offer, other than the booking being moved when rescheduling
+// and the offer being claimed
+export async function hasBookingConflict(
+  tx: Prisma.TransactionClient,
+  service: {
+    providerId: string;
+    duration: number;
+    bufferBefore: number;
+    bufferAfter: number;
+  },
+  start: Date,
+  excludeBookingId?: string,
+  excludeWaitlistEntryId?: string
+): Promise<boolean> {
+  const busy = await getProviderBusyIntervals(
+    service.providerId,
+    new Date(start.getTime() - service.bufferBefore * MINUTE),
+    new Date(
+      start.getTime() + (service.duration + service.bufferAfter) * MINUTE
+    ),
+    tx,
+    excludeBookingId,
+    excludeWaitlistEntryId
+  );
+  return busy.length > 0;
+}
@@ -0,0 +1,87 @@
+import type { Booking, Prisma } from "@prisma/client";
+import { isServiceAvailable } from "@/lib/service-availability";
+import { hasBookingConflict } from "@/lib/booking-conflicts";
+import { recordBookingEvent } from "@/lib/booking-events";
+import {
+  BookingChangeError,
+  getServiceCancellationPolicy,
+} from "@/lib/booking-lifecycle";
+import { paymentDueAt } from "@/lib/booking-expiry";
+
+// Every way of booking a time ends here: a single booking, a waitlist offer
+// claimed, an accepted quote, a series occurrence and a checked-out cart
+// item. The caller holds the provider's calendar lock for the transaction.
+
+export type BookableService = {
+  id: string;
+  providerId: string;
+  price: number;
+  duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
+  availability: unknown;
+  cancellationPolicy: Booking["cancellationPolicy"] | null;
+};
+
+export interface NewBooking {
+  service: BookableService;
+  userId: string;
+  date: Date;
+  notes?: string | null;
+  // A quoted price instead of the service's
+  totalPrice?: number;
+  // Bookings paid together are due at the same time
+  paymentDueAt?: Date;
+  orderId?: string;
+  // The waitlist offer being claimed, whose hold the booking replaces
+  waitlistEntryId?: string;
+}
+
+// Books the time if it is within the provider's hours and free, with the
+// cancellation policy in force now, and records it in the booking's history
+export async function createBooking(
+  tx: Prisma.TransactionClient,
+  input: NewBooking,
+  now: Date = new Date()
+): Promise<Booking | BookingChangeError> {
+  const { service, date } = input;
+  if (!(await isServiceAvailable(service, date))) {
+    return {
+      error: "The provider is not available at this time",
+      status: 400,
+    };
+  }
+  if (
+    await hasBookingConflict(
+      tx,
+      service,
+      date,
+      undefined,
+      input.waitlistEntryId
+    )
+  ) {
+    return { error: "The time is already taken", status: 409 };
+  }
+
+  const booking = await tx.booking.create({
+    data: {
+      userId: input.userId,
+      serviceId: service.id,
+      providerId: service.providerId,
+      date,
+      notes: input.notes ?? null,
+      totalPrice: input.totalPrice ?? service.price,
+      cancellationPolicy: await getServiceCancellationPolicy(service),
+      paymentDueAt: input.paymentDueAt ?? paymentDueAt(date, now),
+      orderId: input.orderId,
+    },
+  });
+  await recordBookingEvent(
+    tx,
+    booking.id,
+    "created",
+    { actor: "customer", userId: input.userId },
+    { to: booking.status }
+  );
+  return booking;
+}
@@ -0,0 +1,61 @@
+import type { BookingActor, BookingEventType, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+// Who made a change to a booking and why, as shown on its timeline. userId is
+// null for changes made by background jobs.
+export interface BookingChangeBy {
+  actor: BookingActor;
+  userId: string | null;
+  reason?: string | null;
+}
+
+export const MAX_CHANGE_REASON_LENGTH = 500;
+
+export function isValidChangeReason(
+  reason: unknown
+): reason is string | null | undefined {
+  return (
+    reason === undefined ||
+    reason === null ||
+    (typeof reason === "string" && reason.length <= MAX_CHANGE_REASON_LENGTH)
+  );
+}
+
+// Events are only ever appended, in the same transaction as the change they
+// describe where there is one
+export async function recordBookingEvent(
+  db: Prisma.TransactionClient,
+  bookingId: string,
+  type: BookingEventType,
+  by: BookingChangeBy,
+  change: { from?: string | null; to?: string | null } = {}
+): Promise<void> {
+  await db.bookingEvent.create({
+    data: {
+      bookingId,
+      type,
+      actor: by.actor,
+      actorId: by.userId,
+      fromValue: change.from ?? null,
+      toValue: change.to ?? null,
+      reason: by.reason?.trim() || null,
+    },
+  });
+}
+
+export async function getBookingTimeline(bookingId: string) {
+  return prisma.bookingEvent.findMany({
+    where: { bookingId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      type: true,
+      actor: true,
+      fromValue: true,
+      toValue: true,
+      reason: true,
+      createdAt: true,
+      actorUser: { select: { id: true, name: true } },
+    },
+  });
+}
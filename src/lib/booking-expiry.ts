@@ -0,0 +1,89 @@
+import prisma from "@/lib/prisma";
+import { BookingChangeBy } from "@/lib/booking-events";
+import {
+  isBookingChangeError,
+  markBookingPaid,
+  transitionBooking,
+} from "@/lib/booking-lifecycle";
+import { hasPaymentSucceeded } from "@/lib/payments";
+
+// Pending bookings hold their time on the provider's calendar, so one the
+// customer never pays for is cancelled once its payment is due and the time
+// is free again.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const DEFAULT_PAYMENT_HOLD_MINUTES = 30;
+
+// How long a new booking waits for its payment
+export const PAYMENT_HOLD_MINUTES =
+  Number(process.env.BOOKING_PAYMENT_HOLD_MINUTES) ||
+  DEFAULT_PAYMENT_HOLD_MINUTES;
+
+// Later occurrences of a series are paid for shortly before they happen
+export const SERIES_PAYMENT_LEAD_HOURS = 48;
+
+// Bookings expired per run
+const EXPIRY_BATCH_SIZE = 100;
+
+export function paymentDueAt(
+  start: Date,
+  now: Date,
+  { inSeries = false }: { inSeries?: boolean } = {}
+): Date {
+  const held = now.getTime() + PAYMENT_HOLD_MINUTES * MINUTE;
+  const due = inSeries
+    ? Math.max(held, start.getTime() - SERIES_PAYMENT_LEAD_HOURS * HOUR)
+    : held;
+  return new Date(Math.min(due, start.getTime()));
+}
+
+// Cancels unpaid pending bookings whose payment is due, as the system. A
+// booking whose payment Stripe is still processing is kept and tried again
+// on the next run. One Stripe took the payment for without it ever being
+// confirmed is marked paid instead, so it leaves the queue.
+export async function expireUnpaidBookings(
+  now: Date = new Date()
+): Promise<{ expired: string[]; paid: string[]; kept: string[] }> {
+  const due = await prisma.booking.findMany({
+    where: {
+      status: "pending",
+      paymentStatus: "pending",
+      paymentDueAt: { lte: now },
+    },
+    orderBy: { paymentDueAt: "asc" },
+    take: EXPIRY_BATCH_SIZE,
+  });
+
+  const by: BookingChangeBy = { actor: "system", userId: null };
+  const expired: string[] = [];
+  const paid: string[] = [];
+  const kept: string[] = [];
+  for (const booking of due) {
+    try {
+      const result = await transitionBooking(
+        booking,
+        "cancelled",
+        { ...by, reason: "Not paid in time" },
+        now
+      );
+      if (!isBookingChangeError(result)) {
+        expired.push(booking.id);
+      } else if (
+        booking.stripePaymentId &&
+        (await hasPaymentSucceeded(booking.stripePaymentId))
+      ) {
+        await markBookingPaid(booking, by, booking.stripePaymentId, now);
+        paid.push(booking.id);
+      } else {
+        kept.push(booking.id);
+      }
+    } catch (error) {
+      console.error(`Booking expiry error for ${booking.id}:`, error);
+      kept.push(booking.id);
+    }
+  }
+
+  return { expired, paid, kept };
+}
@@ -0,0 +1,460 @@
+import type {
+  Booking,
+  BookingActor,
+  BookingStatus,
+  CancellationPolicy,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { APP_URL, sendMail } from "@/lib/mail";
+import { hasPermission } from "@/lib/permissions";
+import { cancelPaymentIntent, refundPayment } from "@/lib/payments";
+import { BookingChangeBy, recordBookingEvent } from "@/lib/booking-events";
+import { refundPercentFor, splitRefund } from "@/lib/cancellation-policies";
+import { offerBookingTime } from "@/lib/waitlist";
+
+// Every change to a booking's status, payment status or notes goes through
+// this module, whoever asks for it: the parties, staff, the payment routes or
+// background jobs ("system"), and is recorded on the booking's timeline.
+
+// Who may move a booking from one status to the next. Completed and
+// cancelled bookings are final.
+const TRANSITIONS: Record<
+  BookingStatus,
+  Partial<Record<BookingStatus, BookingActor[]>>
+> = {
+  pending: {
+    confirmed: ["provider", "staff"],
+    cancelled: ["customer", "provider", "staff", "system"],
+  },
+  confirmed: {
+    in_progress: ["provider", "staff"],
+    cancelled: ["customer", "provider", "staff", "system"],
+  },
+  in_progress: {
+    completed: ["provider", "staff"],
+    cancelled: ["staff"],
+  },
+  completed: {},
+  cancelled: {},
+};
+
+// Providers may start a job a little before the booked time
+export const EARLY_START_MINUTES = 30;
+
+const MINUTE = 60 * 1000;
+
+export interface BookingChangeError {
+  error: string;
+  status: 400 | 403 | 404 | 409;
+}
+
+export function isBookingChangeError(
+  result: object
+): result is BookingChangeError {
+  return "error" in result;
+}
+
+// Staff holding booking:manage act as staff even on their own bookings
+export function getBookingActor(
+  booking: { userId: string; providerId: string },
+  user: JWTPayload
+): BookingActor | null {
+  if (hasPermission(user.role, "booking:manage")) return "staff";
+  if (booking.providerId === user.userId) return "provider";
+  if (booking.userId === user.userId) return "customer";
+  return null;
+}
+
+export function isBookingStatus(status: unknown): status is BookingStatus {
+  return typeof status === "string" && Object.keys(TRANSITIONS).includes(status);
+}
+
+export function allowedTransitions(
+  status: BookingStatus,
+  actor: BookingActor
+): BookingStatus[] {
+  return (Object.keys(TRANSITIONS[status]) as BookingStatus[]).filter((to) =>
+    TRANSITIONS[status][to]?.includes(actor)
+  );
+}
+
+// Why the booking can't move to `to` right now, or null if it can
+export function checkBookingTransition(
+  booking: Pick<Booking, "status" | "date" | "paymentStatus">,
+  to: BookingStatus,
+  actor: BookingActor,
+  now: Date = new Date()
+): BookingChangeError | null {
+  const actors = TRANSITIONS[booking.status][to];
+  if (!actors) {
+    return {
+      error: `A ${booking.status.replace("_", " ")} booking cannot be changed to ${to.replace("_", " ")}`,
+      status: 400,
+    };
+  }
+  if (!actors.includes(actor)) {
+    return { error: "You cannot make this change to the booking", status: 403 };
+  }
+
+  switch (to) {
+    case "confirmed":
+      if (booking.date <= now) {
+        return {
+          error: "Cannot confirm a booking whose start time has passed",
+          status: 400,
+        };
+      }
+      break;
+    case "in_progress":
+      if (booking.date.getTime() - EARLY_START_MINUTES * MINUTE > now.getTime()) {
+        return {
+          error: `Cannot start a booking more than ${EARLY_START_MINUTES} minutes before its start time`,
+          status: 400,
+        };
+      }
+      break;
+    case "completed":
+      if (booking.date > now) {
+        return {
+          error: "Cannot complete a booking before its start time",
+          status: 400,
+        };
+      }
+      if (booking.paymentStatus !== "paid") {
+        return { error: "Cannot complete an unpaid booking", status: 400 };
+      }
+      break;
+  }
+
+  return null;
+}
+
+export async function getServiceCancellationPolicy(service: {
+  providerId: string;
+  cancellationPolicy: CancellationPolicy | null;
+}): Promise<CancellationPolicy> {
+  if (service.cancellationPolicy) return service.cancellationPolicy;
+
+  const provider = await prisma.user.findUnique({
+    where: { id: service.providerId },
+    select: { cancellationPolicy: true },
+  });
+  return provider?.cancellationPolicy ?? "flexible";
+}
+
+export interface CancellationQuote {
+  // null when the booking's policy doesn't apply to this cancellation
+  policy: CancellationPolicy | null;
+  refundPercent: number;
+  refundAmount: number;
+  fee: number;
+}
+
+// What cancelling now would refund and keep. The booking's policy only applies
+// when the customer cancels a booking the provider has confirmed; otherwise a
+// payment is refunded in full. Nothing is charged for unpaid bookings.
+export function quoteCancellation(
+  booking: Pick<
+    Booking,
+    "status" | "date" | "totalPrice" | "paymentStatus" | "cancellationPolicy"
+  >,
+  actor: BookingActor,
+  now: Date = new Date()
+): CancellationQuote {
+  const policy =
+    actor === "customer" && booking.status === "confirmed"
+      ? booking.cancellationPolicy
+      : null;
+  const refundPercent = policy
+    ? refundPercentFor(policy, booking.date, now)
+    : 100;
+
+  if (booking.paymentStatus !== "paid") {
+    return { policy, refundPercent, refundAmount: 0, fee: 0 };
+  }
+  return {
+    policy,
+    refundPercent,
+    ...splitRefund(booking.totalPrice, refundPercent),
+  };
+}
+
+// Moves the booking only if it is still in the status the caller saw, then
+// refunds cancellations as the cancellation policy allows and tells the other
+// party
+export async function transitionBooking(
+  booking: Booking,
+  to: BookingStatus,
+  by: BookingChangeBy,
+  now: Date = new Date()
+): Promise<{ booking: Booking } | BookingChangeError> {
+  const transitionError = checkBookingTransition(booking, to, by.actor, now);
+  if (transitionError) return transitionError;
+
+  // An unfinished payment is stopped so it can't go through on a cancelled
+  // booking
+  if (
+    to === "cancelled" &&
+    booking.paymentStatus === "pending" &&
+    !(await cancelPaymentIntent(booking.stripePaymentId))
+  ) {
+    return {
+      error: "A payment for this booking is being processed. Try again once it completes",
+      status: 409,
+    };
+  }
+
+  const quote =
+    to === "cancelled" ? quoteCancellation(booking, by.actor, now) : null;
+
+  const changed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.booking.updateMany({
+      where: { id: booking.id, status: booking.status },
+      data: { status: to, ...(quote && { cancellationFee: quote.fee }) },
+    });
+    if (count === 0) return false;
+
+    await recordBookingEvent(tx, booking.id, "status_changed", by, {
+      from: booking.status,
+      to,
+    });
+    return true;
+  });
+  if (!changed) {
+    return {
+      error: "The booking was changed in the meantime. Reload and try again",
+      status: 409,
+    };
+  }
+
+  let updated: Booking = {
+    ...booking,
+    status: to,
+    updatedAt: now,
+    ...(quote && { cancellationFee: quote.fee }),
+  };
+
+  if (quote && quote.refundAmount > 0) {
+    // The cancellation stands even if the refund fails; the booking stays
+    // paid so staff can refund it from the payments page
+    const refunded = await refundBooking(
+      updated,
+      by,
+      quote.refundAmount < booking.totalPrice ? quote.refundAmount : undefined
+    );
+    if (isBookingChangeError(refunded)) {
+      console.error("Cancellation refund error:", refunded.error);
+    } else {
+      updated = refunded.booking;
+    }
+  }
+
+  await notifyBookingStatus(updated, by.actor);
+
+  // The freed time goes to the first customer waiting for it. The
+  // cancellation stands even if that fails.
+  if (to === "cancelled") {
+    try {
+      await offerBookingTime(updated, now);
+    } catch (error) {
+      console.error("Waitlist offer error:", error);
+    }
+  }
+
+  return { booking: updated };
+}
+
+export async function updateBookingNotes(
+  booking: Booking,
+  notes: string | null,
+  by: BookingChangeBy
+): Promise<Booking> {
+  if (notes === booking.notes) return booking;
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.booking.update({
+      where: { id: booking.id },
+      data: { notes },
+    });
+    await recordBookingEvent(tx, booking.id, "notes_changed", by, {
+      from: booking.notes,
+      to: notes,
+    });
+    return updated;
+  });
+}
+
+// Only unpaid bookings that are still going ahead can be paid
+export function checkBookingPayable(
+  booking: Pick<Booking, "status" | "paymentStatus">
+): BookingChangeError | null {
+  if (booking.paymentStatus === "paid") {
+    return { error: "Payment already completed", status: 400 };
+  }
+  if (booking.paymentStatus !== "pending" || booking.status === "cancelled") {
+    return { error: "Cannot take payment for this booking", status: 400 };
+  }
+  return null;
+}
+
+export async function markBookingPaid(
+  booking: Booking,
+  by: BookingChangeBy,
+  stripePaymentId?: string,
+  now: Date = new Date()
+): Promise<{ booking: Booking } | BookingChangeError> {
+  const payableError = checkBookingPayable(booking);
+  if (payableError) return payableError;
+
+  const changed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.booking.updateMany({
+      where: { id: booking.id, paymentStatus: "pending" },
+      data: {
+        paymentStatus: "paid",
+        paidAt: now,
+        ...(stripePaymentId && { stripePaymentId }),
+      },
+    });
+    if (count === 0) return false;
+
+    await recordBookingEvent(tx, booking.id, "payment_changed", by, {
+      from: "pending",
+      to: "paid",
+    });
+    return true;
+  });
+  if (!changed) {
+    return { error: "Payment already completed", status: 409 };
+  }
+
+  return {
+    booking: {
+      ...booking,
+      paymentStatus: "paid",
+      paidAt: now,
+      stripePaymentId: stripePaymentId ?? booking.stripePaymentId,
+    },
+  };
+}
+
+// Refunds the whole payment unless an amount in dollars, at most the
+// booking's price, is given. The booking is claimed as refunded before Stripe is called so two requests
+// can't both refund it, and put back to paid if Stripe refuses. Only a refund
+// that went through is recorded on the timeline.
+export async function refundBooking(
+  booking: Booking,
+  by: BookingChangeBy,
+  amount?: number,
+  now: Date = new Date()
+): Promise<{ booking: Booking; refund: unknown } | BookingChangeError> {
+  if (booking.paymentStatus !== "paid") {
+    return { error: "Cannot refund unpaid booking", status: 400 };
+  }
+  // An order's bookings share one charge, so more than the price would
+  // refund the other bookings' money
+  if (
+    amount !== undefined &&
+    !(
+      typeof amount === "number" &&
+      Number.isFinite(amount) &&
+      amount > 0 &&
+      amount <= booking.totalPrice
+    )
+  ) {
+    return {
+      error: "Refund amount must be more than 0 and at most the booking's price",
+      status: 400,
+    };
+  }
+
+  const refundedAmount = amount ?? booking.totalPrice;
+  const { count } = await prisma.booking.updateMany({
+    where: { id: booking.id, paymentStatus: "paid" },
+    data: { paymentStatus: "refunded", refundedAt: now, refundedAmount },
+  });
+  if (count === 0) {
+    return { error: "Booking already refunded", status: 409 };
+  }
+
+  let refund: unknown;
+  try {
+    // Bookings in an order share its payment, so only their own part of it
+    // is refunded
+    refund = await refundPayment(
+      booking.stripePaymentId,
+      booking.orderId ? refundedAmount : amount
+    );
+  } catch (error) {
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { paymentStatus: "paid", refundedAt: null, refundedAmount: null },
+    });
+    return {
+      error: `Refund processing failed: ${error instanceof Error ? error.message : "unknown error"}`,
+      status: 400,
+    };
+  }
+
+  await recordBookingEvent(prisma, booking.id, "payment_changed", by, {
+    from: "paid",
+    to: "refunded",
+  });
+
+  return {
+    booking: {
+      ...booking,
+      paymentStatus: "refunded",
+      refundedAt: now,
+      refundedAmount,
+    },
+    refund,
+  };
+}
+
+const STATUS_EMAIL_VERBS: Partial<Record<BookingStatus, string>> = {
+  confirmed: "confirmed",
+  completed: "marked as completed",
+  cancelled: "cancelled",
+};
+
+// Emails the parties who didn't make the change
+async function notifyBookingStatus(
+  booking: Booking,
+  actor: BookingActor
+): Promise<void> {
+  const verb = STATUS_EMAIL_VERBS[booking.status];
+  if (!verb) return;
+
+  try {
+    const details = await prisma.booking.findUnique({
+      where: { id: booking.id },
+      select: {
+        service: { select: { name: true } },
+        user: { select: { name: true, email: true } },
+        provider: { select: { name: true, email: true } },
+      },
+    });
+    if (!details) return;
+
+    const recipients = [
+      ...(actor !== "customer" ? [details.user] : []),
+      ...(actor !== "provider" ? [details.provider] : []),
+    ];
+
+    for (const recipient of recipients) {
+      await sendMail({
+        to: recipient.email,
+        subject: `Your booking for ${details.service.name} was ${verb}`,
+        text: [
+          `Hi ${recipient.name},`,
+          "",
+          `The booking for ${details.service.name} on ${booking.date.toISOString()} was ${verb}.`,
+          `${APP_URL}/dashboard/bookings`,
+        ].join("\n"),
+      });
+    }
+  } catch (error) {
+    console.error("Booking status email error:", error);
+  }
+}
@@ -0,0 +1,205 @@
+import { z } from "zod";
+import type { Booking, BookingMessage } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { APP_URL, sendMail } from "@/lib/mail";
+import { generateSecureToken } from "@/lib/security";
+import { getStorage } from "@/lib/storage";
+import { BookingChangeError } from "@/lib/booking-lifecycle";
+
+// The customer and the provider talk about a booking in one thread on it.
+// Each message records when the other party first read it. The thread stays
+// open while the booking is, and for a set time after it completes or is
+// cancelled; after that it can still be read, by the parties and by staff
+// settling a dispute, but not added to.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_BOOKING_MESSAGES_OPEN_DAYS = 14;
+
+export const BOOKING_MESSAGES_OPEN_DAYS =
+  Number(process.env.BOOKING_MESSAGES_OPEN_DAYS) ||
+  DEFAULT_BOOKING_MESSAGES_OPEN_DAYS;
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_MESSAGE_ATTACHMENTS = 3;
+export const ALLOWED_ATTACHMENT_CONTENT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+];
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const bookingMessageSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "Message is required")
+    .max(
+      MAX_MESSAGE_LENGTH,
+      `Message must be at most ${MAX_MESSAGE_LENGTH} characters`
+    ),
+});
+
+export const bookingMessageAttachmentSelect = {
+  id: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+};
+
+const messageInclude = {
+  sender: { select: { id: true, name: true } },
+  attachments: { select: bookingMessageAttachmentSelect },
+};
+
+type MessageBooking = Booking & {
+  user: { name: string; email: string };
+  provider: { name: string; email: string };
+  service: { name: string };
+};
+
+// Null while the booking is still open. A finished booking's thread closes
+// the set number of days after it was completed or cancelled.
+export async function getMessagingClosesAt(
+  booking: Pick<Booking, "id" | "status" | "updatedAt">
+): Promise<Date | null> {
+  if (booking.status !== "completed" && booking.status !== "cancelled") {
+    return null;
+  }
+
+  // Bookings finished before the timeline was recorded fall back to their
+  // last change
+  const finished = await prisma.bookingEvent.findFirst({
+    where: {
+      bookingId: booking.id,
+      type: "status_changed",
+      toValue: booking.status,
+    },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true },
+  });
+  const finishedAt = finished?.createdAt ?? booking.updatedAt;
+
+  return new Date(finishedAt.getTime() + BOOKING_MESSAGES_OPEN_DAYS * DAY);
+}
+
+export async function listBookingMessages(bookingId: string) {
+  return prisma.bookingMessage.findMany({
+    where: { bookingId },
+    orderBy: { createdAt: "asc" },
+    include: messageInclude,
+  });
+}
+
+// Called when a party opens the thread; staff reading it for a dispute
+// leave the receipts alone
+export async function markBookingMessagesRead(
+  bookingId: string,
+  readerId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const { count } = await prisma.bookingMessage.updateMany({
+    where: { bookingId, senderId: { not: readerId }, readAt: null },
+    data: { readAt: now },
+  });
+  return count;
+}
+
+// The sender must be one of the booking's parties. The other party is
+// emailed; the message is on the booking either way.
+export async function sendBookingMessage(
+  booking: MessageBooking,
+  senderId: string,
+  body: string,
+  attachments: { fileName: string; contentType: string; data: Buffer }[],
+  now: Date = new Date()
+): Promise<{ message: BookingMessage } | BookingChangeError> {
+  const closesAt = await getMessagingClosesAt(booking);
+  if (closesAt && closesAt <= now) {
+    return { error: "Messaging on this booking has closed", status: 409 };
+  }
+  if (attachments.length > MAX_MESSAGE_ATTACHMENTS) {
+    return {
+      error: `A message can have at most ${MAX_MESSAGE_ATTACHMENTS} attachments`,
+      status: 400,
+    };
+  }
+
+  const created = await prisma.bookingMessage.create({
+    data: { bookingId: booking.id, senderId, body },
+  });
+
+  for (const attachment of attachments) {
+    const storageKey = `booking-messages/${booking.id}/${generateSecureToken(12)}`;
+    await getStorage().put(storageKey, attachment.data, attachment.contentType);
+    await prisma.bookingMessageAttachment.create({
+      data: {
+        messageId: created.id,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.data.length,
+        storageKey,
+      },
+    });
+  }
+
+  const fromCustomer = senderId === booking.userId;
+  await notifyRecipient(
+    fromCustomer ? booking.provider : booking.user,
+    fromCustomer ? booking.user.name : booking.provider.name,
+    booking,
+    body
+  );
+
+  return { message: created };
+}
+
+// Unread messages from the other party, per booking, for the caller's
+// bookings as customer or provider
+export async function getUnreadMessageCounts(
+  userId: string
+): Promise<Record<string, number>> {
+  const groups = await prisma.bookingMessage.groupBy({
+    by: ["bookingId"],
+    where: {
+      senderId: { not: userId },
+      readAt: null,
+      booking: { OR: [{ userId }, { providerId: userId }] },
+    },
+    _count: { _all: true },
+  });
+
+  return Object.fromEntries(
+    groups.map((group) => [group.bookingId, group._count._all])
+  );
+}
+
+export async function readBookingMessageAttachment(storageKey: string) {
+  return getStorage().get(storageKey);
+}
+
+async function notifyRecipient(
+  recipient: { name: string; email: string },
+  senderName: string,
+  booking: MessageBooking,
+  body: string
+): Promise<void> {
+  try {
+    await sendMail({
+      to: recipient.email,
+      subject: `New message about ${booking.service.name}`,
+      text: [
+        `Hi ${recipient.name},`,
+        "",
+        `${senderName} wrote about the booking on ${booking.date.toISOString()}:`,
+        "",
+        body,
+        "",
+        `${APP_URL}/dashboard/bookings/${booking.id}`,
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error("Booking message email error:", error);
+  }
+}
@@ -0,0 +1,347 @@
+import { z } from "zod";
+import type {
+  Booking,
+  BookingStatus,
+  Prisma,
+  RescheduleRequest,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { APP_URL, sendMail } from "@/lib/mail";
+import { isServiceAvailable } from "@/lib/service-availability";
+import {
+  hasBookingConflict,
+  withProviderCalendarLock,
+} from "@/lib/booking-conflicts";
+import {
+  BookingChangeBy,
+  MAX_CHANGE_REASON_LENGTH,
+  recordBookingEvent,
+} from "@/lib/booking-events";
+import {
+  BookingChangeError,
+  isBookingChangeError,
+} from "@/lib/booking-lifecycle";
+import { offerBookingTime } from "@/lib/waitlist";
+
+// Either party proposes new times for a booking and the other accepts one of
+// them or declines. Only the date changes, and only on acceptance; status,
+// payment and history stay with the booking. Proposals and answers run under
+// the provider's calendar lock, so a booking has at most one pending request
+// and an accepted time can't be taken by a booking made at the same moment.
+
+export const MAX_PROPOSED_TIMES = 5;
+
+// Bookings that haven't started yet can be moved
+export const RESCHEDULABLE_STATUSES: BookingStatus[] = ["pending", "confirmed"];
+
+const dateTimeSchema = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Invalid date format");
+
+const reasonSchema = z
+  .string()
+  .max(
+    MAX_CHANGE_REASON_LENGTH,
+    `Reason must be at most ${MAX_CHANGE_REASON_LENGTH} characters`
+  )
+  .nullable()
+  .optional();
+
+export const proposeRescheduleSchema = z.object({
+  times: z
+    .array(dateTimeSchema)
+    .min(1, "Propose at least one time")
+    .max(MAX_PROPOSED_TIMES, `Propose at most ${MAX_PROPOSED_TIMES} times`),
+  reason: reasonSchema,
+});
+
+export const respondToRescheduleSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("accept"), time: dateTimeSchema }),
+  z.object({ action: z.literal("decline"), reason: reasonSchema }),
+  z.object({ action: z.literal("withdraw") }),
+]);
+
+export type RescheduleResponse = z.infer<typeof respondToRescheduleSchema>;
+
+export type ReschedulingBooking = Booking & {
+  service: {
+    id: string;
+    name: string;
+    providerId: string;
+    duration: number;
+    bufferBefore: number;
+    bufferAfter: number;
+    availability: unknown;
+  };
+};
+
+export function getPendingReschedule(
+  bookingId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<RescheduleRequest | null> {
+  return db.rescheduleRequest.findFirst({
+    where: { bookingId, status: "pending" },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+function checkReschedulable(
+  booking: Pick<Booking, "status">,
+  by: BookingChangeBy
+): BookingChangeError | null {
+  if (by.actor !== "customer" && by.actor !== "provider") {
+    return {
+      error: "Only the customer or the provider can reschedule a booking",
+      status: 403,
+    };
+  }
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    return {
+      error: `A ${booking.status.replace("_", " ")} booking cannot be rescheduled`,
+      status: 400,
+    };
+  }
+  return null;
+}
+
+// Why the booking can't be moved to start, or null if it can
+async function checkNewTime(
+  tx: Prisma.TransactionClient,
+  booking: ReschedulingBooking,
+  start: Date,
+  now: Date
+): Promise<string | null> {
+  const time = start.toISOString();
+  if (start <= now) {
+    return `${time} has already passed`;
+  }
+  if (start.getTime() === booking.date.getTime()) {
+    return `${time} is the booking's current time`;
+  }
+  if (!(await isServiceAvailable(booking.service, start))) {
+    return `The provider is not available at ${time}`;
+  }
+  if (await hasBookingConflict(tx, booking.service, start, booking.id)) {
+    return `${time} is already taken`;
+  }
+  return null;
+}
+
+// Replaces any pending request: the proposer's own is withdrawn, and one from
+// the other party counts as declined by this counter-proposal
+export async function proposeReschedule(
+  booking: ReschedulingBooking,
+  by: BookingChangeBy,
+  times: Date[],
+  now: Date = new Date()
+): Promise<{ request: RescheduleRequest } | BookingChangeError> {
+  const reschedulableError = checkReschedulable(booking, by);
+  if (reschedulableError) return reschedulableError;
+
+  if (new Set(times.map((time) => time.getTime())).size !== times.length) {
+    return { error: "Proposed times must be different", status: 400 };
+  }
+
+  const result = await withProviderCalendarLock(
+    booking.providerId,
+    async (tx): Promise<{ request: RescheduleRequest } | BookingChangeError> => {
+      for (const time of times) {
+        const problem = await checkNewTime(tx, booking, time, now);
+        if (problem) return { error: problem, status: 400 };
+      }
+
+      const pending = await getPendingReschedule(booking.id, tx);
+      if (pending) {
+        const replacedBySelf = pending.actor === by.actor;
+        await tx.rescheduleRequest.update({
+          where: { id: pending.id },
+          data: {
+            status: replacedBySelf ? "withdrawn" : "declined",
+            respondedAt: now,
+          },
+        });
+        await recordBookingEvent(
+          tx,
+          booking.id,
+          replacedBySelf ? "reschedule_withdrawn" : "reschedule_declined",
+          { actor: by.actor, userId: by.userId }
+        );
+      }
+
+      const request = await tx.rescheduleRequest.create({
+        data: {
+          bookingId: booking.id,
+          actor: by.actor,
+          actorId: by.userId,
+          times,
+          reason: by.reason?.trim() || null,
+        },
+      });
+      await recordBookingEvent(tx, booking.id, "reschedule_proposed", by, {
+        from: booking.date.toISOString(),
+        to: times.map((time) => time.toISOString()).join(","),
+      });
+
+      return { request };
+    }
+  );
+
+  if (!isBookingChangeError(result)) {
+    await notifyReschedule(
+      booking,
+      by,
+      "New times were proposed for",
+      times.map((time) => time.toISOString())
+    );
+  }
+  return result;
+}
+
+// The other party accepts or declines the pending request, giving by.reason
+// when declining; its proposer can withdraw it
+export async function respondToReschedule(
+  booking: ReschedulingBooking,
+  by: BookingChangeBy,
+  response: RescheduleResponse,
+  now: Date = new Date()
+): Promise<
+  | { booking: ReschedulingBooking; request: RescheduleRequest }
+  | BookingChangeError
+> {
+  const reschedulableError = checkReschedulable(booking, by);
+  if (reschedulableError) return reschedulableError;
+
+  const result = await withProviderCalendarLock(
+    booking.providerId,
+    async (
+      tx
+    ): Promise<
+      | { booking: ReschedulingBooking; request: RescheduleRequest }
+      | BookingChangeError
+    > => {
+      const pending = await getPendingReschedule(booking.id, tx);
+      if (!pending) {
+        return { error: "There is no pending reschedule request", status: 404 };
+      }
+
+      const isProposer = pending.actor === by.actor;
+      if (response.action === "withdraw" ? !isProposer : isProposer) {
+        return {
+          error:
+            response.action === "withdraw"
+              ? "Only the party who proposed the times can withdraw them"
+              : "The other party has to answer this request",
+          status: 403,
+        };
+      }
+
+      if (response.action !== "accept") {
+        const request = await tx.rescheduleRequest.update({
+          where: { id: pending.id },
+          data: {
+            status: response.action === "decline" ? "declined" : "withdrawn",
+            respondedAt: now,
+          },
+        });
+        await recordBookingEvent(
+          tx,
+          booking.id,
+          response.action === "decline"
+            ? "reschedule_declined"
+            : "reschedule_withdrawn",
+          by
+        );
+        return { booking, request };
+      }
+
+      const time = new Date(response.time);
+      if (!pending.times.some((proposed) => proposed.getTime() === time.getTime())) {
+        return { error: "Pick one of the proposed times", status: 400 };
+      }
+
+      const problem = await checkNewTime(tx, booking, time, now);
+      if (problem) return { error: problem, status: 409 };
+
+      const { count } = await tx.booking.updateMany({
+        where: {
+          id: booking.id,
+          date: booking.date,
+          status: { in: RESCHEDULABLE_STATUSES },
+        },
+        data: { date: time },
+      });
+      if (count === 0) {
+        return {
+          error: "The booking was changed in the meantime. Reload and try again",
+          status: 409,
+        };
+      }
+
+      const request = await tx.rescheduleRequest.update({
+        where: { id: pending.id },
+        data: { status: "accepted", acceptedTime: time, respondedAt: now },
+      });
+      await recordBookingEvent(tx, booking.id, "rescheduled", by, {
+        from: booking.date.toISOString(),
+        to: time.toISOString(),
+      });
+
+      return { booking: { ...booking, date: time }, request };
+    }
+  );
+
+  if (!isBookingChangeError(result)) {
+    await notifyReschedule(
+      booking,
+      by,
+      response.action === "accept"
+        ? "A new time was agreed for"
+        : response.action === "decline"
+          ? "The proposed times were declined for"
+          : "The proposed times were withdrawn for",
+      response.action === "accept" ? [new Date(response.time).toISOString()] : []
+    );
+
+    // The time the booking moved away from goes to the waitlist
+    if (response.action === "accept") {
+      try {
+        await offerBookingTime(booking, now);
+      } catch (error) {
+        console.error("Waitlist offer error:", error);
+      }
+    }
+  }
+  return result;
+}
+
+// Emails the other party
+async function notifyReschedule(
+  booking: ReschedulingBooking,
+  by: BookingChangeBy,
+  summary: string,
+  times: string[]
+): Promise<void> {
+  try {
+    const recipient = await prisma.user.findUnique({
+      where: { id: by.actor === "customer" ? booking.providerId : booking.userId },
+      select: { name: true, email: true },
+    });
+    if (!recipient) return;
+
+    await sendMail({
+      to: recipient.email,
+      subject: `${summary} your booking of ${booking.service.name}`,
+      text: [
+        `Hi ${recipient.name},`,
+        "",
+        `${summary} the booking of ${booking.service.name} on ${booking.date.toISOString()}.`,
+        ...times.map((time) => `- ${time}`),
+        ...(by.reason ? ["", `Reason: ${by.reason}`] : []),
+        "",
+        `${APP_URL}/dashboard/bookings/${booking.id}`,
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error("Reschedule email error:", error);
+  }
+}
@@ -0,0 +1,341 @@
+import { z } from "zod";
+import type {
+  Booking,
+  BookingSeries,
+  RecurrenceFrequency,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import {
+  addDays,
+  calendarDateSchema,
+  fromZonedTime,
+  toCalendarDate,
+  toZonedTime,
+} from "@/lib/availability";
+import { withProviderCalendarLock } from "@/lib/booking-conflicts";
+import {
+  BookingChangeBy,
+  MAX_CHANGE_REASON_LENGTH,
+} from "@/lib/booking-events";
+import {
+  BookingChangeError,
+  isBookingChangeError,
+  transitionBooking,
+} from "@/lib/booking-lifecycle";
+import { RESCHEDULABLE_STATUSES } from "@/lib/booking-reschedule";
+import { paymentDueAt } from "@/lib/booking-expiry";
+import { createBooking } from "@/lib/booking-creation";
+
+// A customer books a service on a repeating pattern and gets one booking per
+// occurrence, each with its own status, payment and history. Occurrences are
+// checked like single bookings; those that can't be booked are skipped and
+// reported, and the rest are created under the provider's calendar lock.
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export const RECURRENCE_FREQUENCIES = ["weekly", "biweekly", "monthly"] as const;
+
+export const createSeriesSchema = z
+  .object({
+    serviceId: z.string().min(1, "Service ID is required"),
+    start: z
+      .string()
+      .refine((value) => !isNaN(Date.parse(value)), "Invalid date format"),
+    frequency: z.enum(RECURRENCE_FREQUENCIES, {
+      message: "Frequency must be weekly, biweekly or monthly",
+    }),
+    until: calendarDateSchema.nullable().optional(),
+    count: z
+      .number()
+      .int()
+      .min(2, "A series needs at least 2 occurrences")
+      .max(
+        MAX_SERIES_OCCURRENCES,
+        `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`
+      )
+      .nullable()
+      .optional(),
+    notes: z.string().nullable().optional(),
+  })
+  .refine((input) => input.until || input.count, {
+    message: "Give an end date or a number of occurrences",
+  });
+
+export type CreateSeriesInput = z.infer<typeof createSeriesSchema>;
+
+const reasonSchema = z
+  .string()
+  .max(
+    MAX_CHANGE_REASON_LENGTH,
+    `Reason must be at most ${MAX_CHANGE_REASON_LENGTH} characters`
+  )
+  .nullable()
+  .optional();
+
+export const seriesActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("skip"),
+    bookingId: z.string().min(1, "Booking ID is required"),
+    reason: reasonSchema,
+  }),
+  z.object({ action: z.literal("cancel"), reason: reasonSchema }),
+]);
+
+export type SeriesAction = z.infer<typeof seriesActionSchema>;
+
+export interface Occurrence {
+  // The calendar date in the provider's time zone
+  date: string;
+  // null when the time doesn't exist that day because of a daylight saving
+  // change
+  start: Date | null;
+}
+
+export interface SkippedOccurrence {
+  date: string;
+  reason: string;
+}
+
+export type SeriesService = {
+  id: string;
+  name: string;
+  providerId: string;
+  price: number;
+  duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
+  availability: unknown;
+  cancellationPolicy: Booking["cancellationPolicy"] | null;
+};
+
+const FREQUENCY_DAYS: Record<Exclude<RecurrenceFrequency, "monthly">, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+// The same day of the month, or null if that month is too short for it
+function addMonths(date: string, months: number): string | null {
+  const [year, month, day] = date.split("-").map(Number);
+  const result = new Date(Date.UTC(year, month - 1 + months, day));
+  return result.getUTCDate() === day ? toCalendarDate(result) : null;
+}
+
+// The occurrences of a series, in order. Each keeps the first one's
+// wall-clock time in the provider's time zone, so a weekly booking stays at
+// 9:00 across daylight saving changes. Like an RRULE, a monthly series on the
+// 29th to 31st leaves out months without that day. Stops after `until` or
+// `count` occurrences, whichever comes first, and never lists more than one
+// past the maximum so callers can reject series that are too long.
+export function seriesOccurrences(
+  start: Date,
+  frequency: RecurrenceFrequency,
+  end: { until?: string | null; count?: number | null },
+  timeZone: string
+): Occurrence[] {
+  const first = toZonedTime(start, timeZone);
+  const limit = Math.min(
+    end.count ?? MAX_SERIES_OCCURRENCES + 1,
+    MAX_SERIES_OCCURRENCES + 1
+  );
+
+  const occurrences: Occurrence[] = [];
+  for (let i = 0; occurrences.length < limit; i++) {
+    const date =
+      frequency === "monthly"
+        ? addMonths(first.date, i)
+        : addDays(first.date, FREQUENCY_DAYS[frequency] * i);
+    if (!date) continue;
+    if (end.until && date > end.until) break;
+
+    occurrences.push({
+      date,
+      start: i === 0 ? start : fromZonedTime(date, first.minutes, timeZone),
+    });
+  }
+  return occurrences;
+}
+
+export async function createBookingSeries(
+  service: SeriesService,
+  userId: string,
+  input: CreateSeriesInput,
+  now: Date = new Date()
+): Promise<
+  | { series: BookingSeries; bookings: Booking[]; skipped: SkippedOccurrence[] }
+  | BookingChangeError
+> {
+  const start = new Date(input.start);
+  if (start <= now) {
+    return { error: "The first occurrence must be in the future", status: 400 };
+  }
+  if (input.until && input.until < toCalendarDate(start)) {
+    return {
+      error: "The end date must not be before the first occurrence",
+      status: 400,
+    };
+  }
+
+  const provider = await prisma.user.findUnique({
+    where: { id: service.providerId },
+    select: { timeZone: true },
+  });
+  const occurrences = seriesOccurrences(
+    start,
+    input.frequency,
+    input,
+    provider?.timeZone ?? "UTC"
+  );
+  if (occurrences.length > MAX_SERIES_OCCURRENCES) {
+    return {
+      error: `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`,
+      status: 400,
+    };
+  }
+
+  const skipped: SkippedOccurrence[] = [];
+  const candidates: { date: string; start: Date }[] = [];
+  for (const occurrence of occurrences) {
+    if (occurrence.start) {
+      candidates.push({ date: occurrence.date, start: occurrence.start });
+    } else {
+      skipped.push({
+        date: occurrence.date,
+        reason: "The time doesn't exist that day because of a daylight saving change",
+      });
+    }
+  }
+
+  const created = await withProviderCalendarLock(
+    service.providerId,
+    async (tx) => {
+      const bookings: Booking[] = [];
+
+      // Booked one at a time so each occurrence sees the ones before it
+      for (const candidate of candidates) {
+        const booking = await createBooking(
+          tx,
+          {
+            service,
+            userId,
+            date: candidate.start,
+            notes: input.notes ?? null,
+            paymentDueAt: paymentDueAt(candidate.start, now, {
+              inSeries: bookings.length > 0,
+            }),
+          },
+          now
+        );
+        if (isBookingChangeError(booking)) {
+          skipped.push({ date: candidate.date, reason: booking.error });
+        } else {
+          bookings.push(booking);
+        }
+      }
+      if (bookings.length === 0) return null;
+
+      const series = await tx.bookingSeries.create({
+        data: {
+          userId,
+          serviceId: service.id,
+          providerId: service.providerId,
+          frequency: input.frequency,
+          startsAt: start,
+          until: input.until ? new Date(`${input.until}T00:00:00Z`) : null,
+          count: input.count ?? null,
+          notes: input.notes ?? null,
+        },
+      });
+      await tx.booking.updateMany({
+        where: { id: { in: bookings.map((booking) => booking.id) } },
+        data: { seriesId: series.id },
+      });
+
+      return {
+        series,
+        bookings: bookings.map((booking) => ({
+          ...booking,
+          seriesId: series.id,
+        })),
+      };
+    }
+  );
+
+  if (!created) {
+    return { error: "None of the occurrences can be booked", status: 409 };
+  }
+  skipped.sort((a, b) => a.date.localeCompare(b.date));
+  return { ...created, skipped };
+}
+
+// Cancels one occurrence through the booking lifecycle, so the cancellation
+// policy and refunds apply as for any other booking
+export async function skipOccurrence(
+  series: BookingSeries,
+  bookingId: string,
+  by: BookingChangeBy,
+  now: Date = new Date()
+): Promise<{ booking: Booking } | BookingChangeError> {
+  const booking = await prisma.booking.findFirst({
+    where: { id: bookingId, seriesId: series.id },
+  });
+  if (!booking) {
+    return { error: "Occurrence not found in this series", status: 404 };
+  }
+
+  return transitionBooking(
+    booking,
+    "cancelled",
+    { ...by, reason: by.reason?.trim() || "Skipped this occurrence" },
+    now
+  );
+}
+
+// Stops the series and cancels its occurrences that haven't started. Each one
+// is cancelled on its own, so one that changed in the meantime is reported
+// and the rest still go ahead.
+export async function cancelBookingSeries(
+  series: BookingSeries,
+  by: BookingChangeBy,
+  now: Date = new Date()
+): Promise<
+  | {
+      series: BookingSeries;
+      cancelled: Booking[];
+      failed: { bookingId: string; error: string }[];
+    }
+  | BookingChangeError
+> {
+  const { count } = await prisma.bookingSeries.updateMany({
+    where: { id: series.id, status: "active" },
+    data: { status: "cancelled" },
+  });
+  if (count === 0) {
+    return { error: "The series is already cancelled", status: 400 };
+  }
+
+  const upcoming = await prisma.booking.findMany({
+    where: {
+      seriesId: series.id,
+      status: { in: RESCHEDULABLE_STATUSES },
+      date: { gt: now },
+    },
+    orderBy: { date: "asc" },
+  });
+
+  const cancelled: Booking[] = [];
+  const failed: { bookingId: string; error: string }[] = [];
+  for (const booking of upcoming) {
+    const result = await transitionBooking(booking, "cancelled", by, now);
+    if (isBookingChangeError(result)) {
+      failed.push({ bookingId: booking.id, error: result.error });
+    } else {
+      cancelled.push(result.booking);
+    }
+  }
+
+  return {
+    series: { ...series, status: "cancelled", updatedAt: now },
+    cancelled,
+    failed,
+  };
+}
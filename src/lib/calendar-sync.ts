@@ -0,0 +1,213 @@
+import prisma from "@/lib/prisma";
+import { APP_URL } from "@/lib/mail";
+import { generateSecureToken, hashToken } from "@/lib/security";
+import type { BookingStatus } from "@prisma/client";
+import type { BookingChangeError } from "@/lib/booking-lifecycle";
+import { CalendarEvent, buildCalendar, parseBusyBlocks } from "@/lib/icalendar";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Feeds carry bookings from this far back on, so calendars keep recent
+// history without growing forever
+const FEED_HISTORY_DAYS = 90;
+const MAX_FEED_BOOKINGS = 2000;
+
+// Imports keep the busy times of the coming year; uploading the calendar
+// again refreshes them
+const IMPORT_HORIZON_DAYS = 366;
+export const MAX_CALENDAR_FILE_SIZE = 1024 * 1024;
+export const MAX_IMPORTED_BLOCKS = 5000;
+export const MAX_CALENDAR_IMPORTS = 10;
+
+const FEED_STATUSES: Record<BookingStatus, CalendarEvent["status"]> = {
+  pending: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  in_progress: "CONFIRMED",
+  completed: "CONFIRMED",
+  cancelled: "CANCELLED",
+};
+
+export function calendarFeedUrl(token: string): string {
+  return `${APP_URL}/api/calendar/feed/${token}.ics`;
+}
+
+export async function getCalendarFeedStatus(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { calendarFeedCreatedAt: true },
+  });
+  return {
+    enabled: !!user?.calendarFeedCreatedAt,
+    createdAt: user?.calendarFeedCreatedAt ?? null,
+  };
+}
+
+// Replaces any earlier feed URL, so calendars subscribed to it stop
+// updating. The URL is only returned here; only its hash is stored.
+export async function createCalendarFeed(userId: string): Promise<string> {
+  const token = generateSecureToken(32);
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      calendarFeedTokenHash: hashToken(token),
+      calendarFeedCreatedAt: new Date(),
+    },
+  });
+  return calendarFeedUrl(token);
+}
+
+export async function revokeCalendarFeed(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { calendarFeedTokenHash: null, calendarFeedCreatedAt: null },
+  });
+}
+
+// The .ics text of the feed the token belongs to, or null when there is
+// none: the user's bookings as a customer and as a provider
+export async function getCalendarFeed(
+  token: string,
+  now = new Date()
+): Promise<string | null> {
+  const user = await prisma.user.findFirst({
+    where: { calendarFeedTokenHash: hashToken(token), deletedAt: null },
+    select: { id: true, timeZone: true },
+  });
+  if (!user) return null;
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      OR: [{ userId: user.id }, { providerId: user.id }],
+      date: { gte: new Date(now.getTime() - FEED_HISTORY_DAYS * DAY) },
+    },
+    include: {
+      service: { select: { name: true, duration: true, location: true } },
+      user: { select: { name: true } },
+      provider: { select: { name: true } },
+    },
+    orderBy: { date: "asc" },
+    take: MAX_FEED_BOOKINGS,
+  });
+
+  return buildCalendar({
+    name: "JustServiceHub bookings",
+    timeZone: user.timeZone,
+    events: bookings.map((booking) => {
+      const other =
+        booking.providerId === user.id ? booking.user : booking.provider;
+      const url = `${APP_URL}/dashboard/bookings/${booking.id}`;
+      return {
+        uid: `booking-${booking.id}@justservicehub`,
+        start: booking.date,
+        end: new Date(
+          booking.date.getTime() + booking.service.duration * 60 * 1000
+        ),
+        summary: `${booking.service.name} with ${other.name}`,
+        description: [booking.notes, url].filter(Boolean).join("\n\n"),
+        location: booking.service.location,
+        url,
+        status: FEED_STATUSES[booking.status],
+        updatedAt: booking.updatedAt,
+      };
+    }),
+  });
+}
+
+export async function listCalendarImports(providerId: string, now = new Date()) {
+  const imports = await prisma.calendarImport.findMany({
+    where: { providerId },
+    orderBy: { name: "asc" },
+    include: {
+      _count: { select: { blocks: { where: { end: { gt: now } } } } },
+    },
+  });
+  return imports.map(({ _count, ...calendarImport }) => ({
+    ...calendarImport,
+    upcomingBlocks: _count.blocks,
+  }));
+}
+
+export type CalendarImportResult =
+  | BookingChangeError
+  | {
+      calendarImport: { id: string; name: string; updatedAt: Date };
+      blocks: number;
+      skipped: number;
+    };
+
+// Reads the busy times in the file, read in the provider's time zone where
+// it doesn't give one, and replaces those of the import with the same name
+export async function importCalendar(
+  providerId: string,
+  ics: string,
+  { name, fileName }: { name?: string | null; fileName?: string },
+  now = new Date()
+): Promise<CalendarImportResult> {
+  if (!ics.includes("BEGIN:VCALENDAR")) {
+    return { error: "The file is not an iCalendar (.ics) file", status: 400 };
+  }
+
+  const provider = await prisma.user.findUnique({
+    where: { id: providerId },
+    select: { timeZone: true },
+  });
+  const parsed = parseBusyBlocks(ics, {
+    timeZone: provider?.timeZone ?? "UTC",
+    from: now,
+    to: new Date(now.getTime() + IMPORT_HORIZON_DAYS * DAY),
+    limit: MAX_IMPORTED_BLOCKS,
+  });
+  if (parsed.blocks.length > MAX_IMPORTED_BLOCKS) {
+    return {
+      error: `Calendars can have at most ${MAX_IMPORTED_BLOCKS} busy times in the coming year`,
+      status: 400,
+    };
+  }
+
+  const importName = (
+    name?.trim() ||
+    parsed.name ||
+    fileName?.replace(/\.ics$/i, "").trim() ||
+    "Calendar"
+  ).slice(0, 100);
+
+  const existing = await prisma.calendarImport.findMany({
+    where: { providerId },
+    select: { name: true },
+  });
+  if (
+    existing.length >= MAX_CALENDAR_IMPORTS &&
+    !existing.some((calendar) => calendar.name === importName)
+  ) {
+    return {
+      error: `Providers can import at most ${MAX_CALENDAR_IMPORTS} calendars`,
+      status: 400,
+    };
+  }
+
+  const calendarImport = await prisma.$transaction(async (tx) => {
+    const saved = await tx.calendarImport.upsert({
+      where: { providerId_name: { providerId, name: importName } },
+      create: { providerId, name: importName },
+      // Touched so the list shows when it was last refreshed
+      update: { updatedAt: now },
+      select: { id: true, name: true, updatedAt: true },
+    });
+    await tx.externalBusyBlock.deleteMany({ where: { importId: saved.id } });
+    await tx.externalBusyBlock.createMany({
+      data: parsed.blocks.map((block) => ({
+        importId: saved.id,
+        providerId,
+        start: block.start,
+        end: block.end,
+      })),
+    });
+    return saved;
+  });
+
+  return {
+    calendarImport,
+    blocks: parsed.blocks.length,
+    skipped: parsed.skipped,
+  };
+}
@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+// Cancellation policies and the refunds they give. This module has no server
+// dependencies and is shared with the client to describe policies and quote
+// refunds.
+
+export const CANCELLATION_POLICIES = ["flexible", "moderate", "strict"] as const;
+
+export type CancellationPolicy = (typeof CANCELLATION_POLICIES)[number];
+
+export const cancellationPolicySchema = z.enum(CANCELLATION_POLICIES, {
+  message: "Cancellation policy must be flexible, moderate or strict",
+});
+
+// Share of the price refunded when the customer cancels at least
+// minHoursNotice hours before the start, from the longest notice down
+const POLICY_TIERS: Record<
+  CancellationPolicy,
+  { minHoursNotice: number; refundPercent: number }[]
+> = {
+  flexible: [
+    { minHoursNotice: 24, refundPercent: 100 },
+    { minHoursNotice: 0, refundPercent: 50 },
+  ],
+  moderate: [
+    { minHoursNotice: 5 * 24, refundPercent: 100 },
+    { minHoursNotice: 24, refundPercent: 50 },
+    { minHoursNotice: 0, refundPercent: 0 },
+  ],
+  strict: [
+    { minHoursNotice: 7 * 24, refundPercent: 50 },
+    { minHoursNotice: 0, refundPercent: 0 },
+  ],
+};
+
+export function refundPercentFor(
+  policy: CancellationPolicy,
+  start: Date,
+  now: Date
+): number {
+  const hoursNotice = (start.getTime() - now.getTime()) / (60 * 60 * 1000);
+  return (
+    POLICY_TIERS[policy].find((tier) => hoursNotice >= tier.minHoursNotice)
+      ?.refundPercent ?? 0
+  );
+}
+
+// Amounts in dollars, rounded to cents; the fee is what is kept
+export function splitRefund(
+  price: number,
+  refundPercent: number
+): { refundAmount: number; fee: number } {
+  const refundAmount = Math.round(price * refundPercent) / 100;
+  return {
+    refundAmount,
+    fee: Math.round((price - refundAmount) * 100) / 100,
+  };
+}
+
+// "100% refund with at least 1 day's notice" lines for each tier
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  return POLICY_TIERS[policy].map(({ minHoursNotice, refundPercent }) => {
+    const days = minHoursNotice / 24;
+    const notice =
+      days === 0
+        ? "with less notice"
+        : `with at least ${days} ${days === 1 ? "day's" : "days'"} notice`;
+    return refundPercent === 0
+      ? `No refund ${notice}`
+      : `${refundPercent}% refund ${notice}`;
+  });
+}
+
+// The line shown to someone about to cancel, from the cancellation quote
+export function describeCancellationQuote(quote: {
+  policy: CancellationPolicy | null;
+  refundAmount: number;
+  fee: number;
+  paid: boolean;
+  totalPrice: number;
+}): string {
+  if (!quote.paid) {
+    return "No payment has been taken, so nothing will be charged.";
+  }
+  if (quote.fee === 0) {
+    return `The full $${quote.totalPrice.toFixed(2)} will be refunded.`;
+  }
+  return `Under the ${quote.policy} cancellation policy, $${quote.refundAmount.toFixed(2)} of $${quote.totalPrice.toFixed(2)} will be refunded and $${quote.fee.toFixed(2)} kept as a cancellation fee.`;
+}
@@ -0,0 +1,677 @@
+import {
+  addDays,
+  fromZonedTime,
+  isValidTimeZone,
+} from "@/lib/availability";
+
+// Writing and reading iCalendar (RFC 5545) text: the booking feeds calendar
+// apps subscribe to, and the busy times providers import from their other
+// calendars. This module has no server dependencies.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Content lines longer than this many bytes are folded
+const MAX_LINE_OCTETS = 75;
+
+// Imports stop reading recurring events after this many occurrences in the
+// import window
+const MAX_OCCURRENCES_PER_EVENT = 5000;
+
+// A repeat rule is walked for at most this many of its days, weeks, months
+// or years, well over a year of daily repeats. Rules with a COUNT are walked
+// from their start, so long-running ones are cut short.
+const MAX_RECURRENCE_PERIODS = 1000;
+
+// Events starting outside these years are left out
+const MIN_EVENT_YEAR = 1900;
+const MAX_EVENT_YEAR = 2200;
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string;
+  status: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  // When the event last changed
+  updatedAt: Date;
+}
+
+export interface BusyBlock {
+  start: Date;
+  end: Date;
+}
+
+// 20300107T090000Z
+function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Splits a content line into lines of at most 75 bytes, each continuation
+// starting with a space, without breaking a multi-byte character
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    // Bytes of the character in UTF-8
+    const codePoint = char.codePointAt(0) as number;
+    const size =
+      codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+// Times are written in UTC, which every calendar app shows in its own time
+// zone; X-WR-TIMEZONE only suggests the zone to show the calendar in
+export function buildCalendar({
+  name,
+  timeZone,
+  events,
+}: {
+  name: string;
+  timeZone: string;
+  events: CalendarEvent[];
+}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//JustServiceHub//Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDateTime(event.updatedAt)}`,
+      `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`,
+      `DTSTART:${formatDateTime(event.start)}`,
+      `DTEND:${formatDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description
+        ? [`DESCRIPTION:${escapeText(event.description)}`]
+        : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      `STATUS:${event.status}`,
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+function parseContentLine(line: string): ContentLine | null {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ";" && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else if (char === ":" && !inQuotes) {
+      parts.push(current);
+      const [name, ...params] = parts;
+      return {
+        name: name.toUpperCase(),
+        params: Object.fromEntries(
+          params.map((param) => {
+            const [key, ...value] = param.split("=");
+            return [key.toUpperCase(), value.join("=")];
+          })
+        ),
+        value: line.slice(i + 1),
+      };
+    } else {
+      current += char;
+    }
+  }
+  return null;
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char
+  );
+}
+
+// A date or date-time as written: wall-clock time in its time zone
+interface DateValue {
+  date: string;
+  minutes: number;
+  timeZone: string;
+  allDay: boolean;
+}
+
+// Floating times, and time zones that aren't IANA names (such as Windows
+// names some apps write), are read in the importing provider's time zone
+function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  defaultTimeZone: string
+): DateValue | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/.exec(
+    value.trim()
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (hour === undefined) {
+    return { date, minutes: 0, timeZone: defaultTimeZone, allDay: true };
+  }
+
+  const tzid = params.TZID;
+  return {
+    date,
+    minutes: Number(hour) * 60 + Number(minute),
+    timeZone: utc
+      ? "UTC"
+      : tzid && isValidTimeZone(tzid)
+        ? tzid
+        : defaultTimeZone,
+    allDay: false,
+  };
+}
+
+// A wall-clock time skipped by a daylight saving change is read with the
+// offset from before the change, as RFC 5545 says
+function toInstant({ date, minutes, timeZone }: DateValue): Date | null {
+  return (
+    fromZonedTime(date, minutes, timeZone) ??
+    fromZonedTime(date, minutes + 60, timeZone)
+  );
+}
+
+// P1W, P2D, PT1H30M. Weeks and days are calendar days; hours, minutes and
+// seconds are exact.
+function parseDuration(value: string): { days: number; ms: number } | null {
+  const match =
+    /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim()
+    );
+  if (!match) return null;
+
+  const [, weeks, days, hours, minutes, seconds] = match.map(
+    (part) => Number(part) || 0
+  );
+  return {
+    days: weeks * 7 + days,
+    ms: ((hours * 60 + minutes) * 60 + seconds) * 1000,
+  };
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      (24 * 60 * MINUTE)
+  );
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+interface RecurrenceRule {
+  frequency: Frequency;
+  interval: number;
+  count: number | null;
+  until: DateValue | null;
+  byDay: { ordinal: number | null; weekday: number }[] | null;
+  byMonthDay: number[] | null;
+  weekStart: number;
+}
+
+// The parts of RRULE calendar apps write for everyday repeating events.
+// Rules using anything else are reported as unsupported rather than guessed
+// at.
+function parseRecurrenceRule(
+  value: string,
+  defaultTimeZone: string
+): RecurrenceRule | null {
+  const parts = Object.fromEntries(
+    value.split(";").map((part) => {
+      const [key, ...rest] = part.split("=");
+      return [key.toUpperCase(), rest.join("=").toUpperCase()];
+    })
+  );
+  const supported = ["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "BYMONTHDAY", "WKST"];
+  if (Object.keys(parts).some((key) => !supported.includes(key))) return null;
+
+  const frequency = parts.FREQ as Frequency;
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(frequency)) {
+    return null;
+  }
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  const count = parts.COUNT ? Number(parts.COUNT) : null;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) return null;
+
+  const until = parts.UNTIL
+    ? parseDateValue(parts.UNTIL, {}, defaultTimeZone)
+    : null;
+  if (parts.UNTIL && !until) return null;
+
+  let byDay: RecurrenceRule["byDay"] = null;
+  if (parts.BYDAY) {
+    byDay = [];
+    for (const day of parts.BYDAY.split(",")) {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(day);
+      if (!match) return null;
+      byDay.push({
+        ordinal: match[1] ? Number(match[1]) : null,
+        weekday: WEEKDAY_CODES.indexOf(match[2]),
+      });
+    }
+    // "The second Tuesday" only makes sense within a month
+    const hasOrdinals = byDay.some((day) => day.ordinal !== null);
+    if (frequency === "YEARLY" || (hasOrdinals && frequency !== "MONTHLY")) {
+      return null;
+    }
+  }
+
+  let byMonthDay: number[] | null = null;
+  if (parts.BYMONTHDAY) {
+    if (frequency !== "MONTHLY" || byDay) return null;
+    byMonthDay = parts.BYMONTHDAY.split(",").map(Number);
+    if (byMonthDay.some((day) => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31)) {
+      return null;
+    }
+  }
+
+  const weekStart = parts.WKST ? WEEKDAY_CODES.indexOf(parts.WKST) : 1;
+  if (weekStart < 0) return null;
+
+  return { frequency, interval, count, until, byDay, byMonthDay, weekStart };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function calendarDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Days of the month a monthly rule falls on
+function monthlyDays(
+  year: number,
+  month: number,
+  rule: RecurrenceRule,
+  startDay: number
+): number[] {
+  const length = daysInMonth(year, month);
+  if (rule.byMonthDay) {
+    return rule.byMonthDay
+      .map((day) => (day > 0 ? day : length + day + 1))
+      .filter((day) => day >= 1 && day <= length);
+  }
+  if (rule.byDay) {
+    const days: number[] = [];
+    for (const { ordinal, weekday } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= length; day++) {
+        if (weekdayOf(calendarDate(year, month, day)) === weekday) {
+          matching.push(day);
+        }
+      }
+      if (ordinal === null) {
+        days.push(...matching);
+      } else {
+        const day =
+          ordinal > 0
+            ? matching[ordinal - 1]
+            : matching[matching.length + ordinal];
+        if (day) days.push(day);
+      }
+    }
+    return [...new Set(days)];
+  }
+  // Months without the start's day are left out
+  return startDay <= length ? [startDay] : [];
+}
+
+// Roughly how many of the frequency's periods lie between two dates
+function periodsBetween(from: string, to: string, frequency: Frequency): number {
+  const days = daysBetween(from, to);
+  if (frequency === "DAILY") return days;
+  if (frequency === "WEEKLY") return Math.floor(days / 7);
+
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+  const months = (toYear - fromYear) * 12 + toMonth - fromMonth;
+  return frequency === "MONTHLY" ? months : Math.floor(months / 12);
+}
+
+// Dates the rule falls on from the start date to the last date, in order.
+// Without a COUNT, nothing before `from` is needed, so the walk starts just
+// before it. Rules that never match anything, e.g. every seventh day on a
+// weekday the start isn't on, give up after MAX_RECURRENCE_PERIODS.
+function* recurrenceDates(
+  start: string,
+  rule: RecurrenceRule,
+  from: string,
+  last: string
+): Generator<string> {
+  const [startYear, startMonth, startDay] = start.split("-").map(Number);
+  const weekdays = rule.byDay?.map((day) => day.weekday);
+
+  const firstPeriod =
+    rule.count === null && from > start
+      ? Math.max(
+          Math.floor(periodsBetween(start, from, rule.frequency) / rule.interval) - 1,
+          0
+        )
+      : 0;
+  for (
+    let period = firstPeriod;
+    period < firstPeriod + MAX_RECURRENCE_PERIODS;
+    period++
+  ) {
+    const step = period * rule.interval;
+    let periodStart: string;
+    let dates: string[];
+    if (rule.frequency === "DAILY") {
+      periodStart = addDays(start, step);
+      dates = [periodStart];
+      if (weekdays) {
+        dates = dates.filter((date) => weekdays.includes(weekdayOf(date)));
+      }
+    } else if (rule.frequency === "WEEKLY") {
+      periodStart = addDays(
+        start,
+        step * 7 - ((weekdayOf(start) - rule.weekStart + 7) % 7)
+      );
+      dates = [0, 1, 2, 3, 4, 5, 6]
+        .map((offset) => addDays(periodStart, offset))
+        .filter((date) =>
+          (weekdays ?? [weekdayOf(start)]).includes(weekdayOf(date))
+        );
+    } else if (rule.frequency === "MONTHLY") {
+      const months = startMonth - 1 + step;
+      const year = startYear + Math.floor(months / 12);
+      const month = (months % 12) + 1;
+      periodStart = calendarDate(year, month, 1);
+      dates = monthlyDays(year, month, rule, startDay)
+        .sort((a, b) => a - b)
+        .map((day) => calendarDate(year, month, day));
+    } else {
+      const year = startYear + step;
+      periodStart = calendarDate(year, 1, 1);
+      dates =
+        startDay <= daysInMonth(year, startMonth)
+          ? [calendarDate(year, startMonth, startDay)]
+          : [];
+    }
+    if (periodStart > last) return;
+
+    for (const date of dates) {
+      if (date >= start && date <= last) yield date;
+    }
+  }
+}
+
+interface ParsedEvent {
+  uid: string | null;
+  start: DateValue;
+  end: DateValue | null;
+  duration: { days: number; ms: number } | null;
+  rule: RecurrenceRule | null;
+  exceptions: Set<number>;
+  recurrenceId: number | null;
+  // Cancelled events and ones marked free don't block time
+  busy: boolean;
+}
+
+// The busy times in an .ics file from `from` to `to`, with recurring events
+// expanded. Cancelled events and ones marked free (TRANSP:TRANSPARENT) don't
+// block time. Events that can't be read, such as ones with recurrence rules
+// this importer doesn't support, are counted in `skipped`. Reading stops
+// once there are more than `limit` blocks.
+export function parseBusyBlocks(
+  ics: string,
+  {
+    timeZone,
+    from,
+    to,
+    limit = Infinity,
+  }: { timeZone: string; from: Date; to: Date; limit?: number }
+): { name: string | null; blocks: BusyBlock[]; skipped: number } {
+  const lines = ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  let name: string | null = null;
+  let skipped = 0;
+  const events: ParsedEvent[] = [];
+  const components: string[] = [];
+  let props: ContentLine[] = [];
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN") {
+      components.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === "VEVENT") props = [];
+      continue;
+    }
+    if (line.name === "END") {
+      const component = components.pop();
+      if (component !== "VEVENT") continue;
+
+      const event = readEvent(props, timeZone);
+      if (event) {
+        events.push(event);
+      } else {
+        skipped++;
+      }
+      continue;
+    }
+
+    const current = components[components.length - 1];
+    if (current === "VEVENT") {
+      props.push(line);
+    } else if (current === "VCALENDAR" && line.name === "X-WR-CALNAME") {
+      name = unescapeText(line.value).trim() || null;
+    }
+  }
+
+  // A changed or cancelled occurrence of a recurring event is a separate
+  // event with the same UID; the original occurrence is left out
+  for (const event of events) {
+    if (event.recurrenceId === null) continue;
+    const master = events.find(
+      (other) =>
+        other.uid === event.uid && other.rule && other.recurrenceId === null
+    );
+    master?.exceptions.add(event.recurrenceId);
+  }
+
+  const blocks: BusyBlock[] = [];
+  for (const event of events) {
+    if (!event.busy) continue;
+    const occurrences = expandEvent(event, from, to);
+    if (!occurrences) {
+      skipped++;
+      continue;
+    }
+    blocks.push(...occurrences);
+    if (blocks.length > limit) break;
+  }
+
+  return { name, blocks, skipped };
+}
+
+// null for events that can't be read
+function readEvent(
+  props: ContentLine[],
+  timeZone: string
+): ParsedEvent | null {
+  const prop = (name: string) => props.find((line) => line.name === name);
+
+  const dtstart = prop("DTSTART");
+  const start = dtstart && parseDateValue(dtstart.value, dtstart.params, timeZone);
+  if (!start) return null;
+  const startYear = Number(start.date.slice(0, 4));
+  if (startYear < MIN_EVENT_YEAR || startYear > MAX_EVENT_YEAR) return null;
+
+  const dtend = prop("DTEND");
+  const end = dtend ? parseDateValue(dtend.value, dtend.params, timeZone) : null;
+  const durationProp = prop("DURATION");
+  const duration = durationProp ? parseDuration(durationProp.value) : null;
+  if ((dtend && !end) || (durationProp && !duration)) return null;
+
+  const rrule = prop("RRULE");
+  const rule = rrule ? parseRecurrenceRule(rrule.value, start.timeZone) : null;
+  if (rrule && !rule) return null;
+
+  const exceptions = new Set<number>();
+  for (const line of props.filter((line) => line.name === "EXDATE")) {
+    for (const value of line.value.split(",")) {
+      const exception = parseDateValue(value, line.params, start.timeZone);
+      const instant = exception && toInstant(exception);
+      if (instant) exceptions.add(instant.getTime());
+    }
+  }
+
+  const recurrenceIdProp = prop("RECURRENCE-ID");
+  const recurrenceIdValue =
+    recurrenceIdProp &&
+    parseDateValue(recurrenceIdProp.value, recurrenceIdProp.params, timeZone);
+  const recurrenceId = recurrenceIdValue && toInstant(recurrenceIdValue);
+
+  return {
+    uid: prop("UID")?.value ?? null,
+    start,
+    end,
+    duration,
+    rule,
+    exceptions,
+    recurrenceId: recurrenceId ? recurrenceId.getTime() : null,
+    busy:
+      prop("STATUS")?.value.toUpperCase() !== "CANCELLED" &&
+      prop("TRANSP")?.value.toUpperCase() !== "TRANSPARENT",
+  };
+}
+
+// Every occurrence of the event that overlaps `from` to `to`, or null when
+// its times can't be worked out
+function expandEvent(
+  event: ParsedEvent,
+  from: Date,
+  to: Date
+): BusyBlock[] | null {
+  const { start, rule } = event;
+  const first = toInstant(start);
+  if (!first) return null;
+
+  // How far each occurrence runs: whole days for all-day events, so they
+  // keep covering the day across daylight saving changes
+  let days = 0;
+  let ms = 0;
+  if (event.end) {
+    if (start.allDay && event.end.allDay) {
+      days = daysBetween(start.date, event.end.date);
+    } else {
+      const end = toInstant(event.end);
+      if (!end) return null;
+      ms = end.getTime() - first.getTime();
+    }
+  } else if (event.duration) {
+    ({ days, ms } = event.duration);
+  } else if (start.allDay) {
+    days = 1;
+  }
+
+  const occurrence = (date: string): BusyBlock | null => {
+    const begin = toInstant({ ...start, date });
+    const until = toInstant({ ...start, date: addDays(date, days) });
+    if (!begin || !until) return null;
+    return { start: begin, end: new Date(until.getTime() + ms) };
+  };
+
+  const inWindow = (block: BusyBlock) =>
+    block.end > block.start && block.end > from && block.start < to;
+
+  if (!rule) {
+    const block = occurrence(start.date);
+    return block && inWindow(block) ? [block] : [];
+  }
+
+  // UNTIL is inclusive; a date without a time covers the whole day
+  const until = rule.until
+    ? rule.until.allDay
+      ? toInstant({ ...rule.until, date: addDays(rule.until.date, 1) })
+      : toInstant(rule.until)
+    : null;
+
+  const blocks: BusyBlock[] = [];
+  // Occurrences since the start, for COUNT
+  let count = 0;
+  // A day either side of the window in UTC covers occurrences in any time
+  // zone, and ones that began up to their own length before it still reach
+  // into it; the check on each block below is the exact one
+  const earliest = addDays(
+    from.toISOString().slice(0, 10),
+    -(days + Math.max(Math.ceil(ms / DAY), 0) + 1)
+  );
+  const last = addDays(to.toISOString().slice(0, 10), 1);
+  for (const date of recurrenceDates(start.date, rule, earliest, last)) {
+    const block = occurrence(date);
+    if (!block) continue;
+    if (block.start >= to) break;
+    if (until && (rule.until?.allDay ? block.start >= until : block.start > until)) {
+      break;
+    }
+    if (rule.count !== null && count >= rule.count) break;
+    count++;
+
+    if (!event.exceptions.has(block.start.getTime()) && inWindow(block)) {
+      if (blocks.length >= MAX_OCCURRENCES_PER_EVENT) break;
+      blocks.push(block);
+    }
+  }
+  return blocks;
+}
@@ -0,0 +1,596 @@
+import { z } from "zod";
+import type { Booking, JobRequest, Quote, Service } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { APP_URL, sendMail } from "@/lib/mail";
+import { generateSecureToken } from "@/lib/security";
+import { getStorage } from "@/lib/storage";
+import { isServiceAvailable } from "@/lib/service-availability";
+import {
+  hasBookingConflict,
+  withProviderCalendarLock,
+} from "@/lib/booking-conflicts";
+import {
+  BookingChangeError,
+  isBookingChangeError,
+} from "@/lib/booking-lifecycle";
+import { createBooking } from "@/lib/booking-creation";
+
+// Work that can't be priced up front is requested rather than booked: the
+// customer describes the job, where it is and when they would like it done,
+// and the providers with a service in its category covering that area send
+// quotes for a price and a time. Accepting a quote books the provider's
+// service at the quoted price and time, and turns down the other quotes.
+// Quotes that lapse, are turned down or withdrawn are kept with their status.
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const DEFAULT_QUOTE_VALID_HOURS = 72;
+
+// How long a customer has to accept a quote, unless its time comes first
+export const QUOTE_VALID_HOURS =
+  Number(process.env.QUOTE_VALID_HOURS) || DEFAULT_QUOTE_VALID_HOURS;
+
+// Requests stay open until their window ends
+export const MAX_JOB_REQUEST_WINDOW_DAYS = 90;
+
+// Shorter words such as "a" in an address don't count towards a match
+const MIN_LOCATION_WORD_LENGTH = 2;
+
+export const MAX_JOB_REQUEST_PHOTOS = 5;
+export const ALLOWED_PHOTO_CONTENT_TYPES = ["image/jpeg", "image/png"];
+export const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+const dateString = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Invalid date format");
+
+export const jobRequestSchema = z
+  .object({
+    // Services store their category in lower case
+    category: z
+      .string()
+      .trim()
+      .min(1, "Category is required")
+      .max(50, "Category must be at most 50 characters")
+      .transform((value) => value.toLowerCase()),
+    description: z
+      .string()
+      .trim()
+      .min(10, "Describe the job in at least 10 characters")
+      .max(2000, "Description must be at most 2000 characters"),
+    location: z
+      .string()
+      .trim()
+      .min(3, "Location must be at least 3 characters")
+      .max(200, "Location must be at most 200 characters"),
+    windowStart: dateString,
+    windowEnd: dateString,
+  })
+  .refine((input) => Date.parse(input.windowEnd) > Date.parse(input.windowStart), {
+    message: "The preferred window must end after it starts",
+    path: ["windowEnd"],
+  });
+
+export type JobRequestInput = z.infer<typeof jobRequestSchema>;
+
+export const quoteSchema = z.object({
+  serviceId: z.string().min(1, "Service ID is required"),
+  price: z
+    .number()
+    .positive("Price must be greater than 0")
+    .max(100000, "Price must be at most 100000"),
+  date: dateString,
+  message: z
+    .string()
+    .trim()
+    .max(1000, "Message must be at most 1000 characters")
+    .nullable()
+    .optional(),
+});
+
+export type QuoteInput = z.infer<typeof quoteSchema>;
+
+export const jobRequestPhotoSelect = {
+  id: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+};
+
+type QuoteService = Pick<
+  Service,
+  | "id"
+  | "name"
+  | "providerId"
+  | "category"
+  | "location"
+  | "price"
+  | "duration"
+  | "bufferBefore"
+  | "bufferAfter"
+  | "availability"
+  | "isActive"
+  | "cancellationPolicy"
+>;
+
+function locationWords(location: string): string[] {
+  return location
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= MIN_LOCATION_WORD_LENGTH);
+}
+
+// Locations are free text, e.g. "Berlin" on a service and "Kreuzberg,
+// Berlin" on a request, so either may name the other. They are compared
+// word by word: matching parts of words would let "in" match almost every
+// service, telling every provider in the category about the request.
+export function locationsMatch(a: string, b: string): boolean {
+  const left = locationWords(a);
+  const right = locationWords(b);
+  if (left.length === 0 || right.length === 0) return false;
+
+  const [fewer, more] =
+    left.length <= right.length ? [left, right] : [right, left];
+  return fewer.every((word) => more.includes(word));
+}
+
+// The active services that could do the job: in its category, covering its
+// location and not the customer's own. Pass a provider to look at only
+// theirs.
+export async function findMatchingServices(
+  jobRequest: Pick<JobRequest, "userId" | "category" | "location">,
+  providerId?: string
+) {
+  const services = await prisma.service.findMany({
+    where: {
+      isActive: true,
+      category: { equals: jobRequest.category, mode: "insensitive" },
+      providerId: providerId ?? { not: jobRequest.userId },
+    },
+    include: { provider: { select: { id: true, name: true, email: true } } },
+  });
+  return services.filter(
+    (service) =>
+      service.providerId !== jobRequest.userId &&
+      locationsMatch(service.location, jobRequest.location)
+  );
+}
+
+// The open requests a provider's services could do, soonest window first
+export async function listMatchingJobRequests(
+  providerId: string,
+  now: Date = new Date()
+) {
+  const services = await prisma.service.findMany({
+    where: { providerId, isActive: true },
+    select: { category: true, location: true },
+  });
+  if (services.length === 0) return [];
+
+  const requests = await prisma.jobRequest.findMany({
+    where: {
+      status: "open",
+      windowEnd: { gt: now },
+      userId: { not: providerId },
+      OR: services.map((service) => ({
+        category: { equals: service.category, mode: "insensitive" as const },
+      })),
+    },
+    include: {
+      photos: { select: jobRequestPhotoSelect },
+      user: { select: { id: true, name: true } },
+    },
+    orderBy: { windowStart: "asc" },
+  });
+  return requests.filter((request) =>
+    services.some(
+      (service) =>
+        service.category.toLowerCase() === request.category.toLowerCase() &&
+        locationsMatch(service.location, request.location)
+    )
+  );
+}
+
+// The customer, staff and providers who could quote or have quoted can see
+// a request
+export async function canViewJobRequest(
+  jobRequest: Pick<JobRequest, "id" | "userId" | "category" | "location">,
+  userId: string,
+  isStaff: boolean
+): Promise<boolean> {
+  if (jobRequest.userId === userId || isStaff) return true;
+
+  const quoted = await prisma.quote.count({
+    where: { jobRequestId: jobRequest.id, providerId: userId },
+  });
+  if (quoted > 0) return true;
+
+  return (await findMatchingServices(jobRequest, userId)).length > 0;
+}
+
+// Posts the request with its photos and lets the matching providers know
+export async function createJobRequest(
+  userId: string,
+  input: JobRequestInput,
+  photos: { fileName: string; contentType: string; data: Buffer }[],
+  now: Date = new Date()
+): Promise<{ jobRequest: JobRequest } | BookingChangeError> {
+  const windowStart = new Date(input.windowStart);
+  const windowEnd = new Date(input.windowEnd);
+  if (windowEnd <= now) {
+    return { error: "The preferred window has already passed", status: 400 };
+  }
+  if (windowEnd.getTime() - now.getTime() > MAX_JOB_REQUEST_WINDOW_DAYS * DAY) {
+    return {
+      error: `The preferred window must end within ${MAX_JOB_REQUEST_WINDOW_DAYS} days`,
+      status: 400,
+    };
+  }
+  if (photos.length > MAX_JOB_REQUEST_PHOTOS) {
+    return {
+      error: `A request can have at most ${MAX_JOB_REQUEST_PHOTOS} photos`,
+      status: 400,
+    };
+  }
+
+  const jobRequest = await prisma.jobRequest.create({
+    data: {
+      userId,
+      category: input.category,
+      description: input.description,
+      location: input.location,
+      windowStart,
+      windowEnd,
+    },
+  });
+
+  for (const photo of photos) {
+    const storageKey = `job-requests/${jobRequest.id}/${generateSecureToken(12)}`;
+    await getStorage().put(storageKey, photo.data, photo.contentType);
+    await prisma.jobRequestPhoto.create({
+      data: {
+        jobRequestId: jobRequest.id,
+        fileName: photo.fileName,
+        contentType: photo.contentType,
+        size: photo.data.length,
+        storageKey,
+      },
+    });
+  }
+
+  await notifyMatchingProviders(jobRequest);
+
+  return { jobRequest };
+}
+
+export async function readJobRequestPhoto(storageKey: string) {
+  return getStorage().get(storageKey);
+}
+
+// Takes the request down. Quotes still waiting for an answer are turned
+// down with it.
+export async function cancelJobRequest(
+  jobRequest: JobRequest,
+  now: Date = new Date()
+): Promise<{ jobRequest: JobRequest } | BookingChangeError> {
+  const [cancelled] = await prisma.$transaction([
+    prisma.jobRequest.updateMany({
+      where: { id: jobRequest.id, status: "open" },
+      data: { status: "cancelled" },
+    }),
+    prisma.quote.updateMany({
+      where: { jobRequestId: jobRequest.id, status: "pending" },
+      data: { status: "rejected", respondedAt: now },
+    }),
+  ]);
+  if (cancelled.count === 0) {
+    return { error: "The job request is no longer open", status: 409 };
+  }
+
+  return { jobRequest: { ...jobRequest, status: "cancelled", updatedAt: now } };
+}
+
+// A quote from one of the provider's matching services for a time in the
+// customer's window. The time has to be within the provider's hours and free
+// now; it is checked again when the quote is accepted, as it isn't held.
+// A provider has one pending quote per request and withdraws it to send
+// another.
+export async function submitQuote(
+  jobRequest: JobRequest & { user: { name: string; email: string } },
+  providerId: string,
+  input: QuoteInput,
+  now: Date = new Date()
+): Promise<{ quote: Quote } | BookingChangeError> {
+  if (jobRequest.status !== "open" || jobRequest.windowEnd <= now) {
+    return { error: "The job request is no longer open", status: 409 };
+  }
+
+  const service = (await findMatchingServices(jobRequest, providerId)).find(
+    (match) => match.id === input.serviceId
+  );
+  if (!service) {
+    return {
+      error: "Quote with one of your active services in the request's category and area",
+      status: 400,
+    };
+  }
+
+  const date = new Date(input.date);
+  if (date <= now || date < jobRequest.windowStart || date >= jobRequest.windowEnd) {
+    return {
+      error: "The time must be in the customer's preferred window and in the future",
+      status: 400,
+    };
+  }
+  if (!(await isServiceAvailable(service, date))) {
+    return { error: "You are not available at this time", status: 400 };
+  }
+  if (await hasBookingConflict(prisma, service, date)) {
+    return { error: "You already have a booking at this time", status: 409 };
+  }
+
+  const pending = await prisma.quote.findFirst({
+    where: { jobRequestId: jobRequest.id, providerId, status: "pending" },
+  });
+  if (pending) {
+    return {
+      error: "You already have a pending quote for this request. Withdraw it to send another",
+      status: 409,
+    };
+  }
+
+  const expiresAt = new Date(
+    Math.min(now.getTime() + QUOTE_VALID_HOURS * HOUR, date.getTime())
+  );
+  const quote = await prisma.quote.create({
+    data: {
+      jobRequestId: jobRequest.id,
+      providerId,
+      serviceId: service.id,
+      price: input.price,
+      date,
+      message: input.message ?? null,
+      expiresAt,
+    },
+  });
+
+  await notifyCustomer(jobRequest, {
+    subject: `New quote for your ${jobRequest.category} request`,
+    text: `${service.provider.name} quoted $${quote.price} for ${service.name} on ${date.toISOString()}. The quote is open until ${expiresAt.toISOString()}.`,
+  });
+
+  return { quote };
+}
+
+type QuoteWithRequest = Quote & {
+  jobRequest: JobRequest;
+  service: QuoteService;
+  provider: { name: string; email: string };
+};
+
+// Books the quoted service for the customer at the quoted price and time,
+// under the provider's calendar lock like any other booking. The request
+// is claimed as booked in the same transaction, so only one of its quotes
+// can be accepted, and the other pending quotes are turned down.
+export async function acceptQuote(
+  quote: QuoteWithRequest,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ quote: Quote; booking: Booking } | BookingChangeError> {
+  const { jobRequest, service } = quote;
+  if (quote.status !== "pending" || quote.expiresAt <= now) {
+    return { error: "The quote is no longer open", status: 409 };
+  }
+  if (jobRequest.status !== "open") {
+    return { error: "The job request is no longer open", status: 409 };
+  }
+  if (!service.isActive) {
+    return { error: "Service not found or unavailable", status: 404 };
+  }
+  const result = await withProviderCalendarLock(
+    quote.providerId,
+    async (tx): Promise<{ booking: Booking; turnedDown: string[] } | BookingChangeError> => {
+      const claimed = await tx.jobRequest.updateMany({
+        where: { id: jobRequest.id, status: "open" },
+        data: { status: "booked" },
+      });
+      if (claimed.count === 0) {
+        return { error: "The job request is no longer open", status: 409 };
+      }
+      const accepted = await tx.quote.updateMany({
+        where: { id: quote.id, status: "pending", expiresAt: { gt: now } },
+        data: { status: "accepted", respondedAt: now },
+      });
+      if (accepted.count === 0) {
+        // Leaves the request as it was for its other quotes
+        await tx.jobRequest.update({
+          where: { id: jobRequest.id },
+          data: { status: "open" },
+        });
+        return { error: "The quote is no longer open", status: 409 };
+      }
+
+      const booking = await createBooking(
+        tx,
+        {
+          service,
+          userId,
+          date: quote.date,
+          notes: jobRequest.description,
+          totalPrice: quote.price,
+        },
+        now
+      );
+      if (isBookingChangeError(booking)) {
+        // The customer can still accept another quote, or this one later
+        // if the time frees up
+        await tx.jobRequest.update({
+          where: { id: jobRequest.id },
+          data: { status: "open" },
+        });
+        await tx.quote.update({
+          where: { id: quote.id },
+          data: { status: "pending", respondedAt: null },
+        });
+        return booking;
+      }
+      await tx.quote.update({
+        where: { id: quote.id },
+        data: { bookingId: booking.id },
+      });
+
+      const others = await tx.quote.findMany({
+        where: { jobRequestId: jobRequest.id, status: "pending" },
+        select: { id: true },
+      });
+      await tx.quote.updateMany({
+        where: { id: { in: others.map((other) => other.id) } },
+        data: { status: "rejected", respondedAt: now },
+      });
+      return { booking, turnedDown: others.map((other) => other.id) };
+    }
+  );
+  if ("error" in result) return result;
+
+  await notifyProvider(quote.provider, {
+    subject: `Your quote for ${service.name} was accepted`,
+    text: `Your quote of $${quote.price} on ${quote.date.toISOString()} was accepted and is now a booking.`,
+    link: `${APP_URL}/dashboard/bookings/${result.booking.id}`,
+  });
+  await notifyTurnedDown(result.turnedDown);
+
+  return {
+    quote: {
+      ...quote,
+      status: "accepted",
+      respondedAt: now,
+      bookingId: result.booking.id,
+    },
+    booking: result.booking,
+  };
+}
+
+// The customer turns a pending quote down
+export async function rejectQuote(
+  quote: QuoteWithRequest,
+  now: Date = new Date()
+): Promise<{ quote: Quote } | BookingChangeError> {
+  const { count } = await prisma.quote.updateMany({
+    where: { id: quote.id, status: "pending" },
+    data: { status: "rejected", respondedAt: now },
+  });
+  if (count === 0) {
+    return { error: "The quote is no longer open", status: 409 };
+  }
+
+  await notifyTurnedDown([quote.id]);
+
+  return { quote: { ...quote, status: "rejected", respondedAt: now } };
+}
+
+// The provider takes back a quote the customer hasn't answered
+export async function withdrawQuote(
+  quote: Quote,
+  now: Date = new Date()
+): Promise<{ quote: Quote } | BookingChangeError> {
+  const { count } = await prisma.quote.updateMany({
+    where: { id: quote.id, status: "pending" },
+    data: { status: "withdrawn" },
+  });
+  if (count === 0) {
+    return { error: "The quote is no longer open", status: 409 };
+  }
+
+  return { quote: { ...quote, status: "withdrawn", updatedAt: now } };
+}
+
+// Marks quotes nobody accepted in time, and requests whose window has
+// passed, as expired. A quote's time is always inside its request's window,
+// so a lapsed request has no pending quotes left.
+export async function expireJobRequests(
+  now: Date = new Date()
+): Promise<{ quotes: number; requests: number }> {
+  const quotes = await prisma.quote.updateMany({
+    where: { status: "pending", expiresAt: { lte: now } },
+    data: { status: "expired" },
+  });
+  const requests = await prisma.jobRequest.updateMany({
+    where: { status: "open", windowEnd: { lte: now } },
+    data: { status: "expired" },
+  });
+  return { quotes: quotes.count, requests: requests.count };
+}
+
+async function notifyMatchingProviders(jobRequest: JobRequest): Promise<void> {
+  const services = await findMatchingServices(jobRequest);
+  const providers = new Map(
+    services.map((service) => [service.providerId, service.provider])
+  );
+
+  for (const provider of providers.values()) {
+    await notifyProvider(provider, {
+      subject: `New ${jobRequest.category} job request in ${jobRequest.location}`,
+      text: `A customer is looking for ${jobRequest.category} between ${jobRequest.windowStart.toISOString()} and ${jobRequest.windowEnd.toISOString()}:\n\n${jobRequest.description}\n\nSend a quote to win the job.`,
+      link: `${APP_URL}/dashboard/job-requests/${jobRequest.id}`,
+    });
+  }
+}
+
+async function notifyTurnedDown(quoteIds: string[]): Promise<void> {
+  if (quoteIds.length === 0) return;
+
+  const quotes = await prisma.quote.findMany({
+    where: { id: { in: quoteIds } },
+    include: {
+      provider: { select: { name: true, email: true } },
+      service: { select: { name: true } },
+    },
+  });
+  for (const quote of quotes) {
+    await notifyProvider(quote.provider, {
+      subject: `Your quote for ${quote.service.name} was not accepted`,
+      text: `The customer turned down your quote of $${quote.price} on ${quote.date.toISOString()}.`,
+      link: `${APP_URL}/dashboard/job-requests/${quote.jobRequestId}`,
+    });
+  }
+}
+
+async function notifyProvider(
+  provider: { name: string; email: string },
+  message: { subject: string; text: string; link: string }
+): Promise<void> {
+  try {
+    await sendMail({
+      to: provider.email,
+      subject: message.subject,
+      text: [`Hi ${provider.name},`, "", message.text, "", message.link].join(
+        "\n"
+      ),
+    });
+  } catch (error) {
+    console.error("Job request email error:", error);
+  }
+}
+
+async function notifyCustomer(
+  jobRequest: JobRequest & { user: { name: string; email: string } },
+  message: { subject: string; text: string }
+): Promise<void> {
+  try {
+    await sendMail({
+      to: jobRequest.user.email,
+      subject: message.subject,
+      text: [
+        `Hi ${jobRequest.user.name},`,
+        "",
+        message.text,
+        "",
+        `${APP_URL}/dashboard/job-requests/${jobRequest.id}`,
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error("Job request email error:", error);
+  }
+}
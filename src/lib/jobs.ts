@@ -0,0 +1,75 @@
+import redis from "@/lib/redis";
+import { expireUnpaidBookings } from "@/lib/booking-expiry";
+import { expireWaitlistOffers } from "@/lib/waitlist";
+import { expireJobRequests } from "@/lib/job-requests";
+
+// Background jobs that every replica of the app runs in-process. Before a
+// job runs, the replica claims it in Redis for the job's interval; the other
+// replicas see the claim and skip it, so each job runs about once per
+// interval however many replicas there are.
+
+export interface Job {
+  name: string;
+  intervalSeconds: number;
+  run: (now: Date) => Promise<unknown>;
+}
+
+export const JOBS: Job[] = [
+  {
+    name: "expire-unpaid-bookings",
+    intervalSeconds: 60,
+    run: expireUnpaidBookings,
+  },
+  {
+    name: "expire-waitlist-offers",
+    intervalSeconds: 60,
+    run: expireWaitlistOffers,
+  },
+  {
+    name: "expire-job-requests",
+    intervalSeconds: 60,
+    run: expireJobRequests,
+  },
+];
+
+// How often each replica looks for jobs that are due
+const TICK_MS = 15 * 1000;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+// Runs the jobs no replica has run within their interval and returns their
+// names. A failing job is logged and doesn't stop the others.
+export async function runDueJobs(
+  now: Date = new Date(),
+  jobs: Job[] = JOBS
+): Promise<string[]> {
+  const ran: string[] = [];
+  for (const job of jobs) {
+    const claimed = await redis.set(
+      `jobs:${job.name}`,
+      now.toISOString(),
+      "EX",
+      job.intervalSeconds,
+      "NX"
+    );
+    if (!claimed) continue;
+
+    try {
+      await job.run(now);
+      ran.push(job.name);
+    } catch (error) {
+      console.error(`Job ${job.name} error:`, error);
+    }
+  }
+  return ran;
+}
+
+export function startJobRunner(): void {
+  if (timer) return;
+
+  timer = setInterval(() => {
+    runDueJobs().catch((error) => console.error("Job runner error:", error));
+  }, TICK_MS);
+  // Don't keep the process alive just for the jobs
+  timer.unref?.();
+}
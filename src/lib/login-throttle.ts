@@ -0,0 +1,245 @@
+import redis from "@/lib/redis";
+import { logSecurityEvent } from "@/lib/security";
+
+// Counters live in Redis so every replica sees the same attempts. Failures
+// are tracked per account (whether or not it exists, so responses don't
+// reveal which emails are registered) and per client IP.
+const FAILURE_WINDOW_SECONDS = 15 * 60;
+
+// After a few misses each further attempt on the account has to wait,
+// doubling every time, until the account is locked outright
+const PROGRESSIVE_DELAY_AFTER = 3;
+const MAX_DELAY_SECONDS = 60;
+const ACCOUNT_LOCK_THRESHOLD = 10;
+const ACCOUNT_LOCK_SECONDS = 15 * 60;
+
+// One address failing against many accounts is credential stuffing
+const IP_FAILURE_LIMIT = 50;
+
+export type LoginBlockReason = "account_locked" | "too_many_attempts" | "ip_blocked";
+
+export interface LoginThrottleResult {
+  allowed: boolean;
+  reason?: LoginBlockReason;
+  retryAfterSeconds?: number;
+}
+
+function normalizeAccount(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+const keys = {
+  accountFailures: (account: string) => `login:failures:account:${account}`,
+  accountDelay: (account: string) => `login:delay:account:${account}`,
+  accountLock: (account: string) => `login:lock:account:${account}`,
+  ipFailures: (ip: string) => `login:failures:ip:${ip}`,
+  secondFactorFailures: (userId: string) => `mfa:failures:user:${userId}`,
+  secondFactorDelay: (userId: string) => `mfa:delay:user:${userId}`,
+  secondFactorLock: (userId: string) => `mfa:lock:user:${userId}`,
+};
+
+function toSeconds(ttlMs: number): number {
+  return Math.max(1, Math.ceil(ttlMs / 1000));
+}
+
+async function incrementWithinWindow(key: string): Promise<number> {
+  const count = await redis.incr(key);
+  if (count === 1) {
+    await redis.expire(key, FAILURE_WINDOW_SECONDS);
+  }
+  return count;
+}
+
+export async function checkLoginAllowed(
+  email: string,
+  ip: string | null
+): Promise<LoginThrottleResult> {
+  const account = normalizeAccount(email);
+
+  const [lockTtl, delayTtl] = await Promise.all([
+    redis.pttl(keys.accountLock(account)),
+    redis.pttl(keys.accountDelay(account)),
+  ]);
+
+  if (lockTtl > 0) {
+    return {
+      allowed: false,
+      reason: "account_locked",
+      retryAfterSeconds: toSeconds(lockTtl),
+    };
+  }
+
+  if (ip) {
+    const ipFailures = Number(await redis.get(keys.ipFailures(ip)));
+    if (ipFailures >= IP_FAILURE_LIMIT) {
+      return {
+        allowed: false,
+        reason: "ip_blocked",
+        retryAfterSeconds: toSeconds(await redis.pttl(keys.ipFailures(ip))),
+      };
+    }
+  }
+
+  if (delayTtl > 0) {
+    return {
+      allowed: false,
+      reason: "too_many_attempts",
+      retryAfterSeconds: toSeconds(delayTtl),
+    };
+  }
+
+  return { allowed: true };
+}
+
+// Counts a failure and applies the delay or lockout it earns. Returns the
+// failure count when this one locked the account.
+async function countFailure(
+  failuresKey: string,
+  delayKey: string,
+  lockKey: string
+): Promise<number | null> {
+  const failures = await incrementWithinWindow(failuresKey);
+
+  if (failures >= ACCOUNT_LOCK_THRESHOLD) {
+    await redis.set(lockKey, "1", "EX", ACCOUNT_LOCK_SECONDS);
+    await redis.del(failuresKey, delayKey);
+    return failures;
+  }
+  if (failures >= PROGRESSIVE_DELAY_AFTER) {
+    const delay = Math.min(
+      2 ** (failures - PROGRESSIVE_DELAY_AFTER),
+      MAX_DELAY_SECONDS
+    );
+    await redis.set(delayKey, "1", "EX", delay);
+  }
+  return null;
+}
+
+// Counts a failed password or second-factor attempt, applying the delay or
+// lockout it earns
+export async function recordFailedLogin(
+  email: string,
+  ip: string | null,
+  userId?: string
+): Promise<void> {
+  const account = normalizeAccount(email);
+  const failures = await countFailure(
+    keys.accountFailures(account),
+    keys.accountDelay(account),
+    keys.accountLock(account)
+  );
+
+  if (failures !== null) {
+    await logSecurityEvent("Account locked after failed logins", {
+      userId: userId ?? null,
+      ipAddress: ip,
+      email: account,
+      failures,
+      lockSeconds: ACCOUNT_LOCK_SECONDS,
+    });
+  }
+
+  if (ip) {
+    const ipFailures = await incrementWithinWindow(keys.ipFailures(ip));
+    // Only the attempt that crosses the limit is recorded, not every one after
+    if (ipFailures === IP_FAILURE_LIMIT) {
+      await logSecurityEvent("IP blocked after failed logins", {
+        ipAddress: ip,
+        failures: ipFailures,
+        blockSeconds: FAILURE_WINDOW_SECONDS,
+      });
+    }
+  }
+}
+
+// A successful login forgives earlier typos on the account. The IP counter
+// is left alone so one valid login can't reset a stuffing run.
+export async function clearFailedLogins(email: string): Promise<void> {
+  const account = normalizeAccount(email);
+  await redis.del(keys.accountFailures(account), keys.accountDelay(account));
+}
+
+// Second-factor codes sent by someone already signed in (step-up, turning
+// two-factor on or off, new recovery codes, account deletion) are counted
+// per user in the same way, so a stolen access token can't guess them
+export async function checkSecondFactorAllowed(
+  userId: string
+): Promise<LoginThrottleResult> {
+  const [lockTtl, delayTtl] = await Promise.all([
+    redis.pttl(keys.secondFactorLock(userId)),
+    redis.pttl(keys.secondFactorDelay(userId)),
+  ]);
+
+  if (lockTtl > 0) {
+    return {
+      allowed: false,
+      reason: "account_locked",
+      retryAfterSeconds: toSeconds(lockTtl),
+    };
+  }
+  if (delayTtl > 0) {
+    return {
+      allowed: false,
+      reason: "too_many_attempts",
+      retryAfterSeconds: toSeconds(delayTtl),
+    };
+  }
+  return { allowed: true };
+}
+
+export async function recordFailedSecondFactor(
+  userId: string,
+  ip: string | null
+): Promise<void> {
+  const failures = await countFailure(
+    keys.secondFactorFailures(userId),
+    keys.secondFactorDelay(userId),
+    keys.secondFactorLock(userId)
+  );
+
+  if (failures !== null) {
+    await logSecurityEvent("Second factor locked after failed codes", {
+      userId,
+      ipAddress: ip,
+      failures,
+      lockSeconds: ACCOUNT_LOCK_SECONDS,
+    });
+  }
+}
+
+export async function clearFailedSecondFactors(userId: string): Promise<void> {
+  await redis.del(
+    keys.secondFactorFailures(userId),
+    keys.secondFactorDelay(userId)
+  );
+}
+
+export async function unlockAccount(
+  email: string,
+  userId: string
+): Promise<void> {
+  const account = normalizeAccount(email);
+  await redis.del(
+    keys.accountFailures(account),
+    keys.accountDelay(account),
+    keys.accountLock(account),
+    keys.secondFactorFailures(userId),
+    keys.secondFactorDelay(userId),
+    keys.secondFactorLock(userId)
+  );
+}
+
+// Seconds left on the lockout for each locked email, for admin listings
+export async function getAccountLocks(
+  emails: string[]
+): Promise<Record<string, number>> {
+  const ttls = await Promise.all(
+    emails.map((email) => redis.pttl(keys.accountLock(normalizeAccount(email))))
+  );
+
+  const locks: Record<string, number> = {};
+  emails.forEach((email, index) => {
+    if (ttls[index] > 0) locks[email] = toSeconds(ttls[index]);
+  });
+  return locks;
+}
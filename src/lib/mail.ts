@@ -0,0 +1,68 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+
+export const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const MAIL_FROM = process.env.MAIL_FROM || "JustServiceHub <no-reply@justservicehub.local>";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Writes every message as a JSON file so flows can be exercised without an
+// SMTP server. Point MAIL_OUTBOX_DIR somewhere else to keep it out of the tree.
+export class FileOutboxTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[MAIL] to=${message.to} subject="${message.subject}"`);
+    console.log(message.text);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+function createTransportFromEnv(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT || "outbox") {
+    case "console":
+      return new ConsoleTransport();
+    case "outbox":
+      return new FileOutboxTransport(
+        process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "mail-outbox")
+      );
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${process.env.MAIL_TRANSPORT}`);
+  }
+}
+
+// Allows swapping in a real provider (or a stub in tests) at startup
+export function setMailTransport(nextTransport: MailTransport | null) {
+  transport = nextTransport;
+}
+
+// Throws when the message can't be sent. Notifications about a change that
+// is already saved log the failure rather than undo the change.
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  await transport.send({ ...message, from: MAIL_FROM });
+}
@@ -0,0 +1,180 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import prisma from "@/lib/prisma";
+import { JWTPayload } from "@/lib/auth";
+import { STAFF_ROLES } from "@/lib/permissions";
+import { hashToken } from "@/lib/security";
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from "@/lib/totp";
+
+const JWT_SECRET = process.env.JWT_SECRET!;
+const TWO_FACTOR_ISSUER = "JustServiceHub";
+const TWO_FACTOR_CHALLENGE_TTL = "5m";
+const TWO_FACTOR_CHALLENGE_PURPOSE = "2fa-challenge";
+const RECOVERY_CODE_COUNT = 10;
+
+// Admin-only actions that move money or destroy data need a second factor
+// completed within this window, not just at login
+export const SENSITIVE_ACTION_MFA_MAX_AGE = 15 * 60;
+
+// Roles that may not use the platform without a second factor
+export const TWO_FACTOR_REQUIRED_ROLES: string[] = STAFF_ROLES;
+
+// TOTP secrets are encrypted at rest so a database dump alone can't mint codes
+function getEncryptionKey(): Buffer {
+  return crypto
+    .createHash("sha256")
+    .update(process.env.MFA_ENCRYPTION_KEY || JWT_SECRET)
+    .digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+function decryptSecret(payload: string): string {
+  const [iv, tag, ciphertext] = payload
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+export interface TwoFactorUser {
+  id: string;
+  email: string;
+  twoFactorSecret: string | null;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep: number | null;
+}
+
+// Stores a new, not yet enabled secret and returns what the authenticator
+// app needs. Enrollment only completes once a code from it is confirmed.
+export async function startTwoFactorEnrollment(user: {
+  id: string;
+  email: string;
+}): Promise<{ secret: string; otpauthUrl: string }> {
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorSecret: encryptSecret(secret),
+      twoFactorLastUsedStep: null,
+    },
+  });
+
+  return {
+    secret,
+    otpauthUrl: buildOtpauthUrl(secret, user.email, TWO_FACTOR_ISSUER),
+  };
+}
+
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: codes.map((code) => hashToken(code)) },
+  });
+
+  return codes;
+}
+
+// Accepts each time step at most once so an observed code can't be replayed
+export async function verifyTotpCode(
+  user: TwoFactorUser,
+  code: string
+): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step === null) return false;
+  if (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep) {
+    return false;
+  }
+
+  const updated = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [
+        { twoFactorLastUsedStep: null },
+        { twoFactorLastUsedStep: { lt: step } },
+      ],
+    },
+    data: { twoFactorLastUsedStep: step },
+  });
+
+  return updated.count === 1;
+}
+
+// Each code works once. The codes are only written back if nobody changed
+// them since they were read, so two logins at once can't both spend one.
+export async function consumeRecoveryCode(
+  user: TwoFactorUser,
+  recoveryCode: string
+): Promise<boolean> {
+  const codeHash = hashToken(recoveryCode.trim().toLowerCase());
+  if (!user.twoFactorRecoveryCodes.includes(codeHash)) return false;
+
+  const updated = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes },
+    },
+    data: {
+      twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(
+        (hash) => hash !== codeHash
+      ),
+    },
+  });
+
+  return updated.count === 1;
+}
+
+export async function verifySecondFactor(
+  user: TwoFactorUser,
+  input: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  if (input.code) return verifyTotpCode(user, input.code);
+  if (input.recoveryCode) return consumeRecoveryCode(user, input.recoveryCode);
+  return false;
+}
+
+// Short-lived proof that the password step of a login succeeded
+export function createTwoFactorChallenge(userId: string): string {
+  return jwt.sign(
+    { userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+    JWT_SECRET,
+    { expiresIn: TWO_FACTOR_CHALLENGE_TTL }
+  );
+}
+
+export function verifyTwoFactorChallenge(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as {
+      userId: string;
+      purpose: string;
+    };
+    return payload.purpose === TWO_FACTOR_CHALLENGE_PURPOSE ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+export function hasRecentSecondFactor(
+  user: JWTPayload,
+  maxAgeSeconds?: number
+): boolean {
+  if (!user.mfa) return false;
+  if (maxAgeSeconds === undefined) return true;
+  return Date.now() / 1000 - user.mfa <= maxAgeSeconds;
+}
@@ -0,0 +1,399 @@
+import { z } from "zod";
+import type { Booking, CartItem, Order, Service } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { stripe, formatAmountForStripe } from "@/lib/stripe";
+import {
+  PAYMENT_CURRENCY,
+  cancelPaymentIntent,
+  refundPayment,
+} from "@/lib/payments";
+import { isServiceAvailable } from "@/lib/service-availability";
+import {
+  hasBookingConflict,
+  lockProviderCalendars,
+} from "@/lib/booking-conflicts";
+import { BookingChangeBy, recordBookingEvent } from "@/lib/booking-events";
+import {
+  BookingChangeError,
+  checkBookingPayable,
+  isBookingChangeError,
+  markBookingPaid,
+} from "@/lib/booking-lifecycle";
+import { paymentDueAt } from "@/lib/booking-expiry";
+import { createBooking } from "@/lib/booking-creation";
+
+// A customer collects times with several services, possibly from different
+// providers, in a cart and checks them out together: every item is booked or
+// none is, and the bookings are paid with one combined payment. After that
+// each booking is on its own; cancelling one refunds only its share of the
+// payment.
+
+export const MAX_CART_ITEMS = 10;
+
+const MINUTE = 60 * 1000;
+
+export const addToCartSchema = z.object({
+  serviceId: z.string().min(1, "Service ID is required"),
+  date: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), "Invalid date format"),
+  notes: z.string().nullable().optional(),
+});
+
+export type AddToCartInput = z.infer<typeof addToCartSchema>;
+
+type CartService = Pick<
+  Service,
+  | "id"
+  | "providerId"
+  | "price"
+  | "duration"
+  | "bufferBefore"
+  | "bufferAfter"
+  | "availability"
+  | "isActive"
+  | "cancellationPolicy"
+>;
+
+export interface CartItemError {
+  id: string;
+  error: string;
+}
+
+export type CheckoutError = BookingChangeError & { items?: CartItemError[] };
+
+// Why the time can't be booked, leaving out whether it is taken, which is
+// only known for sure at checkout
+async function checkCartTime(
+  service: CartService,
+  userId: string,
+  start: Date,
+  now: Date
+): Promise<BookingChangeError | null> {
+  if (!service.isActive) {
+    return { error: "Service not found or unavailable", status: 404 };
+  }
+  if (service.providerId === userId) {
+    return { error: "Cannot book your own service", status: 400 };
+  }
+  if (start <= now) {
+    return { error: "The time has passed", status: 400 };
+  }
+  if (!(await isServiceAvailable(service, start))) {
+    return { error: "The provider is not available at this time", status: 400 };
+  }
+  return null;
+}
+
+export async function addToCart(
+  service: CartService,
+  userId: string,
+  input: AddToCartInput,
+  now: Date = new Date()
+): Promise<{ item: CartItem } | BookingChangeError> {
+  const start = new Date(input.date);
+  const timeError = await checkCartTime(service, userId, start, now);
+  if (timeError) return timeError;
+
+  const count = await prisma.cartItem.count({ where: { userId } });
+  if (count >= MAX_CART_ITEMS) {
+    return {
+      error: `A cart can hold at most ${MAX_CART_ITEMS} items`,
+      status: 400,
+    };
+  }
+
+  const item = await prisma.cartItem.create({
+    data: {
+      userId,
+      serviceId: service.id,
+      date: start,
+      notes: input.notes ?? null,
+    },
+  });
+  return { item };
+}
+
+// The time an item keeps free on the provider's calendar, with its buffers
+function bufferedInterval(item: CartItem & { service: CartService }) {
+  return {
+    start: item.date.getTime() - item.service.bufferBefore * MINUTE,
+    end:
+      item.date.getTime() +
+      (item.service.duration + item.service.bufferAfter) * MINUTE,
+  };
+}
+
+// Books every item in the customer's cart in one transaction, or none of
+// them. The cart is locked so two checkouts of it run one after the other,
+// and the calendars of all the providers in it are locked while the times
+// are checked, as for a single booking. Items that can't be booked are
+// reported so the customer can change them; the cart is kept.
+export async function checkoutCart(
+  userId: string,
+  now: Date = new Date()
+): Promise<{ order: Order; bookings: Booking[] } | CheckoutError> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('cart'), hashtext(${userId}))`;
+
+    const items = await tx.cartItem.findMany({
+      where: { userId },
+      include: { service: true },
+      orderBy: { createdAt: "asc" },
+    });
+    if (items.length === 0) {
+      return { error: "Your cart is empty", status: 400 };
+    }
+
+    const problems: CartItemError[] = [];
+    for (const [index, item] of items.entries()) {
+      const timeError = await checkCartTime(item.service, userId, item.date, now);
+      if (timeError) {
+        problems.push({ id: item.id, error: timeError.error });
+        continue;
+      }
+
+      // Two items with the same provider can't overlap each other either
+      const interval = bufferedInterval(item);
+      const overlapping = items.slice(0, index).some((other) => {
+        if (other.service.providerId !== item.service.providerId) return false;
+        const otherInterval = bufferedInterval(other);
+        return (
+          otherInterval.start < interval.end && interval.start < otherInterval.end
+        );
+      });
+      if (overlapping) {
+        problems.push({
+          id: item.id,
+          error: "Overlaps another item in your cart with the same provider",
+        });
+      }
+    }
+
+    await lockProviderCalendars(
+      tx,
+      items.map((item) => item.service.providerId)
+    );
+    for (const item of items) {
+      if (problems.some((problem) => problem.id === item.id)) continue;
+      if (await hasBookingConflict(tx, item.service, item.date)) {
+        problems.push({ id: item.id, error: "The time is already taken" });
+      }
+    }
+
+    if (problems.length > 0) {
+      return {
+        error: "Some items in your cart can't be booked",
+        status: 409,
+        items: problems,
+      };
+    }
+
+    // The bookings are paid together, so they are all due when the first
+    // one would be
+    const dueAt = new Date(
+      Math.min(...items.map((item) => paymentDueAt(item.date, now).getTime()))
+    );
+
+    const order = await tx.order.create({
+      data: {
+        userId,
+        totalPrice: items.reduce((sum, item) => sum + item.service.price, 0),
+      },
+    });
+
+    const bookings: Booking[] = [];
+    for (const item of items) {
+      const booking = await createBooking(
+        tx,
+        {
+          service: item.service,
+          userId,
+          date: item.date,
+          notes: item.notes,
+          paymentDueAt: dueAt,
+          orderId: order.id,
+        },
+        now
+      );
+      // Every time was checked above under the same locks, so this can't
+      // fail; if it does, throwing rolls the whole checkout back
+      if (isBookingChangeError(booking)) throw new Error(booking.error);
+      bookings.push(booking);
+    }
+
+    await tx.cartItem.deleteMany({
+      where: { id: { in: items.map((item) => item.id) } },
+    });
+
+    return { order, bookings };
+  });
+}
+
+type OrderWithBookings = Order & { bookings: Booking[] };
+
+export const orderInclude = {
+  bookings: {
+    include: {
+      service: { select: { id: true, name: true } },
+      provider: { select: { id: true, name: true } },
+    },
+    orderBy: { date: "asc" as const },
+  },
+};
+
+// The order's bookings that still have to be paid for, and what they come to
+export function getOrderAmountDue(order: OrderWithBookings) {
+  const bookings = order.bookings.filter(
+    (booking) => !checkBookingPayable(booking)
+  );
+  return {
+    bookings,
+    amount: bookings.reduce((sum, booking) => sum + booking.totalPrice, 0),
+  };
+}
+
+// One PaymentIntent for the bookings in the order still to be paid for. An
+// earlier one is cancelled, as bookings may have been cancelled since. The
+// intent's id is kept on each booking, so cancelling any of them before
+// payment stops it. Its amount is the sum of the bookings' prices.
+export async function createOrderPaymentIntent(
+  order: OrderWithBookings,
+  userId: string
+): Promise<
+  | { clientSecret: string | null; paymentIntentId: string; amount: number }
+  | BookingChangeError
+> {
+  const { bookings, amount } = getOrderAmountDue(order);
+  if (bookings.length === 0) {
+    return { error: "Nothing in this order is left to pay for", status: 400 };
+  }
+  if (!stripe) throw new Error("Stripe is not configured");
+
+  if (!(await cancelPaymentIntent(order.stripePaymentId))) {
+    return {
+      error: "A payment for this order is being processed. Try again once it completes",
+      status: 409,
+    };
+  }
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: formatAmountForStripe(amount, PAYMENT_CURRENCY),
+    currency: PAYMENT_CURRENCY,
+    automatic_payment_methods: { enabled: true },
+    // Tags the charge with its order in Stripe
+    transfer_group: `order_${order.id}`,
+    metadata: {
+      orderId: order.id,
+      userId,
+      bookingIds: bookings.map((booking) => booking.id).join(","),
+    },
+  });
+
+  await prisma.$transaction([
+    prisma.order.update({
+      where: { id: order.id },
+      data: { stripePaymentId: paymentIntent.id },
+    }),
+    prisma.booking.updateMany({
+      where: { id: { in: bookings.map((booking) => booking.id) } },
+      data: { stripePaymentId: paymentIntent.id },
+    }),
+  ]);
+
+  return {
+    clientSecret: paymentIntent.client_secret,
+    paymentIntentId: paymentIntent.id,
+    amount,
+  };
+}
+
+// Marks the bookings the payment was taken for as paid. A booking cancelled
+// while the customer paid has its share refunded straight away. It is
+// claimed as refunded first, so confirming the payment again can't refund it
+// twice, and marked paid if Stripe refuses.
+export async function confirmOrderPayment(
+  order: OrderWithBookings,
+  paymentIntentId: string,
+  by: BookingChangeBy,
+  now: Date = new Date()
+): Promise<{ paid: Booking[]; refunded: Booking[] } | BookingChangeError> {
+  if (!stripe) throw new Error("Stripe is not configured");
+  if (paymentIntentId !== order.stripePaymentId) {
+    return { error: "The payment is not for this order", status: 400 };
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  if (paymentIntent.status !== "succeeded") {
+    return { error: "Payment not completed", status: 400 };
+  }
+
+  const bookingIds = (paymentIntent.metadata?.bookingIds ?? "").split(",");
+  const paid: Booking[] = [];
+  const refunded: Booking[] = [];
+  for (const booking of order.bookings) {
+    if (!bookingIds.includes(booking.id)) continue;
+    if (
+      booking.paymentStatus === "paid" &&
+      booking.stripePaymentId === paymentIntentId
+    ) {
+      // Confirmed before
+      paid.push(booking);
+      continue;
+    }
+
+    if (booking.status !== "cancelled") {
+      const result = await markBookingPaid(booking, by, paymentIntentId, now);
+      if (isBookingChangeError(result)) {
+        console.error("Order payment error:", booking.id, result.error);
+      } else {
+        paid.push(result.booking);
+      }
+      continue;
+    }
+
+    const { count } = await prisma.booking.updateMany({
+      where: { id: booking.id, paymentStatus: "pending" },
+      data: {
+        paymentStatus: "refunded",
+        refundedAt: now,
+        refundedAmount: booking.totalPrice,
+        stripePaymentId: paymentIntentId,
+      },
+    });
+    if (count === 0) continue;
+    try {
+      await refundPayment(paymentIntentId, booking.totalPrice);
+      await recordBookingEvent(prisma, booking.id, "payment_changed", by, {
+        from: "pending",
+        to: "refunded",
+      });
+      refunded.push(booking);
+    } catch (error) {
+      // The money was taken, so the booking is put down as paid, where staff
+      // can refund it from the payments page
+      console.error("Order item refund error:", error);
+      await prisma.booking.update({
+        where: { id: booking.id },
+        data: {
+          paymentStatus: "paid",
+          paidAt: now,
+          refundedAt: null,
+          refundedAmount: null,
+        },
+      });
+      await recordBookingEvent(prisma, booking.id, "payment_changed", by, {
+        from: "pending",
+        to: "paid",
+      });
+    }
+  }
+
+  if (paid.length > 0 && !order.paidAt) {
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { paidAt: now },
+    });
+  }
+  return { paid, refunded };
+}
@@ -0,0 +1,78 @@
+import prisma from "@/lib/prisma";
+import { hashPassword, revokeUserSessions } from "@/lib/auth";
+import { APP_URL, sendMail } from "@/lib/mail";
+import { generateSecureToken, hashToken } from "@/lib/security";
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+export const WEAK_PASSWORD_MESSAGE =
+  "Password must be at least 8 characters and include upper and lower case letters, a number and a special character";
+
+// Issues a fresh reset link; any link sent earlier stops working
+export async function sendPasswordResetEmail(user: {
+  id: string;
+  name: string;
+  email: string;
+}): Promise<void> {
+  const token = generateSecureToken();
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+      },
+    }),
+  ]);
+
+  const link = `${APP_URL}/auth/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your JustServiceHub password",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "We received a request to reset your password. Open the link below to choose a new one:",
+      link,
+      "",
+      "The link expires in 1 hour and can only be used once. If you did not request a reset, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+// Marks the token used and returns its owner, or null when the token is
+// unknown, expired or already spent
+export async function consumePasswordResetToken(
+  token: string
+): Promise<string | null> {
+  const tokenHash = hashToken(token);
+
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash },
+  });
+  if (!resetToken) return null;
+
+  const consumed = await prisma.passwordResetToken.updateMany({
+    where: { id: resetToken.id, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+
+  return consumed.count === 1 ? resetToken.userId : null;
+}
+
+// Stores the new password and signs out every existing session
+export async function updatePassword(
+  userId: string,
+  newPassword: string
+): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { password: hashPassword(newPassword) },
+  });
+  await revokeUserSessions(userId);
+}
@@ -0,0 +1,50 @@
+import { formatAmountForStripe, stripe } from "@/lib/stripe";
+
+export const PAYMENT_CURRENCY = "usd";
+
+// Refunds a Stripe payment, in full unless an amount in dollars is given.
+// Bookings marked paid by staff were paid outside Stripe and have nothing
+// to refund there, so this returns null for them.
+export async function refundPayment(
+  stripePaymentId: string | null,
+  amount?: number
+) {
+  if (!stripePaymentId || !stripe) return null;
+
+  return stripe.refunds.create({
+    payment_intent: stripePaymentId,
+    amount:
+      amount === undefined
+        ? undefined
+        : formatAmountForStripe(amount, PAYMENT_CURRENCY),
+  });
+}
+
+// Stops a payment the customer hasn't completed. Returns false when Stripe
+// has taken the payment or is still processing it, so the booking has to
+// wait for the payment to be confirmed.
+export async function cancelPaymentIntent(
+  stripePaymentId: string | null
+): Promise<boolean> {
+  if (!stripePaymentId || !stripe) return true;
+
+  const intent = await stripe.paymentIntents.retrieve(stripePaymentId);
+  if (intent.status === "canceled") return true;
+  if (["succeeded", "processing", "requires_capture"].includes(intent.status)) {
+    return false;
+  }
+
+  await stripe.paymentIntents.cancel(stripePaymentId);
+  return true;
+}
+
+// Whether Stripe has taken the payment, whether or not the customer got as
+// far as confirming it with us
+export async function hasPaymentSucceeded(
+  stripePaymentId: string | null
+): Promise<boolean> {
+  if (!stripePaymentId || !stripe) return false;
+
+  const intent = await stripe.paymentIntents.retrieve(stripePaymentId);
+  return intent.status === "succeeded";
+}
@@ -0,0 +1,71 @@
+import type { UserRole } from "@prisma/client";
+
+// Every action that isn't open to any signed-in user is named here. Routes
+// ask for a permission, never for a role, so staff roles can be reshaped
+// without touching the handlers. This module has no server dependencies and
+// is shared with the client to decide what to show.
+export const PERMISSIONS = {
+  "user:read": "View user accounts",
+  "user:update": "Edit user accounts and change roles",
+  "user:delete": "Delete user accounts",
+  "user:unlock": "Lift login lockouts",
+  "user:impersonate": "Act as another user for support",
+  "provider:create": "Create provider accounts",
+  "provider:review": "Review provider applications and verification documents",
+  "service:publish": "List services and manage one's own listings",
+  "service:moderate": "Review, edit and deactivate any service",
+  "service:delete": "Delete any service",
+  "booking:read": "View any booking",
+  "booking:manage": "Change the status of any booking",
+  "booking:delete": "Delete bookings",
+  "booking:refund": "Refund booking payments",
+  "message:read": "Read the messages on any booking to settle disputes",
+  "payment:read": "View payments",
+  "payment:manage": "Record payments manually",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  user: [],
+  provider: ["service:publish"],
+  support: [
+    "user:read",
+    "user:unlock",
+    "provider:review",
+    "service:moderate",
+    "booking:read",
+    "booking:manage",
+  ],
+  finance: [
+    "booking:read",
+    "booking:refund",
+    "payment:read",
+    "payment:manage",
+  ],
+  admin: ALL_PERMISSIONS,
+};
+
+// Roles that work in the back office rather than use the marketplace
+export const STAFF_ROLES: UserRole[] = ["support", "finance", "admin"];
+
+// What a partner API key may be limited to. Keys act as their owner but only
+// on routes that accept one of these scopes, never on staff routes.
+export const API_KEY_SCOPES = {
+  "services:read": "Browse providers and service recommendations",
+  "bookings:read": "View the owner's bookings",
+  "bookings:create": "Book services on the owner's behalf",
+  "bookings:manage": "Update and cancel the owner's bookings",
+} as const;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export function getPermissions(role: string): Permission[] {
+  return ROLE_PERMISSIONS[role as UserRole] ?? [];
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
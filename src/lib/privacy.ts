@@ -0,0 +1,309 @@
+import prisma from "@/lib/prisma";
+import { providerDocumentSelect } from "@/lib/provider-onboarding";
+import redis from "@/lib/redis";
+import { hashPassword } from "@/lib/auth";
+import { generateSecureToken } from "@/lib/security";
+import { getStorage } from "@/lib/storage";
+import { ACTIVE_WAITLIST_STATUSES } from "@/lib/waitlist";
+import { bookingMessageAttachmentSelect } from "@/lib/booking-messages";
+
+const ACTIVE_BOOKING_STATUSES = ["pending", "confirmed", "in_progress"] as const;
+
+export const DELETED_USER_NAME = "Deleted user";
+
+// Unique like the address it replaces, and can never receive mail
+export function deletedUserEmail(userId: string): string {
+  return `deleted-${userId}@deleted.invalid`;
+}
+
+export interface DeletionBlockers {
+  activeUserBookings: number;
+  activeProviderBookings: number;
+  activeServices: number;
+}
+
+// Open bookings still need both parties to be reachable and live services
+// can still be booked, so both have to be closed before an account goes.
+// Null when the user doesn't exist.
+export async function getDeletionBlockers(
+  userId: string
+): Promise<DeletionBlockers | null> {
+  const userData = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      bookingsAsUser: { where: { status: { in: [...ACTIVE_BOOKING_STATUSES] } } },
+      bookingsAsProvider: { where: { status: { in: [...ACTIVE_BOOKING_STATUSES] } } },
+      providedServices: { where: { isActive: true } },
+    },
+  });
+  if (!userData) return null;
+
+  return {
+    activeUserBookings: userData.bookingsAsUser.length,
+    activeProviderBookings: userData.bookingsAsProvider.length,
+    activeServices: userData.providedServices.length,
+  };
+}
+
+export function hasDeletionBlockers(blockers: DeletionBlockers): boolean {
+  return Object.values(blockers).some((count) => count > 0);
+}
+
+export const DELETION_BLOCKED_MESSAGE =
+  "Cannot delete user with active bookings or services. Please resolve all active items first.";
+
+// Everything we hold about a user, for a data access request. Secrets
+// (password and 2FA material, token and key hashes) are left out.
+export async function exportUserData(userId: string) {
+  const profile = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+      address: true,
+      role: true,
+      isVerified: true,
+      twoFactorEnabled: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+  if (!profile) return null;
+
+  const [
+    bookings,
+    providerBookings,
+    reviews,
+    reviewsReceived,
+    services,
+    sessions,
+    apiKeys,
+    securityEvents,
+    providerApplication,
+    messages,
+  ] = await Promise.all([
+    prisma.booking.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      include: { service: { select: { id: true, name: true } } },
+    }),
+    prisma.booking.findMany({
+      where: { providerId: userId },
+      orderBy: { createdAt: "asc" },
+      include: { service: { select: { id: true, name: true } } },
+    }),
+    prisma.review.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.review.findMany({
+      where: { providerId: userId },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.service.findMany({
+      where: { providerId: userId },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.session.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+      },
+    }),
+    prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        name: true,
+        prefix: true,
+        scopes: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.securityEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: { event: true, ipAddress: true, details: true, createdAt: true },
+    }),
+    prisma.providerApplication.findUnique({
+      where: { userId },
+      select: {
+        status: true,
+        rejectionReason: true,
+        submittedAt: true,
+        reviewedAt: true,
+        createdAt: true,
+        documents: { select: providerDocumentSelect },
+      },
+    }),
+    prisma.bookingMessage.findMany({
+      where: { senderId: userId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        bookingId: true,
+        body: true,
+        readAt: true,
+        createdAt: true,
+        attachments: { select: bookingMessageAttachmentSelect },
+      },
+    }),
+  ]);
+
+  // Payments are recorded on the bookings they paid for
+  const payments = bookings
+    .filter((booking) => booking.paymentStatus !== "pending")
+    .map((booking) => ({
+      bookingId: booking.id,
+      amount: booking.totalPrice,
+      status: booking.paymentStatus,
+      paidAt: booking.paidAt,
+      refundedAt: booking.refundedAt,
+      stripePaymentId: booking.stripePaymentId,
+    }));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    bookings,
+    providerBookings,
+    payments,
+    reviews,
+    reviewsReceived,
+    services,
+    sessions,
+    apiKeys,
+    securityEvents,
+    providerApplication,
+    messages,
+  };
+}
+
+// Erases the personal data on an account but keeps the row, so bookings,
+// payments and reviews that reference it stay intact for accounting and
+// rating history. Everything that could sign in as the user is revoked.
+export async function anonymizeUser(userId: string): Promise<void> {
+  const now = new Date();
+
+  // Verification documents are identity papers; nothing needs them once
+  // the account is gone
+  const documents = await prisma.providerDocument.findMany({
+    where: { application: { userId } },
+    select: { storageKey: true },
+  });
+  const photos = await prisma.jobRequestPhoto.findMany({
+    where: { jobRequest: { userId } },
+    select: { storageKey: true },
+  });
+  const attachments = await prisma.bookingMessageAttachment.findMany({
+    where: { message: { senderId: userId } },
+    select: { storageKey: true },
+  });
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        name: DELETED_USER_NAME,
+        email: deletedUserEmail(userId),
+        // Nobody knows this password, so the account can't be signed into
+        password: hashPassword(generateSecureToken()),
+        phone: null,
+        address: null,
+        isVerified: false,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+        calendarFeedTokenHash: null,
+        calendarFeedCreatedAt: null,
+        deletedAt: now,
+      },
+    }),
+    // Free-text notes can hold addresses and phone numbers; the amounts,
+    // dates and payment references are what accounting needs
+    prisma.booking.updateMany({
+      where: { userId },
+      data: { notes: null, stripeCustomerId: null },
+    }),
+    prisma.bookingSeries.updateMany({
+      where: { userId },
+      data: { notes: null },
+    }),
+    prisma.waitlistEntry.updateMany({
+      where: { userId },
+      data: { notes: null },
+    }),
+    // Nobody can claim a time for a deleted account
+    prisma.waitlistEntry.updateMany({
+      where: { userId, status: { in: ACTIVE_WAITLIST_STATUSES } },
+      data: { status: "cancelled" },
+    }),
+    prisma.jobRequest.updateMany({
+      where: { userId },
+      data: { description: "" },
+    }),
+    // Nobody can book a job for a deleted account, or with its quotes
+    prisma.jobRequest.updateMany({
+      where: { userId, status: "open" },
+      data: { status: "cancelled" },
+    }),
+    prisma.quote.updateMany({
+      where: { jobRequest: { userId }, status: "pending" },
+      data: { status: "rejected", respondedAt: now },
+    }),
+    prisma.quote.updateMany({
+      where: { providerId: userId, status: "pending" },
+      data: { status: "withdrawn" },
+    }),
+    prisma.jobRequestPhoto.deleteMany({ where: { jobRequest: { userId } } }),
+    // The other party's side of a thread stays; the user's side is blanked
+    prisma.bookingMessage.updateMany({
+      where: { senderId: userId },
+      data: { body: "" },
+    }),
+    prisma.bookingMessageAttachment.deleteMany({
+      where: { message: { senderId: userId } },
+    }),
+    prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    prisma.apiKey.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    prisma.passwordResetToken.deleteMany({ where: { userId } }),
+    // Imported busy times come from the provider's other calendars
+    prisma.calendarImport.deleteMany({ where: { providerId: userId } }),
+    prisma.providerDocument.deleteMany({
+      where: { application: { userId } },
+    }),
+    prisma.securityEvent.updateMany({
+      where: { userId },
+      data: { ipAddress: null },
+    }),
+  ]);
+
+  await Promise.all(
+    [...documents, ...photos, ...attachments].map((file) =>
+      getStorage().delete(file.storageKey)
+    )
+  );
+
+  // Last known location, see /api/location
+  await redis.del(userId);
+}
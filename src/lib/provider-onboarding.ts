@@ -0,0 +1,177 @@
+import type {
+  ProviderApplicationStatus,
+  ProviderDocumentType,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { APP_URL, sendMail } from "@/lib/mail";
+import { generateSecureToken } from "@/lib/security";
+import { getStorage } from "@/lib/storage";
+
+export const REQUIRED_DOCUMENT_TYPES: ProviderDocumentType[] = [
+  "identity",
+  "license",
+  "insurance",
+];
+
+export const ALLOWED_DOCUMENT_CONTENT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+];
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+// The provider hands the application in (again, after a rejection); staff
+// pick it up and decide. Approval is final.
+const TRANSITIONS: Record<ProviderApplicationStatus, ProviderApplicationStatus[]> = {
+  applied: ["documents_submitted"],
+  documents_submitted: ["under_review"],
+  under_review: ["approved", "rejected"],
+  rejected: ["documents_submitted"],
+  approved: [],
+};
+
+export function canTransition(
+  from: ProviderApplicationStatus,
+  to: ProviderApplicationStatus
+): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+// Documents are frozen while staff look at them
+export function canEditDocuments(status: ProviderApplicationStatus): boolean {
+  return status === "applied" || status === "rejected";
+}
+
+export function isDocumentType(type: unknown): type is ProviderDocumentType {
+  return (
+    typeof type === "string" &&
+    REQUIRED_DOCUMENT_TYPES.includes(type as ProviderDocumentType)
+  );
+}
+
+export const providerDocumentSelect = {
+  id: true,
+  type: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+};
+
+// Providers created before they had to apply (by an admin, or by a role
+// change) get their application the first time they look at it
+export async function getOrCreateApplication(userId: string) {
+  return prisma.providerApplication.upsert({
+    where: { userId },
+    create: { userId },
+    update: {},
+    include: { documents: { select: providerDocumentSelect } },
+  });
+}
+
+export async function isApprovedProvider(userId: string): Promise<boolean> {
+  const application = await prisma.providerApplication.findUnique({
+    where: { userId },
+    select: { status: true },
+  });
+  return application?.status === "approved";
+}
+
+export function missingDocumentTypes(
+  documents: { type: ProviderDocumentType }[]
+): ProviderDocumentType[] {
+  return REQUIRED_DOCUMENT_TYPES.filter(
+    (type) => !documents.some((document) => document.type === type)
+  );
+}
+
+// Moves the application only if it is still in the status the caller saw,
+// so two reviewers can't both decide it
+export async function transitionApplication(
+  applicationId: string,
+  from: ProviderApplicationStatus,
+  to: ProviderApplicationStatus,
+  data: {
+    submittedAt?: Date;
+    reviewedAt?: Date;
+    reviewedById?: string;
+    rejectionReason?: string | null;
+  } = {}
+): Promise<boolean> {
+  if (!canTransition(from, to)) return false;
+
+  const { count } = await prisma.providerApplication.updateMany({
+    where: { id: applicationId, status: from },
+    data: { ...data, status: to },
+  });
+  return count > 0;
+}
+
+// One document per type; uploading again replaces the earlier file
+export async function saveProviderDocument(
+  applicationId: string,
+  type: ProviderDocumentType,
+  file: { fileName: string; contentType: string; data: Buffer }
+) {
+  const storageKey = `provider-documents/${applicationId}/${type}-${generateSecureToken(12)}`;
+  await getStorage().put(storageKey, file.data, file.contentType);
+
+  const existing = await prisma.providerDocument.findUnique({
+    where: { applicationId_type: { applicationId, type } },
+    select: { storageKey: true },
+  });
+
+  const document = await prisma.providerDocument.upsert({
+    where: { applicationId_type: { applicationId, type } },
+    create: {
+      applicationId,
+      type,
+      fileName: file.fileName,
+      contentType: file.contentType,
+      size: file.data.length,
+      storageKey,
+    },
+    update: {
+      fileName: file.fileName,
+      contentType: file.contentType,
+      size: file.data.length,
+      storageKey,
+      createdAt: new Date(),
+    },
+    select: providerDocumentSelect,
+  });
+
+  if (existing) {
+    await getStorage().delete(existing.storageKey);
+  }
+
+  return document;
+}
+
+export async function readProviderDocument(storageKey: string) {
+  return getStorage().get(storageKey);
+}
+
+export async function sendApplicationDecisionEmail(
+  user: { name: string; email: string },
+  decision: "approved" | "rejected",
+  reason?: string | null
+): Promise<void> {
+  const link = `${APP_URL}/dashboard/provider`;
+
+  await sendMail({
+    to: user.email,
+    subject:
+      decision === "approved"
+        ? "Your JustServiceHub provider account is approved"
+        : "Your JustServiceHub provider application needs changes",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      decision === "approved"
+        ? "Your documents have been verified and you can now list services:"
+        : `We could not approve your application: ${reason}\nYou can upload new documents and submit it again:`,
+      link,
+    ].join("\n"),
+  });
+}
@@ -1,36 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// Simple in-memory rate limiting (for production, use Redis or similar)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-export function checkRateLimit(
-  ip: string,
-  maxRequests: number = 100,
-  windowMs: number = 15 * 60 * 1000
-): boolean {
-  const now = Date.now();
-  const windowStart = now - windowMs;
-
-  const userLimit = rateLimitMap.get(ip);
-
-  if (!userLimit || userLimit.resetTime < windowStart) {
-    rateLimitMap.set(ip, { count: 1, resetTime: now + windowMs });
-    return true;
-  }
-
-  if (userLimit.count >= maxRequests) {
-    return false;
-  }
-
-  userLimit.count++;
-  return true;
-}
+import { Prisma } from "@prisma/client";
+import crypto from "crypto";
+import prisma from "@/lib/prisma";
 
 // CORS configuration
 export const corsHeaders = {
   "Access-Control-Allow-Origin": process.env.ALLOWED_ORIGINS || "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
   "Access-Control-Max-Age": "86400",
 };
 
@@ -81,14 +58,59 @@ export function isValidEmail(email: string): boolean {
   return emailRegex.test(email) && email.length <= 254;
 }
 
-// Request logging for security monitoring
-export function logSecurityEvent(event: string, details: any) {
+// Opaque random tokens (refresh, reset, ...) are only ever stored hashed
+export function generateSecureToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+// How many proxies in front of the app append to X-Forwarded-For
+const TRUSTED_PROXY_HOPS =
+  Number(process.env.TRUSTED_PROXY_HOPS) || DEFAULT_TRUSTED_PROXY_HOPS;
+
+// Clients can send any X-Forwarded-For they like, so only the entry added by
+// the outermost trusted proxy is taken, counting from the right
+export function getClientIp(request?: NextRequest): string | null {
+  const forwarded = request?.headers.get("x-forwarded-for");
+  if (!forwarded) return null;
+
+  const hops = forwarded.split(",").map((entry) => entry.trim());
+  return hops[Math.max(hops.length - TRUSTED_PROXY_HOPS, 0)] || null;
+}
+
+export interface SecurityEventDetails {
+  userId?: string | null;
+  ipAddress?: string | null;
+  [key: string]: unknown;
+}
+
+// Security events are stored so lockouts and token abuse can be reviewed
+// later, not just grepped from pod logs that rotate away
+export async function logSecurityEvent(
+  event: string,
+  details: SecurityEventDetails = {}
+): Promise<void> {
   const timestamp = new Date().toISOString();
   console.log(`[SECURITY] ${timestamp} - ${event}:`, details);
-}
 
-// API key validation (for future use)
-export function validateApiKey(apiKey: string): boolean {
-  const validKeys = process.env.VALID_API_KEYS?.split(",") || [];
-  return validKeys.includes(apiKey);
+  const { userId, ipAddress, ...rest } = details;
+  try {
+    await prisma.securityEvent.create({
+      data: {
+        event,
+        userId: userId ?? null,
+        ipAddress: ipAddress ?? null,
+        details: rest as Prisma.InputJsonObject,
+      },
+    });
+  } catch (error) {
+    // Failing to record an event must not fail the request that caused it
+    console.error("Security event persistence error:", error);
+  }
 }
+
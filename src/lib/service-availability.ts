@@ -0,0 +1,192 @@
+import type { BookingStatus, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import {
+  BusyInterval,
+  MAX_BUFFER_MINUTES,
+  ScheduleException,
+  addDays,
+  computeSlots,
+  fromCalendarDate,
+  isWithinAvailability,
+  parseWeeklyAvailability,
+  timeRangesSchema,
+  toZonedTime,
+} from "@/lib/availability";
+
+// Bookings in these statuses hold their time on the provider's calendar
+export const BLOCKING_BOOKING_STATUSES: BookingStatus[] = [
+  "pending",
+  "confirmed",
+  "in_progress",
+];
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Exceptions for the service, or for all of the provider's services, that
+// touch any date from `from` to `to`
+export async function getProviderExceptions(
+  providerId: string,
+  serviceId: string,
+  from: string,
+  to: string
+): Promise<ScheduleException[]> {
+  const exceptions = await prisma.availabilityException.findMany({
+    where: {
+      providerId,
+      OR: [{ serviceId: null }, { serviceId }],
+      startDate: { lte: fromCalendarDate(to) },
+      endDate: { gte: fromCalendarDate(from) },
+    },
+  });
+
+  return exceptions.map((exception) => ({
+    serviceId: exception.serviceId,
+    startDate: exception.startDate,
+    endDate: exception.endDate,
+    ranges: timeRangesSchema.safeParse(exception.ranges).data ?? [],
+  }));
+}
+
+export async function isServiceAvailable(
+  service: {
+    id: string;
+    providerId: string;
+    duration: number;
+    availability: unknown;
+  },
+  start: Date
+): Promise<boolean> {
+  const provider = await prisma.user.findUnique({
+    where: { id: service.providerId },
+    select: { timeZone: true },
+  });
+  const timeZone = provider?.timeZone ?? "UTC";
+  const { date } = toZonedTime(start, timeZone);
+
+  const exceptions = await getProviderExceptions(
+    service.providerId,
+    service.id,
+    date,
+    date
+  );
+
+  return isWithinAvailability(
+    start,
+    service.duration,
+    parseWeeklyAvailability(service.availability),
+    timeZone,
+    exceptions
+  );
+}
+
+// The provider's bookings on any of their services, and the times held for
+// open waitlist offers, that overlap the window, widened by the buffers of
+// the service, along with the busy times imported from the provider's other
+// calendars, which have no buffers. Bookings and offers are looked up from a
+// day before the window, and as far after it as a buffer can reach, so ones
+// that started earlier or whose buffer starts inside it are still seen. Pass
+// the transaction client to read inside a transaction, the id of a booking
+// being moved to leave its current time out, and the id of a waitlist entry
+// claiming its offer to leave its hold out.
+export async function getProviderBusyIntervals(
+  providerId: string,
+  from: Date,
+  to: Date,
+  db: Prisma.TransactionClient = prisma,
+  excludeBookingId?: string,
+  excludeWaitlistEntryId?: string
+): Promise<BusyInterval[]> {
+  const date = {
+    gte: new Date(from.getTime() - DAY),
+    lt: new Date(to.getTime() + MAX_BUFFER_MINUTES * MINUTE),
+  };
+  const select = {
+    date: true,
+    service: {
+      select: { duration: true, bufferBefore: true, bufferAfter: true },
+    },
+  };
+  const [bookings, offers, imported] = await Promise.all([
+    db.booking.findMany({
+      where: {
+        providerId,
+        status: { in: BLOCKING_BOOKING_STATUSES },
+        ...(excludeBookingId && { id: { not: excludeBookingId } }),
+        date,
+      },
+      select,
+    }),
+    db.waitlistEntry.findMany({
+      where: {
+        providerId,
+        status: "offered",
+        offerExpiresAt: { gt: new Date() },
+        ...(excludeWaitlistEntryId && { id: { not: excludeWaitlistEntryId } }),
+        date,
+      },
+      select,
+    }),
+    db.externalBusyBlock.findMany({
+      where: { providerId, start: { lt: to }, end: { gt: from } },
+      select: { start: true, end: true },
+    }),
+  ]);
+
+  return [
+    ...[...bookings, ...offers].map(({ date, service }) => ({
+      start: new Date(date.getTime() - service.bufferBefore * MINUTE),
+      end: new Date(
+        date.getTime() + (service.duration + service.bufferAfter) * MINUTE
+      ),
+    })),
+    ...imported,
+  ].filter((interval) => interval.end > from && interval.start < to);
+}
+
+// Start times for the service from the first to the last calendar date in
+// the provider's time zone, leaving out times that have passed: the free
+// ones, and the ones within the provider's hours that bookings or waitlist
+// offers hold, which customers can wait for
+export async function getServiceSlots(
+  service: {
+    id: string;
+    providerId: string;
+    duration: number;
+    bufferBefore: number;
+    bufferAfter: number;
+    availability: unknown;
+  },
+  timeZone: string,
+  from: string,
+  to: string
+): Promise<{ free: Date[]; taken: Date[] }> {
+  const [exceptions, busy] = await Promise.all([
+    getProviderExceptions(service.providerId, service.id, from, to),
+    // Wide enough for any UTC offset
+    getProviderBusyIntervals(
+      service.providerId,
+      new Date(fromCalendarDate(from).getTime() - DAY),
+      fromCalendarDate(addDays(to, 2))
+    ),
+  ]);
+
+  const schedule = {
+    from,
+    to,
+    weekly: parseWeeklyAvailability(service.availability),
+    timeZone,
+    exceptions,
+    duration: service.duration,
+    bufferBefore: service.bufferBefore,
+    bufferAfter: service.bufferAfter,
+    notBefore: new Date(),
+  };
+  const free = computeSlots({ ...schedule, busy });
+  const freeTimes = new Set(free.map((slot) => slot.getTime()));
+  const taken = computeSlots({ ...schedule, busy: [] }).filter(
+    (slot) => !freeTimes.has(slot.getTime())
+  );
+
+  return { free, taken };
+}
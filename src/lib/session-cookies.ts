@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { generateSecureToken } from "@/lib/security";
+
+// The browser app keeps its tokens in HttpOnly cookies so scripts can't read
+// them. Other clients keep sending Authorization: Bearer, which takes
+// precedence when both are present.
+export const ACCESS_TOKEN_COOKIE = "token";
+export const REFRESH_TOKEN_COOKIE = "refreshToken";
+
+// Double-submit CSRF token: readable by the page, which echoes it in a
+// header on every state-changing request made with the cookies
+export const CSRF_COOKIE = "csrfToken";
+export const CSRF_HEADER = "x-csrf-token";
+
+// Match the lifetimes of the tokens themselves
+const ACCESS_TOKEN_MAX_AGE = 15 * 60;
+const REFRESH_TOKEN_MAX_AGE = 30 * 24 * 60 * 60;
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+const baseCookieOptions = () => ({
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+});
+
+// Replaces the access token and, when given, the refresh token
+export function setTokenCookies(
+  response: NextResponse,
+  tokens: { token: string; refreshToken?: string }
+): void {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.token, {
+    ...baseCookieOptions(),
+    httpOnly: true,
+    path: "/",
+    maxAge: ACCESS_TOKEN_MAX_AGE,
+  });
+
+  if (tokens.refreshToken) {
+    // Only the auth routes ever need to see it
+    response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      ...baseCookieOptions(),
+      httpOnly: true,
+      path: "/api/auth",
+      maxAge: REFRESH_TOKEN_MAX_AGE,
+    });
+  }
+}
+
+// For a newly opened session: both tokens plus a fresh CSRF token, which
+// then stays the same for the life of the session
+export function setSessionCookies(
+  response: NextResponse,
+  tokens: { token: string; refreshToken: string }
+): void {
+  setTokenCookies(response, tokens);
+  response.cookies.set(CSRF_COOKIE, generateSecureToken(32), {
+    ...baseCookieOptions(),
+    httpOnly: false,
+    path: "/",
+    maxAge: REFRESH_TOKEN_MAX_AGE,
+  });
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, "", { path: "/", maxAge: 0 });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, "", {
+    path: "/api/auth",
+    maxAge: 0,
+  });
+  response.cookies.set(CSRF_COOKIE, "", { path: "/", maxAge: 0 });
+}
+
+export function getCookie(request: NextRequest, name: string): string | null {
+  return request.cookies.get(name)?.value || null;
+}
+
+// Requests that carry their token in a header can't be forged by another
+// site, so only cookie-authenticated, state-changing requests need the
+// CSRF header to match the cookie
+export function hasValidCsrfToken(request: NextRequest): boolean {
+  if (SAFE_METHODS.includes(request.method)) return true;
+  if (request.headers.get("authorization")?.startsWith("Bearer ")) return true;
+  if (
+    !getCookie(request, ACCESS_TOKEN_COOKIE) &&
+    !getCookie(request, REFRESH_TOKEN_COOKIE)
+  ) {
+    return true;
+  }
+
+  const cookieToken = getCookie(request, CSRF_COOKIE);
+  const headerToken = request.headers.get(CSRF_HEADER);
+  if (!cookieToken || !headerToken) return false;
+
+  const expected = Buffer.from(cookieToken);
+  const actual = Buffer.from(headerToken);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
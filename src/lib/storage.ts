@@ -0,0 +1,72 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Keys never leave the server. Stored files are served through API routes
+// that check who may see them, so records sent to clients leave the key out.
+export interface StorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Keeps files under one directory on the server's disk. Fine for a single
+// instance; deployments with several need a shared store behind the same
+// interface.
+export class LocalDiskStorage implements StorageAdapter {
+  constructor(private readonly directory: string) {}
+
+  // Keys are generated by us, but never let one point outside the directory
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: StorageAdapter | null = null;
+
+function createStorageFromEnv(): StorageAdapter {
+  switch (process.env.STORAGE_DRIVER || "local") {
+    case "local":
+      return new LocalDiskStorage(
+        process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), "uploads")
+      );
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${process.env.STORAGE_DRIVER}`);
+  }
+}
+
+// Allows swapping in another backend (or a stub in tests) at startup
+export function setStorageAdapter(nextStorage: StorageAdapter | null) {
+  storage = nextStorage;
+}
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = createStorageFromEnv();
+  }
+  return storage;
+}
@@ -1,4 +1,8 @@
 import { z } from "zod";
+import {
+  bufferMinutesSchema,
+  weeklyAvailabilitySchema,
+} from "@/lib/availability";
 
 // User validation schemas
 export const registerSchema = z.object({
@@ -21,6 +25,19 @@ export const updateProfileSchema = z.object({
   address: z.string().optional(),
 });
 
+// The fields staff may change on someone else's account. Anything else,
+// such as the password or two-factor settings, is rejected.
+export const adminUpdateUserSchema = z
+  .object({
+    name: z.string().min(2, "Name must be at least 2 characters"),
+    phone: z.string(),
+    address: z.string(),
+    role: z.enum(["user", "provider", "support", "finance", "admin"]),
+    isVerified: z.boolean(),
+  })
+  .partial()
+  .strict();
+
 // Service validation schemas
 export const createServiceSchema = z.object({
   name: z.string().min(2, "Service name must be at least 2 characters"),
@@ -28,12 +45,10 @@ export const createServiceSchema = z.object({
   category: z.string().min(1, "Category is required"),
   price: z.number().positive("Price must be positive"),
   duration: z.number().positive("Duration must be positive"),
+  bufferBefore: bufferMinutesSchema.optional(),
+  bufferAfter: bufferMinutesSchema.optional(),
   location: z.string().min(1, "Location is required"),
-  availability: z.object({
-    days: z.array(z.string()),
-    startTime: z.string(),
-    endTime: z.string(),
-  }),
+  availability: weeklyAvailabilitySchema,
   tags: z.array(z.string()).optional(),
 });
 
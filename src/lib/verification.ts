@@ -0,0 +1,63 @@
+import jwt from "jsonwebtoken";
+import { APP_URL, sendMail } from "@/lib/mail";
+
+const JWT_SECRET = process.env.JWT_SECRET!;
+const EMAIL_VERIFICATION_TTL = "24h";
+const EMAIL_VERIFICATION_PURPOSE = "email-verification";
+
+interface EmailVerificationPayload {
+  userId: string;
+  email: string;
+  purpose: string;
+}
+
+// The email is part of the signed payload, so a token stops working as soon
+// as the address on the account changes.
+export function generateEmailVerificationToken(user: {
+  id: string;
+  email: string;
+}): string {
+  return jwt.sign(
+    {
+      userId: user.id,
+      email: user.email,
+      purpose: EMAIL_VERIFICATION_PURPOSE,
+    },
+    JWT_SECRET,
+    { expiresIn: EMAIL_VERIFICATION_TTL }
+  );
+}
+
+export function verifyEmailVerificationToken(
+  token: string
+): { userId: string; email: string } | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as EmailVerificationPayload;
+    if (payload.purpose !== EMAIL_VERIFICATION_PURPOSE) return null;
+    return { userId: payload.userId, email: payload.email };
+  } catch {
+    return null;
+  }
+}
+
+export async function sendVerificationEmail(user: {
+  id: string;
+  name: string;
+  email: string;
+}): Promise<void> {
+  const token = generateEmailVerificationToken(user);
+  const link = `${APP_URL}/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your JustServiceHub email address",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "Please confirm your email address by opening the link below:",
+      link,
+      "",
+      "The link expires in 24 hours. If you did not create an account, you can ignore this email.",
+    ].join("\n"),
+  });
+}
@@ -0,0 +1,400 @@
+import { z } from "zod";
+import type {
+  Booking,
+  Service,
+  WaitlistEntry,
+  WaitlistStatus,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { APP_URL, sendMail } from "@/lib/mail";
+import { MAX_BUFFER_MINUTES } from "@/lib/availability";
+import { isServiceAvailable } from "@/lib/service-availability";
+import {
+  hasBookingConflict,
+  withProviderCalendarLock,
+} from "@/lib/booking-conflicts";
+import type { BookingChangeError } from "@/lib/booking-lifecycle";
+import { createBooking } from "@/lib/booking-creation";
+
+// Customers wait in line for a taken time. When a time frees up, the oldest
+// waiting entry whose time is now free is offered it; while the offer is
+// open the time is held on the provider's calendar for that customer alone,
+// so nobody can book around the line. Offers are made and claimed under the
+// provider's calendar lock, and one that lapses passes the time to the next
+// entry in line.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const DEFAULT_OFFER_MINUTES = 60;
+
+// How long a customer has to claim a time offered to them, at most until
+// the time itself
+export const WAITLIST_OFFER_MINUTES =
+  Number(process.env.WAITLIST_OFFER_MINUTES) || DEFAULT_OFFER_MINUTES;
+
+export const WAITLIST_STATUSES: WaitlistStatus[] = [
+  "waiting",
+  "offered",
+  "claimed",
+  "expired",
+  "cancelled",
+];
+
+// Entries that are still in line
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = [
+  "waiting",
+  "offered",
+];
+
+// Lapsed offers handled per run
+const EXPIRY_BATCH_SIZE = 100;
+
+export function isWaitlistStatus(status: unknown): status is WaitlistStatus {
+  return (
+    typeof status === "string" &&
+    WAITLIST_STATUSES.includes(status as WaitlistStatus)
+  );
+}
+
+export const joinWaitlistSchema = z.object({
+  serviceId: z.string().min(1, "Service ID is required"),
+  date: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), "Invalid date format"),
+  notes: z.string().nullable().optional(),
+});
+
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistSchema>;
+
+type WaitlistService = Pick<
+  Service,
+  "id" | "providerId" | "duration" | "bufferBefore" | "bufferAfter" | "availability"
+>;
+
+// Where the entry stands among the active entries for the same time
+export async function getWaitlistPosition(
+  entry: Pick<WaitlistEntry, "serviceId" | "date" | "createdAt">
+): Promise<number> {
+  const ahead = await prisma.waitlistEntry.count({
+    where: {
+      serviceId: entry.serviceId,
+      date: entry.date,
+      status: { in: ACTIVE_WAITLIST_STATUSES },
+      createdAt: { lt: entry.createdAt },
+    },
+  });
+  return ahead + 1;
+}
+
+// Puts the customer in line for a time that is taken. A time that is free
+// should be booked instead, and one outside the provider's hours never frees
+// up. Runs under the provider's calendar lock so a time freed at the same
+// moment is either seen as free here or offered to the new entry.
+export async function joinWaitlist(
+  service: WaitlistService,
+  userId: string,
+  input: JoinWaitlistInput,
+  now: Date = new Date()
+): Promise<{ entry: WaitlistEntry; position: number } | BookingChangeError> {
+  const date = new Date(input.date);
+  if (date <= now) {
+    return { error: "The time has already passed", status: 400 };
+  }
+  if (!(await isServiceAvailable(service, date))) {
+    return {
+      error: "The provider is not available at this time",
+      status: 400,
+    };
+  }
+
+  const result = await withProviderCalendarLock(
+    service.providerId,
+    async (tx): Promise<WaitlistEntry | BookingChangeError> => {
+      const existing = await tx.waitlistEntry.findFirst({
+        where: {
+          userId,
+          serviceId: service.id,
+          date,
+          status: { in: ACTIVE_WAITLIST_STATUSES },
+        },
+      });
+      if (existing) {
+        return {
+          error: "You are already on the waitlist for this time",
+          status: 409,
+        };
+      }
+      if (!(await hasBookingConflict(tx, service, date))) {
+        return {
+          error: "The time is free. Book it instead",
+          status: 409,
+        };
+      }
+
+      return tx.waitlistEntry.create({
+        data: {
+          userId,
+          serviceId: service.id,
+          providerId: service.providerId,
+          date,
+          notes: input.notes ?? null,
+        },
+      });
+    }
+  );
+  if ("error" in result) return result;
+
+  return { entry: result, position: await getWaitlistPosition(result) };
+}
+
+// Offers the provider's free times between from and to to the waiting
+// entries, oldest first. Each offer holds its time, so a later entry whose
+// time overlaps an earlier one's is left waiting. Returns the entries offered
+// a time.
+export async function offerWaitlistedTimes(
+  providerId: string,
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): Promise<WaitlistEntry[]> {
+  const candidates = (
+    await prisma.waitlistEntry.findMany({
+      where: {
+        providerId,
+        status: "waiting",
+        date: {
+          gt: now,
+          gte: new Date(from.getTime() - DAY),
+          lt: new Date(to.getTime() + MAX_BUFFER_MINUTES * MINUTE),
+        },
+      },
+      include: {
+        service: {
+          select: {
+            name: true,
+            providerId: true,
+            duration: true,
+            bufferBefore: true,
+            bufferAfter: true,
+          },
+        },
+        user: { select: { name: true, email: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    })
+  ).filter(
+    ({ date, service }) =>
+      date.getTime() - service.bufferBefore * MINUTE < to.getTime() &&
+      date.getTime() + (service.duration + service.bufferAfter) * MINUTE >
+        from.getTime()
+  );
+  if (candidates.length === 0) return [];
+
+  type Offered = (typeof candidates)[number] & { offerExpiresAt: Date };
+  const offered = await withProviderCalendarLock(providerId, async (tx) => {
+    const offered: Offered[] = [];
+    for (const entry of candidates) {
+      if (await hasBookingConflict(tx, entry.service, entry.date)) continue;
+
+      const offerExpiresAt = new Date(
+        Math.min(
+          now.getTime() + WAITLIST_OFFER_MINUTES * MINUTE,
+          entry.date.getTime()
+        )
+      );
+      const { count } = await tx.waitlistEntry.updateMany({
+        where: { id: entry.id, status: "waiting" },
+        data: { status: "offered", offeredAt: now, offerExpiresAt },
+      });
+      if (count > 0) {
+        offered.push({
+          ...entry,
+          status: "offered",
+          offeredAt: now,
+          offerExpiresAt,
+        });
+      }
+    }
+    return offered;
+  });
+
+  for (const entry of offered) {
+    await notifyWaitlistOffer(entry);
+  }
+
+  return offered;
+}
+
+// Offers the time of a booking that no longer holds it, e.g. one that was
+// cancelled, to the waitlist
+export async function offerBookingTime(
+  booking: { providerId: string; serviceId: string; date: Date },
+  now: Date = new Date()
+): Promise<WaitlistEntry[]> {
+  if (booking.date <= now) return [];
+
+  const service = await prisma.service.findUnique({
+    where: { id: booking.serviceId },
+    select: { duration: true, bufferBefore: true, bufferAfter: true },
+  });
+  if (!service) return [];
+
+  return offerWaitlistedTimes(
+    booking.providerId,
+    new Date(booking.date.getTime() - service.bufferBefore * MINUTE),
+    new Date(
+      booking.date.getTime() +
+        (service.duration + service.bufferAfter) * MINUTE
+    ),
+    now
+  );
+}
+
+// Takes the customer out of line. An open offer is passed on to the next
+// entry.
+export async function leaveWaitlist(
+  entry: WaitlistEntry,
+  now: Date = new Date()
+): Promise<{ entry: WaitlistEntry } | BookingChangeError> {
+  const { count } = await prisma.waitlistEntry.updateMany({
+    where: { id: entry.id, status: { in: ACTIVE_WAITLIST_STATUSES } },
+    data: { status: "cancelled" },
+  });
+  if (count === 0) {
+    return { error: "The entry is no longer on the waitlist", status: 400 };
+  }
+
+  if (entry.status === "offered") {
+    await offerBookingTime(entry, now);
+  }
+
+  return { entry: { ...entry, status: "cancelled", updatedAt: now } };
+}
+
+// Books the time offered to the entry for its customer while the offer is
+// open. The offer's own hold is left out of the conflict check, as the
+// booking replaces it; a time that can't be booked leaves the offer open.
+export async function claimWaitlistOffer(
+  entry: WaitlistEntry & { service: Service },
+  now: Date = new Date()
+): Promise<{ booking: Booking } | BookingChangeError> {
+  if (
+    entry.status !== "offered" ||
+    !entry.offerExpiresAt ||
+    entry.offerExpiresAt <= now
+  ) {
+    return { error: "There is no open offer for this entry", status: 409 };
+  }
+  const { service } = entry;
+  if (!service.isActive) {
+    return { error: "Service not found or unavailable", status: 404 };
+  }
+
+  const result = await withProviderCalendarLock(
+    service.providerId,
+    async (tx): Promise<Booking | BookingChangeError> => {
+      const { count } = await tx.waitlistEntry.updateMany({
+        where: {
+          id: entry.id,
+          status: "offered",
+          offerExpiresAt: { gt: now },
+        },
+        data: { status: "claimed" },
+      });
+      if (count === 0) {
+        return { error: "The offer is no longer open", status: 409 };
+      }
+
+      const booking = await createBooking(
+        tx,
+        {
+          service,
+          userId: entry.userId,
+          date: entry.date,
+          notes: entry.notes,
+          waitlistEntryId: entry.id,
+        },
+        now
+      );
+      if ("error" in booking) {
+        await tx.waitlistEntry.update({
+          where: { id: entry.id },
+          data: { status: "offered" },
+        });
+        return booking;
+      }
+
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { bookingId: booking.id },
+      });
+      return booking;
+    }
+  );
+  if ("error" in result) return result;
+
+  return { booking: result };
+}
+
+// Ends offers nobody claimed in time and passes their times on, and drops
+// entries for times that have passed
+export async function expireWaitlistOffers(
+  now: Date = new Date()
+): Promise<{ expired: string[]; offered: string[] }> {
+  const lapsed = await prisma.waitlistEntry.findMany({
+    where: { status: "offered", offerExpiresAt: { lte: now } },
+    orderBy: { offerExpiresAt: "asc" },
+    take: EXPIRY_BATCH_SIZE,
+  });
+
+  const expired: string[] = [];
+  const offered: string[] = [];
+  for (const entry of lapsed) {
+    try {
+      const { count } = await prisma.waitlistEntry.updateMany({
+        where: { id: entry.id, status: "offered" },
+        data: { status: "expired" },
+      });
+      if (count === 0) continue;
+      expired.push(entry.id);
+
+      const next = await offerBookingTime(entry, now);
+      offered.push(...next.map((nextEntry) => nextEntry.id));
+    } catch (error) {
+      console.error(`Waitlist offer expiry error for ${entry.id}:`, error);
+    }
+  }
+
+  await prisma.waitlistEntry.updateMany({
+    where: { status: "waiting", date: { lte: now } },
+    data: { status: "expired" },
+  });
+
+  return { expired, offered };
+}
+
+// The customer also sees the offer on their dashboard
+async function notifyWaitlistOffer(entry: {
+  date: Date;
+  offerExpiresAt: Date;
+  service: { name: string };
+  user: { name: string; email: string };
+}): Promise<void> {
+  try {
+    await sendMail({
+      to: entry.user.email,
+      subject: `A time for ${entry.service.name} is free`,
+      text: [
+        `Hi ${entry.user.name},`,
+        "",
+        `The time you're waiting for, ${entry.service.name} on ${entry.date.toISOString()}, is free and held for you until ${entry.offerExpiresAt.toISOString()}.`,
+        "Claim it from your bookings dashboard before then to book it.",
+        "",
+        `${APP_URL}/dashboard/bookings`,
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error("Waitlist offer email error:", error);
+  }
+}
@@ -1,30 +1,265 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getUserFromRequest } from "@/lib/auth";
+import {
+  getTokenFromRequest,
+  getUserFromRequest,
+  JWTPayload,
+} from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { hasApiKeyScope, isApiKey, verifyApiKey } from "@/lib/api-keys";
+import {
+  TWO_FACTOR_REQUIRED_ROLES,
+  TwoFactorUser,
+  hasRecentSecondFactor,
+  verifySecondFactor,
+} from "@/lib/mfa";
+import {
+  checkSecondFactorAllowed,
+  clearFailedSecondFactors,
+  recordFailedSecondFactor,
+} from "@/lib/login-throttle";
+import { ApiKeyScope, Permission, hasPermission } from "@/lib/permissions";
+import { isApprovedProvider } from "@/lib/provider-onboarding";
+import { getClientIp, logSecurityEvent } from "@/lib/security";
+import { hasValidCsrfToken } from "@/lib/session-cookies";
 
+// Methods an impersonating admin may use anywhere; everything else needs the
+// route to opt in with allowImpersonation
+const IMPERSONATION_SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Accepts an access token or, on routes that name an apiKeyScope, a partner
+// API key holding that scope
 export function withAuth(
-  handler: (request: NextRequest, user: any) => Promise<NextResponse>
+  handler: (request: NextRequest, user: JWTPayload) => Promise<NextResponse>,
+  options: { apiKeyScope?: ApiKeyScope; allowImpersonation?: boolean } = {}
 ) {
   return async (request: NextRequest) => {
-    const user = getUserFromRequest(request);
+    const csrfError = checkCsrf(request);
+    if (csrfError) {
+      return csrfError;
+    }
+
+    const token = getTokenFromRequest(request);
+    const user =
+      token && isApiKey(token)
+        ? await verifyApiKey(token)
+        : await getUserFromRequest(request);
 
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    if (!hasApiKeyScope(user, options.apiKeyScope)) {
+      return NextResponse.json(
+        { error: "API key is not allowed to use this endpoint" },
+        { status: 403 }
+      );
+    }
+
+    const impersonationError = await checkImpersonation(
+      request,
+      user,
+      options.allowImpersonation
+    );
+    if (impersonationError) {
+      return impersonationError;
+    }
+
     return handler(request, user);
   };
 }
 
-export function withRole(roles: string[]) {
+// Routes that read the session cookie without withAuth, such as token
+// refresh, must call this themselves
+export function checkCsrf(request: NextRequest): NextResponse | null {
+  if (!hasValidCsrfToken(request)) {
+    return NextResponse.json(
+      { error: "Invalid CSRF token" },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+// Logs every request made while impersonating and refuses the ones that
+// could change data, unless the route explicitly allows them. Routes that
+// read the user with getUserFromRequest must call this themselves.
+export async function checkImpersonation(
+  request: NextRequest,
+  user: JWTPayload,
+  allowed = false
+): Promise<NextResponse | null> {
+  if (!user.impersonator) return null;
+
+  const blocked =
+    !allowed && !IMPERSONATION_SAFE_METHODS.includes(request.method);
+
+  await logSecurityEvent(
+    blocked ? "Impersonated request blocked" : "Impersonated request",
+    {
+      userId: user.userId,
+      ipAddress: getClientIp(request),
+      impersonatorId: user.impersonator.userId,
+      method: request.method,
+      path: new URL(request.url).pathname,
+    }
+  );
+
+  if (blocked) {
+    return NextResponse.json(
+      { error: "This action is not allowed while impersonating a user" },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Roles listed in TWO_FACTOR_REQUIRED_ROLES always need a completed second
+// factor; maxAgeSeconds additionally demands one completed recently.
+export function checkSecondFactor(
+  user: JWTPayload,
+  maxAgeSeconds?: number
+): NextResponse | null {
+  if (TWO_FACTOR_REQUIRED_ROLES.includes(user.role) && !user.mfa) {
+    return NextResponse.json(
+      {
+        error: "Two-factor authentication required",
+        twoFactorSetupRequired: true,
+      },
+      { status: 403 }
+    );
+  }
+
+  if (
+    maxAgeSeconds !== undefined &&
+    !hasRecentSecondFactor(user, maxAgeSeconds)
+  ) {
+    return NextResponse.json(
+      {
+        error: "Recent two-factor verification required",
+        stepUpRequired: true,
+      },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Checks a second-factor code sent by a signed-in user. Wrong codes earn a
+// delay and then a lockout; only pass `code` where recovery codes aren't
+// accepted.
+export async function checkSecondFactorCode(
+  request: NextRequest,
+  user: TwoFactorUser,
+  input: { code?: string; recoveryCode?: string }
+): Promise<NextResponse | null> {
+  const throttle = await checkSecondFactorAllowed(user.id);
+  if (!throttle.allowed) {
+    return NextResponse.json(
+      {
+        error:
+          throttle.reason === "account_locked"
+            ? "Two-factor verification is temporarily locked after too many wrong codes"
+            : "Too many wrong authentication codes, please wait and try again",
+        retryAfter: throttle.retryAfterSeconds,
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": String(throttle.retryAfterSeconds ?? 1) },
+      }
+    );
+  }
+
+  if (!(await verifySecondFactor(user, input))) {
+    await recordFailedSecondFactor(user.id, getClientIp(request));
+    return NextResponse.json(
+      { error: "Invalid authentication code" },
+      { status: 400 }
+    );
+  }
+
+  await clearFailedSecondFactors(user.id);
+  return null;
+}
+
+// For checks that depend on the request body, such as which action of a
+// multi-action endpoint is being run
+export function checkPermission(
+  user: JWTPayload,
+  permission: Permission
+): NextResponse | null {
+  if (!hasPermission(user.role, permission)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return null;
+}
+
+export function withPermission(
+  permission: Permission,
+  options: { recentSecondFactor?: number } = {}
+) {
   return (
-    handler: (request: NextRequest, user: any) => Promise<NextResponse>
+    handler: (request: NextRequest, user: JWTPayload) => Promise<NextResponse>
   ) => {
-    return withAuth(async (request: NextRequest, user: any) => {
-      if (!roles.includes(user.role)) {
-        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    return withAuth(async (request: NextRequest, user: JWTPayload) => {
+      const permissionError = checkPermission(user, permission);
+      if (permissionError) {
+        return permissionError;
+      }
+
+      const secondFactorError = checkSecondFactor(
+        user,
+        options.recentSecondFactor
+      );
+      if (secondFactorError) {
+        return secondFactorError;
       }
 
       return handler(request, user);
     });
   };
 }
+
+// Wraps an authenticated handler; use inside withAuth or withPermission.
+// Verification is read from the database because the token doesn't carry it.
+export function withVerifiedEmail(
+  handler: (request: NextRequest, user: JWTPayload) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, user: JWTPayload) => {
+    const userDoc = await prisma.user.findUnique({
+      where: { id: user.userId },
+      select: { isVerified: true },
+    });
+
+    if (!userDoc?.isVerified) {
+      return NextResponse.json(
+        { error: "Please verify your email address first" },
+        { status: 403 }
+      );
+    }
+
+    return handler(request, user);
+  };
+}
+
+// Wraps an authenticated handler like withVerifiedEmail. Providers can only
+// act as one once staff approved their verification documents; other roles
+// that hold the same permission are not affected.
+export function withApprovedProvider(
+  handler: (request: NextRequest, user: JWTPayload) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, user: JWTPayload) => {
+    if (user.role === "provider" && !(await isApprovedProvider(user.userId))) {
+      return NextResponse.json(
+        {
+          error: "Your provider account must be approved before you can list services",
+          verificationRequired: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    return handler(request, user);
+  };
+}
@@ -104,7 +104,7 @@ describe('Admin Bookings API Tests', () => {
       });
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -116,8 +116,8 @@ describe('Admin Bookings API Tests', () => {
 
       const result = await AdminBookingsGET(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
   });
 
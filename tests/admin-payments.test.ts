@@ -147,7 +147,7 @@ describe('Admin Payments API Tests', () => {
       });
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -159,8 +159,8 @@ describe('Admin Payments API Tests', () => {
 
       const result = await AdminPaymentsGET(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
 
     it('should handle server errors gracefully', async () => {
@@ -407,7 +407,7 @@ describe('Admin Payments API Tests', () => {
       });
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -422,8 +422,8 @@ describe('Admin Payments API Tests', () => {
 
       const result = await AdminPaymentsPOST(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
 
     it('should handle server errors gracefully', async () => {
@@ -159,7 +159,7 @@ describe('Admin Services API Tests', () => {
       });
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -171,8 +171,8 @@ describe('Admin Services API Tests', () => {
 
       const result = await AdminServicesGET(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
 
     it('should handle server errors gracefully', async () => {
@@ -261,7 +261,7 @@ describe('Admin Services API Tests', () => {
       });
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -276,8 +276,8 @@ describe('Admin Services API Tests', () => {
 
       const result = await AdminServicesPATCH(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
 
     it('should handle server errors gracefully', async () => {
@@ -419,7 +419,7 @@ describe('Admin Services API Tests', () => {
       expect(prisma.service.delete).not.toHaveBeenCalled();
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -431,8 +431,8 @@ describe('Admin Services API Tests', () => {
 
       const result = await AdminServicesDELETE(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
 
     it('should handle server errors gracefully', async () => {
@@ -129,7 +129,7 @@ describe('Admin Users API Tests', () => {
       });
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -141,8 +141,8 @@ describe('Admin Users API Tests', () => {
 
       const result = await AdminUsersGET(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
 
     it('should return 401 for unauthenticated user', async () => {
@@ -248,7 +248,7 @@ describe('Admin Users API Tests', () => {
       });
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -263,8 +263,8 @@ describe('Admin Users API Tests', () => {
 
       const result = await AdminUsersPATCH(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
 
     it('should handle server errors gracefully', async () => {
@@ -303,7 +303,6 @@ describe('Admin Users API Tests', () => {
       };
 
       (prisma.user.findUnique as jest.Mock).mockResolvedValue(mockUserWithRelations);
-      (prisma.user.delete as jest.Mock).mockResolvedValue(mockUser);
 
       // Mock admin user
       const mockAdminUser = { userId: 'admin123', email: 'admin@example.com', role: 'admin' };
@@ -326,9 +325,19 @@ describe('Admin Users API Tests', () => {
         },
       });
 
-      expect(prisma.user.delete).toHaveBeenCalledWith({
-        where: { id: '123' },
-      });
+      // Anonymized in place so past bookings and reviews keep their user
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: '123' },
+          data: expect.objectContaining({
+            name: 'Deleted user',
+            email: 'deleted-123@deleted.invalid',
+            phone: null,
+            address: null,
+          }),
+        })
+      );
 
       expect(result.json).toHaveBeenCalledWith({
         message: 'User deleted successfully'
@@ -438,7 +447,7 @@ describe('Admin Users API Tests', () => {
       });
     });
 
-    it('should return 401 for non-admin user', async () => {
+    it('should return 403 for non-admin user', async () => {
       // Mock non-admin user
       const mockUser = { userId: '123', email: 'test@example.com', role: 'user' };
       (getUserFromRequest as jest.Mock).mockReturnValue(mockUser);
@@ -450,8 +459,8 @@ describe('Admin Users API Tests', () => {
 
       const result = await AdminUsersDELETE(request);
 
-      expect(result.status).toHaveBeenCalledWith(401);
-      expect(result.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+      expect(result.status).toHaveBeenCalledWith(403);
+      expect(result.json).toHaveBeenCalledWith({ error: 'Forbidden' });
     });
 
     it('should handle server errors gracefully', async () => {
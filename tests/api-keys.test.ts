@@ -0,0 +1,177 @@
+import { GET as ApiKeysGET, POST as ApiKeysPOST } from '@/app/api/api-keys/route';
+import { POST as RotatePOST } from '@/app/api/api-keys/[id]/rotate/route';
+import { createMockRequest } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getTokenFromRequest, getUserFromRequest } from '@/lib/auth';
+import { hashToken } from '@/lib/security';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+const { withAuth } = jest.requireActual('@/middleware/auth');
+
+const owner = { id: 'partner1', email: 'partner@example.com', role: 'user' };
+
+const storedKey = (overrides: Record<string, unknown> = {}) => ({
+  id: 'key1',
+  userId: owner.id,
+  name: 'Property sync',
+  prefix: 'jsh_abcdefgh',
+  keyHash: hashToken('jsh_secret'),
+  scopes: ['bookings:create'],
+  expiresAt: null,
+  lastUsedAt: null,
+  revokedAt: null,
+  createdAt: new Date(),
+  user: owner,
+  ...overrides,
+});
+
+describe('API Key Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/api-keys', () => {
+    const create = (body: Record<string, unknown>) =>
+      ApiKeysPOST(createMockRequest({ method: 'POST', body }));
+
+    it('should return the secret once and store only its hash', async () => {
+      (prisma.apiKey.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'key1', name: data.name, prefix: data.prefix, scopes: data.scopes })
+      );
+
+      const result = await create({ name: 'Property sync', scopes: ['bookings:create'], expiresInDays: 90 });
+      const body = await result.json();
+
+      expect(result.status).toBe(201);
+      expect(body.key).toMatch(/^jsh_/);
+      expect(body.apiKey.prefix).toBe(body.key.slice(0, 12));
+
+      const { data } = (prisma.apiKey.create as jest.Mock).mock.calls[0][0];
+      expect(data.keyHash).toBe(hashToken(body.key));
+      expect(JSON.stringify(data)).not.toContain(body.key);
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now() + 89 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject unknown scopes', async () => {
+      const result = await create({ name: 'Sync', scopes: ['bookings:create', 'admin:all'] });
+
+      expect(result.status).toBe(400);
+      expect(prisma.apiKey.create).not.toHaveBeenCalled();
+    });
+
+    it('should cap the number of active keys', async () => {
+      (prisma.apiKey.count as jest.Mock).mockResolvedValue(10);
+
+      const result = await create({ name: 'Sync', scopes: ['bookings:read'] });
+
+      expect(result.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/api-keys', () => {
+    it('should list the caller\'s keys without hashes', async () => {
+      await ApiKeysGET(createMockRequest());
+
+      expect(prisma.apiKey.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: '123' },
+          select: expect.not.objectContaining({ keyHash: true }),
+        })
+      );
+    });
+  });
+
+  describe('POST /api/api-keys/[id]/rotate', () => {
+    it('should issue a new key and let the old one expire after a grace period', async () => {
+      (prisma.apiKey.findFirst as jest.Mock).mockResolvedValue(storedKey({ userId: '123' }));
+      (prisma.apiKey.create as jest.Mock).mockResolvedValue({ id: 'key2' });
+
+      const result = await RotatePOST(
+        createMockRequest({ method: 'POST', url: 'http://localhost/api/api-keys/key1/rotate' })
+      );
+
+      expect(result.status).toBe(200);
+      expect(prisma.apiKey.findFirst).toHaveBeenCalledWith({
+        where: { id: 'key1', userId: '123', revokedAt: null },
+      });
+      expect(prisma.apiKey.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ name: 'Property sync', scopes: ['bookings:create'] }),
+        })
+      );
+      const { data } = (prisma.apiKey.update as jest.Mock).mock.calls[0][0];
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('withAuth', () => {
+    const handler = jest.fn(async (_request: unknown, user: unknown) => ({ status: 200, user }));
+    const callWithKey = (options?: { apiKeyScope?: string }) => {
+      (getTokenFromRequest as jest.Mock).mockReturnValue('jsh_secret');
+      return withAuth(handler, options)(createMockRequest());
+    };
+
+    it('should authenticate a key as its owner on routes granting its scope', async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(storedKey());
+
+      const result = await callWithKey({ apiKeyScope: 'bookings:create' });
+
+      expect(result.status).toBe(200);
+      expect(prisma.apiKey.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { keyHash: hashToken('jsh_secret') } })
+      );
+      expect(handler.mock.calls[0][1]).toEqual({
+        userId: owner.id,
+        email: owner.email,
+        role: owner.role,
+        apiKey: { id: 'key1', scopes: ['bookings:create'] },
+      });
+      expect(prisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+      expect(getUserFromRequest).not.toHaveBeenCalled();
+    });
+
+    it('should refuse keys on routes outside their scopes', async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(storedKey());
+
+      expect((await callWithKey({ apiKeyScope: 'bookings:read' })).status).toBe(403);
+      expect((await callWithKey()).status).toBe(403);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should refuse revoked and expired keys', async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(storedKey({ revokedAt: new Date() }));
+      expect((await callWithKey({ apiKeyScope: 'bookings:create' })).status).toBe(401);
+
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(
+        storedKey({ expiresAt: new Date(Date.now() - 1000) })
+      );
+      expect((await callWithKey({ apiKeyScope: 'bookings:create' })).status).toBe(401);
+    });
+
+    it('should not rewrite lastUsedAt on every request', async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(
+        storedKey({ lastUsedAt: new Date(Date.now() - 5000) })
+      );
+
+      await callWithKey({ apiKeyScope: 'bookings:create' });
+
+      expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep accepting access tokens', async () => {
+      const sessionUser = { userId: '123', email: 'test@example.com', role: 'user', sid: 's1' };
+      (getTokenFromRequest as jest.Mock).mockReturnValue('jwt.access.token');
+      (getUserFromRequest as jest.Mock).mockResolvedValue(sessionUser);
+
+      const result = await withAuth(handler)(createMockRequest());
+
+      expect(result.status).toBe(200);
+      expect(handler.mock.calls[0][1]).toBe(sessionUser);
+    });
+  });
+});
@@ -2,7 +2,7 @@ import { POST } from '@/app/api/auth/login/route';
 import { POST as RegisterPOST } from '@/app/api/auth/register/route';
 import { createMockRequest, createMockResponse, createMockUser } from './test-utils';
 import { prisma } from '@/lib/prisma';
-import { comparePassword, generateToken } from '@/lib/auth';
+import { comparePassword, createSession } from '@/lib/auth';
 
 jest.mock('@/lib/prisma');
 jest.mock('@/lib/auth');
@@ -16,6 +16,7 @@ describe('Auth API Tests', () => {
     it('should login successfully with valid credentials', async () => {
       const mockUser = createMockUser();
       const mockToken = 'mock_jwt_token';
+      const mockRefreshToken = 'mock_refresh_token';
 
       // Mock Prisma user findUnique
       (prisma.user.findUnique as jest.Mock).mockResolvedValue(mockUser);
@@ -23,8 +24,8 @@ describe('Auth API Tests', () => {
       // Mock password comparison
       (comparePassword as jest.Mock).mockReturnValue(true);
       
-      // Mock token generation
-      (generateToken as jest.Mock).mockReturnValue(mockToken);
+      // Mock session creation
+      (createSession as jest.Mock).mockResolvedValue({ token: mockToken, refreshToken: mockRefreshToken });
 
       const request = createMockRequest({
         method: 'POST',
@@ -42,11 +43,11 @@ describe('Auth API Tests', () => {
       });
       
       expect(comparePassword).toHaveBeenCalledWith('correct_password', 'hashed_password');
-      expect(generateToken).toHaveBeenCalledWith({
+      expect(createSession).toHaveBeenCalledWith({
         userId: '123',
         email: 'test@example.com',
         role: 'user'
-      });
+      }, request);
       
       expect(result.json).toHaveBeenCalledWith({
         message: 'Login successful',
@@ -56,7 +57,8 @@ describe('Auth API Tests', () => {
           email: 'test@example.com',
           role: 'user'
         },
-        token: mockToken
+        token: mockToken,
+        refreshToken: mockRefreshToken
       });
     });
 
@@ -144,11 +146,12 @@ describe('Auth API Tests', () => {
     it('should register successfully with valid data', async () => {
       const mockUser = createMockUser();
       const mockToken = 'mock_jwt_token';
+      const mockRefreshToken = 'mock_refresh_token';
 
       // Mock user not existing
       (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
       (prisma.user.create as jest.Mock).mockResolvedValue(mockUser);
-      (generateToken as jest.Mock).mockReturnValue(mockToken);
+      (createSession as jest.Mock).mockResolvedValue({ token: mockToken, refreshToken: mockRefreshToken });
 
       const request = createMockRequest({
         method: 'POST',
@@ -187,7 +190,8 @@ describe('Auth API Tests', () => {
           email: 'test@example.com',
           role: 'user'
         },
-        token: mockToken
+        token: mockToken,
+        refreshToken: mockRefreshToken
       });
     });
 
@@ -0,0 +1,224 @@
+import { POST as BookingsPOST } from '@/app/api/bookings/route';
+import { POST as ServicesPOST } from '@/app/api/services/route';
+import { POST as ExceptionsPOST } from '@/app/api/availability/exceptions/route';
+import { createMockRequest, createMockService } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getUserFromRequest } from '@/lib/auth';
+import {
+  ScheduleException,
+  WeeklyAvailability,
+  isWithinAvailability,
+  weeklyAvailabilitySchema,
+} from '@/lib/availability';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+const weekdays: WeeklyAvailability = {
+  monday: [
+    { start: '09:00', end: '12:00' },
+    { start: '13:00', end: '17:00' },
+  ],
+  tuesday: [{ start: '09:00', end: '17:00' }],
+};
+
+const exception = (overrides: Partial<ScheduleException> = {}): ScheduleException => ({
+  serviceId: null,
+  startDate: new Date('2026-01-05T00:00:00Z'),
+  endDate: new Date('2026-01-05T00:00:00Z'),
+  ranges: [],
+  ...overrides,
+});
+
+describe('Availability Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isWithinAvailability', () => {
+    it('should check bookings against the provider\'s wall clock', () => {
+      // 2026-01-05 is a Monday; New York is UTC-5 in winter
+      expect(isWithinAvailability(new Date('2026-01-05T15:00:00Z'), 60, weekdays, 'America/New_York', [])).toBe(true);
+      expect(isWithinAvailability(new Date('2026-01-05T15:00:00Z'), 60, weekdays, 'Asia/Tokyo', [])).toBe(false);
+      // Monday 03:00 UTC is still Sunday night in New York
+      expect(isWithinAvailability(new Date('2026-01-05T03:00:00Z'), 60, weekdays, 'America/New_York', [])).toBe(false);
+    });
+
+    it('should follow daylight saving time', () => {
+      // 09:00 in New York is 14:00 UTC in January and 13:00 UTC after the March change
+      expect(isWithinAvailability(new Date('2026-01-05T13:30:00Z'), 30, weekdays, 'America/New_York', [])).toBe(false);
+      expect(isWithinAvailability(new Date('2026-03-09T13:30:00Z'), 30, weekdays, 'America/New_York', [])).toBe(true);
+    });
+
+    it('should require the whole booking to fit in one range', () => {
+      expect(isWithinAvailability(new Date('2026-01-05T11:00:00Z'), 60, weekdays, 'UTC', [])).toBe(true);
+      expect(isWithinAvailability(new Date('2026-01-05T11:30:00Z'), 60, weekdays, 'UTC', [])).toBe(false);
+      expect(isWithinAvailability(new Date('2026-01-06T16:30:00Z'), 60, weekdays, 'UTC', [])).toBe(false);
+    });
+
+    it('should apply blackout dates and special hours', () => {
+      const monday = new Date('2026-01-05T10:00:00Z');
+      const saturday = new Date('2026-01-10T10:00:00Z');
+
+      expect(isWithinAvailability(monday, 60, weekdays, 'UTC', [exception()])).toBe(false);
+      expect(isWithinAvailability(saturday, 60, weekdays, 'UTC', [])).toBe(false);
+      expect(
+        isWithinAvailability(saturday, 60, weekdays, 'UTC', [
+          exception({
+            startDate: new Date('2026-01-10T00:00:00Z'),
+            endDate: new Date('2026-01-11T00:00:00Z'),
+            ranges: [{ start: '10:00', end: '14:00' }],
+          }),
+        ])
+      ).toBe(true);
+    });
+
+    it('should let a service exception win over a provider-wide one', () => {
+      const monday = new Date('2026-01-05T10:00:00Z');
+
+      expect(
+        isWithinAvailability(monday, 60, weekdays, 'UTC', [
+          exception(),
+          exception({ serviceId: 'service123', ranges: [{ start: '10:00', end: '11:00' }] }),
+        ])
+      ).toBe(true);
+    });
+  });
+
+  describe('weeklyAvailabilitySchema', () => {
+    it('should reject overlapping ranges, unknown days and the old format', () => {
+      expect(
+        weeklyAvailabilitySchema.safeParse({
+          monday: [
+            { start: '09:00', end: '13:00' },
+            { start: '12:00', end: '17:00' },
+          ],
+        }).success
+      ).toBe(false);
+      expect(weeklyAvailabilitySchema.safeParse({ holiday: [] }).success).toBe(false);
+      expect(
+        weeklyAvailabilitySchema.safeParse({ days: ['monday'], startTime: '09:00', endTime: '17:00' }).success
+      ).toBe(false);
+      expect(weeklyAvailabilitySchema.safeParse({ friday: [{ start: '18:00', end: '24:00' }] }).success).toBe(true);
+    });
+  });
+
+  describe('POST /api/services', () => {
+    it('should reject invalid availability', async () => {
+      const result = await ServicesPOST(
+        createMockRequest({
+          method: 'POST',
+          body: {
+            name: 'Deep clean',
+            description: 'Whole apartment',
+            category: 'Cleaning',
+            price: 80,
+            duration: 120,
+            location: 'Berlin',
+            availability: { monday: [{ start: '17:00', end: '09:00' }] },
+          },
+        })
+      );
+
+      expect(result.status).toBe(400);
+      expect(prisma.service.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/bookings', () => {
+    const book = (date: string) =>
+      BookingsPOST(createMockRequest({ method: 'POST', body: { serviceId: 'service123', date } }));
+
+    beforeEach(() => {
+      (prisma.service.findUnique as jest.Mock).mockResolvedValue(
+        createMockService({ availability: weekdays })
+      );
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ timeZone: 'Europe/Berlin' });
+      (prisma.booking.create as jest.Mock).mockResolvedValue({ id: 'booking123', service: {} });
+    });
+
+    it('should reject bookings outside the provider\'s hours', async () => {
+      // 08:30 in Berlin
+      const result = await book('2026-01-05T07:30:00Z');
+
+      expect(result.status).toBe(400);
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject bookings on a blackout date', async () => {
+      (prisma.availabilityException.findMany as jest.Mock).mockResolvedValue([exception()]);
+
+      const result = await book('2026-01-05T09:00:00Z');
+
+      expect(result.status).toBe(400);
+      expect(prisma.availabilityException.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          providerId: 'provider123',
+          OR: [{ serviceId: null }, { serviceId: 'service123' }],
+        }),
+      });
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+    });
+
+    it('should accept bookings within the provider\'s hours', async () => {
+      (prisma.availabilityException.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await book('2026-01-05T09:00:00Z');
+
+      expect(result.status).toBe(201);
+      expect(prisma.booking.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/availability/exceptions', () => {
+    const create = (body: Record<string, unknown>) =>
+      ExceptionsPOST(createMockRequest({ method: 'POST', body }));
+
+    beforeEach(() => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should create a blackout date for all services', async () => {
+      (prisma.availabilityException.create as jest.Mock).mockImplementation(async ({ data }) => ({
+        id: 'exception1',
+        ...data,
+      }));
+
+      const result = await create({ startDate: '2026-12-25', reason: 'Christmas' });
+      const body = await result.json();
+
+      expect(result.status).toBe(201);
+      expect(prisma.availabilityException.create).toHaveBeenCalledWith({
+        data: {
+          providerId: 'provider123',
+          serviceId: null,
+          startDate: new Date('2026-12-25T00:00:00Z'),
+          endDate: new Date('2026-12-25T00:00:00Z'),
+          ranges: [],
+          reason: 'Christmas',
+        },
+      });
+      expect(body.exception.endDate).toBe('2026-12-25');
+    });
+
+    it('should reject date ranges that end before they start', async () => {
+      const result = await create({ startDate: '2026-12-25', endDate: '2026-12-24' });
+
+      expect(result.status).toBe(400);
+      expect(prisma.availabilityException.create).not.toHaveBeenCalled();
+    });
+
+    it('should only attach exceptions to the provider\'s own services', async () => {
+      (prisma.service.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const result = await create({ startDate: '2026-12-25', serviceId: 'someone-elses' });
+
+      expect(result.status).toBe(404);
+      expect(prisma.service.findFirst).toHaveBeenCalledWith({
+        where: { id: 'someone-elses', providerId: 'provider123' },
+        select: { id: true },
+      });
+      expect(prisma.availabilityException.create).not.toHaveBeenCalled();
+    });
+  });
+});
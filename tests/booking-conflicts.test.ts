@@ -0,0 +1,149 @@
+import { POST as BookingsPOST } from '@/app/api/bookings/route';
+import { createMockRequest, createMockService } from './test-utils';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma');
+
+interface StoredBooking {
+  id: string;
+  serviceId: string;
+  providerId: string;
+  date: Date;
+  status: string;
+}
+
+// Lets other pending requests run, like a database round trip would
+const roundTrip = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Booking Conflict Tests', () => {
+  const services = new Map<string, ReturnType<typeof createMockService>>();
+  let bookings: StoredBooking[] = [];
+  let locks: Map<string, Promise<void>>;
+
+  const addService = (overrides: Record<string, unknown>) => {
+    const service = createMockService(overrides);
+    services.set(service.id, service);
+  };
+
+  const book = (serviceId: string, date: string) =>
+    BookingsPOST(createMockRequest({ method: 'POST', body: { serviceId, date } }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    services.clear();
+    bookings = [];
+    locks = new Map();
+
+    addService({ id: 'cleaning', duration: 120 });
+    addService({ id: 'windows', duration: 60 });
+    addService({ id: 'other-provider', providerId: 'provider456', duration: 120 });
+
+    (prisma.service.findUnique as jest.Mock).mockImplementation(async ({ where }) => services.get(where.id) ?? null);
+
+    (prisma.booking.findMany as jest.Mock).mockImplementation(async ({ where }) => {
+      await roundTrip();
+      return bookings
+        .filter(
+          (booking) =>
+            booking.providerId === where.providerId &&
+            where.status.in.includes(booking.status) &&
+            booking.date >= where.date.gte &&
+            booking.date < where.date.lt
+        )
+        .map((booking) => ({ date: booking.date, service: services.get(booking.serviceId) }));
+    });
+
+    (prisma.booking.create as jest.Mock).mockImplementation(async ({ data }) => {
+      await roundTrip();
+      const booking = { id: `booking${bookings.length + 1}`, status: 'pending', ...data };
+      bookings.push(booking);
+      return booking;
+    });
+
+    // Advisory locks: a transaction that asks for a held key waits until the
+    // transaction holding it ends
+    (prisma.$transaction as jest.Mock).mockImplementation(async (fn) => {
+      const released: (() => void)[] = [];
+      const tx = {
+        ...prisma,
+        $executeRaw: jest.fn(async (_sql: TemplateStringsArray, ...values: unknown[]) => {
+          const key = values.join(':');
+          while (locks.has(key)) {
+            await locks.get(key);
+          }
+          locks.set(key, new Promise<void>((resolve) => released.push(() => {
+            locks.delete(key);
+            resolve();
+          })));
+          return 1;
+        }),
+      };
+
+      try {
+        return await fn(tx);
+      } finally {
+        released.forEach((release) => release());
+      }
+    });
+  });
+
+  it('should let only one of two simultaneous requests for the same time through', async () => {
+    const results = await Promise.all([
+      book('cleaning', '2030-01-07T10:00:00Z'),
+      book('cleaning', '2030-01-07T10:00:00Z'),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([201, 400]);
+    expect(bookings).toHaveLength(1);
+  });
+
+  it('should serialize simultaneous requests across the provider\'s services', async () => {
+    const results = await Promise.all([
+      book('cleaning', '2030-01-07T10:00:00Z'),
+      book('windows', '2030-01-07T11:00:00Z'),
+      book('windows', '2030-01-07T12:30:00Z'),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([201, 400, 201]);
+    expect(bookings.map((booking) => booking.serviceId)).toEqual(['cleaning', 'windows']);
+  });
+
+  it('should not make different providers wait for each other', async () => {
+    const results = await Promise.all([
+      book('cleaning', '2030-01-07T10:00:00Z'),
+      book('other-provider', '2030-01-07T10:00:00Z'),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([201, 201]);
+  });
+
+  it('should reject bookings that overlap by part of the duration', async () => {
+    expect((await book('cleaning', '2030-01-07T10:00:00Z')).status).toBe(201);
+
+    expect((await book('cleaning', '2030-01-07T10:10:00Z')).status).toBe(400);
+    expect((await book('windows', '2030-01-07T09:30:00Z')).status).toBe(400);
+    expect(bookings).toHaveLength(1);
+  });
+
+  it('should allow back-to-back bookings unless a buffer is in the way', async () => {
+    expect((await book('cleaning', '2030-01-07T10:00:00Z')).status).toBe(201);
+    expect((await book('windows', '2030-01-07T12:00:00Z')).status).toBe(201);
+    expect((await book('windows', '2030-01-07T09:00:00Z')).status).toBe(201);
+
+    addService({ id: 'windows', duration: 60, bufferBefore: 30 });
+    expect((await book('windows', '2030-01-07T13:15:00Z')).status).toBe(400);
+    expect((await book('windows', '2030-01-07T13:30:00Z')).status).toBe(201);
+  });
+
+  it('should ignore cancelled bookings', async () => {
+    bookings.push({
+      id: 'cancelled1',
+      serviceId: 'cleaning',
+      providerId: 'provider123',
+      date: new Date('2030-01-07T10:00:00Z'),
+      status: 'cancelled',
+    });
+
+    expect((await book('cleaning', '2030-01-07T10:00:00Z')).status).toBe(201);
+  });
+});
@@ -0,0 +1,155 @@
+import { PUT as BookingPUT } from '@/app/api/bookings/[id]/route';
+import { GET as TimelineGET } from '@/app/api/bookings/[id]/timeline/route';
+import { POST as AdminPaymentsPOST } from '@/app/api/admin/payments/route';
+import { createMockPendingBooking, createMockRequest, mockCustomer, mockProvider } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getUserFromRequest } from '@/lib/auth';
+import { stripe } from '@/lib/stripe';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const putAs = BookingPUT as unknown as (request: unknown, user: unknown) => ReturnType<typeof BookingPUT>;
+const timelineAs = TimelineGET as unknown as (request: unknown, user: unknown) => ReturnType<typeof TimelineGET>;
+
+const support = { userId: 'support1', email: 'support@example.com', role: 'support' };
+const finance = { userId: 'finance1', email: 'finance@example.com', role: 'finance', mfa: Math.floor(Date.now() / 1000) };
+
+const put = (body: Record<string, unknown>, user: unknown) =>
+  putAs(createMockRequest({ method: 'PUT', url: 'http://localhost:3000/api/bookings/booking123', body }), user);
+
+describe('Booking Timeline Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.booking.findUnique as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('recording changes', () => {
+    it('should record a status change with its actor and reason', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(createMockPendingBooking({ status: 'pending' }));
+
+      const result = await put({ status: 'cancelled', reason: 'Double-booked myself' }, mockProvider);
+
+      expect(result.status).toBe(200);
+      expect(prisma.bookingEvent.create).toHaveBeenCalledWith({
+        data: {
+          bookingId: 'booking123',
+          type: 'status_changed',
+          actor: 'provider',
+          actorId: 'provider123',
+          fromValue: 'pending',
+          toValue: 'cancelled',
+          reason: 'Double-booked myself',
+        },
+      });
+    });
+
+    it('should not record a change that did not happen', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockPendingBooking({ status: 'pending' }));
+      (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const stale = await put({ status: 'cancelled' }, mockCustomer);
+      const sameNotes = await put({ notes: 'Test booking notes' }, mockCustomer);
+
+      expect(stale.status).toBe(409);
+      expect(sameNotes.status).toBe(200);
+      expect(prisma.bookingEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should record note edits with the old and new text', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(createMockPendingBooking());
+      (prisma.booking.update as jest.Mock).mockResolvedValueOnce(createMockPendingBooking({ notes: 'Gate code 1234' }));
+
+      await put({ notes: 'Gate code 1234' }, mockCustomer);
+
+      expect(prisma.bookingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'notes_changed',
+          actor: 'customer',
+          fromValue: 'Test booking notes',
+          toValue: 'Gate code 1234',
+        }),
+      });
+    });
+
+    it('should reject overly long reasons', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(createMockPendingBooking());
+
+      const result = await put({ status: 'cancelled', reason: 'x'.repeat(501) }, mockCustomer);
+
+      expect(result.status).toBe(400);
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should record refunds only once Stripe accepts them', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(finance);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(
+        createMockPendingBooking({ status: 'completed', paymentStatus: 'paid', stripePaymentId: 'pi_test123' })
+      );
+      (stripe!.refunds.create as jest.Mock).mockRejectedValueOnce(new Error('Card expired'));
+      const refund = () =>
+        AdminPaymentsPOST(
+          createMockRequest({
+            method: 'POST',
+            body: { action: 'refund', bookingId: 'booking123', reason: 'Service not delivered' },
+          })
+        );
+
+      expect((await refund()).status).toBe(400);
+      expect(prisma.bookingEvent.create).not.toHaveBeenCalled();
+
+      expect((await refund()).status).toBe(200);
+      expect(prisma.bookingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'payment_changed',
+          actor: 'staff',
+          actorId: 'finance1',
+          fromValue: 'paid',
+          toValue: 'refunded',
+          reason: 'Service not delivered',
+        }),
+      });
+    });
+  });
+
+  describe('GET /api/bookings/[id]/timeline', () => {
+    const timeline = (user: unknown) =>
+      timelineAs(createMockRequest({ url: 'http://localhost:3000/api/bookings/booking123/timeline' }), user);
+
+    it('should show the history to both parties and staff', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockPendingBooking());
+      (prisma.bookingEvent.findMany as jest.Mock).mockResolvedValue([
+        { id: 'event1', type: 'created', actor: 'customer', toValue: 'pending' },
+      ]);
+
+      for (const user of [mockCustomer, mockProvider, support]) {
+        const result = await timeline(user);
+        const body = await result.json();
+
+        expect(result.status).toBe(200);
+        expect(body.events).toHaveLength(1);
+      }
+      expect(prisma.bookingEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { bookingId: 'booking123' }, orderBy: { createdAt: 'asc' } })
+      );
+    });
+
+    it('should hide the history from everyone else', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(createMockPendingBooking());
+      const stranger = { userId: 'someone', email: 'someone@example.com', role: 'user' };
+
+      const result = await timeline(stranger);
+
+      expect(result.status).toBe(403);
+      expect(prisma.bookingEvent.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown bookings', async () => {
+      const result = await timeline(mockCustomer);
+
+      expect(result.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { DELETE as BookingDELETE } from '@/app/api/bookings/[id]/route';
+import { POST as PaymentIntentPOST } from '@/app/api/payments/create-payment-intent/route';
+import { createMockPendingBooking, createMockRequest, mockCustomer } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getUserFromRequest } from '@/lib/auth';
+import redis from '@/lib/redis';
+import { stripe } from '@/lib/stripe';
+import { expireUnpaidBookings, paymentDueAt } from '@/lib/booking-expiry';
+import { runDueJobs } from '@/lib/jobs';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const deleteAs = BookingDELETE as unknown as (request: unknown, user: unknown) => ReturnType<typeof BookingDELETE>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const now = new Date('2030-01-07T12:00:00Z');
+
+describe('Booking Expiry Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.booking.findUnique as jest.Mock).mockResolvedValue(null);
+    (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({ status: 'requires_payment_method' });
+  });
+
+  describe('paymentDueAt', () => {
+    it('should hold a booking for the payment window but not past its start', () => {
+      const soon = new Date(now.getTime() + 10 * MINUTE);
+
+      expect(paymentDueAt(new Date('2030-01-10T10:00:00Z'), now)).toEqual(new Date(now.getTime() + 30 * MINUTE));
+      expect(paymentDueAt(soon, now)).toEqual(soon);
+    });
+
+    it('should give later occurrences of a series until shortly before they start', () => {
+      const later = new Date('2030-01-21T10:00:00Z');
+      const tomorrow = new Date(now.getTime() + 24 * HOUR);
+
+      expect(paymentDueAt(later, now, { inSeries: true })).toEqual(new Date(later.getTime() - 48 * HOUR));
+      expect(paymentDueAt(tomorrow, now, { inSeries: true })).toEqual(new Date(now.getTime() + 30 * MINUTE));
+    });
+  });
+
+  describe('expireUnpaidBookings', () => {
+    it('should cancel unpaid bookings whose payment is due', async () => {
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([createMockPendingBooking({ stripePaymentId: 'pi_test123' })]);
+
+      const result = await expireUnpaidBookings(now);
+
+      expect(result).toEqual({ expired: ['booking123'], paid: [], kept: [] });
+      expect(prisma.booking.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'pending', paymentStatus: 'pending', paymentDueAt: { lte: now } },
+        })
+      );
+      expect(stripe!.paymentIntents.cancel).toHaveBeenCalledWith('pi_test123');
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', status: 'pending' },
+        data: { status: 'cancelled', cancellationFee: 0 },
+      });
+      expect(prisma.bookingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ actor: 'system', actorId: null, reason: 'Not paid in time' }),
+      });
+    });
+
+    it('should keep a booking whose payment is being processed', async () => {
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([createMockPendingBooking({ stripePaymentId: 'pi_test123' })]);
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({ status: 'processing' });
+
+      const result = await expireUnpaidBookings(now);
+
+      expect(result).toEqual({ expired: [], paid: [], kept: ['booking123'] });
+      expect(stripe!.paymentIntents.cancel).not.toHaveBeenCalled();
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should mark a booking paid when its payment went through unconfirmed', async () => {
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([createMockPendingBooking({ stripePaymentId: 'pi_test123' })]);
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({ status: 'succeeded' });
+
+      const result = await expireUnpaidBookings(now);
+
+      expect(result).toEqual({ expired: [], paid: ['booking123'], kept: [] });
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', paymentStatus: 'pending' },
+        data: { paymentStatus: 'paid', paidAt: now, stripePaymentId: 'pi_test123' },
+      });
+    });
+  });
+
+  describe('POST /api/payments/create-payment-intent', () => {
+    const createIntent = () =>
+      PaymentIntentPOST(createMockRequest({ method: 'POST', body: { bookingId: 'booking123' } }) as never);
+
+    beforeEach(() => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(mockCustomer);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockPendingBooking({ stripePaymentId: 'pi_old' }));
+      (stripe!.paymentIntents.create as jest.Mock).mockResolvedValue({ id: 'pi_new', client_secret: 'secret' });
+    });
+
+    it('should cancel the earlier intent before making a new one', async () => {
+      const result = await createIntent();
+
+      expect(result.status).toBe(200);
+      expect(stripe!.paymentIntents.cancel).toHaveBeenCalledWith('pi_old');
+      expect(prisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking123' },
+        data: { stripePaymentId: 'pi_new' },
+      });
+    });
+
+    it('should not make a new intent while the earlier one is being processed', async () => {
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({ status: 'processing' });
+
+      const result = await createIntent();
+
+      expect(result.status).toBe(409);
+      expect(stripe!.paymentIntents.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runDueJobs', () => {
+    it('should run only the jobs this instance claims', async () => {
+      const claimed = { name: 'claimed', intervalSeconds: 60, run: jest.fn() };
+      const taken = { name: 'taken', intervalSeconds: 60, run: jest.fn() };
+      (redis.set as jest.Mock).mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+
+      const ran = await runDueJobs(now, [claimed, taken]);
+
+      expect(ran).toEqual(['claimed']);
+      expect(redis.set).toHaveBeenCalledWith('jobs:claimed', now.toISOString(), 'EX', 60, 'NX');
+      expect(claimed.run).toHaveBeenCalledWith(now);
+      expect(taken.run).not.toHaveBeenCalled();
+    });
+
+    it('should keep running jobs after one fails', async () => {
+      const failing = { name: 'failing', intervalSeconds: 60, run: jest.fn().mockRejectedValue(new Error('Boom')) };
+      const next = { name: 'next', intervalSeconds: 60, run: jest.fn() };
+      (redis.set as jest.Mock).mockResolvedValue('OK');
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const ran = await runDueJobs(now, [failing, next]);
+
+      expect(ran).toEqual(['next']);
+      expect(consoleError).toHaveBeenCalledWith('Job failing error:', expect.any(Error));
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('DELETE /api/bookings/[id]', () => {
+    it('should cancel the payment intent of an unpaid booking', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockPendingBooking({ stripePaymentId: 'pi_test123' }));
+
+      const result = await deleteAs(
+        createMockRequest({ method: 'DELETE', url: 'http://localhost:3000/api/bookings/booking123' }),
+        mockCustomer
+      );
+
+      expect(result.status).toBe(200);
+      expect(stripe!.paymentIntents.cancel).toHaveBeenCalledWith('pi_test123');
+    });
+
+    it('should not cancel while a payment is being processed', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockPendingBooking({ stripePaymentId: 'pi_test123' }));
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({ status: 'processing' });
+
+      const result = await deleteAs(
+        createMockRequest({ method: 'DELETE', url: 'http://localhost:3000/api/bookings/booking123' }),
+        mockCustomer
+      );
+
+      expect(result.status).toBe(409);
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
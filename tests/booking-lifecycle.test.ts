@@ -0,0 +1,258 @@
+import { PUT as BookingPUT, DELETE as BookingDELETE } from '@/app/api/bookings/[id]/route';
+import { PATCH as AdminBookingsPATCH } from '@/app/api/admin/bookings/route';
+import { POST as AdminPaymentsPOST } from '@/app/api/admin/payments/route';
+import { POST as ConfirmPOST } from '@/app/api/payments/confirm/route';
+import { createMockPendingBooking, createMockRequest, mockAdmin, mockCustomer, mockProvider } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getUserFromRequest } from '@/lib/auth';
+import { sendMail } from '@/lib/mail';
+import { stripe } from '@/lib/stripe';
+import { checkBookingTransition } from '@/lib/booking-lifecycle';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const putAs = BookingPUT as unknown as (request: unknown, user: unknown) => ReturnType<typeof BookingPUT>;
+const deleteAs = BookingDELETE as unknown as (request: unknown, user: unknown) => ReturnType<typeof BookingDELETE>;
+
+const now = new Date('2030-01-07T12:00:00Z');
+
+const bookingUrl = 'http://localhost:3000/api/bookings/booking123';
+
+describe('Booking Lifecycle Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.booking.findUnique as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('checkBookingTransition', () => {
+    const check = (status: string, to: string, actor: string, overrides: Record<string, unknown> = {}) =>
+      checkBookingTransition(
+        createMockPendingBooking({ status, ...overrides }),
+        to as never,
+        actor as never,
+        now
+      )?.error ?? null;
+
+    it('should only allow the next step in the lifecycle', () => {
+      expect(check('pending', 'confirmed', 'provider')).toBeNull();
+      expect(check('pending', 'completed', 'provider')).toMatch(/cannot be changed to completed/);
+      expect(check('completed', 'cancelled', 'customer')).toMatch(/cannot be changed/);
+      expect(check('cancelled', 'pending', 'staff')).toMatch(/cannot be changed/);
+    });
+
+    it('should limit each step to the parties allowed to take it', () => {
+      expect(check('pending', 'confirmed', 'customer')).toMatch(/cannot make this change/);
+      expect(check('confirmed', 'cancelled', 'customer')).toBeNull();
+      expect(check('in_progress', 'cancelled', 'provider')).toMatch(/cannot make this change/);
+      expect(check('in_progress', 'cancelled', 'staff')).toBeNull();
+    });
+
+    it('should guard on the start time and payment', () => {
+      const started = { date: new Date('2030-01-07T11:00:00Z') };
+
+      expect(check('in_progress', 'completed', 'provider', { paymentStatus: 'paid' })).toMatch(/before its start time/);
+      expect(check('in_progress', 'completed', 'provider', started)).toMatch(/unpaid/);
+      expect(check('in_progress', 'completed', 'provider', { ...started, paymentStatus: 'paid' })).toBeNull();
+      expect(check('confirmed', 'in_progress', 'provider')).toMatch(/minutes before its start time/);
+      expect(check('confirmed', 'in_progress', 'provider', { date: new Date('2030-01-07T12:20:00Z') })).toBeNull();
+      expect(check('pending', 'confirmed', 'provider', started)).toMatch(/start time has passed/);
+    });
+  });
+
+  describe('PUT /api/bookings/[id]', () => {
+    const put = (body: Record<string, unknown>, user: unknown) =>
+      putAs(createMockRequest({ method: 'PUT', url: bookingUrl, body }), user);
+
+    it('should move the booking only from the status it was read in', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(createMockPendingBooking({ status: 'pending' }));
+
+      const result = await put({ status: 'confirmed' }, mockProvider);
+
+      expect(result.status).toBe(200);
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', status: 'pending' },
+        data: { status: 'confirmed' },
+      });
+    });
+
+    it('should return 409 when the booking changed in the meantime', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(createMockPendingBooking({ status: 'pending' }));
+      (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const result = await put({ status: 'confirmed' }, mockProvider);
+
+      expect(result.status).toBe(409);
+    });
+
+    it('should not let a customer reopen or complete a booking', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockPendingBooking({ status: 'completed' }));
+
+      expect((await put({ status: 'cancelled' }, mockCustomer)).status).toBe(400);
+      expect((await put({ status: 'pending' }, mockCustomer)).status).toBe(400);
+      expect((await put({ status: 'archived' }, mockCustomer)).status).toBe(400);
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refund a paid booking on cancellation and tell the provider', async () => {
+      (prisma.booking.findUnique as jest.Mock)
+        .mockResolvedValueOnce(createMockPendingBooking({ status: 'confirmed', paymentStatus: 'paid', stripePaymentId: 'pi_test123' }))
+        .mockResolvedValueOnce({
+          service: { name: 'Test Service' },
+          user: { name: 'Test User', email: 'test@example.com' },
+          provider: { name: 'Provider', email: 'provider@example.com' },
+        });
+
+      const result = await put({ status: 'cancelled' }, mockCustomer);
+
+      expect(result.status).toBe(200);
+      expect(stripe!.refunds.create).toHaveBeenCalledWith({ payment_intent: 'pi_test123', amount: undefined });
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', paymentStatus: 'paid' },
+        data: { paymentStatus: 'refunded', refundedAt: expect.any(Date), refundedAmount: 100 },
+      });
+      expect(sendMail).toHaveBeenCalledTimes(1);
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'provider@example.com' }));
+    });
+  });
+
+  describe('DELETE /api/bookings/[id]', () => {
+    it('should cancel through the lifecycle', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(createMockPendingBooking({ status: 'pending' }));
+
+      const result = await deleteAs(createMockRequest({ method: 'DELETE', url: bookingUrl }), mockCustomer);
+
+      expect(result.status).toBe(200);
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', status: 'pending' },
+        data: { status: 'cancelled', cancellationFee: 0 },
+      });
+    });
+  });
+
+  describe('PATCH /api/admin/bookings', () => {
+    const patch = (body: Record<string, unknown>) =>
+      AdminBookingsPATCH(createMockRequest({ method: 'PATCH', body }));
+
+    beforeEach(() => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(mockAdmin);
+    });
+
+    it('should not write arbitrary fields or payment status', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockPendingBooking({ status: 'pending' }));
+
+      const result = await patch({ bookingId: 'booking123', paymentStatus: 'paid', totalPrice: 0 });
+
+      expect(result.status).toBe(400);
+      expect(prisma.booking.update).not.toHaveBeenCalled();
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should apply staff transitions and guards', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockPendingBooking({ status: 'confirmed' }));
+
+      const early = await patch({ bookingId: 'booking123', status: 'completed' });
+      const cancelled = await patch({ bookingId: 'booking123', status: 'cancelled', notes: 'Provider sick' });
+
+      expect(early.status).toBe(400);
+      expect(cancelled.status).toBe(200);
+      expect(prisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking123' },
+        data: { notes: 'Provider sick' },
+      });
+    });
+  });
+
+  describe('payments', () => {
+    it('should record the payment intent when a payment is confirmed', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(mockCustomer);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(
+        createMockPendingBooking({ status: 'confirmed', stripePaymentId: 'pi_test123' })
+      );
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({
+        id: 'pi_test123',
+        status: 'succeeded',
+        amount_received: 10000,
+      });
+
+      const result = await ConfirmPOST(
+        createMockRequest({ method: 'POST', body: { bookingId: 'booking123', paymentIntentId: 'pi_test123' } }) as never
+      );
+
+      expect(result.status).toBe(200);
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', paymentStatus: 'pending' },
+        data: { paymentStatus: 'paid', paidAt: expect.any(Date), stripePaymentId: 'pi_test123' },
+      });
+    });
+
+    it("should not accept another booking's payment or one that falls short", async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(mockCustomer);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(
+        createMockPendingBooking({ status: 'confirmed', stripePaymentId: 'pi_test123' })
+      );
+      const confirm = (paymentIntentId: string) =>
+        ConfirmPOST(createMockRequest({ method: 'POST', body: { bookingId: 'booking123', paymentIntentId } }) as never);
+
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({
+        id: 'pi_other',
+        status: 'succeeded',
+        amount_received: 10000,
+        metadata: { bookingId: 'booking456' },
+      });
+      expect((await confirm('pi_other')).status).toBe(400);
+
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({
+        id: 'pi_test123',
+        status: 'succeeded',
+        amount_received: 100,
+      });
+      expect((await confirm('pi_test123')).status).toBe(400);
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject refund amounts that are not part of the booking\'s price', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(mockAdmin);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(
+        createMockPendingBooking({ status: 'completed', paymentStatus: 'paid', stripePaymentId: 'pi_test123', orderId: 'order1' })
+      );
+
+      for (const amount of ['50', 0, -10, 100.01, Infinity, null]) {
+        const result = await AdminPaymentsPOST(
+          createMockRequest({ method: 'POST', body: { action: 'refund', bookingId: 'booking123', amount } })
+        );
+        expect(result.status).toBe(400);
+      }
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+      expect(stripe!.refunds.create).not.toHaveBeenCalled();
+
+      const partial = await AdminPaymentsPOST(
+        createMockRequest({ method: 'POST', body: { action: 'refund', bookingId: 'booking123', amount: 40 } })
+      );
+      expect(partial.status).toBe(200);
+      expect(stripe!.refunds.create).toHaveBeenCalledWith({ payment_intent: 'pi_test123', amount: 4000 });
+    });
+
+    it('should keep the booking paid when Stripe refuses a refund', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(mockAdmin);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(
+        createMockPendingBooking({ status: 'completed', paymentStatus: 'paid', stripePaymentId: 'pi_test123' })
+      );
+      (stripe!.refunds.create as jest.Mock).mockRejectedValueOnce(new Error('Charge already refunded'));
+
+      const result = await AdminPaymentsPOST(
+        createMockRequest({ method: 'POST', body: { action: 'refund', bookingId: 'booking123' } })
+      );
+      const body = await result.json();
+
+      expect(result.status).toBe(400);
+      expect(body.error).toMatch(/Charge already refunded/);
+      expect(prisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking123' },
+        data: { paymentStatus: 'paid', refundedAt: null, refundedAmount: null },
+      });
+    });
+  });
+});
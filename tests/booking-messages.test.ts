@@ -0,0 +1,163 @@
+import { GET as MessagesGET } from '@/app/api/bookings/[id]/messages/route';
+import { createMockBooking, createMockRequest, mockAdmin, mockCustomer } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { sendMail } from '@/lib/mail';
+import { StorageAdapter, setStorageAdapter } from '@/lib/storage';
+import {
+  getMessagingClosesAt,
+  getUnreadMessageCounts,
+  sendBookingMessage,
+} from '@/lib/booking-messages';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const getAs = MessagesGET as unknown as (request: unknown, user: unknown) => ReturnType<typeof MessagesGET>;
+
+const support = { userId: 'support1', email: 'support@example.com', role: 'support' };
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2030-01-20T12:00:00Z');
+
+const booking = (overrides: Record<string, unknown> = {}) => ({
+  ...createMockBooking({ date: new Date('2030-01-10T09:00:00Z'), updatedAt: now, ...overrides }),
+  user: { name: 'Customer', email: 'test@example.com' },
+  provider: { name: 'Provider', email: 'provider@example.com' },
+  service: { name: 'Deep clean' },
+});
+
+describe('Booking Message Tests', () => {
+  const stored = new Map<string, Buffer>();
+  const memoryStorage: StorageAdapter = {
+    put: async (key, data) => {
+      stored.set(key, data);
+    },
+    get: async (key) => stored.get(key) ?? null,
+    delete: async (key) => {
+      stored.delete(key);
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored.clear();
+    setStorageAdapter(memoryStorage);
+    (prisma.bookingEvent.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.bookingMessage.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.bookingMessage.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'message1', ...data }));
+  });
+
+  afterAll(() => {
+    setStorageAdapter(null);
+  });
+
+  describe('sendBookingMessage', () => {
+    it('should store the attachments and email the other party', async () => {
+      const result = await sendBookingMessage(
+        booking({ status: 'confirmed' }),
+        '123',
+        'The gate code is 4711',
+        [{ fileName: 'floorplan.pdf', contentType: 'application/pdf', data: Buffer.from('pdf') }],
+        now
+      );
+
+      expect(result).toEqual({ message: expect.objectContaining({ id: 'message1', senderId: '123' }) });
+      const [storageKey] = stored.keys();
+      expect(storageKey).toMatch(/^booking-messages\/booking123\//);
+      expect(prisma.bookingMessageAttachment.create).toHaveBeenCalledWith({
+        data: {
+          messageId: 'message1',
+          fileName: 'floorplan.pdf',
+          contentType: 'application/pdf',
+          size: 3,
+          storageKey,
+        },
+      });
+      expect(sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'provider@example.com',
+          text: expect.stringContaining('The gate code is 4711'),
+        })
+      );
+    });
+
+    it('should close messaging a set time after the booking finishes', async () => {
+      (prisma.bookingEvent.findFirst as jest.Mock).mockResolvedValue({
+        createdAt: new Date(now.getTime() - 15 * DAY),
+      });
+      const completed = booking({ status: 'completed' });
+
+      expect(await getMessagingClosesAt(completed)).toEqual(new Date(now.getTime() - DAY));
+      expect(await sendBookingMessage(completed, 'provider123', 'Thanks!', [], now)).toEqual({
+        error: 'Messaging on this booking has closed',
+        status: 409,
+      });
+      expect(prisma.bookingMessage.create).not.toHaveBeenCalled();
+      expect(await getMessagingClosesAt(booking({ status: 'confirmed' }))).toBeNull();
+    });
+  });
+
+  describe('GET /api/bookings/[id]/messages', () => {
+    const request = () =>
+      createMockRequest({ method: 'GET', url: 'http://localhost:3000/api/bookings/booking123/messages' });
+
+    it("should mark the other party's messages read when a party opens the thread", async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockBooking({ status: 'confirmed' }));
+
+      const response = await getAs(request(), mockCustomer);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.canSend).toBe(true);
+      expect(prisma.bookingMessage.updateMany).toHaveBeenCalledWith({
+        where: { bookingId: 'booking123', senderId: { not: '123' }, readAt: null },
+        data: { readAt: expect.any(Date) },
+      });
+    });
+
+    it('should not mark messages read for an admin impersonating a party', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockBooking({ status: 'confirmed' }));
+      const impersonated = { ...mockCustomer, impersonator: { userId: mockAdmin.userId, email: mockAdmin.email } };
+
+      const response = await getAs(request(), impersonated);
+
+      expect(response.status).toBe(200);
+      expect(prisma.bookingMessage.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should let admins read without sending or marking messages read', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockBooking({ status: 'confirmed' }));
+
+      const response = await getAs(request(), mockAdmin);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.canSend).toBe(false);
+      expect(prisma.bookingMessage.updateMany).not.toHaveBeenCalled();
+
+      // Support staff can see the booking but not its messages
+      expect((await getAs(request(), support)).status).toBe(403);
+    });
+  });
+
+  describe('getUnreadMessageCounts', () => {
+    it("should count unread messages from the other party on the user's bookings", async () => {
+      (prisma.bookingMessage.groupBy as jest.Mock).mockResolvedValue([
+        { bookingId: 'booking123', _count: { _all: 2 } },
+        { bookingId: 'booking456', _count: { _all: 1 } },
+      ]);
+
+      expect(await getUnreadMessageCounts('123')).toEqual({ booking123: 2, booking456: 1 });
+      expect(prisma.bookingMessage.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            senderId: { not: '123' },
+            readAt: null,
+            booking: { OR: [{ userId: '123' }, { providerId: '123' }] },
+          },
+        })
+      );
+    });
+  });
+});
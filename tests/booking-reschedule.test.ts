@@ -0,0 +1,228 @@
+import { GET, PATCH, POST } from '@/app/api/bookings/[id]/reschedule/route';
+import { createMockBooking, createMockRequest, createMockService, mockCustomer, mockProvider } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { sendMail } from '@/lib/mail';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+type Handler = (request: unknown, user: unknown) => ReturnType<typeof POST>;
+const getAs = GET as unknown as Handler;
+const postAs = POST as unknown as Handler;
+const patchAs = PATCH as unknown as Handler;
+
+const support = { userId: 'support1', email: 'support@example.com', role: 'support' };
+
+const DAY = 24 * 60 * 60 * 1000;
+const current = new Date(Math.ceil((Date.now() + 3 * DAY) / DAY) * DAY + 10 * 60 * 60 * 1000);
+const later = new Date(current.getTime() + DAY);
+const evenLater = new Date(current.getTime() + 2 * DAY);
+
+const booking = (overrides: Record<string, unknown> = {}) => ({
+  ...createMockBooking({ date: current, status: 'confirmed', paymentStatus: 'paid' }),
+  service: createMockService(),
+  ...overrides,
+});
+
+const pendingRequest = (overrides: Record<string, unknown> = {}) => ({
+  id: 'request1',
+  bookingId: 'booking123',
+  actor: 'customer',
+  actorId: '123',
+  times: [later, evenLater],
+  reason: null,
+  status: 'pending',
+  ...overrides,
+});
+
+const url = 'http://localhost:3000/api/bookings/booking123/reschedule';
+const propose = (body: Record<string, unknown>, user: unknown) =>
+  postAs(createMockRequest({ method: 'POST', url, body }), user);
+const respond = (body: Record<string, unknown>, user: unknown) =>
+  patchAs(createMockRequest({ method: 'PATCH', url, body }), user);
+
+describe('Booking Reschedule Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.booking.findUnique as jest.Mock).mockResolvedValue(booking());
+    (prisma.booking.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.rescheduleRequest.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.rescheduleRequest.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      id: 'request2',
+      status: 'pending',
+      ...data,
+    }));
+    (prisma.rescheduleRequest.update as jest.Mock).mockImplementation(async ({ data }) => ({
+      ...pendingRequest(),
+      ...data,
+    }));
+  });
+
+  describe('POST /api/bookings/[id]/reschedule', () => {
+    it('should propose checked times without moving the booking', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        name: 'Provider',
+        email: 'provider@example.com',
+        timeZone: 'UTC',
+      });
+
+      const result = await propose(
+        { times: [later.toISOString(), evenLater.toISOString()], reason: 'Away that week' },
+        mockCustomer
+      );
+
+      expect(result.status).toBe(201);
+      expect(prisma.rescheduleRequest.create).toHaveBeenCalledWith({
+        data: {
+          bookingId: 'booking123',
+          actor: 'customer',
+          actorId: '123',
+          times: [later, evenLater],
+          reason: 'Away that week',
+        },
+      });
+      expect(prisma.booking.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { not: 'booking123' } }),
+        })
+      );
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+      expect(prisma.bookingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'reschedule_proposed', actor: 'customer' }),
+      });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'provider@example.com' }));
+    });
+
+    it('should reject times that are taken, past or repeated', async () => {
+      (prisma.booking.findMany as jest.Mock).mockResolvedValueOnce([
+        { date: later, service: { duration: 60, bufferBefore: 0, bufferAfter: 0 } },
+      ]);
+
+      const taken = await propose({ times: [later.toISOString()] }, mockCustomer);
+      const past = await propose({ times: [new Date(Date.now() - DAY).toISOString()] }, mockCustomer);
+      const repeated = await propose({ times: [later.toISOString(), later.toISOString()] }, mockCustomer);
+      const none = await propose({ times: [] }, mockCustomer);
+
+      expect(taken.status).toBe(400);
+      expect(past.status).toBe(400);
+      expect(repeated.status).toBe(400);
+      expect(none.status).toBe(400);
+      expect(prisma.rescheduleRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should treat a proposal from the other party as declining the pending one', async () => {
+      (prisma.rescheduleRequest.findFirst as jest.Mock).mockResolvedValue(pendingRequest());
+
+      const result = await propose({ times: [evenLater.toISOString()] }, mockProvider);
+
+      expect(result.status).toBe(201);
+      expect(prisma.rescheduleRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request1' },
+        data: { status: 'declined', respondedAt: expect.any(Date) },
+      });
+    });
+
+    it('should only let the parties move bookings that have not started', async () => {
+      const byStaff = await propose({ times: [later.toISOString()] }, support);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(booking({ status: 'in_progress' }));
+      const started = await propose({ times: [later.toISOString()] }, mockCustomer);
+
+      expect(byStaff.status).toBe(403);
+      expect(started.status).toBe(400);
+    });
+  });
+
+  describe('PATCH /api/bookings/[id]/reschedule', () => {
+    beforeEach(() => {
+      (prisma.rescheduleRequest.findFirst as jest.Mock).mockResolvedValue(pendingRequest());
+    });
+
+    it('should move the booking to the accepted time and keep its payment', async () => {
+      const result = await respond({ action: 'accept', time: evenLater.toISOString() }, mockProvider);
+      const body = await result.json();
+
+      expect(result.status).toBe(200);
+      expect(body.booking).toEqual(
+        expect.objectContaining({ date: evenLater, status: 'confirmed', paymentStatus: 'paid' })
+      );
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', date: current, status: { in: ['pending', 'confirmed'] } },
+        data: { date: evenLater },
+      });
+      expect(prisma.rescheduleRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request1' },
+        data: { status: 'accepted', acceptedTime: evenLater, respondedAt: expect.any(Date) },
+      });
+      expect(prisma.bookingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'rescheduled',
+          actor: 'provider',
+          fromValue: current.toISOString(),
+          toValue: evenLater.toISOString(),
+        }),
+      });
+    });
+
+    it('should only accept a proposed time from the other party', async () => {
+      const own = await respond({ action: 'accept', time: later.toISOString() }, mockCustomer);
+      const other = await respond(
+        { action: 'accept', time: new Date(later.getTime() + 15 * 60 * 1000).toISOString() },
+        mockProvider
+      );
+
+      expect(own.status).toBe(403);
+      expect(other.status).toBe(400);
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a time that was taken after it was proposed', async () => {
+      (prisma.booking.findMany as jest.Mock).mockResolvedValueOnce([
+        { date: later, service: { duration: 60, bufferBefore: 0, bufferAfter: 0 } },
+      ]);
+
+      const result = await respond({ action: 'accept', time: later.toISOString() }, mockProvider);
+
+      expect(result.status).toBe(409);
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should let the other party decline and the proposer withdraw', async () => {
+      const declined = await respond({ action: 'decline', reason: 'Fully booked' }, mockProvider);
+      const withdrawn = await respond({ action: 'withdraw' }, mockCustomer);
+      const notYours = await respond({ action: 'withdraw' }, mockProvider);
+
+      expect(declined.status).toBe(200);
+      expect(withdrawn.status).toBe(200);
+      expect(notYours.status).toBe(403);
+      expect(prisma.bookingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'reschedule_declined', reason: 'Fully booked' }),
+      });
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when nothing is pending', async () => {
+      (prisma.rescheduleRequest.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const result = await respond({ action: 'decline' }, mockProvider);
+
+      expect(result.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/bookings/[id]/reschedule', () => {
+    it('should show the pending request to the parties only', async () => {
+      (prisma.rescheduleRequest.findFirst as jest.Mock).mockResolvedValue(pendingRequest());
+      const stranger = { userId: 'someone', email: 'someone@example.com', role: 'user' };
+
+      const result = await getAs(createMockRequest({ url }), mockProvider);
+      const body = await result.json();
+      const hidden = await getAs(createMockRequest({ url }), stranger);
+
+      expect(result.status).toBe(200);
+      expect(body.request.id).toBe('request1');
+      expect(hidden.status).toBe(403);
+    });
+  });
+});
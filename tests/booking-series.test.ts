@@ -0,0 +1,206 @@
+import { POST as SeriesPOST } from '@/app/api/bookings/series/route';
+import { GET as SeriesGET, PATCH as SeriesPATCH } from '@/app/api/bookings/series/[id]/route';
+import { createMockBooking, createMockRequest, createMockService, mockCustomer, mockProvider } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { seriesOccurrences } from '@/lib/booking-series';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+type Handler = (request: unknown, user: unknown) => ReturnType<typeof SeriesGET>;
+const postAs = SeriesPOST as unknown as Handler;
+const getAs = SeriesGET as unknown as Handler;
+const patchAs = SeriesPATCH as unknown as Handler;
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+const first = new Date(Math.ceil((Date.now() + 3 * DAY) / DAY) * DAY + 10 * 60 * 60 * 1000);
+
+const series = (overrides: Record<string, unknown> = {}) => ({
+  id: 'series1',
+  userId: '123',
+  serviceId: 'service123',
+  providerId: 'provider123',
+  frequency: 'weekly',
+  startsAt: first,
+  until: null,
+  count: 3,
+  notes: null,
+  status: 'active',
+  ...overrides,
+});
+
+const seriesUrl = 'http://localhost:3000/api/bookings/series/series1';
+const create = (body: Record<string, unknown>) =>
+  postAs(createMockRequest({ method: 'POST', url: 'http://localhost:3000/api/bookings/series', body }), mockCustomer);
+const update = (body: Record<string, unknown>, user: unknown) =>
+  patchAs(createMockRequest({ method: 'PATCH', url: seriesUrl, body }), user);
+
+describe('Booking Series Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ timeZone: 'UTC', cancellationPolicy: 'moderate' });
+    (prisma.service.findUnique as jest.Mock).mockResolvedValue(createMockService());
+    (prisma.booking.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.bookingSeries.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'series1', ...data }));
+    let created = 0;
+    (prisma.booking.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      id: `booking${++created}`,
+      status: 'pending',
+      ...data,
+    }));
+  });
+
+  describe('seriesOccurrences', () => {
+    it('should keep the wall-clock time across daylight saving changes', () => {
+      // 09:00 in New York, before and after clocks go forward on 10 March
+      const occurrences = seriesOccurrences(
+        new Date('2030-03-04T14:00:00Z'),
+        'weekly',
+        { count: 2 },
+        'America/New_York'
+      );
+
+      expect(occurrences).toEqual([
+        { date: '2030-03-04', start: new Date('2030-03-04T14:00:00Z') },
+        { date: '2030-03-11', start: new Date('2030-03-11T13:00:00Z') },
+      ]);
+    });
+
+    it('should leave out months without the day and stop at the end date', () => {
+      const monthly = seriesOccurrences(new Date('2030-01-31T10:00:00Z'), 'monthly', { count: 3 }, 'UTC');
+      expect(monthly.map((occurrence) => occurrence.date)).toEqual(['2030-01-31', '2030-03-31', '2030-05-31']);
+
+      const biweekly = seriesOccurrences(new Date('2030-01-01T10:00:00Z'), 'biweekly', { until: '2030-02-11', count: 10 }, 'UTC');
+      expect(biweekly.map((occurrence) => occurrence.date)).toEqual(['2030-01-01', '2030-01-15', '2030-01-29']);
+    });
+  });
+
+  describe('POST /api/bookings/series', () => {
+    it('should book each free occurrence and report the ones that are taken', async () => {
+      const taken = new Date(first.getTime() + WEEK);
+      (prisma.booking.findMany as jest.Mock).mockImplementation(async ({ where }) =>
+        taken >= where.date.gte && taken < where.date.lt
+          ? [{ date: taken, service: { duration: 60, bufferBefore: 0, bufferAfter: 0 } }]
+          : []
+      );
+
+      const result = await create({ serviceId: 'service123', start: first.toISOString(), frequency: 'weekly', count: 3 });
+      const body = await result.json();
+
+      expect(result.status).toBe(201);
+      expect(prisma.bookingSeries.create).toHaveBeenCalledTimes(1);
+      expect(prisma.booking.create).toHaveBeenCalledTimes(2);
+      expect(prisma.booking.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          date: new Date(first.getTime() + 2 * WEEK),
+          cancellationPolicy: 'moderate',
+          totalPrice: 100,
+        }),
+      });
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['booking1', 'booking2'] } },
+        data: { seriesId: 'series1' },
+      });
+      expect(prisma.bookingEvent.create).toHaveBeenCalledTimes(2);
+      expect(body.bookings).toHaveLength(2);
+      expect(body.skipped).toEqual([
+        { date: taken.toISOString().slice(0, 10), reason: 'The time is already taken' },
+      ]);
+    });
+
+    it('should not create an empty series', async () => {
+      (prisma.booking.findMany as jest.Mock).mockImplementation(async ({ where }) => [
+        { date: new Date(where.date.gte.getTime() + DAY), service: { duration: 60, bufferBefore: 0, bufferAfter: 0 } },
+      ]);
+
+      const result = await create({ serviceId: 'service123', start: first.toISOString(), frequency: 'monthly', count: 2 });
+
+      expect(result.status).toBe(409);
+      expect(prisma.bookingSeries.create).not.toHaveBeenCalled();
+    });
+
+    it('should validate the pattern', async () => {
+      const noEnd = await create({ serviceId: 'service123', start: first.toISOString(), frequency: 'weekly' });
+      expect(noEnd.status).toBe(400);
+      expect((await noEnd.json()).error).toBe('Give an end date or a number of occurrences');
+
+      const tooLong = await create({ serviceId: 'service123', start: first.toISOString(), frequency: 'weekly', until: '2099-01-01' });
+      expect(tooLong.status).toBe(400);
+      expect((await tooLong.json()).error).toBe('A series can have at most 52 occurrences');
+
+      const daily = await create({ serviceId: 'service123', start: first.toISOString(), frequency: 'daily', count: 3 });
+      expect(daily.status).toBe(400);
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/bookings/series/[id]', () => {
+    beforeEach(() => {
+      (prisma.bookingSeries.findUnique as jest.Mock).mockResolvedValue(series());
+    });
+
+    it('should skip one occurrence through the booking lifecycle', async () => {
+      (prisma.booking.findFirst as jest.Mock).mockResolvedValue(
+        createMockBooking({ id: 'booking2', date: new Date(first.getTime() + WEEK), seriesId: 'series1' })
+      );
+
+      const result = await update({ action: 'skip', bookingId: 'booking2' }, mockCustomer);
+
+      expect(result.status).toBe(200);
+      expect(prisma.booking.findFirst).toHaveBeenCalledWith({ where: { id: 'booking2', seriesId: 'series1' } });
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking2', status: 'pending' },
+        data: { status: 'cancelled', cancellationFee: 0 },
+      });
+      expect(prisma.bookingEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ bookingId: 'booking2', reason: 'Skipped this occurrence' }),
+      });
+    });
+
+    it('should return 404 for a booking outside the series', async () => {
+      (prisma.booking.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const result = await update({ action: 'skip', bookingId: 'other' }, mockProvider);
+
+      expect(result.status).toBe(404);
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the upcoming occurrences and stop the series', async () => {
+      (prisma.bookingSeries.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([
+        createMockBooking({ id: 'booking2', date: new Date(first.getTime() + WEEK) }),
+        createMockBooking({ id: 'booking3', date: new Date(first.getTime() + 2 * WEEK) }),
+      ]);
+
+      const result = await update({ action: 'cancel' }, mockProvider);
+      const body = await result.json();
+
+      expect(result.status).toBe(200);
+      expect(prisma.bookingSeries.updateMany).toHaveBeenCalledWith({
+        where: { id: 'series1', status: 'active' },
+        data: { status: 'cancelled' },
+      });
+      expect(prisma.booking.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { seriesId: 'series1', status: { in: ['pending', 'confirmed'] }, date: { gt: expect.any(Date) } },
+        })
+      );
+      expect(body.cancelled.map((booking: { id: string }) => booking.id)).toEqual(['booking2', 'booking3']);
+      expect(body.failed).toEqual([]);
+    });
+
+    it('should not cancel a series twice or let others change it', async () => {
+      (prisma.bookingSeries.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      expect((await update({ action: 'cancel' }, mockCustomer)).status).toBe(400);
+
+      const stranger = { userId: 'stranger', email: 'x@example.com', role: 'user' };
+      expect((await update({ action: 'cancel' }, stranger)).status).toBe(403);
+      expect((await getAs(createMockRequest({ url: seriesUrl }), stranger)).status).toBe(403);
+      expect(prisma.booking.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
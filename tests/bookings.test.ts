@@ -195,15 +195,16 @@ describe('Bookings API Tests', () => {
         where: { id: 'service123' }
       });
 
-      expect(prisma.booking.findFirst).toHaveBeenCalledWith({
-        where: {
-          serviceId: 'service123',
-          date: expect.any(Date),
-          status: {
-            in: ['pending', 'confirmed', 'in_progress'],
-          },
-        },
-      });
+      expect(prisma.booking.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            providerId: 'provider123',
+            status: {
+              in: ['pending', 'confirmed', 'in_progress'],
+            },
+          }),
+        })
+      );
 
       expect(prisma.booking.create).toHaveBeenCalledWith({
         data: {
@@ -213,6 +214,8 @@ describe('Bookings API Tests', () => {
           date: expect.any(Date),
           notes: 'Test booking notes',
           totalPrice: 100,
+          cancellationPolicy: 'flexible',
+          paymentDueAt: expect.any(Date),
         },
       });
 
@@ -311,10 +314,10 @@ describe('Bookings API Tests', () => {
 
     it('should return 400 for conflicting booking', async () => {
       const mockService = createMockService();
-      const conflictingBooking = createMockBooking({ status: 'confirmed' });
+      const conflictingBooking = createMockBooking({ status: 'confirmed', service: mockService });
       
       (prisma.service.findUnique as jest.Mock).mockResolvedValue(mockService);
-      (prisma.booking.findFirst as jest.Mock).mockResolvedValue(conflictingBooking);
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([conflictingBooking]);
 
       const request = createMockRequest({
         method: 'POST',
@@ -328,7 +331,8 @@ describe('Bookings API Tests', () => {
 
       expect(result.status).toHaveBeenCalledWith(400);
       expect(result.json).toHaveBeenCalledWith({
-        error: 'Service is not available at this time'
+        error: 'Service is not available at this time',
+        waitlist: true
       });
     });
 
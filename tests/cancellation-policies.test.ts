@@ -0,0 +1,179 @@
+import { DELETE as BookingDELETE } from '@/app/api/bookings/[id]/route';
+import { GET as CancellationGET } from '@/app/api/bookings/[id]/cancellation/route';
+import { PUT as ServicePUT } from '@/app/api/services/[id]/route';
+import { createMockBooking, createMockRequest, createMockService, mockCustomer, mockProvider } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getUserFromRequest } from '@/lib/auth';
+import { stripe } from '@/lib/stripe';
+import { quoteCancellation } from '@/lib/booking-lifecycle';
+import { describeCancellationPolicy, refundPercentFor, splitRefund } from '@/lib/cancellation-policies';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const deleteAs = BookingDELETE as unknown as (request: unknown, user: unknown) => ReturnType<typeof BookingDELETE>;
+const quoteAs = CancellationGET as unknown as (request: unknown, user: unknown) => ReturnType<typeof CancellationGET>;
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2030-01-07T12:00:00Z');
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * HOUR);
+
+const booking = (overrides: Record<string, unknown> = {}) =>
+  createMockBooking({
+    status: 'confirmed',
+    paymentStatus: 'paid',
+    stripePaymentId: 'pi_test123',
+    date: hoursFromNow(3 * 24),
+    ...overrides,
+  });
+
+const cancel = (user: unknown) =>
+  deleteAs(createMockRequest({ method: 'DELETE', url: 'http://localhost:3000/api/bookings/booking123' }), user);
+
+describe('Cancellation Policy Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.booking.findUnique as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('policies', () => {
+    it('should refund by notice period', () => {
+      const at = (hours: number) => new Date(now.getTime() + hours * HOUR);
+
+      expect(refundPercentFor('flexible', at(24), now)).toBe(100);
+      expect(refundPercentFor('flexible', at(2), now)).toBe(50);
+      expect(refundPercentFor('moderate', at(5 * 24), now)).toBe(100);
+      expect(refundPercentFor('moderate', at(48), now)).toBe(50);
+      expect(refundPercentFor('moderate', at(23), now)).toBe(0);
+      expect(refundPercentFor('strict', at(7 * 24), now)).toBe(50);
+      expect(refundPercentFor('strict', at(6 * 24), now)).toBe(0);
+    });
+
+    it('should split the price into refund and fee in cents', () => {
+      expect(splitRefund(99.99, 50)).toEqual({ refundAmount: 50, fee: 49.99 });
+      expect(splitRefund(100, 0)).toEqual({ refundAmount: 0, fee: 100 });
+      expect(describeCancellationPolicy('moderate')).toEqual([
+        "100% refund with at least 5 days' notice",
+        "50% refund with at least 1 day's notice",
+        'No refund with less notice',
+      ]);
+    });
+
+    it('should only apply the policy to customers cancelling confirmed bookings', () => {
+      const late = booking({ date: new Date(now.getTime() + 2 * HOUR), cancellationPolicy: 'strict' });
+
+      expect(quoteCancellation(late, 'customer', now)).toEqual({
+        policy: 'strict', refundPercent: 0, refundAmount: 0, fee: 100,
+      });
+      expect(quoteCancellation(late, 'provider', now)).toMatchObject({ policy: null, refundAmount: 100, fee: 0 });
+      expect(quoteCancellation({ ...late, status: 'pending' }, 'customer', now)).toMatchObject({ refundAmount: 100, fee: 0 });
+      expect(quoteCancellation({ ...late, paymentStatus: 'pending' }, 'customer', now)).toMatchObject({ refundAmount: 0, fee: 0 });
+    });
+  });
+
+  describe('DELETE /api/bookings/[id]', () => {
+    it('should refund part of a late customer cancellation and record the fee', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(
+        booking({ cancellationPolicy: 'moderate', date: hoursFromNow(48) })
+      );
+
+      const result = await cancel(mockCustomer);
+      const body = await result.json();
+
+      expect(result.status).toBe(200);
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', status: 'confirmed' },
+        data: { status: 'cancelled', cancellationFee: 50 },
+      });
+      expect(stripe!.refunds.create).toHaveBeenCalledWith({ payment_intent: 'pi_test123', amount: 5000 });
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', paymentStatus: 'paid' },
+        data: { paymentStatus: 'refunded', refundedAt: expect.any(Date), refundedAmount: 50 },
+      });
+      expect(body.booking).toMatchObject({ cancellationFee: 50, refundedAmount: 50, paymentStatus: 'refunded' });
+    });
+
+    it('should keep the whole payment when the policy refunds nothing', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(
+        booking({ cancellationPolicy: 'strict', date: hoursFromNow(48) })
+      );
+
+      const result = await cancel(mockCustomer);
+      const body = await result.json();
+
+      expect(result.status).toBe(200);
+      expect(stripe!.refunds.create).not.toHaveBeenCalled();
+      expect(body.booking).toMatchObject({ cancellationFee: 100, paymentStatus: 'paid' });
+    });
+
+    it('should refund in full when the provider cancels', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(
+        booking({ cancellationPolicy: 'strict', date: hoursFromNow(2) })
+      );
+
+      const result = await cancel(mockProvider);
+
+      expect(result.status).toBe(200);
+      expect(stripe!.refunds.create).toHaveBeenCalledWith({ payment_intent: 'pi_test123', amount: undefined });
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking123', status: 'confirmed' },
+        data: { status: 'cancelled', cancellationFee: 0 },
+      });
+    });
+  });
+
+  describe('GET /api/bookings/[id]/cancellation', () => {
+    const quote = (user: unknown) =>
+      quoteAs(createMockRequest({ url: 'http://localhost:3000/api/bookings/booking123/cancellation' }), user);
+
+    it('should quote the refund without changing the booking', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(
+        booking({ cancellationPolicy: 'flexible', date: hoursFromNow(2) })
+      );
+
+      const result = await quote(mockCustomer);
+      const body = await result.json();
+
+      expect(result.status).toBe(200);
+      expect(body.quote).toMatchObject({
+        policy: 'flexible',
+        refundPercent: 50,
+        refundAmount: 50,
+        fee: 50,
+        paid: true,
+        totalPrice: 100,
+      });
+      expect(body.quote.terms).toHaveLength(2);
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse bookings the caller cannot cancel', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(booking({ status: 'completed' }));
+      expect((await quote(mockCustomer)).status).toBe(400);
+
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValueOnce(booking());
+      expect((await quote({ userId: 'stranger', email: 'x@example.com', role: 'user' })).status).toBe(403);
+    });
+  });
+
+  describe('PUT /api/services/[id]', () => {
+    it('should validate the service policy and let null inherit the default', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(mockProvider);
+      (prisma.service.findFirst as jest.Mock).mockResolvedValue(createMockService());
+      (prisma.service.update as jest.Mock).mockResolvedValue(createMockService());
+      const put = (body: Record<string, unknown>) =>
+        ServicePUT(createMockRequest({ method: 'PUT', url: 'http://localhost:3000/api/services/service123', body }));
+
+      const invalid = await put({ cancellationPolicy: 'lenient' });
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error).toBe('Cancellation policy must be flexible, moderate or strict');
+
+      expect((await put({ cancellationPolicy: null })).status).toBe(200);
+      expect(prisma.service.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ cancellationPolicy: null }) })
+      );
+    });
+  });
+});
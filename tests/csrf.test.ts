@@ -0,0 +1,80 @@
+import { createMockRequest } from './test-utils';
+import { getUserFromRequest } from '@/lib/auth';
+
+jest.mock('@/lib/auth');
+
+const { withAuth } = jest.requireActual('@/middleware/auth');
+const { getTokenFromRequest } = jest.requireActual('@/lib/auth');
+
+const user = { userId: '123', email: 'test@example.com', role: 'user', sid: 's1' };
+const sessionCookies = { token: 'cookie.access.token', csrfToken: 'csrf123' };
+
+describe('CSRF Tests', () => {
+  const handler = jest.fn(async () => ({ status: 200 }));
+  const call = (options: Record<string, unknown>) =>
+    withAuth(handler)(createMockRequest({ url: 'http://localhost/api/bookings', ...options }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getUserFromRequest as jest.Mock).mockResolvedValue(user);
+  });
+
+  it('should reject cookie-authenticated changes without the CSRF header', async () => {
+    const result = await call({ method: 'POST', cookies: sessionCookies });
+
+    expect(result.status).toBe(403);
+    expect(await result.json()).toEqual({ error: 'Invalid CSRF token' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject a header that does not match the cookie', async () => {
+    const result = await call({
+      method: 'DELETE',
+      cookies: sessionCookies,
+      headers: { 'x-csrf-token': 'csrf456' },
+    });
+
+    expect(result.status).toBe(403);
+  });
+
+  it('should accept a matching header', async () => {
+    const result = await call({
+      method: 'PUT',
+      cookies: sessionCookies,
+      headers: { 'x-csrf-token': 'csrf123' },
+    });
+
+    expect(result.status).toBe(200);
+  });
+
+  it('should not require the header for reads', async () => {
+    const result = await call({ method: 'GET', cookies: sessionCookies });
+
+    expect(result.status).toBe(200);
+  });
+
+  it('should not require the header from Bearer clients', async () => {
+    const result = await call({
+      method: 'POST',
+      cookies: sessionCookies,
+      headers: { authorization: 'Bearer header.access.token' },
+    });
+
+    expect(result.status).toBe(200);
+  });
+
+  describe('getTokenFromRequest', () => {
+    it('should read the session cookie', () => {
+      expect(getTokenFromRequest(createMockRequest({ cookies: sessionCookies }))).toBe('cookie.access.token');
+    });
+
+    it('should prefer the Authorization header', () => {
+      const request = createMockRequest({
+        cookies: sessionCookies,
+        headers: { authorization: 'Bearer header.access.token' },
+      });
+
+      expect(getTokenFromRequest(request)).toBe('header.access.token');
+    });
+  });
+});
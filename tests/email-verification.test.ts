@@ -0,0 +1,78 @@
+import { POST as VerifyEmailPOST } from '@/app/api/auth/verify-email/route';
+import { createMockRequest, createMockUser } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { sendMail } from '@/lib/mail';
+import {
+  generateEmailVerificationToken,
+  sendVerificationEmail,
+  verifyEmailVerificationToken,
+} from '@/lib/verification';
+
+jest.mock('@/lib/prisma');
+
+describe('Email Verification Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('verification tokens', () => {
+    it('should round-trip the user id and email', () => {
+      const token = generateEmailVerificationToken({ id: '123', email: 'test@example.com' });
+
+      expect(verifyEmailVerificationToken(token)).toEqual({
+        userId: '123',
+        email: 'test@example.com',
+      });
+    });
+
+    it('should reject tampered tokens', () => {
+      const token = generateEmailVerificationToken({ id: '123', email: 'test@example.com' });
+
+      expect(verifyEmailVerificationToken(token.slice(0, -2) + 'xx')).toBeNull();
+    });
+
+    it('should send a link containing the token', async () => {
+      await sendVerificationEmail({ id: '123', name: 'Test User', email: 'test@example.com' });
+
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'test@example.com',
+        text: expect.stringContaining('http://localhost:3000/auth/verify-email?token='),
+      }));
+    });
+  });
+
+  describe('POST /api/auth/verify-email', () => {
+    it('should mark the user as verified', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser({ isVerified: false }));
+      const token = generateEmailVerificationToken({ id: '123', email: 'test@example.com' });
+
+      const request = createMockRequest({ method: 'POST', body: { token } });
+      const result = await VerifyEmailPOST(request);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: '123' },
+        data: { isVerified: true },
+      });
+      expect(result.status).toBe(200);
+    });
+
+    it('should reject a token issued for a previous email address', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser({ email: 'new@example.com', isVerified: false }));
+      const token = generateEmailVerificationToken({ id: '123', email: 'test@example.com' });
+
+      const request = createMockRequest({ method: 'POST', body: { token } });
+      const result = await VerifyEmailPOST(request);
+
+      expect(result.status).toBe(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid token', async () => {
+      const request = createMockRequest({ method: 'POST', body: { token: 'not-a-token' } });
+      const result = await VerifyEmailPOST(request);
+
+      expect(result.status).toBe(400);
+      expect(await result.json()).toEqual({ error: 'Invalid or expired verification token' });
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { buildCalendar, parseBusyBlocks } from '@/lib/icalendar';
+import { getCalendarFeed, importCalendar } from '@/lib/calendar-sync';
+import { hashToken } from '@/lib/security';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma');
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const event = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n');
+
+const busyIn = (ics: string, timeZone = 'UTC') =>
+  parseBusyBlocks(ics, {
+    timeZone,
+    from: new Date('2030-01-01T00:00:00Z'),
+    to: new Date('2031-01-01T00:00:00Z'),
+  });
+
+const starts = (blocks: { start: Date }[]) => blocks.map((block) => block.start.toISOString()).sort();
+
+describe('iCalendar Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildCalendar', () => {
+    it('should escape text and fold long lines at 75 bytes', () => {
+      const summary = 'Haircut, colour; wash — ' + 'é'.repeat(60);
+      const ics = buildCalendar({
+        name: 'Bookings',
+        timeZone: 'Europe/Berlin',
+        events: [
+          {
+            uid: 'booking-1@justservicehub',
+            start: new Date('2030-01-07T09:00:00Z'),
+            end: new Date('2030-01-07T10:00:00Z'),
+            summary,
+            status: 'TENTATIVE',
+            updatedAt: new Date('2030-01-01T00:00:00Z'),
+          },
+        ],
+      });
+
+      const lines = ics.split('\r\n');
+      const octets = (line: string) => encodeURIComponent(line).replace(/%[0-9A-F]{2}/g, 'x').length;
+      expect(lines.every((line) => octets(line) <= 75)).toBe(true);
+      expect(ics).toContain('DTSTART:20300107T090000Z\r\nDTEND:20300107T100000Z');
+      expect(ics).toContain('X-WR-TIMEZONE:Europe/Berlin');
+      expect(ics.replace(/\r\n /g, '')).toContain(
+        `SUMMARY:Haircut\\, colour\\; wash — ${'é'.repeat(60)}`
+      );
+    });
+  });
+
+  describe('getCalendarFeed', () => {
+    it('should list the user\'s bookings with their status and a link back', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue({ id: 'provider123', timeZone: 'Europe/Berlin' });
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue(
+        (['pending', 'cancelled'] as const).map((status, index) => ({
+          id: `booking${index}`,
+          userId: '123',
+          providerId: 'provider123',
+          date: new Date('2030-01-07T09:00:00Z'),
+          notes: null,
+          status,
+          updatedAt: new Date('2030-01-01T00:00:00Z'),
+          service: { name: 'Test Service', duration: 90, location: 'Test Location' },
+          user: { name: 'Customer' },
+          provider: { name: 'Provider' },
+        }))
+      );
+
+      const ics = await getCalendarFeed('secret');
+
+      expect(prisma.user.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { calendarFeedTokenHash: hashToken('secret'), deletedAt: null } })
+      );
+      expect(ics).toContain('SUMMARY:Test Service with Customer');
+      expect(ics).toContain('DTEND:20300107T103000Z');
+      expect(ics).toContain('URL:http://localhost:3000/dashboard/bookings/booking0');
+      expect(ics).toContain('STATUS:TENTATIVE');
+      expect(ics).toContain('STATUS:CANCELLED');
+    });
+
+    it('should not find feeds for unknown tokens', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await getCalendarFeed('unknown')).toBeNull();
+      expect(prisma.booking.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parseBusyBlocks', () => {
+    it('should read times in their own zone, all-day events in the provider\'s, and skip free ones', () => {
+      const { name, blocks, skipped } = busyIn(
+        calendar(
+          'X-WR-CALNAME:Work',
+          event('DTSTART;TZID=America/New_York:20300107T090000', 'DTEND;TZID=America/New_York:20300107T103000'),
+          event('DTSTART;VALUE=DATE:20300301', 'DTEND;VALUE=DATE:20300303'),
+          event('DTSTART:20300108T090000Z', 'DURATION:PT1H', 'TRANSP:TRANSPARENT'),
+          event('DTSTART:20300109T090000Z', 'DURATION:PT1H', 'STATUS:CANCELLED'),
+          event('DTSTART:20300110T090000Z', 'DURATION:PT1H', 'RRULE:FREQ=HOURLY')
+        ),
+        'Europe/Berlin'
+      );
+
+      expect(name).toBe('Work');
+      expect(blocks).toEqual([
+        { start: new Date('2030-01-07T14:00:00Z'), end: new Date('2030-01-07T15:30:00Z') },
+        { start: new Date('2030-02-28T23:00:00Z'), end: new Date('2030-03-02T23:00:00Z') },
+      ]);
+      // Hourly rules aren't supported
+      expect(skipped).toBe(1);
+    });
+
+    it('should expand weekly events, leaving out excluded and moved occurrences', () => {
+      const { blocks } = busyIn(
+        calendar(
+          event(
+            'UID:standup',
+            'DTSTART;TZID=America/New_York:20300107T090000',
+            'DTEND;TZID=America/New_York:20300107T100000',
+            'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=6',
+            'EXDATE;TZID=America/New_York:20300109T090000'
+          ),
+          event(
+            'UID:standup',
+            'RECURRENCE-ID;TZID=America/New_York:20300114T090000',
+            'DTSTART;TZID=America/New_York:20300114T130000',
+            'DTEND;TZID=America/New_York:20300114T140000'
+          )
+        )
+      );
+
+      expect(starts(blocks)).toEqual([
+        '2030-01-07T14:00:00.000Z',
+        '2030-01-14T18:00:00.000Z',
+        '2030-01-16T14:00:00.000Z',
+        '2030-01-21T14:00:00.000Z',
+        '2030-01-23T14:00:00.000Z',
+      ]);
+    });
+
+    it('should keep the wall-clock time of repeats across DST and find monthly weekdays', () => {
+      const { blocks } = busyIn(
+        calendar(
+          event(
+            'DTSTART;TZID=America/New_York:20300304T090000',
+            'DURATION:PT1H',
+            'RRULE:FREQ=WEEKLY;UNTIL=20300311T235959Z'
+          ),
+          event('DTSTART:20300108T170000Z', 'DURATION:PT30M', 'RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=3')
+        )
+      );
+
+      expect(starts(blocks)).toEqual([
+        '2030-01-08T17:00:00.000Z',
+        '2030-02-12T17:00:00.000Z',
+        '2030-03-04T14:00:00.000Z',
+        // Clocks in New York move forward on 2030-03-10
+        '2030-03-11T13:00:00.000Z',
+        '2030-03-12T17:00:00.000Z',
+      ]);
+    });
+
+    it('should stop expanding rules that never fall on a date', () => {
+      const { blocks } = busyIn(
+        calendar(
+          // Every seventh day from a Monday is never a Tuesday
+          event('DTSTART:20300107T090000Z', 'DURATION:PT1H', 'RRULE:FREQ=DAILY;INTERVAL=7;BYDAY=TU'),
+          // Every twelfth month from February never has a 31st
+          event('DTSTART:20300201T090000Z', 'DURATION:PT1H', 'RRULE:FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=31'),
+          event('DTSTART:20300108T090000Z', 'DURATION:PT1H')
+        )
+      );
+
+      expect(starts(blocks)).toEqual(['2030-01-08T09:00:00.000Z']);
+    });
+
+    it('should leave out events starting in implausible years', () => {
+      const { blocks, skipped } = busyIn(
+        calendar(event('DTSTART:00010101T090000Z', 'DURATION:PT1H', 'RRULE:FREQ=DAILY;INTERVAL=7;BYDAY=TU'))
+      );
+
+      expect(blocks).toEqual([]);
+      expect(skipped).toBe(1);
+    });
+
+    it('should expand long-running rules inside the window and count COUNT from the start', () => {
+      const { blocks } = busyIn(
+        calendar(
+          event('DTSTART:20160101T090000Z', 'DURATION:PT1H', 'RRULE:FREQ=DAILY'),
+          event('DTSTART:20291225T120000Z', 'DURATION:PT1H', 'RRULE:FREQ=DAILY;COUNT=10')
+        )
+      );
+
+      const daily = starts(blocks).filter((start) => start.endsWith('T09:00:00.000Z'));
+      expect(daily).toHaveLength(365);
+      expect(daily[0]).toBe('2030-01-01T09:00:00.000Z');
+      expect(starts(blocks).filter((start) => start.endsWith('T12:00:00.000Z'))).toEqual([
+        '2030-01-01T12:00:00.000Z',
+        '2030-01-02T12:00:00.000Z',
+        '2030-01-03T12:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('importCalendar', () => {
+    it('should replace the busy times of the import with the same name', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ timeZone: 'UTC' });
+      (prisma.calendarImport.upsert as jest.Mock).mockResolvedValue({
+        id: 'import1',
+        name: 'Work',
+        updatedAt: new Date(),
+      });
+
+      const result = await importCalendar(
+        'provider123',
+        calendar('X-WR-CALNAME:Work', event('DTSTART:20300107T090000Z', 'DTEND:20300107T100000Z')),
+        { fileName: 'export.ics' },
+        new Date('2030-01-01T00:00:00Z')
+      );
+
+      expect(result).toEqual(expect.objectContaining({ blocks: 1, skipped: 0 }));
+      expect(prisma.calendarImport.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { providerId_name: { providerId: 'provider123', name: 'Work' } },
+        })
+      );
+      expect(prisma.externalBusyBlock.deleteMany).toHaveBeenCalledWith({ where: { importId: 'import1' } });
+      expect(prisma.externalBusyBlock.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            importId: 'import1',
+            providerId: 'provider123',
+            start: new Date('2030-01-07T09:00:00Z'),
+            end: new Date('2030-01-07T10:00:00Z'),
+          },
+        ],
+      });
+    });
+
+    it('should reject files that aren\'t calendars', async () => {
+      const result = await importCalendar('provider123', 'name,start\nWork,2030-01-07', {});
+
+      expect(result).toEqual({ error: 'The file is not an iCalendar (.ics) file', status: 400 });
+      expect(prisma.calendarImport.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
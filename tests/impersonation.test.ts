@@ -0,0 +1,151 @@
+import { POST as ImpersonatePOST, DELETE as ImpersonateDELETE } from '@/app/api/admin/impersonate/route';
+import { createMockRequest, createMockUser } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { createImpersonationSession, getUserFromRequest, revokeSession } from '@/lib/auth';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+const { withAuth } = jest.requireActual('@/middleware/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const endImpersonationAs = ImpersonateDELETE as unknown as (
+  request: unknown,
+  user: unknown
+) => ReturnType<typeof ImpersonateDELETE>;
+
+const admin = { userId: 'admin123', email: 'admin@example.com', role: 'admin', sid: 'admin-session', mfa: 1 };
+const impersonated = {
+  userId: '123',
+  email: 'test@example.com',
+  role: 'user',
+  sid: 'impersonation-session',
+  impersonator: { userId: admin.userId, email: admin.email },
+};
+
+const loggedEvents = () =>
+  (prisma.securityEvent.create as jest.Mock).mock.calls.map(([{ data }]) => data);
+
+describe('Impersonation Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/admin/impersonate', () => {
+    const start = (userId: string) =>
+      ImpersonatePOST(createMockRequest({ method: 'POST', body: { userId } }));
+
+    it('should issue a token for the target and log who started it', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(admin);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser());
+
+      const result = await start('123');
+      const body = await result.json();
+
+      expect(result.status).toBe(200);
+      expect(body.token).toBe('impersonation_123');
+      expect(createImpersonationSession).toHaveBeenCalledWith(
+        admin,
+        expect.objectContaining({ id: '123', role: 'user' }),
+        expect.anything()
+      );
+      expect(loggedEvents()).toContainEqual(
+        expect.objectContaining({
+          event: 'Impersonation started',
+          userId: '123',
+          details: expect.objectContaining({ impersonatorId: admin.userId }),
+        })
+      );
+    });
+
+    it('should refuse to impersonate staff', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(admin);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser({ role: 'support' }));
+
+      const result = await start('support1');
+
+      expect(result.status).toBe(403);
+      expect(createImpersonationSession).not.toHaveBeenCalled();
+    });
+
+    it('should be limited to admins', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue({ ...admin, userId: 'support1', role: 'support' });
+
+      const result = await start('123');
+
+      expect(result.status).toBe(403);
+    });
+  });
+
+  describe('DELETE /api/admin/impersonate', () => {
+    it('should revoke the impersonation session', async () => {
+      const result = await endImpersonationAs(createMockRequest({ method: 'DELETE' }), impersonated);
+
+      expect(result.status).toBe(200);
+      expect(revokeSession).toHaveBeenCalledWith('impersonation-session');
+      expect(loggedEvents()).toContainEqual(expect.objectContaining({ event: 'Impersonation ended' }));
+    });
+
+    it('should reject ordinary sessions', async () => {
+      const result = await endImpersonationAs(createMockRequest({ method: 'DELETE' }), admin);
+
+      expect(result.status).toBe(400);
+      expect(revokeSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withAuth', () => {
+    const handler = jest.fn(async () => ({ status: 200 }));
+    const callAs = (method: string, options?: { allowImpersonation?: boolean }) => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(impersonated);
+      return withAuth(handler, options)(
+        createMockRequest({ method, url: 'http://localhost/api/bookings/booking123' })
+      );
+    };
+
+    it('should let impersonated sessions read and log each request', async () => {
+      const result = await callAs('GET');
+
+      expect(result.status).toBe(200);
+      expect(loggedEvents()).toContainEqual(
+        expect.objectContaining({
+          event: 'Impersonated request',
+          userId: '123',
+          details: expect.objectContaining({
+            impersonatorId: admin.userId,
+            method: 'GET',
+            path: '/api/bookings/booking123',
+          }),
+        })
+      );
+    });
+
+    it('should block changes by default', async () => {
+      for (const method of ['POST', 'PUT', 'DELETE']) {
+        expect((await callAs(method)).status).toBe(403);
+      }
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(loggedEvents().map((event) => event.event)).toEqual([
+        'Impersonated request blocked',
+        'Impersonated request blocked',
+        'Impersonated request blocked',
+      ]);
+    });
+
+    it('should allow changes on routes that opt in', async () => {
+      const result = await callAs('DELETE', { allowImpersonation: true });
+
+      expect(result.status).toBe(200);
+    });
+
+    it('should leave ordinary sessions alone', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(admin);
+
+      const result = await withAuth(handler)(createMockRequest({ method: 'DELETE' }));
+
+      expect(result.status).toBe(200);
+      expect(prisma.securityEvent.create).not.toHaveBeenCalled();
+    });
+  });
+});
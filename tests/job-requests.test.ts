@@ -0,0 +1,270 @@
+import { PATCH as QuotePATCH } from '@/app/api/job-requests/[id]/quotes/[quoteId]/route';
+import { createMockRequest, createMockService, mockProvider } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { sendMail } from '@/lib/mail';
+import {
+  acceptQuote,
+  createJobRequest,
+  expireJobRequests,
+  locationsMatch,
+  submitQuote,
+} from '@/lib/job-requests';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const patchAs = QuotePATCH as unknown as (request: unknown, user: unknown) => ReturnType<typeof QuotePATCH>;
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2030-01-07T12:00:00Z');
+
+const jobRequest = (overrides: Record<string, unknown> = {}) => ({
+  id: 'request1',
+  userId: '123',
+  category: 'cleaning',
+  description: 'Deep clean of a three-room flat after moving out',
+  location: 'Kreuzberg, Berlin',
+  windowStart: new Date('2030-01-08T00:00:00Z'),
+  windowEnd: new Date('2030-01-15T00:00:00Z'),
+  status: 'open' as const,
+  createdAt: now,
+  updatedAt: now,
+  user: { name: 'Customer', email: 'test@example.com' },
+  ...overrides,
+});
+
+const service = (overrides: Record<string, unknown> = {}) => ({
+  ...createMockService({ location: 'Berlin', cancellationPolicy: null, ...overrides }),
+  provider: { id: 'provider123', name: 'Provider', email: 'provider@example.com' },
+});
+
+const quote = (overrides: Record<string, unknown> = {}) => ({
+  id: 'quote1',
+  jobRequestId: 'request1',
+  providerId: 'provider123',
+  serviceId: 'service123',
+  price: 240,
+  date: new Date('2030-01-09T09:00:00Z'),
+  message: null,
+  status: 'pending' as const,
+  expiresAt: new Date(now.getTime() + 24 * HOUR),
+  respondedAt: null,
+  bookingId: null,
+  createdAt: now,
+  updatedAt: now,
+  jobRequest: jobRequest(),
+  service: service(),
+  provider: { name: 'Provider', email: 'provider@example.com' },
+  ...overrides,
+});
+
+describe('Job Request Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ timeZone: 'UTC', cancellationPolicy: 'moderate' });
+    (prisma.booking.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.quote.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.quote.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.quote.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'quote1', ...data }));
+    (prisma.booking.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      id: 'booking1',
+      status: 'pending',
+      ...data,
+    }));
+  });
+
+  describe('createJobRequest', () => {
+    it('should only tell providers with a service in the category covering the area', async () => {
+      (prisma.jobRequest.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'request1', ...data }));
+      (prisma.service.findMany as jest.Mock).mockResolvedValue([
+        service(),
+        service({ id: 'service456', providerId: 'provider456', location: 'Hamburg' }),
+      ]);
+
+      const result = await createJobRequest(
+        '123',
+        {
+          category: 'cleaning',
+          description: 'Deep clean of a three-room flat after moving out',
+          location: 'Kreuzberg, Berlin',
+          windowStart: '2030-01-08T00:00:00Z',
+          windowEnd: '2030-01-15T00:00:00Z',
+        },
+        [],
+        now
+      );
+
+      expect(result).toEqual({ jobRequest: expect.objectContaining({ id: 'request1', category: 'cleaning' }) });
+      expect(prisma.service.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ isActive: true, category: { equals: 'cleaning', mode: 'insensitive' } }),
+        })
+      );
+      expect(sendMail).toHaveBeenCalledTimes(1);
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'provider@example.com' }));
+      expect(locationsMatch('Berlin', 'Kreuzberg, Berlin')).toBe(true);
+      expect(locationsMatch('Hamburg', 'Kreuzberg, Berlin')).toBe(false);
+      expect(locationsMatch('Brooklyn, New York', 'New York')).toBe(true);
+      // Only whole words match
+      expect(locationsMatch('Berlin', 'in')).toBe(false);
+      expect(locationsMatch('Berlin', 'e')).toBe(false);
+      expect(locationsMatch('York', 'Yorkshire')).toBe(false);
+    });
+
+    it('should reject windows that have passed or reach too far ahead', async () => {
+      const input = {
+        category: 'cleaning',
+        description: 'Deep clean of a three-room flat after moving out',
+        location: 'Berlin',
+        windowStart: '2030-01-01T00:00:00Z',
+        windowEnd: '2030-01-07T00:00:00Z',
+      };
+
+      expect(await createJobRequest('123', input, [], now)).toEqual({
+        error: 'The preferred window has already passed',
+        status: 400,
+      });
+      expect(await createJobRequest('123', { ...input, windowEnd: '2030-06-01T00:00:00Z' }, [], now)).toEqual({
+        error: 'The preferred window must end within 90 days',
+        status: 400,
+      });
+      expect(prisma.jobRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitQuote', () => {
+    it('should send a quote for a time in the window that lapses when it is due', async () => {
+      (prisma.service.findMany as jest.Mock).mockResolvedValue([service()]);
+
+      const early = await submitQuote(
+        jobRequest(),
+        'provider123',
+        { serviceId: 'service123', price: 240, date: '2030-01-15T09:00:00Z' },
+        now
+      );
+      expect(early).toEqual({
+        error: "The time must be in the customer's preferred window and in the future",
+        status: 400,
+      });
+
+      const result = await submitQuote(
+        jobRequest(),
+        'provider123',
+        { serviceId: 'service123', price: 240, date: '2030-01-08T09:00:00Z' },
+        now
+      );
+
+      expect(prisma.quote.create).toHaveBeenCalledWith({
+        data: {
+          jobRequestId: 'request1',
+          providerId: 'provider123',
+          serviceId: 'service123',
+          price: 240,
+          date: new Date('2030-01-08T09:00:00Z'),
+          message: null,
+          // The time comes before the 72 hours are up
+          expiresAt: new Date('2030-01-08T09:00:00Z'),
+        },
+      });
+      expect(result).toEqual({ quote: expect.objectContaining({ id: 'quote1' }) });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'test@example.com' }));
+    });
+  });
+
+  describe('acceptQuote', () => {
+    it('should book the quoted price and time and turn the other quotes down', async () => {
+      (prisma.jobRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.quote.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.quote.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'quote2' }]);
+
+      const result = await acceptQuote(quote(), '123', now);
+
+      expect(result).toMatchObject({ booking: { id: 'booking1' }, quote: { status: 'accepted', bookingId: 'booking1' } });
+      expect(prisma.booking.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: '123',
+          serviceId: 'service123',
+          providerId: 'provider123',
+          date: new Date('2030-01-09T09:00:00Z'),
+          totalPrice: 240,
+          cancellationPolicy: 'moderate',
+        }),
+      });
+      expect(prisma.jobRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request1', status: 'open' },
+        data: { status: 'booked' },
+      });
+      expect(prisma.quote.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['quote2'] } },
+        data: { status: 'rejected', respondedAt: now },
+      });
+    });
+
+    it('should not book when another quote was accepted first', async () => {
+      (prisma.jobRequest.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const result = await acceptQuote(quote(), '123', now);
+
+      expect(result).toEqual({ error: 'The job request is no longer open', status: 409 });
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+    });
+
+    it('should leave the request and the quote open when the time is taken', async () => {
+      (prisma.jobRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.quote.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([
+        { date: new Date('2030-01-09T09:00:00Z'), service: { duration: 60, bufferBefore: 0, bufferAfter: 0 } },
+      ]);
+
+      const result = await acceptQuote(quote(), '123', now);
+
+      expect(result).toEqual({ error: 'The time is already taken', status: 409 });
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+      expect(prisma.jobRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request1' },
+        data: { status: 'open' },
+      });
+      expect(prisma.quote.update).toHaveBeenCalledWith({
+        where: { id: 'quote1' },
+        data: { status: 'pending', respondedAt: null },
+      });
+    });
+
+    it('should only let the customer accept', async () => {
+      (prisma.quote.findFirst as jest.Mock).mockResolvedValue(quote());
+
+      const result = await patchAs(
+        createMockRequest({
+          method: 'PATCH',
+          url: 'http://localhost:3000/api/job-requests/request1/quotes/quote1',
+          body: { action: 'accept' },
+        }),
+        mockProvider
+      );
+
+      expect(result.status).toBe(403);
+      expect(prisma.quote.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'quote1', jobRequestId: 'request1' } })
+      );
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireJobRequests', () => {
+    it('should expire lapsed quotes and requests', async () => {
+      (prisma.quote.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+      (prisma.jobRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      expect(await expireJobRequests(now)).toEqual({ quotes: 2, requests: 1 });
+      expect(prisma.quote.updateMany).toHaveBeenCalledWith({
+        where: { status: 'pending', expiresAt: { lte: now } },
+        data: { status: 'expired' },
+      });
+      expect(prisma.jobRequest.updateMany).toHaveBeenCalledWith({
+        where: { status: 'open', windowEnd: { lte: now } },
+        data: { status: 'expired' },
+      });
+    });
+  });
+});
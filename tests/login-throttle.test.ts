@@ -0,0 +1,274 @@
+import { POST as LoginPOST } from '@/app/api/auth/login/route';
+import { GET as AdminUsersGET, POST as AdminUsersPOST } from '@/app/api/admin/users/route';
+import { POST as VerifyPOST } from '@/app/api/auth/2fa/verify/route';
+import { createMockRequest, createMockUser } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import redis from '@/lib/redis';
+import { getUserFromRequest, markSessionMfaVerified } from '@/lib/auth';
+import { hashToken } from '@/lib/security';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// Minimal stand-in for the Redis commands the throttle uses, with expiry
+// driven by Date.now() so tests can move the clock
+const store = new Map<string, { value: string; expiresAt: number | null }>();
+
+const live = (key: string) => {
+  const entry = store.get(key);
+  if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+    store.delete(key);
+    return undefined;
+  }
+  return entry;
+};
+
+const installRedis = () => {
+  const mock = redis as unknown as Record<string, jest.Mock>;
+  mock.get.mockImplementation(async (key: string) => live(key)?.value ?? null);
+  mock.set.mockImplementation(async (key: string, value: string, _ex: string, seconds: number) => {
+    store.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+    return 'OK';
+  });
+  mock.incr.mockImplementation(async (key: string) => {
+    const entry = live(key);
+    const value = Number(entry?.value ?? 0) + 1;
+    store.set(key, { value: String(value), expiresAt: entry?.expiresAt ?? null });
+    return value;
+  });
+  mock.expire.mockImplementation(async (key: string, seconds: number) => {
+    const entry = live(key);
+    if (entry) entry.expiresAt = Date.now() + seconds * 1000;
+    return entry ? 1 : 0;
+  });
+  mock.pttl.mockImplementation(async (key: string) => {
+    const entry = live(key);
+    if (!entry) return -2;
+    return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+  });
+  mock.del.mockImplementation(async (...keys: string[]) =>
+    keys.filter((key) => store.delete(key)).length
+  );
+};
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const verifyAs = VerifyPOST as unknown as (request: unknown, user: unknown) => ReturnType<typeof VerifyPOST>;
+
+const attemptLogin = (password: string, ip = '203.0.113.7', email = 'test@example.com') =>
+  LoginPOST(
+    createMockRequest({
+      method: 'POST',
+      body: { email, password },
+      headers: { 'x-forwarded-for': ip },
+    })
+  );
+
+describe('Login Throttling Tests', () => {
+  let now: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store.clear();
+    installRedis();
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(
+      createMockUser({ password: 'hashed_correct_password', twoFactorEnabled: false })
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should make further attempts wait after repeated failures', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await attemptLogin('wrong')).status).toBe(401);
+    }
+
+    const throttled = await attemptLogin('correct_password');
+    expect(throttled.status).toBe(429);
+    expect((await throttled.json()).retryAfter).toBe(1);
+
+    now += 1000;
+    expect((await attemptLogin('correct_password')).status).toBe(200);
+  });
+
+  it('should lock the account and record the lockout', async () => {
+    for (let i = 0; i < 10; i++) {
+      now += 60 * 1000;
+      await attemptLogin('wrong');
+    }
+
+    expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        event: 'Account locked after failed logins',
+        userId: '123',
+        ipAddress: '203.0.113.7',
+      }),
+    });
+
+    // The right password doesn't help while the lock lasts
+    const locked = await attemptLogin('correct_password', '198.51.100.1');
+    expect(locked.status).toBe(429);
+    expect((await locked.json()).error).toMatch(/temporarily locked/);
+
+    now += 15 * 60 * 1000;
+    expect((await attemptLogin('correct_password')).status).toBe(200);
+  });
+
+  it('should count attempts against unknown accounts the same way', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+    for (let i = 0; i < 3; i++) {
+      await attemptLogin('wrong', '203.0.113.7', 'nobody@example.com');
+    }
+
+    expect((await attemptLogin('wrong', '203.0.113.7', 'nobody@example.com')).status).toBe(429);
+  });
+
+  it('should block an address that fails across many accounts', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+    for (let i = 0; i < 50; i++) {
+      await attemptLogin('wrong', '203.0.113.7', `victim${i}@example.com`);
+    }
+
+    const blocked = await attemptLogin('correct_password');
+    expect(blocked.status).toBe(429);
+    expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ event: 'IP blocked after failed logins' }),
+    });
+
+    // Other addresses are unaffected
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(
+      createMockUser({ password: 'hashed_correct_password', twoFactorEnabled: false })
+    );
+    expect((await attemptLogin('correct_password', '198.51.100.1')).status).toBe(200);
+  });
+
+  it('should take the address added by the proxy, not the ones the client sent', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+    for (let i = 0; i < 50; i++) {
+      await attemptLogin('wrong', `10.0.0.${i}, 203.0.113.7`, `victim${i}@example.com`);
+    }
+
+    expect((await attemptLogin('wrong', '192.0.2.1, 203.0.113.7')).status).toBe(429);
+  });
+
+  it('should reset the account counter after a successful login', async () => {
+    await attemptLogin('wrong');
+    await attemptLogin('wrong');
+    await attemptLogin('correct_password');
+    await attemptLogin('wrong');
+
+    expect((await attemptLogin('correct_password')).status).toBe(200);
+  });
+
+  describe('admin unlock', () => {
+    const admin = { userId: 'admin123', email: 'admin@example.com', role: 'admin', mfa: 1 };
+
+    const lockAccount = async () => {
+      for (let i = 0; i < 10; i++) {
+        now += 60 * 1000;
+        await attemptLogin('wrong');
+      }
+    };
+
+    beforeEach(() => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(admin);
+    });
+
+    it('should report locked accounts and let an admin unlock them', async () => {
+      await lockAccount();
+
+      (prisma.user.findMany as jest.Mock).mockResolvedValue([
+        { id: '123', email: 'test@example.com' },
+        { id: '456', email: 'other@example.com' },
+      ]);
+      const listing = await (await AdminUsersGET(createMockRequest({ url: 'http://localhost/api/admin/users' }))).json();
+      expect(listing.users[0].lockedFor).toBe(15 * 60);
+      expect(listing.users[1].lockedFor).toBeNull();
+
+      const unlock = await AdminUsersPOST(
+        createMockRequest({ method: 'POST', body: { action: 'unlock', userId: '123' } })
+      );
+      expect(unlock.status).toBe(200);
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ event: 'Account unlocked by staff', userId: '123' }),
+      });
+
+      expect((await attemptLogin('correct_password')).status).toBe(200);
+    });
+
+    it('should reject unknown actions', async () => {
+      const result = await AdminUsersPOST(
+        createMockRequest({ method: 'POST', body: { action: 'explode', userId: '123' } })
+      );
+
+      expect(result.status).toBe(400);
+    });
+
+    it('should require the user:unlock permission', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue({ userId: '123', email: 'test@example.com', role: 'user' });
+
+      const result = await AdminUsersPOST(
+        createMockRequest({ method: 'POST', body: { action: 'unlock', userId: '123' } })
+      );
+
+      expect(result.status).toBe(403);
+    });
+  });
+
+  describe('step-up codes', () => {
+    const caller = { userId: '123', email: 'test@example.com', role: 'user', sid: 'session123' };
+
+    const attemptStepUp = (recoveryCode: string) =>
+      verifyAs(
+        createMockRequest({ method: 'POST', body: { recoveryCode }, headers: { 'x-forwarded-for': '203.0.113.7' } }),
+        caller
+      );
+
+    beforeEach(() => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(
+        createMockUser({
+          twoFactorEnabled: true,
+          twoFactorSecret: null,
+          twoFactorRecoveryCodes: [hashToken('abcd-1234')],
+          twoFactorLastUsedStep: null,
+        })
+      );
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    it('should make guesses wait and then lock them out, whatever the login counters say', async () => {
+      for (let i = 0; i < 3; i++) {
+        expect((await attemptStepUp('wrong')).status).toBe(400);
+      }
+      expect((await attemptStepUp('abcd-1234')).status).toBe(429);
+
+      for (let i = 0; i < 7; i++) {
+        now += 60 * 1000;
+        await attemptStepUp('wrong');
+      }
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          event: 'Second factor locked after failed codes',
+          userId: '123',
+          ipAddress: '203.0.113.7',
+        }),
+      });
+
+      const locked = await attemptStepUp('abcd-1234');
+      expect(locked.status).toBe(429);
+      expect((await locked.json()).error).toMatch(/temporarily locked/);
+      expect(markSessionMfaVerified).not.toHaveBeenCalled();
+      // Logins are counted separately
+      expect((await attemptLogin('correct_password')).status).toBe(200);
+
+      now += 15 * 60 * 1000;
+      expect((await attemptStepUp('abcd-1234')).status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { POST as CheckoutPOST } from '@/app/api/cart/checkout/route';
+import { POST as ConfirmPOST } from '@/app/api/payments/confirm/route';
+import { createMockBooking, createMockRequest, createMockService, mockCustomer } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getUserFromRequest } from '@/lib/auth';
+import { stripe } from '@/lib/stripe';
+import { confirmOrderPayment, createOrderPaymentIntent } from '@/lib/orders';
+import { refundBooking } from '@/lib/booking-lifecycle';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const checkoutAs = CheckoutPOST as unknown as (request: unknown, user: unknown) => ReturnType<typeof CheckoutPOST>;
+
+const checkout = () =>
+  checkoutAs(createMockRequest({ method: 'POST', url: 'http://localhost:3000/api/cart/checkout' }), mockCustomer);
+
+const cartItem = (id: string, date: string, service: Record<string, unknown> = {}) => ({
+  id,
+  userId: '123',
+  serviceId: 'service123',
+  date: new Date(date),
+  notes: null,
+  createdAt: new Date(),
+  service: createMockService(service),
+});
+
+const order = (bookings: Record<string, unknown>[], overrides: Record<string, unknown> = {}) => ({
+  id: 'order1',
+  userId: '123',
+  totalPrice: 250,
+  stripePaymentId: null,
+  paidAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+  bookings: bookings.map((booking) => createMockBooking({ orderId: 'order1', ...booking })),
+});
+
+describe('Order Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ timeZone: 'UTC', cancellationPolicy: 'moderate' });
+    (prisma.booking.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.order.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'order1', ...data }));
+    let created = 0;
+    (prisma.booking.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      id: `booking${++created}`,
+      status: 'pending',
+      ...data,
+    }));
+  });
+
+  describe('POST /api/cart/checkout', () => {
+    it('should book every item in one order due for payment together', async () => {
+      (prisma.cartItem.findMany as jest.Mock).mockResolvedValue([
+        cartItem('item1', '2030-01-07T09:00:00Z'),
+        cartItem('item2', '2030-01-07T09:00:00Z', { id: 'service456', providerId: 'provider456', price: 150 }),
+      ]);
+
+      const result = await checkout();
+      const body = await result.json();
+
+      expect(result.status).toBe(201);
+      expect(prisma.order.create).toHaveBeenCalledWith({ data: { userId: '123', totalPrice: 250 } });
+      expect(body.order.bookings).toHaveLength(2);
+      const [first, second] = (prisma.booking.create as jest.Mock).mock.calls.map(([{ data }]) => data);
+      expect(first).toMatchObject({ providerId: 'provider123', totalPrice: 100, orderId: 'order1' });
+      expect(second).toMatchObject({ providerId: 'provider456', totalPrice: 150, orderId: 'order1' });
+      expect(first.paymentDueAt).toEqual(second.paymentDueAt);
+      expect(prisma.cartItem.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['item1', 'item2'] } } });
+    });
+
+    it('should book nothing when any item can\'t be booked', async () => {
+      (prisma.cartItem.findMany as jest.Mock).mockResolvedValue([
+        cartItem('item1', '2030-01-07T09:00:00Z'),
+        cartItem('item2', '2030-01-07T09:30:00Z'),
+        cartItem('item3', '2030-01-07T09:00:00Z', { id: 'service456', providerId: 'provider456' }),
+      ]);
+      // Someone else has booked the second provider in the meantime
+      (prisma.booking.findMany as jest.Mock).mockImplementation(async ({ where }) =>
+        where.providerId === 'provider456'
+          ? [{ date: new Date('2030-01-07T09:00:00Z'), service: createMockService() }]
+          : []
+      );
+
+      const result = await checkout();
+      const body = await result.json();
+
+      expect(result.status).toBe(409);
+      expect(body.items).toEqual([
+        { id: 'item2', error: 'Overlaps another item in your cart with the same provider' },
+        { id: 'item3', error: 'The time is already taken' },
+      ]);
+      expect(prisma.order.create).not.toHaveBeenCalled();
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+      expect(prisma.cartItem.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('order payments', () => {
+    it('should take one payment for the bookings still to be paid for', async () => {
+      (stripe!.paymentIntents.create as jest.Mock).mockResolvedValue({ id: 'pi_order', client_secret: 'secret' });
+
+      const result = await createOrderPaymentIntent(
+        order([
+          { id: 'booking1', totalPrice: 100 },
+          { id: 'booking2', totalPrice: 150 },
+          { id: 'booking3', totalPrice: 80, status: 'cancelled' },
+        ]),
+        '123'
+      );
+
+      expect(result).toEqual({ clientSecret: 'secret', paymentIntentId: 'pi_order', amount: 250 });
+      expect(stripe!.paymentIntents.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 25000,
+          transfer_group: 'order_order1',
+          metadata: { orderId: 'order1', userId: '123', bookingIds: 'booking1,booking2' },
+        })
+      );
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['booking1', 'booking2'] } },
+        data: { stripePaymentId: 'pi_order' },
+      });
+    });
+
+    it('should mark the bookings paid and refund one cancelled while paying', async () => {
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({
+        id: 'pi_order',
+        status: 'succeeded',
+        metadata: { bookingIds: 'booking1,booking2' },
+      });
+
+      const result = await confirmOrderPayment(
+        order(
+          [
+            { id: 'booking1', totalPrice: 100 },
+            { id: 'booking2', totalPrice: 150, status: 'cancelled' },
+          ],
+          { stripePaymentId: 'pi_order' }
+        ),
+        'pi_order',
+        { actor: 'customer', userId: '123' }
+      );
+
+      expect(result).toMatchObject({
+        paid: [expect.objectContaining({ id: 'booking1', paymentStatus: 'paid' })],
+        refunded: [expect.objectContaining({ id: 'booking2' })],
+      });
+      expect(stripe!.refunds.create).toHaveBeenCalledTimes(1);
+      expect(stripe!.refunds.create).toHaveBeenCalledWith({ payment_intent: 'pi_order', amount: 15000 });
+      expect(prisma.order.update).toHaveBeenCalledWith({ where: { id: 'order1' }, data: { paidAt: expect.any(Date) } });
+    });
+
+    it('should leave a cancelled item paid and refundable when its refund fails', async () => {
+      (stripe!.paymentIntents.retrieve as jest.Mock).mockResolvedValue({
+        id: 'pi_order',
+        status: 'succeeded',
+        metadata: { bookingIds: 'booking2' },
+      });
+      (stripe!.refunds.create as jest.Mock).mockRejectedValueOnce(new Error('Stripe unavailable'));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await confirmOrderPayment(
+        order([{ id: 'booking2', totalPrice: 150, status: 'cancelled' }], { stripePaymentId: 'pi_order' }),
+        'pi_order',
+        { actor: 'customer', userId: '123' }
+      );
+
+      expect(result).toEqual({ paid: [], refunded: [] });
+      expect(prisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking2' },
+        data: { paymentStatus: 'paid', paidAt: expect.any(Date), refundedAt: null, refundedAmount: null },
+      });
+      consoleError.mockRestore();
+    });
+
+    it('should not confirm a payment for one booking of an order', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(mockCustomer);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(
+        createMockBooking({ orderId: 'order1', stripePaymentId: 'pi_order' })
+      );
+
+      const result = await ConfirmPOST(
+        createMockRequest({ method: 'POST', body: { bookingId: 'booking123', paymentIntentId: 'pi_order' } }) as never
+      );
+
+      expect(result.status).toBe(400);
+      expect(await result.json()).toEqual({ error: 'This booking is paid for with its order', orderId: 'order1' });
+      expect(prisma.booking.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should only refund a cancelled item its own share of the payment', async () => {
+      const booking = createMockBooking({
+        paymentStatus: 'paid',
+        stripePaymentId: 'pi_order',
+        orderId: 'order1',
+        totalPrice: 150,
+      });
+
+      await refundBooking(booking, { actor: 'provider', userId: 'provider123' });
+
+      expect(stripe!.refunds.create).toHaveBeenCalledWith({ payment_intent: 'pi_order', amount: 15000 });
+    });
+  });
+});
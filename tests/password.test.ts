@@ -0,0 +1,120 @@
+import { POST as ForgotPasswordPOST } from '@/app/api/auth/forgot-password/route';
+import { POST as ResetPasswordPOST } from '@/app/api/auth/reset-password/route';
+import { PUT as ChangePasswordPUT } from '@/app/api/auth/password/route';
+import { createMockRequest, createMockUser } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { createSession, revokeUserSessions } from '@/lib/auth';
+import { sendMail } from '@/lib/mail';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+jest.mock('@/middleware/auth');
+
+const STRONG_PASSWORD = 'N3w-Passw0rd!';
+
+describe('Password API Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should email a reset link to an existing user', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser());
+
+      const request = createMockRequest({ method: 'POST', body: { email: 'test@example.com' } });
+      const result = await ForgotPasswordPOST(request);
+
+      expect(prisma.passwordResetToken.deleteMany).toHaveBeenCalledWith({
+        where: { userId: '123', usedAt: null },
+      });
+      expect(prisma.passwordResetToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: '123', tokenHash: expect.any(String) }),
+      });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'test@example.com',
+        text: expect.stringContaining('/auth/reset-password?token='),
+      }));
+      expect(result.status).toBe(200);
+    });
+
+    it('should give the same answer for unknown emails', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const request = createMockRequest({ method: 'POST', body: { email: 'nobody@example.com' } });
+      const result = await ForgotPasswordPOST(request);
+
+      expect(sendMail).not.toHaveBeenCalled();
+      expect(result.status).toBe(200);
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    it('should reject weak passwords', async () => {
+      const request = createMockRequest({ method: 'POST', body: { token: 'reset', password: 'password' } });
+      const result = await ResetPasswordPOST(request);
+
+      expect(result.status).toBe(400);
+      expect(prisma.passwordResetToken.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens that were already used or expired', async () => {
+      (prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValue({ id: 'reset123', userId: '123' });
+      (prisma.passwordResetToken.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const request = createMockRequest({ method: 'POST', body: { token: 'reset', password: STRONG_PASSWORD } });
+      const result = await ResetPasswordPOST(request);
+
+      expect(result.status).toBe(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should update the password and revoke sessions', async () => {
+      (prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValue({ id: 'reset123', userId: '123' });
+      (prisma.passwordResetToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const request = createMockRequest({ method: 'POST', body: { token: 'reset', password: STRONG_PASSWORD } });
+      const result = await ResetPasswordPOST(request);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: '123' },
+        data: { password: `hashed_${STRONG_PASSWORD}` },
+      });
+      expect(revokeUserSessions).toHaveBeenCalledWith('123');
+      expect(result.status).toBe(200);
+    });
+  });
+
+  describe('PUT /api/auth/password', () => {
+    it('should require the current password', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser());
+
+      const request = createMockRequest({
+        method: 'PUT',
+        body: { currentPassword: 'wrong_password', newPassword: STRONG_PASSWORD },
+      });
+      const result = await ChangePasswordPUT(request);
+
+      expect(result.status).toBe(400);
+      expect(await result.json()).toEqual({ error: 'Current password is incorrect' });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should change the password and issue a new session', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser());
+
+      const request = createMockRequest({
+        method: 'PUT',
+        body: { currentPassword: 'correct_password', newPassword: STRONG_PASSWORD },
+      });
+      const result = await ChangePasswordPUT(request);
+
+      expect(revokeUserSessions).toHaveBeenCalledWith('123');
+      expect(createSession).toHaveBeenCalled();
+      expect(await result.json()).toEqual({
+        message: 'Password changed successfully',
+        token: 'token_123_test@example.com',
+        refreshToken: 'refresh_123',
+      });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { PUT as BookingPUT } from '@/app/api/bookings/[id]/route';
+import { POST as AdminPaymentsPOST } from '@/app/api/admin/payments/route';
+import { GET as AdminUsersGET, PATCH as AdminUsersPATCH } from '@/app/api/admin/users/route';
+import { createMockRequest, createMockBooking } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getUserFromRequest, revokeUserSessions } from '@/lib/auth';
+import { PERMISSIONS, ROLE_PERMISSIONS, hasPermission } from '@/lib/permissions';
+import { checkSecondFactor } from '@/middleware/auth';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const putBookingAs = BookingPUT as unknown as (
+  request: unknown,
+  user: unknown
+) => ReturnType<typeof BookingPUT>;
+
+const support = { userId: 'support1', email: 'support@example.com', role: 'support', mfa: 1 };
+const finance = { userId: 'finance1', email: 'finance@example.com', role: 'finance', mfa: 1 };
+const admin = { userId: 'admin123', email: 'admin@example.com', role: 'admin', mfa: 1 };
+
+describe('Permission Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('registry', () => {
+    it('should grant admins every permission', () => {
+      for (const permission of Object.keys(PERMISSIONS)) {
+        expect(hasPermission('admin', permission as keyof typeof PERMISSIONS)).toBe(true);
+      }
+    });
+
+    it('should only map roles to registered permissions', () => {
+      for (const permissions of Object.values(ROLE_PERMISSIONS)) {
+        for (const permission of permissions) {
+          expect(PERMISSIONS).toHaveProperty([permission]);
+        }
+      }
+    });
+
+    it('should deny unknown roles', () => {
+      expect(hasPermission('superuser', 'user:read')).toBe(false);
+    });
+
+    it('should keep refunds with finance and user management with support', () => {
+      expect(hasPermission('finance', 'booking:refund')).toBe(true);
+      expect(hasPermission('support', 'booking:refund')).toBe(false);
+      expect(hasPermission('support', 'user:unlock')).toBe(true);
+      expect(hasPermission('finance', 'user:read')).toBe(false);
+    });
+  });
+
+  describe('withPermission', () => {
+    const { withPermission } = jest.requireActual('@/middleware/auth');
+    const handler = jest.fn(async () => ({ status: 200 }));
+
+    it('should reject callers without a valid token', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(null);
+
+      const result = await withPermission('user:read')(handler)(createMockRequest());
+
+      expect(result.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject roles lacking the permission', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(finance);
+
+      const result = await withPermission('user:read')(handler)(createMockRequest());
+
+      expect(result.status).toBe(403);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should require staff to have completed a second factor', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue({ ...support, mfa: undefined });
+
+      const result = await withPermission('user:read')(handler)(createMockRequest());
+
+      expect(result.status).toBe(403);
+      expect((await result.json()).twoFactorSetupRequired).toBe(true);
+    });
+
+    it('should pass the caller to the handler', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(support);
+      const request = createMockRequest();
+
+      await withPermission('user:read')(handler)(request);
+
+      expect(handler).toHaveBeenCalledWith(request, support);
+    });
+  });
+
+  describe('staff roles on existing endpoints', () => {
+    it('should let support list users', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(support);
+
+      const result = await AdminUsersGET(createMockRequest({ url: 'http://localhost/api/admin/users' }));
+
+      expect(result.status).toBe(200);
+    });
+
+    it('should only let admins change the listed account fields', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue({ ...admin, mfa: Math.floor(Date.now() / 1000) });
+      const patch = (updates: Record<string, unknown>) =>
+        AdminUsersPATCH(createMockRequest({ method: 'PATCH', url: 'http://localhost/api/admin/users', body: { userId: '123', updates } }));
+
+      expect((await patch({ twoFactorEnabled: false })).status).toBe(400);
+      expect((await patch({ deletedAt: null })).status).toBe(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+
+      (prisma.user.update as jest.Mock).mockResolvedValue({ id: '123', role: 'provider' });
+      expect((await patch({ role: 'provider' })).status).toBe(200);
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({ data: { role: 'provider' } }));
+      expect(revokeUserSessions).toHaveBeenCalledWith('123');
+    });
+
+    it('should require a fresh second factor to change a role', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(admin);
+      (checkSecondFactor as jest.Mock).mockImplementationOnce(jest.requireActual('@/middleware/auth').checkSecondFactor);
+      const patch = (updates: Record<string, unknown>) =>
+        AdminUsersPATCH(createMockRequest({ method: 'PATCH', url: 'http://localhost/api/admin/users', body: { userId: '123', updates } }));
+
+      const roleChange = await patch({ role: 'admin' });
+
+      expect(roleChange.status).toBe(403);
+      expect((await roleChange.json()).stepUpRequired).toBe(true);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+
+      (prisma.user.update as jest.Mock).mockResolvedValue({ id: '123', name: 'Renamed' });
+      expect((await patch({ name: 'Renamed' })).status).toBe(200);
+    });
+
+    it('should let support change the status of a booking they are not part of', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockBooking());
+      (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const request = createMockRequest({
+        method: 'PUT',
+        url: 'http://localhost/api/bookings/booking123',
+        body: { status: 'cancelled' },
+      });
+      const result = await putBookingAs(request, support);
+
+      expect(result.status).toBe(200);
+    });
+
+    it('should keep finance out of other bookings', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockBooking());
+
+      const request = createMockRequest({
+        method: 'PUT',
+        url: 'http://localhost/api/bookings/booking123',
+        body: { status: 'cancelled' },
+      });
+      const result = await putBookingAs(request, finance);
+
+      expect(result.status).toBe(403);
+    });
+
+    it('should not let the provider reopen their booking', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockBooking());
+      const provider = { userId: 'provider123', email: 'provider@example.com', role: 'provider' };
+
+      const reopen = await putBookingAs(
+        createMockRequest({ method: 'PUT', url: 'http://localhost/api/bookings/booking123', body: { status: 'pending' } }),
+        provider
+      );
+      expect(reopen.status).toBe(400);
+    });
+
+    it('should let finance mark payments but not support', async () => {
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockBooking());
+      (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      const request = () =>
+        createMockRequest({ method: 'POST', body: { action: 'mark_paid', bookingId: 'booking123' } });
+
+      (getUserFromRequest as jest.Mock).mockResolvedValue(finance);
+      expect((await AdminPaymentsPOST(request())).status).toBe(200);
+
+      (getUserFromRequest as jest.Mock).mockResolvedValue(support);
+      expect((await AdminPaymentsPOST(request())).status).toBe(403);
+    });
+  });
+});
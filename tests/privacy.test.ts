@@ -0,0 +1,155 @@
+import { GET as ExportGET } from '@/app/api/auth/profile/export/route';
+import { POST as DeletionPOST } from '@/app/api/auth/profile/deletion/route';
+import { createMockBooking, createMockRequest, createMockUser } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import redis from '@/lib/redis';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const exportAs = ExportGET as unknown as (
+  request: unknown,
+  user: unknown
+) => ReturnType<typeof ExportGET>;
+const deleteAs = DeletionPOST as unknown as (
+  request: unknown,
+  user: unknown
+) => ReturnType<typeof DeletionPOST>;
+
+const caller = { userId: '123', email: 'test@example.com', role: 'user', sid: 'session123' };
+
+const noActiveItems = {
+  bookingsAsUser: [],
+  bookingsAsProvider: [],
+  providedServices: [],
+};
+
+describe('Privacy Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/auth/profile/export', () => {
+    it('should return the user data as a JSON download', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(
+        createMockUser({ password: undefined })
+      );
+      (prisma.booking.findMany as jest.Mock).mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.userId
+            ? [createMockBooking({ paymentStatus: 'paid', stripePaymentId: 'pi_123' })]
+            : []
+        )
+      );
+
+      const result = await exportAs(createMockRequest(), caller);
+      const body = await result.json();
+
+      expect(result.status).toBe(200);
+      expect(result.headers.get('Content-Disposition')).toMatch(/^attachment; filename=/);
+      expect(body.profile.email).toBe('test@example.com');
+      expect(body.profile.password).toBeUndefined();
+      expect(body.bookings).toHaveLength(1);
+      expect(body.payments).toEqual([
+        expect.objectContaining({ status: 'paid', stripePaymentId: 'pi_123' }),
+      ]);
+      expect(prisma.user.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          select: expect.not.objectContaining({ password: true }),
+        })
+      );
+    });
+
+    it('should not export while impersonating', async () => {
+      const result = await exportAs(createMockRequest(), {
+        ...caller,
+        impersonator: { userId: 'admin123', email: 'admin@example.com' },
+      });
+
+      expect(result.status).toBe(403);
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/auth/profile/deletion', () => {
+    const requestDeletion = (body: object) =>
+      deleteAs(createMockRequest({ method: 'POST', body }), caller);
+
+    it('should anonymize the account and keep its bookings', async () => {
+      (prisma.user.findUnique as jest.Mock)
+        .mockResolvedValueOnce(createMockUser())
+        .mockResolvedValueOnce({ ...createMockUser(), ...noActiveItems });
+
+      const result = await requestDeletion({ password: 'password' });
+
+      expect(result.status).toBe(200);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: '123' },
+        data: expect.objectContaining({
+          name: 'Deleted user',
+          email: 'deleted-123@deleted.invalid',
+          phone: null,
+          address: null,
+          deletedAt: expect.any(Date),
+        }),
+      });
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { userId: '123' },
+        data: { notes: null, stripeCustomerId: null },
+      });
+      expect(prisma.session.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: '123', revokedAt: null } })
+      );
+      expect(redis.del).toHaveBeenCalledWith('123');
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+      expect(prisma.booking.delete).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wrong password', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser());
+
+      const result = await requestDeletion({ password: 'wrong' });
+
+      expect(result.status).toBe(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor when 2FA is enabled', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(
+        createMockUser({ twoFactorEnabled: true, twoFactorSecret: 'secret' })
+      );
+
+      const result = await requestDeletion({ password: 'password' });
+
+      expect(result.status).toBe(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse while bookings are still open', async () => {
+      (prisma.user.findUnique as jest.Mock)
+        .mockResolvedValueOnce(createMockUser())
+        .mockResolvedValueOnce({
+          ...createMockUser(),
+          ...noActiveItems,
+          bookingsAsUser: [createMockBooking({ status: 'confirmed' })],
+        });
+
+      const result = await requestDeletion({ password: 'password' });
+      const body = await result.json();
+
+      expect(result.status).toBe(400);
+      expect(body.details.activeUserBookings).toBe(1);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave staff accounts to administrators', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser({ role: 'support' }));
+
+      const result = await requestDeletion({ password: 'password' });
+
+      expect(result.status).toBe(403);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
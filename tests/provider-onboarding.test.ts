@@ -0,0 +1,284 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { POST as UploadPOST } from '@/app/api/provider-application/documents/route';
+import { POST as SubmitPOST } from '@/app/api/provider-application/submit/route';
+import { PATCH as ReviewPATCH } from '@/app/api/admin/provider-applications/route';
+import { createMockRequest, createMockUser } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { getUserFromRequest } from '@/lib/auth';
+import { sendMail } from '@/lib/mail';
+import { LocalDiskStorage, StorageAdapter, setStorageAdapter } from '@/lib/storage';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+const { withApprovedProvider } = jest.requireActual('@/middleware/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const uploadAs = UploadPOST as unknown as (
+  request: unknown,
+  user: unknown
+) => ReturnType<typeof UploadPOST>;
+const submitAs = SubmitPOST as unknown as (
+  request: unknown,
+  user: unknown
+) => ReturnType<typeof SubmitPOST>;
+
+const provider = { userId: 'provider123', email: 'provider@example.com', role: 'provider', sid: 's1' };
+const reviewer = { userId: 'support1', email: 'support@example.com', role: 'support', mfa: 1 };
+
+const application = (overrides: Record<string, unknown> = {}) => ({
+  id: 'application1',
+  userId: provider.userId,
+  status: 'applied',
+  rejectionReason: null,
+  documents: [],
+  ...overrides,
+});
+
+const allDocuments = ['identity', 'license', 'insurance'].map((type) => ({
+  id: `document-${type}`,
+  type,
+  fileName: `${type}.pdf`,
+}));
+
+const pdf = (size = 1024) => ({
+  name: 'license.pdf',
+  type: 'application/pdf',
+  size,
+  arrayBuffer: async () => new ArrayBuffer(size),
+});
+
+describe('Provider Onboarding Tests', () => {
+  const stored = new Map<string, Buffer>();
+  const memoryStorage: StorageAdapter = {
+    put: async (key, data) => {
+      stored.set(key, data);
+    },
+    get: async (key) => stored.get(key) ?? null,
+    delete: async (key) => {
+      stored.delete(key);
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored.clear();
+    setStorageAdapter(memoryStorage);
+  });
+
+  afterAll(() => {
+    setStorageAdapter(null);
+  });
+
+  describe('POST /api/provider-application/documents', () => {
+    const upload = (formData: Record<string, unknown>) =>
+      uploadAs(createMockRequest({ method: 'POST', formData }), provider);
+
+    it('should store the file and record the document', async () => {
+      (prisma.providerApplication.upsert as jest.Mock).mockResolvedValue(application());
+      (prisma.providerDocument.upsert as jest.Mock).mockResolvedValue({ id: 'document1', type: 'license' });
+
+      const result = await upload({ type: 'license', file: pdf() });
+
+      expect(result.status).toBe(201);
+      expect(stored.size).toBe(1);
+      const [storageKey] = stored.keys();
+      expect(storageKey).toMatch(/^provider-documents\/application1\/license-/);
+      expect(prisma.providerDocument.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { applicationId_type: { applicationId: 'application1', type: 'license' } },
+          create: expect.objectContaining({ storageKey, size: 1024 }),
+        })
+      );
+    });
+
+    it('should replace the earlier file of the same type', async () => {
+      stored.set('provider-documents/application1/license-old', Buffer.from('old'));
+      (prisma.providerApplication.upsert as jest.Mock).mockResolvedValue(application());
+      (prisma.providerDocument.findUnique as jest.Mock).mockResolvedValue({
+        storageKey: 'provider-documents/application1/license-old',
+      });
+
+      await upload({ type: 'license', file: pdf() });
+
+      expect(stored.has('provider-documents/application1/license-old')).toBe(false);
+      expect(stored.size).toBe(1);
+    });
+
+    it('should reject unknown types and file formats', async () => {
+      const badType = await upload({ type: 'passport', file: pdf() });
+      const badFormat = await upload({
+        type: 'license',
+        file: { ...pdf(), name: 'license.exe', type: 'application/octet-stream' },
+      });
+
+      expect(badType.status).toBe(400);
+      expect(badFormat.status).toBe(400);
+      expect(stored.size).toBe(0);
+    });
+
+    it('should freeze documents while the application is under review', async () => {
+      (prisma.providerApplication.upsert as jest.Mock).mockResolvedValue(
+        application({ status: 'under_review' })
+      );
+
+      const result = await upload({ type: 'license', file: pdf() });
+
+      expect(result.status).toBe(409);
+      expect(stored.size).toBe(0);
+    });
+
+    it('should only accept uploads from providers', async () => {
+      const result = await uploadAs(
+        createMockRequest({ method: 'POST', formData: { type: 'license', file: pdf() } }),
+        { ...provider, role: 'user' }
+      );
+
+      expect(result.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/provider-application/submit', () => {
+    const submit = () => submitAs(createMockRequest({ method: 'POST' }), provider);
+
+    it('should require every document type', async () => {
+      (prisma.providerApplication.upsert as jest.Mock).mockResolvedValue(
+        application({ documents: allDocuments.slice(0, 2) })
+      );
+
+      const result = await submit();
+      const body = await result.json();
+
+      expect(result.status).toBe(400);
+      expect(body.missingDocuments).toEqual(['insurance']);
+      expect(prisma.providerApplication.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should hand in a complete application, also after a rejection', async () => {
+      (prisma.providerApplication.upsert as jest.Mock).mockResolvedValue(
+        application({ status: 'rejected', documents: allDocuments })
+      );
+      (prisma.providerApplication.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const result = await submit();
+
+      expect(result.status).toBe(200);
+      expect(prisma.providerApplication.updateMany).toHaveBeenCalledWith({
+        where: { id: 'application1', status: 'rejected' },
+        data: expect.objectContaining({
+          status: 'documents_submitted',
+          rejectionReason: null,
+        }),
+      });
+    });
+
+    it('should not resubmit an approved application', async () => {
+      (prisma.providerApplication.upsert as jest.Mock).mockResolvedValue(
+        application({ status: 'approved', documents: allDocuments })
+      );
+
+      const result = await submit();
+
+      expect(result.status).toBe(409);
+    });
+  });
+
+  describe('PATCH /api/admin/provider-applications', () => {
+    const review = (body: Record<string, unknown>) =>
+      ReviewPATCH(createMockRequest({ method: 'PATCH', body }));
+
+    beforeEach(() => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(reviewer);
+      (prisma.providerApplication.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    it('should approve an application under review and tell the provider', async () => {
+      (prisma.providerApplication.findUnique as jest.Mock).mockResolvedValue({
+        ...application({ status: 'under_review' }),
+        user: createMockUser({ id: provider.userId, email: provider.email }),
+      });
+
+      const result = await review({ applicationId: 'application1', action: 'approve' });
+
+      expect(result.status).toBe(200);
+      expect(prisma.providerApplication.updateMany).toHaveBeenCalledWith({
+        where: { id: 'application1', status: 'under_review' },
+        data: expect.objectContaining({ status: 'approved', reviewedById: reviewer.userId }),
+      });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: provider.email }));
+    });
+
+    it('should require a reason to reject', async () => {
+      const result = await review({ applicationId: 'application1', action: 'reject' });
+
+      expect(result.status).toBe(400);
+      expect(prisma.providerApplication.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not decide an application nobody has started reviewing', async () => {
+      (prisma.providerApplication.findUnique as jest.Mock).mockResolvedValue({
+        ...application({ status: 'documents_submitted' }),
+        user: createMockUser(),
+      });
+
+      const result = await review({ applicationId: 'application1', action: 'approve' });
+
+      expect(result.status).toBe(409);
+      expect(prisma.providerApplication.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep the queue away from customers and providers', async () => {
+      (getUserFromRequest as jest.Mock).mockResolvedValue(provider);
+
+      const result = await review({ applicationId: 'application1', action: 'approve' });
+
+      expect(result.status).toBe(403);
+    });
+  });
+
+  describe('withApprovedProvider', () => {
+    const handler = jest.fn(async () => ({ status: 201 }));
+    const call = (user: Record<string, unknown>) =>
+      withApprovedProvider(handler)(createMockRequest({ method: 'POST' }), user);
+
+    it('should block providers until they are approved', async () => {
+      (prisma.providerApplication.findUnique as jest.Mock).mockResolvedValue({ status: 'under_review' });
+
+      const result = await call(provider);
+
+      expect(result.status).toBe(403);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should let approved providers and admins through', async () => {
+      (prisma.providerApplication.findUnique as jest.Mock).mockResolvedValue({ status: 'approved' });
+
+      await call(provider);
+      await call({ userId: 'admin123', email: 'admin@example.com', role: 'admin' });
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(prisma.providerApplication.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('LocalDiskStorage', () => {
+    it('should round-trip files and refuse keys outside its directory', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+      const storage: StorageAdapter = new LocalDiskStorage(directory);
+
+      try {
+        await storage.put('provider-documents/a/license-1', Buffer.from('pdf'), 'application/pdf');
+        expect((await storage.get('provider-documents/a/license-1'))?.toString()).toBe('pdf');
+
+        await storage.delete('provider-documents/a/license-1');
+        expect(await storage.get('provider-documents/a/license-1')).toBeNull();
+
+        await expect(storage.get('../outside')).rejects.toThrow('Invalid storage key');
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -1,7 +1,6 @@
 import { GET as ServicesGET, POST as ServicesPOST } from '@/app/api/services/route';
 import { createMockRequest, createMockResponse, createMockService, createMockUser } from './test-utils';
 import { prisma } from '@/lib/prisma';
-import { withRole } from '@/middleware/auth';
 import { recommendServices } from '@/lib/ai';
 
 jest.mock('@/lib/prisma');
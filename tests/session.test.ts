@@ -0,0 +1,193 @@
+import { POST as RefreshPOST } from '@/app/api/auth/refresh/route';
+import { POST as LogoutPOST } from '@/app/api/auth/logout/route';
+import { createMockRequest } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { hashToken } from '@/lib/security';
+import { rotateRefreshToken, revokeSession, revokeUserSessions } from '@/lib/auth';
+
+jest.mock('@/lib/auth');
+jest.mock('@/middleware/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+const logoutAs = LogoutPOST as unknown as (request: unknown, user: unknown) => ReturnType<typeof LogoutPOST>;
+
+// The routes above get the mock; rotation itself is tested for real
+const actualAuth = jest.requireActual<typeof import('@/lib/auth')>('@/lib/auth');
+
+describe('Session API Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should issue a new token pair for a valid refresh token', async () => {
+      (rotateRefreshToken as jest.Mock).mockResolvedValue({
+        token: 'new_access_token',
+        refreshToken: 'new_refresh_token',
+        user: { userId: '123', email: 'test@example.com', role: 'user' },
+      });
+
+      const request = createMockRequest({
+        method: 'POST',
+        body: { refreshToken: 'old_refresh_token' },
+      });
+
+      const result = await RefreshPOST(request);
+
+      expect(rotateRefreshToken).toHaveBeenCalledWith('old_refresh_token');
+      expect(result.status).toBe(200);
+      expect(await result.json()).toEqual({
+        message: 'Token refreshed successfully',
+        token: 'new_access_token',
+        refreshToken: 'new_refresh_token',
+      });
+    });
+
+    it('should return 400 when the refresh token is missing', async () => {
+      const request = createMockRequest({ method: 'POST', body: {} });
+
+      const result = await RefreshPOST(request);
+
+      expect(result.status).toBe(400);
+      expect(rotateRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for a revoked or reused refresh token', async () => {
+      (rotateRefreshToken as jest.Mock).mockResolvedValue(null);
+
+      const request = createMockRequest({
+        method: 'POST',
+        body: { refreshToken: 'reused_refresh_token' },
+      });
+
+      const result = await RefreshPOST(request);
+
+      expect(result.status).toBe(401);
+      expect(await result.json()).toEqual({
+        error: 'Invalid or expired refresh token',
+      });
+    });
+  });
+
+  describe('cookie sessions', () => {
+    it('should refresh from the cookie without exposing the new tokens', async () => {
+      (rotateRefreshToken as jest.Mock).mockResolvedValue({
+        token: 'new_access_token',
+        refreshToken: 'new_refresh_token',
+        user: { userId: '123', email: 'test@example.com', role: 'user' },
+      });
+
+      const request = createMockRequest({
+        method: 'POST',
+        body: {},
+        cookies: { refreshToken: 'cookie_refresh_token' },
+      });
+
+      const result = await RefreshPOST(request);
+
+      expect(rotateRefreshToken).toHaveBeenCalledWith('cookie_refresh_token');
+      expect(await result.json()).toEqual({ message: 'Token refreshed successfully' });
+      expect(result.cookies.set).toHaveBeenCalledWith(
+        'token',
+        'new_access_token',
+        expect.objectContaining({ httpOnly: true, sameSite: 'lax' })
+      );
+      expect(result.cookies.set).toHaveBeenCalledWith(
+        'refreshToken',
+        'new_refresh_token',
+        expect.objectContaining({ httpOnly: true, path: '/api/auth' })
+      );
+    });
+
+    it('should clear the cookies on logout', async () => {
+      const result = await LogoutPOST(createMockRequest({ method: 'POST', body: {} }));
+
+      expect(result.cookies.set).toHaveBeenCalledWith('token', '', expect.objectContaining({ maxAge: 0 }));
+      expect(result.cookies.set).toHaveBeenCalledWith('csrfToken', '', expect.objectContaining({ maxAge: 0 }));
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the current session', async () => {
+      const request = createMockRequest({ method: 'POST', body: {} });
+
+      const result = await logoutAs(request, {
+        userId: '123',
+        email: 'test@example.com',
+        role: 'user',
+        sid: 'session123',
+      });
+
+      expect(revokeSession).toHaveBeenCalledWith('session123');
+      expect(revokeUserSessions).not.toHaveBeenCalled();
+      expect(result.status).toBe(200);
+    });
+
+    it('should revoke every session when all is requested', async () => {
+      const request = createMockRequest({ method: 'POST', body: { all: true } });
+
+      const result = await LogoutPOST(request);
+
+      expect(revokeUserSessions).toHaveBeenCalledWith('123');
+      expect(await result.json()).toEqual({
+        message: 'Logged out of all sessions successfully',
+      });
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    const session = {
+      id: 'session123',
+      userId: '123',
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      mfaVerifiedAt: null,
+      user: { id: '123', email: 'test@example.com', role: 'user' },
+    };
+
+    it('should replace the refresh token and keep the old hash to spot reuse', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValueOnce(session);
+      (prisma.session.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+      const result = await actualAuth.rotateRefreshToken('old_refresh_token');
+
+      expect(result).toEqual({
+        token: expect.any(String),
+        refreshToken: expect.any(String),
+        user: { userId: '123', email: 'test@example.com', role: 'user' },
+      });
+      expect(result!.refreshToken).not.toBe('old_refresh_token');
+      expect(prisma.session.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { refreshTokenHash: hashToken('old_refresh_token') } })
+      );
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session123', refreshTokenHash: hashToken('old_refresh_token'), revokedAt: null },
+        data: {
+          refreshTokenHash: hashToken(result!.refreshToken),
+          previousTokenHash: hashToken('old_refresh_token'),
+          lastUsedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should revoke the session when a rotated token is presented again', async () => {
+      (prisma.session.findUnique as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...session, user: undefined });
+
+      const result = await actualAuth.rotateRefreshToken('old_refresh_token');
+
+      expect(result).toBeNull();
+      expect(prisma.session.findUnique).toHaveBeenLastCalledWith({
+        where: { previousTokenHash: hashToken('old_refresh_token') },
+      });
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session123', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ event: 'Refresh token reuse detected', userId: '123' }),
+      });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { GET as SlotsGET } from '@/app/api/services/[id]/slots/route';
+import { createMockRequest, createMockService } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { computeSlots, fromZonedTime, WeeklyAvailability } from '@/lib/availability';
+
+jest.mock('@/lib/prisma');
+
+const mornings: WeeklyAvailability = {
+  monday: [{ start: '09:00', end: '12:00' }],
+};
+
+const slotsOn = (overrides: Partial<Parameters<typeof computeSlots>[0]> = {}) =>
+  computeSlots({
+    from: '2026-01-05',
+    to: '2026-01-05',
+    weekly: mornings,
+    timeZone: 'UTC',
+    exceptions: [],
+    duration: 60,
+    bufferBefore: 0,
+    bufferAfter: 0,
+    busy: [],
+    notBefore: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  }).map((slot) => slot.toISOString().slice(11, 16));
+
+describe('Slot Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('fromZonedTime', () => {
+    it('should turn wall-clock times into instants across DST changes', () => {
+      expect(fromZonedTime('2026-01-05', 9 * 60, 'America/New_York')?.toISOString()).toBe(
+        '2026-01-05T14:00:00.000Z'
+      );
+      expect(fromZonedTime('2026-07-06', 9 * 60, 'America/New_York')?.toISOString()).toBe(
+        '2026-07-06T13:00:00.000Z'
+      );
+      // Clocks jump from 02:00 to 03:00 on 2026-03-08
+      expect(fromZonedTime('2026-03-08', 2 * 60 + 30, 'America/New_York')).toBeNull();
+    });
+  });
+
+  describe('computeSlots', () => {
+    it('should step through each range and keep the whole booking inside it', () => {
+      expect(slotsOn()).toEqual([
+        '09:00', '09:15', '09:30', '09:45', '10:00', '10:15', '10:30', '10:45', '11:00',
+      ]);
+      expect(slotsOn({ from: '2026-01-06', to: '2026-01-06' })).toEqual([]);
+    });
+
+    it('should leave out busy time including the buffers of both bookings', () => {
+      const busy = [
+        { start: new Date('2026-01-05T10:00:00Z'), end: new Date('2026-01-05T10:30:00Z') },
+      ];
+
+      expect(slotsOn({ busy })).toEqual(['09:00', '10:30', '10:45', '11:00']);
+      expect(slotsOn({ busy, bufferBefore: 15, bufferAfter: 15 })).toEqual(['10:45', '11:00']);
+    });
+
+    it('should not offer times that have passed', () => {
+      expect(slotsOn({ notBefore: new Date('2026-01-05T10:40:00Z') })).toEqual(['10:45', '11:00']);
+    });
+  });
+
+  describe('GET /api/services/[id]/slots', () => {
+    const get = (query: string) =>
+      SlotsGET(createMockRequest({ url: `http://localhost:3000/api/services/service123/slots${query}` }));
+
+    beforeEach(() => {
+      (prisma.service.findUnique as jest.Mock).mockResolvedValue(
+        createMockService({
+          availability: mornings,
+          bufferBefore: 0,
+          bufferAfter: 30,
+          provider: { timeZone: 'Europe/Berlin' },
+        })
+      );
+      (prisma.availabilityException.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.externalBusyBlock.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should return free start times around the provider\'s other bookings', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      // A 90-minute booking on another service from 09:00 Berlin time
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([
+        {
+          date: new Date('2026-01-05T08:00:00Z'),
+          service: { duration: 90, bufferBefore: 0, bufferAfter: 0 },
+        },
+      ]);
+
+      try {
+        const result = await get('?from=2026-01-05&to=2026-01-11');
+        const body = await result.json();
+
+        expect(result.status).toBe(200);
+        expect(body.timeZone).toBe('Europe/Berlin');
+        expect(body.slots).toEqual([
+          '2026-01-05T09:30:00.000Z',
+          '2026-01-05T09:45:00.000Z',
+          '2026-01-05T10:00:00.000Z',
+        ]);
+        expect(body.taken).toEqual([
+          '2026-01-05T08:00:00.000Z',
+          '2026-01-05T08:15:00.000Z',
+          '2026-01-05T08:30:00.000Z',
+          '2026-01-05T08:45:00.000Z',
+          '2026-01-05T09:00:00.000Z',
+          '2026-01-05T09:15:00.000Z',
+        ]);
+        expect(prisma.booking.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: expect.objectContaining({
+              providerId: 'provider123',
+              status: { in: ['pending', 'confirmed', 'in_progress'] },
+            }),
+          })
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should leave out times imported calendars have the provider busy', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      (prisma.externalBusyBlock.findMany as jest.Mock).mockResolvedValue([
+        { start: new Date('2026-01-05T08:00:00Z'), end: new Date('2026-01-05T09:30:00Z') },
+      ]);
+
+      try {
+        const body = await (await get('?from=2026-01-05&to=2026-01-05')).json();
+
+        // Imported busy times have no buffers; the service's own still apply
+        expect(body.slots).toEqual([
+          '2026-01-05T09:30:00.000Z',
+          '2026-01-05T09:45:00.000Z',
+          '2026-01-05T10:00:00.000Z',
+        ]);
+        expect(prisma.externalBusyBlock.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({ where: expect.objectContaining({ providerId: 'provider123' }) })
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject invalid and overly long ranges', async () => {
+      expect((await get('?from=tomorrow')).status).toBe(400);
+      expect((await get('?from=2026-01-10&to=2026-01-05')).status).toBe(400);
+      expect((await get('?from=2026-01-01&to=2026-03-01')).status).toBe(400);
+    });
+
+    it('should return 404 for inactive services', async () => {
+      (prisma.service.findUnique as jest.Mock).mockResolvedValue(createMockService({ isActive: false }));
+
+      expect((await get('')).status).toBe(404);
+    });
+  });
+});
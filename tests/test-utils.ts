@@ -22,8 +22,16 @@ export const createMockService = (overrides: any = {}) => ({
   category: 'cleaning',
   price: 100,
   duration: 60,
+  bufferBefore: 0,
+  bufferAfter: 0,
   location: 'Test Location',
-  availability: 'Test availability',
+  // Open around the clock so bookings at any time pass the schedule check
+  availability: Object.fromEntries(
+    ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'].map((day) => [
+      day,
+      [{ start: '00:00', end: '24:00' }],
+    ])
+  ),
   tags: ['test', 'service'],
   rating: 4.5,
   reviewCount: 10,
@@ -44,11 +52,21 @@ export const createMockBooking = (overrides: any = {}) => ({
   notes: 'Test booking notes',
   totalPrice: 100,
   paymentStatus: 'pending',
+  cancellationPolicy: 'flexible',
   createdAt: new Date(),
   updatedAt: new Date(),
   ...overrides,
 });
 
+// Unpaid and still to come, the state most booking changes start from
+export const createMockPendingBooking = (overrides: Record<string, unknown> = {}) =>
+  createMockBooking({
+    date: new Date('2030-01-10T10:00:00Z'),
+    paymentStatus: 'pending',
+    stripePaymentId: null,
+    ...overrides,
+  });
+
 export const createMockReview = (overrides: any = {}) => ({
   id: 'review123',
   bookingId: 'booking123',
@@ -72,14 +90,22 @@ export const createMockPayment = (overrides: any = {}) => ({
   ...overrides,
 });
 
+// Callers as withAuth hands them to route handlers
+export const mockCustomer = { userId: '123', email: 'test@example.com', role: 'user' };
+export const mockProvider = { userId: 'provider123', email: 'provider@example.com', role: 'provider' };
+export const mockAdmin = { userId: 'admin123', email: 'admin@example.com', role: 'admin', mfa: Math.floor(Date.now() / 1000) };
+
 // Mock request/response helpers
 export const createMockRequest = (options: any = {}) => {
-  const { method = 'GET', url = '/', body = null, headers = {} as Record<string, string>, user = null } = options;
+  const { method = 'GET', url = '/', body = null, headers = {} as Record<string, string>, cookies = {} as Record<string, string>, formData = null, user = null } = options;
   
   const mockRequest: any = {
     method,
     url,
     headers: new Map<string, string>(Object.entries(headers)),
+    cookies: {
+      get: (name: string) => (name in cookies ? { name, value: cookies[name] } : undefined),
+    },
     json: jest.fn(),
   };
 
@@ -96,6 +122,11 @@ export const createMockRequest = (options: any = {}) => {
     (mockRequest.json as any).mockResolvedValue(body);
   }
 
+  // Mock multipart parsing; pass an object of field values
+  if (formData) {
+    mockRequest.formData = jest.fn(async () => new Map<string, unknown>(Object.entries(formData)));
+  }
+
   return mockRequest;
 };
 
@@ -0,0 +1,162 @@
+import { POST as LoginPOST } from '@/app/api/auth/login/route';
+import { createMockRequest, createMockUser } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { createSession } from '@/lib/auth';
+import redis from '@/lib/redis';
+import { base32Encode, generateTotp, getTimeStep, verifyTotp } from '@/lib/totp';
+import { consumeRecoveryCode, hasRecentSecondFactor, startTwoFactorEnrollment } from '@/lib/mfa';
+import { hashToken } from '@/lib/security';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// RFC 6238 appendix B uses this ASCII seed for its SHA-1 vectors
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('Two-Factor Authentication Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('TOTP', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, getTimeStep(59 * 1000))).toBe('287082');
+      expect(generateTotp(RFC_SECRET, getTimeStep(1111111109 * 1000))).toBe('081804');
+      expect(generateTotp(RFC_SECRET, getTimeStep(1234567890 * 1000))).toBe('005924');
+    });
+
+    it('should accept one step of clock drift and report the matched step', () => {
+      const timestamp = 1234567890 * 1000;
+      const previousCode = generateTotp(RFC_SECRET, getTimeStep(timestamp) - 1);
+
+      expect(verifyTotp(RFC_SECRET, previousCode, { timestamp })).toBe(getTimeStep(timestamp) - 1);
+      expect(verifyTotp(RFC_SECRET, previousCode, { timestamp: timestamp + 60 * 1000 })).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    });
+  });
+
+  describe('hasRecentSecondFactor', () => {
+    it('should honour the maximum age', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const user = { userId: 'admin123', email: 'admin@example.com', role: 'admin', mfa: now - 600 };
+
+      expect(hasRecentSecondFactor(user)).toBe(true);
+      expect(hasRecentSecondFactor(user, 900)).toBe(true);
+      expect(hasRecentSecondFactor(user, 300)).toBe(false);
+      expect(hasRecentSecondFactor({ ...user, mfa: undefined })).toBe(false);
+    });
+  });
+
+  describe('consumeRecoveryCode', () => {
+    it('should spend a code only if the codes are unchanged since they were read', async () => {
+      const user = {
+        id: '123',
+        email: 'test@example.com',
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [hashToken('abcd-1234'), hashToken('efgh-5678')],
+        twoFactorLastUsedStep: null,
+      };
+      (prisma.user.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      expect(await consumeRecoveryCode(user, ' ABCD-1234 ')).toBe(true);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: '123', twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes } },
+        data: { twoFactorRecoveryCodes: [hashToken('efgh-5678')] },
+      });
+      // A second login spending the same code at the same time finds it gone
+      expect(await consumeRecoveryCode(user, 'abcd-1234')).toBe(false);
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    const enrollUser = async () => {
+      const { secret } = await startTwoFactorEnrollment({ id: '123', email: 'test@example.com' });
+      const encryptedSecret = (prisma.user.update as jest.Mock).mock.calls[0][0].data.twoFactorSecret;
+      const user = createMockUser({
+        twoFactorEnabled: true,
+        twoFactorSecret: encryptedSecret,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+      });
+      return { secret, user };
+    };
+
+    it('should ask for a second factor instead of starting a session', async () => {
+      const { user } = await enrollUser();
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+      const request = createMockRequest({
+        method: 'POST',
+        body: { email: 'test@example.com', password: 'correct_password' },
+      });
+      const result = await LoginPOST(request);
+      const data = await result.json();
+
+      expect(data.twoFactorRequired).toBe(true);
+      expect(data.challengeToken).toEqual(expect.any(String));
+      expect(data.token).toBeUndefined();
+      expect(createSession).not.toHaveBeenCalled();
+      // The password alone doesn't reset the failures counted at the second step
+      expect(redis.del).not.toHaveBeenCalled();
+    });
+
+    it('should start an MFA-verified session once the code is confirmed', async () => {
+      const { secret, user } = await enrollUser();
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const passwordStep = await LoginPOST(createMockRequest({
+        method: 'POST',
+        body: { email: 'test@example.com', password: 'correct_password' },
+      }));
+      const { challengeToken } = await passwordStep.json();
+
+      const request = createMockRequest({
+        method: 'POST',
+        body: { challengeToken, code: generateTotp(secret) },
+      });
+      const result = await LoginPOST(request);
+
+      expect(result.status).toBe(200);
+      expect(createSession).toHaveBeenCalledWith(
+        { userId: '123', email: 'test@example.com', role: 'user' },
+        request,
+        { mfaVerifiedAt: expect.any(Date) },
+      );
+    });
+
+    it('should reject a wrong code', async () => {
+      const { user } = await enrollUser();
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+      const passwordStep = await LoginPOST(createMockRequest({
+        method: 'POST',
+        body: { email: 'test@example.com', password: 'correct_password' },
+      }));
+      const { challengeToken } = await passwordStep.json();
+
+      const result = await LoginPOST(createMockRequest({
+        method: 'POST',
+        body: { challengeToken, code: '000000' },
+      }));
+
+      expect(result.status).toBe(401);
+      expect(createSession).not.toHaveBeenCalled();
+    });
+
+    it('should flag admins that have not enrolled yet', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(createMockUser({ id: 'admin123', role: 'admin' }));
+
+      const result = await LoginPOST(createMockRequest({
+        method: 'POST',
+        body: { email: 'admin@example.com', password: 'correct_password' },
+      }));
+
+      expect((await result.json()).twoFactorSetupRequired).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { DELETE as BookingDELETE } from '@/app/api/bookings/[id]/route';
+import { GET as WaitlistGET, POST as WaitlistPOST } from '@/app/api/bookings/waitlist/route';
+import { POST as ClaimPOST } from '@/app/api/bookings/waitlist/[id]/claim/route';
+import { createMockBooking, createMockRequest, createMockService, mockCustomer, mockProvider } from './test-utils';
+import { prisma } from '@/lib/prisma';
+import { sendMail } from '@/lib/mail';
+import { expireWaitlistOffers } from '@/lib/waitlist';
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/auth');
+
+// The withAuth mock lets tests pass the caller straight to the handler
+type Handler = (request: unknown, user: unknown) => ReturnType<typeof WaitlistGET>;
+const getAs = WaitlistGET as unknown as Handler;
+const postAs = WaitlistPOST as unknown as Handler;
+const claimAs = ClaimPOST as unknown as Handler;
+const deleteAs = BookingDELETE as unknown as Handler;
+
+const waiting = { userId: 'waiting1', email: 'first@example.com', role: 'user' };
+
+const HOUR = 60 * 60 * 1000;
+const slot = new Date(Math.ceil((Date.now() + 3 * 24 * HOUR) / HOUR) * HOUR);
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+  id: 'entry1',
+  userId: 'waiting1',
+  serviceId: 'service123',
+  providerId: 'provider123',
+  date: slot,
+  notes: null,
+  status: 'waiting',
+  offeredAt: null,
+  offerExpiresAt: null,
+  bookingId: null,
+  createdAt: new Date('2030-01-01T00:00:00Z'),
+  updatedAt: new Date('2030-01-01T00:00:00Z'),
+  service: { name: 'Test Service', providerId: 'provider123', duration: 60, bufferBefore: 0, bufferAfter: 0 },
+  user: { name: 'First', email: 'first@example.com' },
+  ...overrides,
+});
+
+// Waiting entries come back from the queue query; offered ones hold their
+// time in the busy-time query until they expire
+const mockWaitlist = (queue: ReturnType<typeof entry>[], lapsed: ReturnType<typeof entry>[] = []) => {
+  const holds: ReturnType<typeof entry>[] = [];
+  (prisma.waitlistEntry.findMany as jest.Mock).mockImplementation(async ({ where }) => {
+    if (where.status === 'waiting') return queue;
+    if (where.offerExpiresAt?.lte) return lapsed;
+    return holds.filter((hold) => hold.id !== where.id?.not);
+  });
+  (prisma.waitlistEntry.updateMany as jest.Mock).mockImplementation(async ({ where, data }) => {
+    const queued = queue.find((item) => item.id === where.id);
+    if (data.status === 'offered' && queued) holds.push(queued);
+    return { count: 1 };
+  });
+};
+
+describe('Waitlist Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ timeZone: 'UTC', cancellationPolicy: 'moderate' });
+    (prisma.service.findUnique as jest.Mock).mockResolvedValue(createMockService());
+    (prisma.booking.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.booking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.waitlistEntry.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.waitlistEntry.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+  });
+
+  describe('POST /api/bookings/waitlist', () => {
+    const join = (body: Record<string, unknown>) =>
+      postAs(createMockRequest({ method: 'POST', url: 'http://localhost:3000/api/bookings/waitlist', body }), mockCustomer);
+
+    it('should put the customer in line for a taken time', async () => {
+      (prisma.booking.findMany as jest.Mock).mockResolvedValue([
+        { date: slot, service: { duration: 60, bufferBefore: 0, bufferAfter: 0 } },
+      ]);
+      (prisma.waitlistEntry.create as jest.Mock).mockImplementation(async ({ data }) => ({
+        id: 'entry9',
+        status: 'waiting',
+        createdAt: new Date(),
+        ...data,
+      }));
+      (prisma.waitlistEntry.count as jest.Mock).mockResolvedValue(2);
+
+      const result = await join({ serviceId: 'service123', date: slot.toISOString(), notes: 'Any time' });
+      const body = await result.json();
+
+      expect(result.status).toBe(201);
+      expect(prisma.waitlistEntry.create).toHaveBeenCalledWith({
+        data: {
+          userId: '123',
+          serviceId: 'service123',
+          providerId: 'provider123',
+          date: slot,
+          notes: 'Any time',
+        },
+      });
+      expect(body.entry.position).toBe(3);
+    });
+
+    it('should send customers to book a free time instead', async () => {
+      const result = await join({ serviceId: 'service123', date: slot.toISOString() });
+
+      expect(result.status).toBe(409);
+      expect((await result.json()).error).toBe('The time is free. Book it instead');
+      expect(prisma.waitlistEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offers', () => {
+    it('should offer a cancelled booking\'s time to the first customer in line', async () => {
+      mockWaitlist([
+        entry(),
+        // Overlaps the first entry's time, so it waits behind it
+        entry({
+          id: 'entry2',
+          date: new Date(slot.getTime() + HOUR / 2),
+          user: { name: 'Second', email: 'second@example.com' },
+        }),
+      ]);
+      (prisma.booking.findUnique as jest.Mock).mockResolvedValue(createMockBooking({ date: slot }));
+
+      const result = await deleteAs(
+        createMockRequest({ method: 'DELETE', url: 'http://localhost:3000/api/bookings/booking123' }),
+        mockCustomer
+      );
+
+      expect(result.status).toBe(200);
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenCalledWith({
+        where: { id: 'entry1', status: 'waiting' },
+        data: { status: 'offered', offeredAt: expect.any(Date), offerExpiresAt: expect.any(Date) },
+      });
+      expect(sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'first@example.com', subject: 'A time for Test Service is free' })
+      );
+      expect(sendMail).not.toHaveBeenCalledWith(expect.objectContaining({ to: 'second@example.com' }));
+    });
+
+    it('should pass a lapsed offer on to the next customer', async () => {
+      const now = new Date();
+      mockWaitlist(
+        [entry({ id: 'entry2', user: { name: 'Second', email: 'second@example.com' } })],
+        [entry({ status: 'offered', offerExpiresAt: now })]
+      );
+
+      const result = await expireWaitlistOffers(now);
+
+      expect(result).toEqual({ expired: ['entry1'], offered: ['entry2'] });
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenCalledWith({
+        where: { id: 'entry1', status: 'offered' },
+        data: { status: 'expired' },
+      });
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenCalledWith({
+        where: { status: 'waiting', date: { lte: now } },
+        data: { status: 'expired' },
+      });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'second@example.com' }));
+    });
+  });
+
+  describe('POST /api/bookings/waitlist/[id]/claim', () => {
+    const claimUrl = 'http://localhost:3000/api/bookings/waitlist/entry1/claim';
+    const offered = (overrides: Record<string, unknown> = {}) =>
+      entry({
+        status: 'offered',
+        offerExpiresAt: new Date(Date.now() + HOUR),
+        service: createMockService(),
+        ...overrides,
+      });
+
+    it('should book the offered time for the customer it is held for', async () => {
+      (prisma.waitlistEntry.findUnique as jest.Mock).mockResolvedValue(offered());
+      (prisma.waitlistEntry.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.booking.create as jest.Mock).mockImplementation(async ({ data }) => ({
+        id: 'booking9',
+        status: 'pending',
+        ...data,
+      }));
+
+      const result = await claimAs(createMockRequest({ method: 'POST', url: claimUrl }), waiting);
+
+      expect(result.status).toBe(201);
+      // The entry's own hold doesn't block the booking
+      expect(prisma.waitlistEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ id: { not: 'entry1' } }) })
+      );
+      expect(prisma.waitlistEntry.updateMany).toHaveBeenCalledWith({
+        where: { id: 'entry1', status: 'offered', offerExpiresAt: { gt: expect.any(Date) } },
+        data: { status: 'claimed' },
+      });
+      expect(prisma.booking.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'waiting1',
+          date: slot,
+          cancellationPolicy: 'moderate',
+          paymentDueAt: expect.any(Date),
+        }),
+      });
+      expect(prisma.waitlistEntry.update).toHaveBeenCalledWith({
+        where: { id: 'entry1' },
+        data: { bookingId: 'booking9' },
+      });
+    });
+
+    it('should only let the customer claim an open offer', async () => {
+      (prisma.waitlistEntry.findUnique as jest.Mock).mockResolvedValue(offered());
+      expect((await claimAs(createMockRequest({ method: 'POST', url: claimUrl }), mockCustomer)).status).toBe(403);
+
+      (prisma.waitlistEntry.findUnique as jest.Mock).mockResolvedValue(
+        offered({ offerExpiresAt: new Date(Date.now() - 1000) })
+      );
+      expect((await claimAs(createMockRequest({ method: 'POST', url: claimUrl }), waiting)).status).toBe(409);
+
+      (prisma.waitlistEntry.findUnique as jest.Mock).mockResolvedValue(offered({ status: 'waiting' }));
+      expect((await claimAs(createMockRequest({ method: 'POST', url: claimUrl }), waiting)).status).toBe(409);
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/bookings/waitlist', () => {
+    it('should show providers the line for their services', async () => {
+      const result = await getAs(createMockRequest({ url: 'http://localhost:3000/api/bookings/waitlist' }), mockProvider);
+
+      expect(result.status).toBe(200);
+      expect(prisma.waitlistEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: { in: ['waiting', 'offered'] }, providerId: 'provider123' },
+        })
+      );
+    });
+  });
+});